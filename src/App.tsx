@@ -6,7 +6,9 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { PipelineProvider } from "@/contexts/PipelineContext";
 import { AuthProvider } from "@/contexts/AuthContext";
+import { OrganizationProvider } from "@/contexts/OrganizationContext";
 import { ProtectedRoute } from "@/components/dashboard/ProtectedRoute";
+import { AUDIT_ROLES, REVIEW_ROLES } from "@/lib/organizations";
 import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
 import ProblemPage from "./pages/dashboard/ProblemPage";
@@ -28,6 +30,10 @@ import ComplianceMappingPage from "./pages/agents/ComplianceMappingPage";
 import AuditorAssistantPage from "./pages/agents/AuditorAssistantPage";
 import AutomationPage from "./pages/AutomationPage";
 import MasterAgentPage from "./pages/MasterAgentPage";
+import AuditHistoryPage from "./pages/AuditHistoryPage";
+import AuditRunDetailPage from "./pages/AuditRunDetailPage";
+import PortalManagementPage from "./pages/PortalManagementPage";
+import RemediationPage from "./pages/RemediationPage";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -38,184 +44,224 @@ const App = () => (
       <TooltipProvider>
         <BrowserRouter>
           <AuthProvider>
-            <PipelineProvider>
-              <Toaster />
-              <Sonner />
-              <Routes>
-                <Route path="/" element={<Navigate to="/auth" replace />} />
-                <Route path="/auth" element={<Auth />} />
+            <OrganizationProvider>
+              <PipelineProvider>
+                <Toaster />
+                <Sonner />
+                <Routes>
+                  <Route path="/" element={<Navigate to="/auth" replace />} />
+                  <Route path="/auth" element={<Auth />} />
 
-                {/* Dashboard Routes */}
-                <Route
-                  path="/dashboard"
-                  element={
-                    <ProtectedRoute>
-                      <Dashboard />
-                    </ProtectedRoute>
-                  }
-                />
-                <Route
-                  path="/dashboard/problem"
-                  element={
-                    <ProtectedRoute>
-                      <ProblemPage />
-                    </ProtectedRoute>
-                  }
-                />
-                <Route
-                  path="/dashboard/solution"
-                  element={
-                    <ProtectedRoute>
-                      <SolutionPage />
-                    </ProtectedRoute>
-                  }
-                />
-                <Route
-                  path="/dashboard/architecture"
-                  element={
-                    <ProtectedRoute>
-                      <ArchitecturePage />
-                    </ProtectedRoute>
-                  }
-                />
-                <Route
-                  path="/dashboard/compliance-qa"
-                  element={
-                    <ProtectedRoute>
-                      <ComplianceQAPage />
-                    </ProtectedRoute>
-                  }
-                />
-                <Route
-                  path="/dashboard/features"
-                  element={
-                    <ProtectedRoute>
-                      <FeaturesPage />
-                    </ProtectedRoute>
-                  }
-                />
-                <Route
-                  path="/dashboard/tech-stack"
-                  element={
-                    <ProtectedRoute>
-                      <TechStackPage />
-                    </ProtectedRoute>
-                  }
-                />
-                <Route
-                  path="/dashboard/team"
-                  element={
-                    <ProtectedRoute>
-                      <TeamPage />
-                    </ProtectedRoute>
-                  }
-                />
-                <Route
-                  path="/dashboard/pipeline"
-                  element={
-                    <ProtectedRoute>
-                      <PipelineOverviewPage />
-                    </ProtectedRoute>
-                  }
-                />
+                  {/* Dashboard Routes */}
+                  <Route
+                    path="/dashboard"
+                    element={
+                      <ProtectedRoute>
+                        <Dashboard />
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/dashboard/problem"
+                    element={
+                      <ProtectedRoute>
+                        <ProblemPage />
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/dashboard/solution"
+                    element={
+                      <ProtectedRoute>
+                        <SolutionPage />
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/dashboard/architecture"
+                    element={
+                      <ProtectedRoute>
+                        <ArchitecturePage />
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/dashboard/compliance-qa"
+                    element={
+                      <ProtectedRoute>
+                        <ComplianceQAPage />
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/dashboard/features"
+                    element={
+                      <ProtectedRoute>
+                        <FeaturesPage />
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/dashboard/tech-stack"
+                    element={
+                      <ProtectedRoute>
+                        <TechStackPage />
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/dashboard/team"
+                    element={
+                      <ProtectedRoute>
+                        <TeamPage />
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/dashboard/pipeline"
+                    element={
+                      <ProtectedRoute>
+                        <PipelineOverviewPage />
+                      </ProtectedRoute>
+                    }
+                  />
 
-                {/* Agent Routes */}
-                <Route
-                  path="/agents/regulation-monitor"
-                  element={
-                    <ProtectedRoute>
-                      <RegulationMonitorPage />
-                    </ProtectedRoute>
-                  }
-                />
-                <Route
-                  path="/agents/legal-parser"
-                  element={
-                    <ProtectedRoute>
-                      <LegalParserPage />
-                    </ProtectedRoute>
-                  }
-                />
-                <Route
-                  path="/agents/transaction-understanding"
-                  element={
-                    <ProtectedRoute>
-                      <TransactionUnderstandingPage />
-                    </ProtectedRoute>
-                  }
-                />
-                <Route
-                  path="/agents/compliance-mapping"
-                  element={
-                    <ProtectedRoute>
-                      <ComplianceMappingPage />
-                    </ProtectedRoute>
-                  }
-                />
-                <Route
-                  path="/agents/auditor-assistant"
-                  element={
-                    <ProtectedRoute>
-                      <AuditorAssistantPage />
-                    </ProtectedRoute>
-                  }
-                />
+                  {/* Agent Routes */}
+                  <Route
+                    path="/agents/regulation-monitor"
+                    element={
+                      <ProtectedRoute roles={AUDIT_ROLES}>
+                        <RegulationMonitorPage />
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/agents/legal-parser"
+                    element={
+                      <ProtectedRoute roles={AUDIT_ROLES}>
+                        <LegalParserPage />
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/agents/transaction-understanding"
+                    element={
+                      <ProtectedRoute roles={AUDIT_ROLES}>
+                        <TransactionUnderstandingPage />
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/agents/compliance-mapping"
+                    element={
+                      <ProtectedRoute roles={REVIEW_ROLES}>
+                        <ComplianceMappingPage />
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/agents/auditor-assistant"
+                    element={
+                      <ProtectedRoute roles={AUDIT_ROLES}>
+                        <AuditorAssistantPage />
+                      </ProtectedRoute>
+                    }
+                  />
 
-                {/* Master Automation Route */}
-                <Route
-                  path="/automation"
-                  element={
-                    <ProtectedRoute>
-                      <AutomationPage />
-                    </ProtectedRoute>
-                  }
-                />
-                <Route
-                  path="/master-agent"
-                  element={
-                    <ProtectedRoute>
-                      <MasterAgentPage />
-                    </ProtectedRoute>
-                  }
-                />
+                  {/* Master Automation Route */}
+                  <Route
+                    path="/automation"
+                    element={
+                      <ProtectedRoute roles={AUDIT_ROLES}>
+                        <AutomationPage />
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/master-agent"
+                    element={
+                      <ProtectedRoute roles={AUDIT_ROLES}>
+                        <MasterAgentPage />
+                      </ProtectedRoute>
+                    }
+                  />
 
-                {/* Bottom Nav Routes */}
-                <Route
-                  path="/notifications"
-                  element={
-                    <ProtectedRoute>
-                      <NotificationsPage />
-                    </ProtectedRoute>
-                  }
-                />
-                <Route
-                  path="/settings"
-                  element={
-                    <ProtectedRoute>
-                      <SettingsPage />
-                    </ProtectedRoute>
-                  }
-                />
-                <Route
-                  path="/help"
-                  element={
-                    <ProtectedRoute>
-                      <HelpPage />
-                    </ProtectedRoute>
-                  }
-                />
-                <Route
-                  path="/profile"
-                  element={
-                    <ProtectedRoute>
-                      <ProfilePage />
-                    </ProtectedRoute>
-                  }
-                />
+                  {/* Audit History Routes */}
+                  <Route
+                    path="/audits"
+                    element={
+                      <ProtectedRoute>
+                        <AuditHistoryPage />
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/audits/:runId"
+                    element={
+                      <ProtectedRoute>
+                        <AuditRunDetailPage />
+                      </ProtectedRoute>
+                    }
+                  />
 
-                <Route path="*" element={<NotFound />} />
-              </Routes>
-            </PipelineProvider>
+                  {/* Remediation Board */}
+                  <Route
+                    path="/remediation"
+                    element={
+                      <ProtectedRoute>
+                        <RemediationPage />
+                      </ProtectedRoute>
+                    }
+                  />
+
+                  {/* Portal Management */}
+                  <Route
+                    path="/portals"
+                    element={
+                      <ProtectedRoute roles={["admin"]}>
+                        <PortalManagementPage />
+                      </ProtectedRoute>
+                    }
+                  />
+
+                  {/* Bottom Nav Routes */}
+                  <Route
+                    path="/notifications"
+                    element={
+                      <ProtectedRoute>
+                        <NotificationsPage />
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/settings"
+                    element={
+                      <ProtectedRoute>
+                        <SettingsPage />
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/help"
+                    element={
+                      <ProtectedRoute>
+                        <HelpPage />
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/profile"
+                    element={
+                      <ProtectedRoute>
+                        <ProfilePage />
+                      </ProtectedRoute>
+                    }
+                  />
+
+                  <Route path="*" element={<NotFound />} />
+                </Routes>
+              </PipelineProvider>
+            </OrganizationProvider>
           </AuthProvider>
         </BrowserRouter>
       </TooltipProvider>
@@ -0,0 +1,167 @@
+import { useState } from "react";
+import { MessageSquare, Pencil, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import type { ChatThread } from "@/lib/chatThreads";
+
+interface ChatThreadSidebarProps {
+  threads: ChatThread[];
+  activeThreadId: string | null;
+  onSelect: (id: string) => void;
+  onNewThread: () => void;
+  onRename: (id: string, title: string) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+}
+
+const threadTitle = (thread: ChatThread) => thread.title || "New conversation";
+
+export function ChatThreadSidebar({
+  threads,
+  activeThreadId,
+  onSelect,
+  onNewThread,
+  onRename,
+  onDelete,
+}: ChatThreadSidebarProps) {
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState("");
+  const [threadToDelete, setThreadToDelete] = useState<ChatThread | null>(null);
+
+  const startRename = (thread: ChatThread) => {
+    setEditingId(thread.id);
+    setDraftTitle(thread.title || "");
+  };
+
+  const commitRename = async () => {
+    const id = editingId;
+    const title = draftTitle.trim();
+    setEditingId(null);
+    if (!id || !title) return;
+    try {
+      await onRename(id, title);
+    } catch (error) {
+      toast({
+        title: "Failed to rename conversation",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!threadToDelete) return;
+    try {
+      await onDelete(threadToDelete.id);
+    } catch (error) {
+      toast({
+        title: "Failed to delete conversation",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setThreadToDelete(null);
+    }
+  };
+
+  return (
+    <aside className="w-60 shrink-0 border-r border-border bg-secondary/10 flex flex-col">
+      <div className="p-3 border-b border-border">
+        <Button variant="outline" size="sm" className="w-full gap-2" onClick={onNewThread}>
+          <Plus className="w-4 h-4" />
+          New chat
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {threads.length === 0 ? (
+          <p className="text-xs text-muted-foreground text-center py-6 px-2">
+            Your conversations are saved here
+          </p>
+        ) : (
+          threads.map((thread) =>
+            editingId === thread.id ? (
+              <Input
+                key={thread.id}
+                value={draftTitle}
+                autoFocus
+                onChange={(e) => setDraftTitle(e.target.value)}
+                onBlur={commitRename}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") commitRename();
+                  if (e.key === "Escape") setEditingId(null);
+                }}
+                className="h-8 text-sm"
+                aria-label="Conversation title"
+              />
+            ) : (
+              <div
+                key={thread.id}
+                className={`group flex items-center gap-1 rounded-lg px-2 py-1.5 text-sm cursor-pointer transition-colors ${
+                  thread.id === activeThreadId ? "bg-primary/10 text-primary" : "hover:bg-secondary"
+                }`}
+                onClick={() => onSelect(thread.id)}
+              >
+                <MessageSquare className="w-3.5 h-3.5 shrink-0 opacity-60" />
+                <div className="flex-1 min-w-0">
+                  <p className="truncate">{threadTitle(thread)}</p>
+                  <p className="text-[10px] text-muted-foreground">
+                    {new Date(thread.updated_at).toLocaleDateString()}
+                  </p>
+                </div>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    startRename(thread);
+                  }}
+                  className="opacity-0 group-hover:opacity-60 hover:!opacity-100 transition-opacity"
+                  title="Rename conversation"
+                >
+                  <Pencil className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setThreadToDelete(thread);
+                  }}
+                  className="opacity-0 group-hover:opacity-60 hover:!opacity-100 hover:text-destructive transition-opacity"
+                  title="Delete conversation"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            )
+          )
+        )}
+      </div>
+
+      <AlertDialog open={!!threadToDelete} onOpenChange={(open) => !open && setThreadToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{threadToDelete ? threadTitle(threadToDelete) : ""}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The conversation and all of its messages are removed permanently.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </aside>
+  );
+}
@@ -1,14 +1,62 @@
 import { useState, useRef, useEffect } from "react";
-import { Send, Mic, MicOff, Volume2, VolumeX, Trash2, Bot } from "lucide-react";
+import { Send, Mic, MicOff, Volume2, VolumeX, Trash2, Bot, ExternalLink } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
-import { useComplianceChat } from "@/hooks/useComplianceChat";
+import { Citation, useComplianceChat } from "@/hooks/useComplianceChat";
+import { ChatThreadSidebar } from "@/components/ChatThreadSidebar";
 import { useTextToSpeech } from "@/hooks/useTextToSpeech";
 import { useToast } from "@/hooks/use-toast";
 import type { SpeechRecognition } from "@/types/speech.d";
 
-const ComplianceAgent = () => {
-  const { messages, isLoading, sendMessage, clearMessages } = useComplianceChat();
+const describeLocation = (citation: Citation) => {
+  const parts = [];
+  if (citation.pageNumber) parts.push(`page ${citation.pageNumber}`);
+  if (citation.paragraphStart) {
+    parts.push(
+      citation.paragraphEnd && citation.paragraphEnd !== citation.paragraphStart
+        ? `paras ${citation.paragraphStart}-${citation.paragraphEnd}`
+        : `para ${citation.paragraphStart}`
+    );
+  }
+  return parts.join(", ");
+};
+
+// Inline [n] markers become links to the cited regulation
+const renderWithCitations = (content: string, citations: Citation[] = []) =>
+  content.split(/(\[\d+\])/g).map((part, i) => {
+    const citation = citations.find((c) => `[${c.index}]` === part);
+    if (!citation) return part;
+    return (
+      <a
+        key={i}
+        href={citation.url}
+        target="_blank"
+        rel="noopener noreferrer"
+        title={citation.title}
+        className="text-primary font-medium hover:underline"
+      >
+        {part}
+      </a>
+    );
+  });
+
+interface ComplianceAgentProps {
+  /** Save conversations as threads and show the thread list */
+  persist?: boolean;
+}
+
+const ComplianceAgent = ({ persist = false }: ComplianceAgentProps) => {
+  const {
+    messages,
+    isLoading,
+    sendMessage,
+    clearMessages,
+    threads,
+    threadId,
+    selectThread,
+    renameThread,
+    deleteThread,
+  } = useComplianceChat({ persist });
   const { speak, stop, isSpeaking } = useTextToSpeech();
   const { toast } = useToast();
   const [input, setInput] = useState("");
@@ -121,141 +169,179 @@ const ComplianceAgent = () => {
           </p>
         </div>
 
-        <div className="max-w-4xl mx-auto">
-          <div className="rounded-2xl border border-border bg-card overflow-hidden">
-            {/* Header */}
-            <div className="flex items-center justify-between px-6 py-4 border-b border-border bg-secondary/30">
-              <div className="flex items-center gap-3">
-                <div className="w-10 h-10 rounded-xl bg-primary/10 flex items-center justify-center">
-                  <Bot className="w-5 h-5 text-primary" />
-                </div>
-                <div>
-                  <h3 className="font-semibold">ReguGuard Assistant</h3>
-                  <p className="text-xs text-muted-foreground">
-                    {isLoading ? "Thinking..." : "Ready to help"}
-                  </p>
-                </div>
-              </div>
-              <div className="flex items-center gap-2">
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => setAutoSpeak(!autoSpeak)}
-                  className={autoSpeak ? "text-primary" : "text-muted-foreground"}
-                  title={autoSpeak ? "Disable auto-speak" : "Enable auto-speak"}
-                >
-                  {autoSpeak ? <Volume2 className="w-4 h-4" /> : <VolumeX className="w-4 h-4" />}
-                </Button>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={clearMessages}
-                  disabled={messages.length === 0}
-                  title="Clear conversation"
-                >
-                  <Trash2 className="w-4 h-4" />
-                </Button>
-              </div>
-            </div>
-
-            {/* Messages */}
-            <div className="h-[400px] overflow-y-auto p-6 space-y-4">
-              {messages.length === 0 ? (
-                <div className="h-full flex flex-col items-center justify-center text-center">
-                  <div className="w-16 h-16 rounded-2xl bg-primary/10 flex items-center justify-center mb-4">
-                    <Bot className="w-8 h-8 text-primary" />
+        <div className={`${persist ? "max-w-6xl" : "max-w-4xl"} mx-auto`}>
+          <div className="rounded-2xl border border-border bg-card overflow-hidden flex">
+            {persist && (
+              <ChatThreadSidebar
+                threads={threads}
+                activeThreadId={threadId}
+                onSelect={(id) => {
+                  stop();
+                  selectThread(id);
+                }}
+                onNewThread={clearMessages}
+                onRename={renameThread}
+                onDelete={deleteThread}
+              />
+            )}
+            <div className="flex-1 min-w-0">
+              {/* Header */}
+              <div className="flex items-center justify-between px-6 py-4 border-b border-border bg-secondary/30">
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 rounded-xl bg-primary/10 flex items-center justify-center">
+                    <Bot className="w-5 h-5 text-primary" />
                   </div>
-                  <h4 className="font-medium mb-2">How can I help you today?</h4>
-                  <p className="text-sm text-muted-foreground max-w-sm">
-                    Ask me about GST regulations, procurement rules, vendor compliance, 
-                    or any government financial transaction guidelines.
-                  </p>
-                  <div className="mt-4 flex flex-wrap gap-2 justify-center">
-                    {[
-                      "What is the GST rate for infrastructure projects?",
-                      "Vendor registration requirements",
-                      "Competitive bidding rules",
-                    ].map((suggestion, i) => (
-                      <button
-                        key={i}
-                        onClick={() => setInput(suggestion)}
-                        className="px-3 py-1.5 text-xs rounded-full bg-secondary hover:bg-secondary/80 transition-colors"
-                      >
-                        {suggestion}
-                      </button>
-                    ))}
+                  <div>
+                    <h3 className="font-semibold">ReguGuard Assistant</h3>
+                    <p className="text-xs text-muted-foreground">
+                      {isLoading ? "Thinking..." : "Ready to help"}
+                    </p>
                   </div>
                 </div>
-              ) : (
-                messages.map((msg, i) => (
-                  <div
-                    key={i}
-                    className={`flex ${msg.role === "user" ? "justify-end" : "justify-start"}`}
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setAutoSpeak(!autoSpeak)}
+                    className={autoSpeak ? "text-primary" : "text-muted-foreground"}
+                    title={autoSpeak ? "Disable auto-speak" : "Enable auto-speak"}
                   >
-                    <div
-                      className={`max-w-[80%] rounded-2xl px-4 py-3 ${
-                        msg.role === "user"
-                          ? "bg-primary text-primary-foreground"
-                          : "bg-secondary"
-                      }`}
-                    >
-                      <p className="text-sm whitespace-pre-wrap">{msg.content}</p>
-                      {msg.role === "assistant" && msg.content && !isLoading && (
+                    {autoSpeak ? <Volume2 className="w-4 h-4" /> : <VolumeX className="w-4 h-4" />}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={clearMessages}
+                    disabled={messages.length === 0}
+                    title={persist ? "New conversation" : "Clear conversation"}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+
+              {/* Messages */}
+              <div className="h-[400px] overflow-y-auto p-6 space-y-4">
+                {messages.length === 0 ? (
+                  <div className="h-full flex flex-col items-center justify-center text-center">
+                    <div className="w-16 h-16 rounded-2xl bg-primary/10 flex items-center justify-center mb-4">
+                      <Bot className="w-8 h-8 text-primary" />
+                    </div>
+                    <h4 className="font-medium mb-2">How can I help you today?</h4>
+                    <p className="text-sm text-muted-foreground max-w-sm">
+                      Ask me about GST regulations, procurement rules, vendor compliance, 
+                      or any government financial transaction guidelines.
+                    </p>
+                    <div className="mt-4 flex flex-wrap gap-2 justify-center">
+                      {[
+                        "What is the GST rate for infrastructure projects?",
+                        "Vendor registration requirements",
+                        "Competitive bidding rules",
+                      ].map((suggestion, i) => (
                         <button
-                          onClick={() => isSpeaking ? stop() : speak(msg.content)}
-                          className="mt-2 text-xs opacity-60 hover:opacity-100 transition-opacity flex items-center gap-1"
+                          key={i}
+                          onClick={() => setInput(suggestion)}
+                          className="px-3 py-1.5 text-xs rounded-full bg-secondary hover:bg-secondary/80 transition-colors"
                         >
-                          {isSpeaking ? <VolumeX className="w-3 h-3" /> : <Volume2 className="w-3 h-3" />}
-                          {isSpeaking ? "Stop" : "Listen"}
+                          {suggestion}
                         </button>
-                      )}
+                      ))}
                     </div>
                   </div>
-                ))
-              )}
-              {isLoading && messages[messages.length - 1]?.role === "user" && (
-                <div className="flex justify-start">
-                  <div className="bg-secondary rounded-2xl px-4 py-3">
-                    <div className="flex items-center gap-2">
-                      <div className="w-2 h-2 rounded-full bg-primary animate-pulse" />
-                      <div className="w-2 h-2 rounded-full bg-primary animate-pulse" style={{ animationDelay: "0.2s" }} />
-                      <div className="w-2 h-2 rounded-full bg-primary animate-pulse" style={{ animationDelay: "0.4s" }} />
+                ) : (
+                  messages.map((msg, i) => (
+                    <div
+                      key={i}
+                      className={`flex ${msg.role === "user" ? "justify-end" : "justify-start"}`}
+                    >
+                      <div
+                        className={`max-w-[80%] rounded-2xl px-4 py-3 ${
+                          msg.role === "user"
+                            ? "bg-primary text-primary-foreground"
+                            : "bg-secondary"
+                        }`}
+                      >
+                        <p className="text-sm whitespace-pre-wrap">{renderWithCitations(msg.content, msg.citations)}</p>
+                        {msg.role === "assistant" && msg.citations && msg.citations.length > 0 && (
+                          <div className="mt-3 pt-3 border-t border-border space-y-2">
+                            <p className="text-xs font-medium text-muted-foreground">Sources</p>
+                            {msg.citations.map((citation) => (
+                              <a
+                                key={citation.index}
+                                href={citation.url}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="block rounded-lg bg-card px-3 py-2 hover:bg-card/80 transition-colors"
+                              >
+                                <span className="flex items-center gap-1 text-xs font-medium">
+                                  [{citation.index}] {citation.title}
+                                  <ExternalLink className="w-3 h-3 shrink-0" />
+                                </span>
+                                <span className="block text-xs text-muted-foreground">
+                                  {[citation.source, describeLocation(citation)].filter(Boolean).join(" • ")}
+                                </span>
+                                <span className="block text-xs text-muted-foreground line-clamp-2 mt-1">{citation.excerpt}</span>
+                              </a>
+                            ))}
+                          </div>
+                        )}
+                        {msg.role === "assistant" && msg.content && !isLoading && (
+                          <button
+                            onClick={() => isSpeaking ? stop() : speak(msg.content)}
+                            className="mt-2 text-xs opacity-60 hover:opacity-100 transition-opacity flex items-center gap-1"
+                          >
+                            {isSpeaking ? <VolumeX className="w-3 h-3" /> : <Volume2 className="w-3 h-3" />}
+                            {isSpeaking ? "Stop" : "Listen"}
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  ))
+                )}
+                {isLoading && messages[messages.length - 1]?.role === "user" && (
+                  <div className="flex justify-start">
+                    <div className="bg-secondary rounded-2xl px-4 py-3">
+                      <div className="flex items-center gap-2">
+                        <div className="w-2 h-2 rounded-full bg-primary animate-pulse" />
+                        <div className="w-2 h-2 rounded-full bg-primary animate-pulse" style={{ animationDelay: "0.2s" }} />
+                        <div className="w-2 h-2 rounded-full bg-primary animate-pulse" style={{ animationDelay: "0.4s" }} />
+                      </div>
                     </div>
                   </div>
+                )}
+                <div ref={messagesEndRef} />
+              </div>
+
+              {/* Input */}
+              <form onSubmit={handleSubmit} className="p-4 border-t border-border bg-secondary/20">
+                <div className="flex items-end gap-3">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={toggleListening}
+                    className={isListening ? "text-destructive animate-pulse" : ""}
+                    disabled={isLoading}
+                  >
+                    {isListening ? <MicOff className="w-5 h-5" /> : <Mic className="w-5 h-5" />}
+                  </Button>
+                  <Textarea
+                    value={input}
+                    onChange={(e) => setInput(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    placeholder="Ask about compliance regulations..."
+                    className="min-h-[44px] max-h-[120px] resize-none bg-card"
+                    rows={1}
+                  />
+                  <Button type="submit" disabled={!input.trim() || isLoading}>
+                    <Send className="w-4 h-4" />
+                  </Button>
                 </div>
-              )}
-              <div ref={messagesEndRef} />
+                <p className="text-xs text-muted-foreground mt-2 text-center">
+                  {isListening ? "Listening... speak now" : "Press Enter to send, Shift+Enter for new line"}
+                </p>
+              </form>
             </div>
-
-            {/* Input */}
-            <form onSubmit={handleSubmit} className="p-4 border-t border-border bg-secondary/20">
-              <div className="flex items-end gap-3">
-                <Button
-                  type="button"
-                  variant="ghost"
-                  size="icon"
-                  onClick={toggleListening}
-                  className={isListening ? "text-destructive animate-pulse" : ""}
-                  disabled={isLoading}
-                >
-                  {isListening ? <MicOff className="w-5 h-5" /> : <Mic className="w-5 h-5" />}
-                </Button>
-                <Textarea
-                  value={input}
-                  onChange={(e) => setInput(e.target.value)}
-                  onKeyDown={handleKeyDown}
-                  placeholder="Ask about compliance regulations..."
-                  className="min-h-[44px] max-h-[120px] resize-none bg-card"
-                  rows={1}
-                />
-                <Button type="submit" disabled={!input.trim() || isLoading}>
-                  <Send className="w-4 h-4" />
-                </Button>
-              </div>
-              <p className="text-xs text-muted-foreground mt-2 text-center">
-                {isListening ? "Listening... speak now" : "Press Enter to send, Shift+Enter for new line"}
-              </p>
-            </form>
           </div>
         </div>
       </div>
@@ -0,0 +1,154 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Bot, MessageSquare, Send, Trash2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { ComplianceResultModal } from "@/components/agents/ComplianceResultModal";
+import { useComplianceChat } from "@/hooks/useComplianceChat";
+import { buildAuditChatContext, ResultReference } from "@/lib/auditChat";
+import type { AuditReport, ComplianceResult, ParsedClause, Transaction } from "@/contexts/PipelineContext";
+
+interface AuditChatPanelProps {
+  report: AuditReport;
+  results: ComplianceResult[];
+  transactions: Transaction[];
+  clauses: ParsedClause[];
+}
+
+const SUGGESTIONS = [
+  "Why was the GeM vendor flagged?",
+  "Which violations carry monetary penalties?",
+  "What should be fixed first?",
+];
+
+export function AuditChatPanel({ report, results, transactions, clauses }: AuditChatPanelProps) {
+  const audit = useMemo(
+    () => buildAuditChatContext(report, results, transactions, clauses),
+    [report, results, transactions, clauses]
+  );
+  const { messages, isLoading, sendMessage, clearMessages } = useComplianceChat({ audit });
+  const [input, setInput] = useState("");
+  const [selectedResultId, setSelectedResultId] = useState<string | null>(null);
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+  }, [messages]);
+
+  const selectedResult = results.find((r) => r.id === selectedResultId) ?? null;
+
+  const handleSubmit = (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!input.trim() || isLoading) return;
+    sendMessage(input.trim());
+    setInput("");
+  };
+
+  // [R12] markers become links that open the finding
+  const renderWithReferences = (content: string, refs: ResultReference[] = []) =>
+    content.split(/(\[R\d+\])/g).map((part, i) => {
+      const reference = refs.find((r) => `[${r.ref}]` === part);
+      if (!reference) return part;
+      return (
+        <button
+          key={i}
+          type="button"
+          onClick={() => setSelectedResultId(reference.resultId)}
+          className="text-primary font-medium hover:underline"
+          title="Open compliance result"
+        >
+          {part}
+        </button>
+      );
+    });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <MessageSquare className="h-5 w-5 text-primary" />
+              Ask About This Audit
+            </CardTitle>
+            <CardDescription>
+              Answers refer to findings as [R1], [R2]… — click one to open the result
+            </CardDescription>
+          </div>
+          <Button variant="ghost" size="sm" onClick={clearMessages} disabled={messages.length === 0} title="Clear conversation">
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <ScrollArea className="h-72 pr-3">
+          {messages.length === 0 ? (
+            <div className="h-64 flex flex-col items-center justify-center text-center">
+              <Bot className="h-8 w-8 text-primary mb-2" />
+              <p className="text-sm text-muted-foreground mb-3">
+                Ask about the {audit.results.length} findings in this report
+              </p>
+              <div className="flex flex-wrap gap-2 justify-center">
+                {SUGGESTIONS.map((suggestion) => (
+                  <button
+                    key={suggestion}
+                    onClick={() => setInput(suggestion)}
+                    className="px-3 py-1.5 text-xs rounded-full bg-secondary hover:bg-secondary/80 transition-colors"
+                  >
+                    {suggestion}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {messages.map((msg, i) => (
+                <div key={i} className={`flex ${msg.role === "user" ? "justify-end" : "justify-start"}`}>
+                  <div
+                    className={`max-w-[85%] rounded-2xl px-4 py-2 text-sm whitespace-pre-wrap ${
+                      msg.role === "user" ? "bg-primary text-primary-foreground" : "bg-secondary"
+                    }`}
+                  >
+                    {msg.role === "assistant" ? renderWithReferences(msg.content, msg.resultRefs) : msg.content}
+                  </div>
+                </div>
+              ))}
+              {isLoading && messages[messages.length - 1]?.role === "user" && (
+                <div className="text-xs text-muted-foreground animate-pulse">Thinking...</div>
+              )}
+              <div ref={messagesEndRef} />
+            </div>
+          )}
+        </ScrollArea>
+
+        <form onSubmit={handleSubmit} className="flex items-end gap-2">
+          <Textarea
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && !e.shiftKey) {
+                e.preventDefault();
+                handleSubmit();
+              }
+            }}
+            placeholder="Ask about this audit..."
+            className="min-h-[44px] max-h-[120px] resize-none"
+            rows={1}
+          />
+          <Button type="submit" disabled={!input.trim() || isLoading}>
+            <Send className="h-4 w-4" />
+          </Button>
+        </form>
+      </CardContent>
+
+      <ComplianceResultModal
+        result={selectedResult}
+        transaction={transactions.find((t) => t.id === selectedResult?.transactionId) ?? null}
+        clause={clauses.find((c) => c.id === selectedResult?.clauseId) ?? null}
+        open={!!selectedResult}
+        onOpenChange={(open) => !open && setSelectedResultId(null)}
+      />
+    </Card>
+  );
+}
@@ -1,10 +1,15 @@
+import { useState } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import { ComplianceResult, Transaction, ParsedClause } from "@/contexts/PipelineContext";
-import { AlertTriangle, CheckCircle2, AlertCircle, FileWarning, Copy, Scale, FileText } from "lucide-react";
+import { AlertTriangle, CheckCircle2, AlertCircle, FileWarning, Copy, Scale, FileText, ShieldCheck } from "lucide-react";
+import { EvidencePanel } from "@/components/agents/EvidencePanel";
+import { useAuth } from "@/contexts/AuthContext";
 import { useToast } from "@/hooks/use-toast";
+import { formatMoney } from "@/lib/money";
+import { canResolveWithEvidence, EvidenceFile, outstandingDocs, resolveWithEvidence } from "@/lib/evidence";
 
 interface ComplianceResultModalProps {
   result: ComplianceResult | null;
@@ -12,6 +17,8 @@ interface ComplianceResultModalProps {
   clause: ParsedClause | null;
   open: boolean;
   onOpenChange: (open: boolean) => void;
+  /** Lets a reviewer mark a missing_docs result compliant once its evidence is attached */
+  onResolve?: (result: ComplianceResult) => void;
 }
 
 const statusIcons = {
@@ -34,12 +41,21 @@ const riskColors = {
   high: "bg-destructive/10 text-destructive border-destructive/20",
 };
 
-export function ComplianceResultModal({ result, transaction, clause, open, onOpenChange }: ComplianceResultModalProps) {
+export function ComplianceResultModal({ result, transaction, clause, open, onOpenChange, onResolve }: ComplianceResultModalProps) {
   const { toast } = useToast();
+  const { user } = useAuth();
+  const [evidence, setEvidence] = useState<EvidenceFile[]>([]);
 
   if (!result) return null;
 
   const StatusIcon = statusIcons[result.status];
+  const outstanding = outstandingDocs(result, evidence);
+
+  const handleResolve = () => {
+    onResolve?.(resolveWithEvidence(result, evidence, user?.email ?? ""));
+    onOpenChange(false);
+    toast({ title: "Result marked compliant", description: `${evidence.length} evidence file(s) cited` });
+  };
 
   const handleCopyJson = () => {
     navigator.clipboard.writeText(JSON.stringify({ result, transaction, clause }, null, 2));
@@ -82,7 +98,7 @@ export function ComplianceResultModal({ result, transaction, clause, open, onOpe
                 </div>
                 <div>
                   <span className="text-muted-foreground">Amount:</span>
-                  <p className="font-medium">{transaction.amount}</p>
+                  <p className="font-medium">{formatMoney(transaction.amount)}</p>
                 </div>
                 <div>
                   <span className="text-muted-foreground">Category:</span>
@@ -145,16 +161,38 @@ export function ComplianceResultModal({ result, transaction, clause, open, onOpe
               </h4>
               <ul className="list-disc list-inside text-sm space-y-1">
                 {result.missingDocs.map((doc, idx) => (
-                  <li key={idx}>{doc}</li>
+                  <li key={idx} className={outstanding.includes(doc) ? "" : "text-success"}>
+                    {doc}
+                    {!outstanding.includes(doc) && <CheckCircle2 className="inline h-3 w-3 ml-1" />}
+                  </li>
                 ))}
               </ul>
             </div>
           )}
+
+          <EvidencePanel
+            key={result.id}
+            transactionId={result.transactionId}
+            complianceResultId={result.id}
+            requiredDocs={result.missingDocs}
+            onEvidenceChange={setEvidence}
+          />
         </div>
 
         <Separator />
 
-        <div className="flex justify-end">
+        <div className="flex justify-end gap-2">
+          {onResolve && result.status === "missing_docs" && (
+            <Button
+              size="sm"
+              onClick={handleResolve}
+              disabled={!canResolveWithEvidence(result, evidence)}
+              title={outstanding.length > 0 ? `Still missing: ${outstanding.join("; ")}` : undefined}
+            >
+              <ShieldCheck className="h-4 w-4 mr-2" />
+              Mark compliant
+            </Button>
+          )}
           <Button variant="outline" size="sm" onClick={handleCopyJson}>
             <Copy className="h-4 w-4 mr-2" />
             Copy as JSON
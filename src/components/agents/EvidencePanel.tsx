@@ -0,0 +1,214 @@
+import { useEffect, useRef, useState } from "react";
+import { Download, FileCheck2, Loader2, Paperclip, ShieldAlert, ShieldCheck, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useOrganization } from "@/contexts/OrganizationContext";
+import {
+  deleteEvidence,
+  EVIDENCE_DOCUMENT_TYPES,
+  EvidenceFile,
+  evidenceDownloadUrl,
+  fetchEvidence,
+  formatFileSize,
+  uploadEvidence,
+  verifyEvidence,
+} from "@/lib/evidence";
+import { AUDIT_ROLES, REVIEW_ROLES } from "@/lib/organizations";
+
+interface EvidencePanelProps {
+  transactionId: string;
+  /** Attach uploads to this result rather than to the transaction as a whole */
+  complianceResultId?: string;
+  /** Documents the result asks for, offered first as the file's type */
+  requiredDocs?: string[];
+  onEvidenceChange?: (files: EvidenceFile[]) => void;
+}
+
+export function EvidencePanel({ transactionId, complianceResultId, requiredDocs = [], onEvidenceChange }: EvidencePanelProps) {
+  const { toast } = useToast();
+  const { role } = useOrganization();
+  const canAttach = role !== null && REVIEW_ROLES.includes(role);
+  const canDelete = role !== null && AUDIT_ROLES.includes(role);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [files, setFiles] = useState<EvidenceFile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isUploading, setIsUploading] = useState(false);
+  const [verifying, setVerifying] = useState<string | null>(null);
+  const [verified, setVerified] = useState<Record<string, boolean>>({});
+
+  const documentTypes = [...requiredDocs, ...EVIDENCE_DOCUMENT_TYPES.filter((type) => !requiredDocs.includes(type))];
+  const [documentType, setDocumentType] = useState(documentTypes[0]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setVerified({});
+    fetchEvidence(transactionId, complianceResultId)
+      .then((loaded) => !cancelled && setFiles(loaded))
+      .catch((error) => {
+        console.error("Error loading evidence:", error);
+        if (!cancelled) toast({ title: "Failed to load evidence", variant: "destructive" });
+      })
+      .finally(() => !cancelled && setLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [transactionId, complianceResultId, toast]);
+
+  useEffect(() => {
+    onEvidenceChange?.(files);
+  }, [files, onEvidenceChange]);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    setIsUploading(true);
+    try {
+      const uploaded = await uploadEvidence(file, { transactionId, complianceResultId, documentType });
+      setFiles((current) => [...current, uploaded]);
+      toast({ title: "Evidence attached", description: `${file.name} · SHA-256 ${uploaded.sha256.slice(0, 12)}…` });
+    } catch (error) {
+      toast({
+        title: "Failed to attach evidence",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleDownload = async (file: EvidenceFile) => {
+    try {
+      window.open(await evidenceDownloadUrl(file), "_blank", "noopener");
+    } catch (error) {
+      toast({
+        title: "Failed to open file",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleVerify = async (file: EvidenceFile) => {
+    setVerifying(file.id);
+    try {
+      const intact = await verifyEvidence(file);
+      setVerified((current) => ({ ...current, [file.id]: intact }));
+      if (!intact) {
+        toast({
+          title: "Hash mismatch",
+          description: `${file.fileName} no longer matches the SHA-256 recorded at upload`,
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Failed to verify file",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setVerifying(null);
+    }
+  };
+
+  const handleDelete = async (file: EvidenceFile) => {
+    try {
+      await deleteEvidence(file);
+      setFiles((current) => current.filter((f) => f.id !== file.id));
+    } catch (error) {
+      toast({
+        title: "Failed to remove evidence",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="p-4 bg-muted/50 rounded-lg space-y-3">
+      <div className="flex items-center gap-2 text-primary">
+        <Paperclip className="h-4 w-4" />
+        <span className="font-medium">Evidence</span>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-2">
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        </div>
+      ) : files.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No files attached yet.</p>
+      ) : (
+        <ul className="space-y-2">
+          {files.map((file) => (
+            <li key={file.id} className="flex items-center gap-2 p-2 bg-background rounded border border-border text-sm">
+              <FileCheck2 className="h-4 w-4 text-muted-foreground shrink-0" />
+              <div className="min-w-0 flex-1">
+                <p className="font-medium truncate">{file.fileName}</p>
+                <p className="text-xs text-muted-foreground truncate" title={file.sha256}>
+                  {file.documentType && `${file.documentType} · `}
+                  {formatFileSize(file.sizeBytes)} · SHA-256 <span className="font-mono">{file.sha256.slice(0, 12)}…</span>
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                title="Check the stored file against its recorded hash"
+                onClick={() => handleVerify(file)}
+                disabled={verifying === file.id}
+              >
+                {verifying === file.id ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : verified[file.id] === false ? (
+                  <ShieldAlert className="h-4 w-4 text-destructive" />
+                ) : (
+                  <ShieldCheck className={`h-4 w-4 ${verified[file.id] ? "text-success" : ""}`} />
+                )}
+              </Button>
+              <Button variant="ghost" size="icon" className="h-7 w-7" title="Download" onClick={() => handleDownload(file)}>
+                <Download className="h-4 w-4" />
+              </Button>
+              {canDelete && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 hover:text-destructive"
+                  title="Remove"
+                  onClick={() => handleDelete(file)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canAttach && (
+        <div className="flex items-center gap-2">
+          <Select value={documentType} onValueChange={setDocumentType}>
+            <SelectTrigger className="flex-1 min-w-0">
+              <SelectValue placeholder="Document type" />
+            </SelectTrigger>
+            <SelectContent>
+              {documentTypes.map((type) => (
+                <SelectItem key={type} value={type}>
+                  {type}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <input ref={fileInputRef} type="file" onChange={handleUpload} className="hidden" />
+          <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={isUploading}>
+            {isUploading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Paperclip className="h-4 w-4 mr-2" />}
+            Attach file
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+import { useEffect, useState } from "react";
+import { Loader2, Pencil, Save, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { deleteGstRate, GstRate, loadGstRates, saveGstRate } from "@/lib/gst";
+
+interface GstRateTableDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const EMPTY_FORM = { hsnSac: "", description: "", rate: "" };
+
+export function GstRateTableDialog({ open, onOpenChange }: GstRateTableDialogProps) {
+  const { toast } = useToast();
+  const [rates, setRates] = useState<GstRate[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  useEffect(() => {
+    if (!open) return;
+    setIsLoading(true);
+    loadGstRates()
+      .then(setRates)
+      .finally(() => setIsLoading(false));
+  }, [open]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await saveGstRate({ hsnSac: form.hsnSac, description: form.description.trim(), rate: Number(form.rate) });
+      setRates(await loadGstRates());
+      setForm(EMPTY_FORM);
+      toast({ title: `GST rate for ${form.hsnSac} saved` });
+    } catch (error) {
+      toast({
+        title: "Failed to save GST rate",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (rate: GstRate) => {
+    if (!rate.id) return;
+    try {
+      await deleteGstRate(rate.id);
+      setRates(await loadGstRates());
+    } catch (error) {
+      toast({
+        title: "Failed to delete GST rate",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>GST rate table</DialogTitle>
+          <DialogDescription>
+            Rates used to compute the expected GST per HSN/SAC code. A code also covers longer codes that start with
+            it; rates your workspace sets replace the built-in ones.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-[120px_1fr_90px_auto] items-end gap-2">
+          <div className="space-y-1">
+            <Label className="text-xs">HSN/SAC</Label>
+            <Input
+              placeholder="e.g., 8471"
+              value={form.hsnSac}
+              onChange={(e) => setForm({ ...form, hsnSac: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Description</Label>
+            <Input
+              placeholder="e.g., Computers and peripherals"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Rate %</Label>
+            <Input
+              type="number"
+              min={0}
+              max={100}
+              step="0.25"
+              value={form.rate}
+              onChange={(e) => setForm({ ...form, rate: e.target.value })}
+            />
+          </div>
+          <Button onClick={handleSave} disabled={!form.hsnSac.trim() || form.rate === "" || isSaving}>
+            {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+            Save
+          </Button>
+        </div>
+
+        <div className="rounded-lg border border-border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>HSN/SAC</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead className="text-right">Rate</TableHead>
+                <TableHead className="w-[80px]" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-muted-foreground">
+                    <Loader2 className="h-4 w-4 animate-spin inline mr-2" />
+                    Loading rates...
+                  </TableCell>
+                </TableRow>
+              ) : (
+                rates.map((rate) => (
+                  <TableRow key={rate.hsnSac}>
+                    <TableCell className="font-mono">{rate.hsnSac}</TableCell>
+                    <TableCell>
+                      {rate.description}
+                      {rate.id && (
+                        <Badge variant="secondary" className="ml-2 text-xs">
+                          Custom
+                        </Badge>
+                      )}
+                      {rate.caveat && (
+                        <Badge variant="outline" className="ml-2 text-xs" title={rate.caveat}>
+                          Varies
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{rate.rate}%</TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        title="Edit"
+                        onClick={() => setForm({ hsnSac: rate.hsnSac, description: rate.description, rate: String(rate.rate) })}
+                      >
+                        <Pencil className="h-3 w-3" />
+                      </Button>
+                      {rate.id && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7 hover:text-destructive"
+                          title="Remove custom rate"
+                          onClick={() => handleDelete(rate)}
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,237 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DEFAULT_PORTAL_INPUT, parsePatternList, PortalInput, RegulationPortal } from "@/lib/portals";
+import { AUDIT_CATEGORIES } from "@/lib/auditRuns";
+
+const SCHEDULE_PRESETS = [
+  { value: "manual", label: "Manual only", schedule: null },
+  { value: "1 hour", label: "Hourly", schedule: "1 hour" },
+  { value: "6 hours", label: "Every 6 hours", schedule: "6 hours" },
+  { value: "1 day", label: "Daily", schedule: "1 day" },
+  { value: "7 days", label: "Weekly", schedule: "7 days" },
+];
+
+interface PortalFormDialogProps {
+  /** Portal being edited; null to add a new one */
+  portal: RegulationPortal | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (input: PortalInput) => Promise<void>;
+}
+
+export function PortalFormDialog({ portal, open, onOpenChange, onSubmit }: PortalFormDialogProps) {
+  const [form, setForm] = useState<PortalInput>(DEFAULT_PORTAL_INPUT);
+  const [includeText, setIncludeText] = useState("");
+  const [excludeText, setExcludeText] = useState("");
+  const [customSchedule, setCustomSchedule] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    const initial: PortalInput = portal
+      ? {
+          name: portal.name,
+          base_url: portal.base_url,
+          category: portal.category,
+          is_active: portal.is_active,
+          crawl_schedule: portal.crawl_schedule,
+          include_patterns: portal.include_patterns,
+          exclude_patterns: portal.exclude_patterns,
+          max_urls: portal.max_urls,
+          map_limit: portal.map_limit,
+        }
+      : DEFAULT_PORTAL_INPUT;
+    setForm(initial);
+    setIncludeText(initial.include_patterns.join("\n"));
+    setExcludeText(initial.exclude_patterns.join("\n"));
+    setCustomSchedule(!SCHEDULE_PRESETS.some((preset) => preset.schedule === initial.crawl_schedule));
+  }, [open, portal]);
+
+  const update = <K extends keyof PortalInput>(key: K, value: PortalInput[K]) =>
+    setForm((prev) => ({ ...prev, [key]: value }));
+
+  const scheduleValue = customSchedule ? "custom" : form.crawl_schedule ?? "manual";
+  const categories = form.category && !AUDIT_CATEGORIES.includes(form.category) ? [...AUDIT_CATEGORIES, form.category] : AUDIT_CATEGORIES;
+
+  const handleScheduleChange = (value: string) => {
+    if (value === "custom") {
+      setCustomSchedule(true);
+      return;
+    }
+    setCustomSchedule(false);
+    update("crawl_schedule", SCHEDULE_PRESETS.find((preset) => preset.value === value)?.schedule ?? null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      await onSubmit({
+        ...form,
+        include_patterns: parsePatternList(includeText),
+        exclude_patterns: parsePatternList(excludeText),
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <form onSubmit={handleSubmit} className="space-y-5">
+          <DialogHeader>
+            <DialogTitle>{portal ? `Edit ${portal.name}` : "Add Regulation Portal"}</DialogTitle>
+            <DialogDescription>
+              The crawler maps the portal, keeps URLs matching the include patterns and indexes up to the URL limit.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-1.5">
+              <Label htmlFor="portal-name">Name</Label>
+              <Input
+                id="portal-name"
+                value={form.name}
+                onChange={(e) => update("name", e.target.value)}
+                placeholder="SEBI"
+                required
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label>Category</Label>
+              <Select value={form.category} onValueChange={(value) => update("category", value)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select category" />
+                </SelectTrigger>
+                <SelectContent>
+                  {categories.map((category) => (
+                    <SelectItem key={category} value={category}>{category}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5 sm:col-span-2">
+              <Label htmlFor="portal-url">Base URL</Label>
+              <Input
+                id="portal-url"
+                type="url"
+                value={form.base_url}
+                onChange={(e) => update("base_url", e.target.value)}
+                placeholder="https://www.sebi.gov.in"
+                required
+              />
+            </div>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-1.5">
+              <Label>Crawl schedule</Label>
+              <Select value={scheduleValue} onValueChange={handleScheduleChange}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SCHEDULE_PRESETS.map((preset) => (
+                    <SelectItem key={preset.value} value={preset.value}>{preset.label}</SelectItem>
+                  ))}
+                  <SelectItem value="custom">Custom</SelectItem>
+                </SelectContent>
+              </Select>
+              {customSchedule && (
+                <Input
+                  value={form.crawl_schedule ?? ""}
+                  onChange={(e) => update("crawl_schedule", e.target.value || null)}
+                  placeholder="0 3 * * 1-5 or 12 hours"
+                  className="font-mono text-xs"
+                />
+              )}
+            </div>
+            <div className="flex items-center gap-2 sm:pt-7">
+              <Switch
+                id="portal-active"
+                checked={form.is_active}
+                onCheckedChange={(checked) => update("is_active", checked)}
+              />
+              <Label htmlFor="portal-active">Active</Label>
+            </div>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-1.5">
+              <Label htmlFor="portal-include">Include patterns</Label>
+              <Textarea
+                id="portal-include"
+                value={includeText}
+                onChange={(e) => setIncludeText(e.target.value)}
+                rows={6}
+                className="font-mono text-xs"
+              />
+              <p className="text-xs text-muted-foreground">One regular expression per line. Empty keeps every URL.</p>
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="portal-exclude">Exclude patterns</Label>
+              <Textarea
+                id="portal-exclude"
+                value={excludeText}
+                onChange={(e) => setExcludeText(e.target.value)}
+                rows={6}
+                className="font-mono text-xs"
+              />
+              <p className="text-xs text-muted-foreground">URLs matching any of these are never crawled.</p>
+            </div>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-1.5">
+              <Label htmlFor="portal-max-urls">URLs indexed per crawl</Label>
+              <Input
+                id="portal-max-urls"
+                type="number"
+                min={1}
+                max={100}
+                value={form.max_urls}
+                onChange={(e) => update("max_urls", Number(e.target.value))}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="portal-map-limit">URLs mapped per crawl</Label>
+              <Input
+                id="portal-map-limit"
+                type="number"
+                min={1}
+                max={5000}
+                value={form.map_limit}
+                onChange={(e) => update("map_limit", Number(e.target.value))}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving || !form.category}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {portal ? "Save Changes" : "Add Portal"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,3 +1,4 @@
+import { useEffect, useMemo, useState } from "react";
 import {
   Dialog,
   DialogContent,
@@ -7,9 +8,21 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
-import { Calendar, Globe, Tag, FileText, ExternalLink } from "lucide-react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Calendar, Globe, Tag, FileText, ExternalLink, History, AlertTriangle, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import type { Regulation } from "@/contexts/PipelineContext";
+import {
+  diffParagraphs,
+  fetchLastAuditedAt,
+  fetchRegulationVersions,
+  findIndexedRegulation,
+  isAmendedSinceAudit,
+  type RegulationVersion,
+} from "@/lib/regulationVersions";
 
 interface RegulationDetailModalProps {
   regulation: Regulation | null;
@@ -17,13 +30,76 @@ interface RegulationDetailModalProps {
   onOpenChange: (open: boolean) => void;
 }
 
+interface VersionHistory {
+  versions: RegulationVersion[];
+  amendedAt: string | null;
+  lastAuditedAt?: string;
+}
+
 export function RegulationDetailModal({
   regulation,
   open,
   onOpenChange,
 }: RegulationDetailModalProps) {
+  const [history, setHistory] = useState<VersionHistory | null>(null);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+  const [fromVersionId, setFromVersionId] = useState<string>("");
+  const [toVersionId, setToVersionId] = useState<string>("");
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  useEffect(() => {
+    if (!open || !regulation) return;
+
+    let cancelled = false;
+    setHistory(null);
+    setIsLoadingHistory(true);
+
+    (async () => {
+      try {
+        const indexed = await findIndexedRegulation(regulation);
+        if (!indexed) {
+          if (!cancelled) setHistory({ versions: [], amendedAt: null });
+          return;
+        }
+        const [versions, lastAudited] = await Promise.all([
+          fetchRegulationVersions(indexed.id),
+          fetchLastAuditedAt([indexed.id]),
+        ]);
+        if (cancelled) return;
+        setHistory({ versions, amendedAt: indexed.amendedAt, lastAuditedAt: lastAudited.get(indexed.id) });
+        // Default to the latest amendment: previous version against the newest
+        setToVersionId(versions[0]?.id ?? "");
+        setFromVersionId(versions[1]?.id ?? versions[0]?.id ?? "");
+      } catch (error) {
+        console.error("Failed to load regulation history:", error);
+        if (!cancelled) setHistory({ versions: [], amendedAt: null });
+      } finally {
+        if (!cancelled) setIsLoadingHistory(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, regulation]);
+
+  const versions = history?.versions ?? [];
+  const fromVersion = versions.find((v) => v.id === fromVersionId);
+  const toVersion = versions.find((v) => v.id === toVersionId);
+
+  const diff = useMemo(
+    () => (fromVersion && toVersion ? diffParagraphs(fromVersion.content, toVersion.content) : null),
+    [fromVersion, toVersion]
+  );
+
   if (!regulation) return null;
 
+  const amendedSinceAudit = isAmendedSinceAudit(history?.amendedAt ?? null, history?.lastAuditedAt);
+  const visibleEntries = diff?.entries.filter((entry) => showUnchanged || entry.change !== "unchanged") ?? [];
+
+  const versionLabel = (version: RegulationVersion) =>
+    `v${version.versionNumber} · ${new Date(version.capturedAt).toLocaleDateString()}`;
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-2xl max-h-[85vh] flex flex-col">
@@ -47,22 +123,139 @@ export function RegulationDetailModal({
           </Badge>
           <Badge variant="outline" className="gap-1.5">
             <Tag className="w-3 h-3" />
-            v{regulation.version}
+            v{versions[0]?.versionNumber ?? regulation.version}
           </Badge>
+          {amendedSinceAudit && (
+            <Badge variant="destructive" className="gap-1.5">
+              <AlertTriangle className="w-3 h-3" />
+              Amended since last audit
+            </Badge>
+          )}
         </div>
 
+        {amendedSinceAudit && history?.amendedAt && history.lastAuditedAt && (
+          <p className="text-xs text-muted-foreground mt-2">
+            Changed on {new Date(history.amendedAt).toLocaleDateString()}, after the last audit that used it on{" "}
+            {new Date(history.lastAuditedAt).toLocaleDateString()}. Review the History tab before relying on earlier results.
+          </p>
+        )}
+
         <Separator className="my-4" />
 
-        <ScrollArea className="flex-1 pr-4 max-h-[400px]">
-          <div className="prose prose-sm dark:prose-invert max-w-none">
-            <h4 className="text-sm font-medium text-muted-foreground mb-2">
-              Content
-            </h4>
-            <p className="text-foreground whitespace-pre-wrap leading-relaxed">
-              {regulation.content}
-            </p>
-          </div>
-        </ScrollArea>
+        <Tabs defaultValue="content" className="flex-1 flex flex-col min-h-0">
+          <TabsList className="bg-secondary/50 self-start">
+            <TabsTrigger value="content">Content</TabsTrigger>
+            <TabsTrigger value="history" className="gap-1.5">
+              <History className="w-3.5 h-3.5" />
+              History{versions.length > 1 ? ` (${versions.length})` : ""}
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="content">
+            <ScrollArea className="flex-1 pr-4 max-h-[400px]">
+              <div className="prose prose-sm dark:prose-invert max-w-none">
+                <h4 className="text-sm font-medium text-muted-foreground mb-2">
+                  Content
+                </h4>
+                <p className="text-foreground whitespace-pre-wrap leading-relaxed">
+                  {regulation.content}
+                </p>
+              </div>
+            </ScrollArea>
+          </TabsContent>
+
+          <TabsContent value="history">
+            {isLoadingHistory ? (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground py-8 justify-center">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Loading version history...
+              </div>
+            ) : versions.length < 2 ? (
+              <p className="text-sm text-muted-foreground py-8 text-center">
+                {versions.length === 0
+                  ? "No version history. Only regulations indexed by the crawler are tracked."
+                  : "Only one version has been captured so far. Amendments will appear here."}
+              </p>
+            ) : (
+              <div className="space-y-3">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Select value={fromVersionId} onValueChange={setFromVersionId}>
+                    <SelectTrigger className="w-[170px] h-8 text-xs">
+                      <SelectValue placeholder="From" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {versions.map((version) => (
+                        <SelectItem key={version.id} value={version.id} className="text-xs">
+                          {versionLabel(version)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <span className="text-xs text-muted-foreground">→</span>
+                  <Select value={toVersionId} onValueChange={setToVersionId}>
+                    <SelectTrigger className="w-[170px] h-8 text-xs">
+                      <SelectValue placeholder="To" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {versions.map((version) => (
+                        <SelectItem key={version.id} value={version.id} className="text-xs">
+                          {versionLabel(version)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {diff && (
+                    <div className="flex gap-1.5 ml-auto">
+                      <Badge variant="outline" className="text-xs text-success border-success/30">
+                        +{diff.added} added
+                      </Badge>
+                      <Badge variant="outline" className="text-xs text-destructive border-destructive/30">
+                        −{diff.removed} removed
+                      </Badge>
+                    </div>
+                  )}
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <Switch id="show-unchanged" checked={showUnchanged} onCheckedChange={setShowUnchanged} />
+                  <Label htmlFor="show-unchanged" className="text-xs text-muted-foreground">
+                    Show unchanged paragraphs
+                  </Label>
+                </div>
+
+                <ScrollArea className="pr-4 max-h-[340px]">
+                  {visibleEntries.length === 0 ? (
+                    <p className="text-sm text-muted-foreground py-6 text-center">
+                      No paragraph changes between these versions.
+                    </p>
+                  ) : (
+                    <div className="space-y-2">
+                      {visibleEntries.map((entry, index) => (
+                        <div
+                          key={index}
+                          className={
+                            entry.change === "added"
+                              ? "rounded-md border-l-2 border-success bg-success/10 px-3 py-2"
+                              : entry.change === "removed"
+                              ? "rounded-md border-l-2 border-destructive bg-destructive/10 px-3 py-2"
+                              : "rounded-md px-3 py-2 text-muted-foreground"
+                          }
+                        >
+                          <p className="text-sm whitespace-pre-wrap leading-relaxed">
+                            <span className="font-mono text-xs mr-2">
+                              {entry.change === "added" ? "+" : entry.change === "removed" ? "−" : " "}
+                            </span>
+                            {entry.text}
+                          </p>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </ScrollArea>
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
 
         {regulation.url && (
           <div className="mt-4 pt-4 border-t border-border">
@@ -2,9 +2,20 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } f
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
-import { Transaction } from "@/contexts/PipelineContext";
-import { DollarSign, Calendar, Building2, FileText, Tag, Receipt, Copy } from "lucide-react";
+import { EvidencePanel } from "@/components/agents/EvidencePanel";
+import { Transaction, TransactionField } from "@/contexts/PipelineContext";
+import { DollarSign, Calendar, Building2, FileText, Tag, Receipt, Copy, AlertTriangle, Hash, Gavel } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { isLowConfidence } from "@/lib/structuredAgents";
+import { formatMoney } from "@/lib/money";
+import { PROCUREMENT_MODES } from "@/lib/procurement";
+import {
+  validateGstin,
+  validateHsnSac,
+  validateInvoiceNumber,
+  validatePan,
+  validatePlaceOfSupply,
+} from "@/lib/taxIdentifiers";
 
 interface TransactionDetailModalProps {
   transaction: Transaction | null;
@@ -17,6 +28,36 @@ export function TransactionDetailModal({ transaction, open, onOpenChange }: Tran
 
   if (!transaction) return null;
 
+  const fieldClass = (field: TransactionField) =>
+    isLowConfidence(transaction, field)
+      ? "p-3 bg-amber-500/10 border border-amber-500/40 rounded-lg"
+      : "p-3 bg-muted/50 rounded-lg";
+
+  const confidenceNote = (field: TransactionField) =>
+    isLowConfidence(transaction, field) && (
+      <span className="ml-auto flex items-center gap-1 text-xs text-amber-600">
+        <AlertTriangle className="h-3 w-3" />
+        {Math.round((transaction.confidence?.[field] ?? 0) * 100)}% confident
+      </span>
+    );
+
+  const identifiers: { label: string; value?: string; validate: (value: string) => string | null }[] = [
+    { label: "GSTIN", value: transaction.gstin, validate: validateGstin },
+    { label: "PAN", value: transaction.pan, validate: validatePan },
+    { label: "Invoice No.", value: transaction.invoiceNumber, validate: validateInvoiceNumber },
+    { label: "Place of supply", value: transaction.placeOfSupply, validate: validatePlaceOfSupply },
+    { label: "HSN/SAC", value: transaction.hsnSac, validate: validateHsnSac },
+  ];
+  const recordedIdentifiers = identifiers.filter((identifier) => identifier.value);
+
+  const taxComponents = (
+    [
+      ["CGST", transaction.cgst],
+      ["SGST", transaction.sgst],
+      ["IGST", transaction.igst],
+    ] as const
+  ).filter(([, value]) => value);
+
   const handleCopyJson = () => {
     navigator.clipboard.writeText(JSON.stringify(transaction, null, 2));
     toast({ title: "Copied to clipboard" });
@@ -24,7 +65,7 @@ export function TransactionDetailModal({ transaction, open, onOpenChange }: Tran
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-lg">
+      <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
         <DialogHeader>
           <div className="flex items-center gap-2 mb-2">
             <Badge variant="outline" className="font-mono">
@@ -34,6 +75,7 @@ export function TransactionDetailModal({ transaction, open, onOpenChange }: Tran
           <DialogTitle className="text-xl">{transaction.vendor}</DialogTitle>
           <DialogDescription>
             Transaction details extracted from document
+            {transaction.sourcePage ? ` (page ${transaction.sourcePage})` : ""}
           </DialogDescription>
         </DialogHeader>
 
@@ -41,56 +83,125 @@ export function TransactionDetailModal({ transaction, open, onOpenChange }: Tran
 
         <div className="space-y-4">
           <div className="grid grid-cols-2 gap-4">
-            <div className="p-3 bg-muted/50 rounded-lg">
+            <div className={fieldClass("amount")}>
               <div className="flex items-center gap-2 text-muted-foreground mb-1">
                 <DollarSign className="h-4 w-4" />
                 <span className="text-xs">Amount</span>
+                {confidenceNote("amount")}
               </div>
-              <p className="text-lg font-semibold">{transaction.amount}</p>
+              <p className="text-lg font-semibold">{formatMoney(transaction.amount)}</p>
             </div>
             
-            <div className="p-3 bg-muted/50 rounded-lg">
+            <div className={fieldClass("tax")}>
               <div className="flex items-center gap-2 text-muted-foreground mb-1">
                 <Receipt className="h-4 w-4" />
                 <span className="text-xs">Tax</span>
+                {confidenceNote("tax")}
               </div>
-              <p className="text-lg font-semibold">{transaction.tax}</p>
+              <p className="text-lg font-semibold">{formatMoney(transaction.tax)}</p>
+              {taxComponents.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {taxComponents.map(([label, value]) => `${label} ${formatMoney(value)}`).join(" · ")}
+                </p>
+              )}
+              {transaction.tds && (
+                <p className="text-xs text-muted-foreground">
+                  TDS {formatMoney(transaction.tds)}
+                  {transaction.tdsSection && ` u/s ${transaction.tdsSection}`}
+                </p>
+              )}
             </div>
           </div>
 
-          <div className="p-3 bg-muted/50 rounded-lg">
+          <div className={fieldClass("date")}>
             <div className="flex items-center gap-2 text-muted-foreground mb-1">
               <Calendar className="h-4 w-4" />
               <span className="text-xs">Date</span>
+              {confidenceNote("date")}
             </div>
             <p className="font-medium">{transaction.date}</p>
           </div>
 
-          <div className="p-3 bg-muted/50 rounded-lg">
+          <div className={fieldClass("vendor")}>
             <div className="flex items-center gap-2 text-muted-foreground mb-1">
               <Building2 className="h-4 w-4" />
               <span className="text-xs">Vendor</span>
+              {confidenceNote("vendor")}
             </div>
             <p className="font-medium">{transaction.vendor}</p>
           </div>
 
-          <div className="p-3 bg-muted/50 rounded-lg">
+          <div className={fieldClass("category")}>
             <div className="flex items-center gap-2 text-muted-foreground mb-1">
               <Tag className="h-4 w-4" />
               <span className="text-xs">Category</span>
+              {confidenceNote("category")}
             </div>
             <p className="font-medium">{transaction.category}</p>
           </div>
 
-          {transaction.description && (
+          {recordedIdentifiers.length > 0 && (
+            <div className="p-3 bg-muted/50 rounded-lg">
+              <div className="flex items-center gap-2 text-muted-foreground mb-2">
+                <Hash className="h-4 w-4" />
+                <span className="text-xs">Tax identifiers</span>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                {recordedIdentifiers.map(({ label, value, validate }) => {
+                  const error = validate(value);
+                  return (
+                    <div key={label}>
+                      <p className="text-xs text-muted-foreground">{label}</p>
+                      <p
+                        className={`font-mono text-sm flex items-center gap-1 ${error ? "text-destructive" : ""}`}
+                        title={error ?? undefined}
+                      >
+                        {value}
+                        {error && <AlertTriangle className="h-3 w-3" />}
+                      </p>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {transaction.procurementMode && (
             <div className="p-3 bg-muted/50 rounded-lg">
+              <div className="flex items-center gap-2 text-muted-foreground mb-1">
+                <Gavel className="h-4 w-4" />
+                <span className="text-xs">Procurement</span>
+              </div>
+              <p className="font-medium">
+                {PROCUREMENT_MODES[transaction.procurementMode].label}
+                <span className="text-xs text-muted-foreground ml-2">
+                  {PROCUREMENT_MODES[transaction.procurementMode].rule}
+                </span>
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {[
+                  transaction.bidsReceived !== undefined &&
+                    `${transaction.bidsReceived} bid${transaction.bidsReceived === 1 ? "" : "s"} received`,
+                  transaction.tenderReference && `Ref. ${transaction.tenderReference}`,
+                ]
+                  .filter(Boolean)
+                  .join(" · ")}
+              </p>
+            </div>
+          )}
+
+          {transaction.description && (
+            <div className={fieldClass("description")}>
               <div className="flex items-center gap-2 text-muted-foreground mb-1">
                 <FileText className="h-4 w-4" />
                 <span className="text-xs">Description</span>
+                {confidenceNote("description")}
               </div>
               <p className="text-sm">{transaction.description}</p>
             </div>
           )}
+
+          <EvidencePanel key={transaction.id} transactionId={transaction.id} />
         </div>
 
         <Separator />
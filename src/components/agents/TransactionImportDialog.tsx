@@ -0,0 +1,274 @@
+import { useEffect, useMemo, useState } from "react";
+import { Loader2, Save, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import type { Transaction } from "@/contexts/PipelineContext";
+import { formatMoney } from "@/lib/money";
+import {
+  applyMapping,
+  deleteImportPreset,
+  detectLayout,
+  fetchImportPresets,
+  guessMapping,
+  IMPORT_FIELDS,
+  ImportField,
+  ImportMapping,
+  ImportPreset,
+  matchPreset,
+  presetMapping,
+  saveImportPreset,
+  SourceSheet,
+} from "@/lib/transactionImport";
+
+interface TransactionImportDialogProps {
+  /** Sheet read from the uploaded file; the dialog is closed while null */
+  sheet: SourceSheet | null;
+  fileName: string;
+  onOpenChange: (open: boolean) => void;
+  onImport: (transactions: Transaction[]) => void;
+}
+
+const NOT_MAPPED = "__none__";
+const PREVIEW_ROWS = 5;
+
+export function TransactionImportDialog({ sheet, fileName, onOpenChange, onImport }: TransactionImportDialogProps) {
+  const { toast } = useToast();
+  const [presets, setPresets] = useState<ImportPreset[]>([]);
+  const [mapping, setMapping] = useState<ImportMapping>({ columns: {}, defaultCategory: "Expense" });
+  const [source, setSource] = useState<string | null>(null);
+  const [presetName, setPresetName] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Saved preset for these headers first, then a known export layout, then a guess by header name
+  useEffect(() => {
+    if (!sheet) return;
+    let cancelled = false;
+
+    const detected = detectLayout(sheet.headers);
+    setMapping(detected?.mapping ?? guessMapping(sheet.headers));
+    setSource(detected ? detected.name : null);
+    setPresetName("");
+
+    fetchImportPresets()
+      .then((saved) => {
+        if (cancelled) return;
+        setPresets(saved);
+        const preset = matchPreset(saved, sheet.headers);
+        if (preset) {
+          setMapping(presetMapping(preset));
+          setSource(`Preset: ${preset.name}`);
+          setPresetName(preset.name);
+        }
+      })
+      // Presets need a signed-in user; detection still works without them
+      .catch(() => !cancelled && setPresets([]));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sheet]);
+
+  const transactions = useMemo(() => (sheet ? applyMapping(sheet, mapping) : []), [sheet, mapping]);
+
+  if (!sheet) return null;
+
+  const setColumn = (field: ImportField, column: string) =>
+    setMapping((prev) => ({
+      ...prev,
+      columns: { ...prev.columns, [field]: column === NOT_MAPPED ? undefined : column },
+    }));
+
+  const handlePresetChange = (id: string) => {
+    const preset = presets.find((p) => p.id === id);
+    if (!preset) return;
+    setMapping(presetMapping(preset));
+    setSource(`Preset: ${preset.name}`);
+    setPresetName(preset.name);
+  };
+
+  const handleSavePreset = async () => {
+    const name = presetName.trim();
+    if (!name) return;
+    setIsSaving(true);
+    try {
+      const saved = await saveImportPreset(name, sheet.headers, mapping);
+      setPresets((prev) => [saved, ...prev.filter((p) => p.id !== saved.id)]);
+      setSource(`Preset: ${saved.name}`);
+      toast({ title: `Mapping saved as "${saved.name}"` });
+    } catch (error) {
+      toast({
+        title: "Failed to save mapping",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeletePreset = async (preset: ImportPreset) => {
+    try {
+      await deleteImportPreset(preset.id);
+      setPresets((prev) => prev.filter((p) => p.id !== preset.id));
+    } catch (error) {
+      toast({
+        title: "Failed to delete preset",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const undated = transactions.filter((tx) => !tx.date).length;
+  const canImport = transactions.length > 0 && !!(mapping.columns.amount || mapping.columns.vendor);
+
+  return (
+    <Dialog open={!!sheet} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            Map columns
+            {source && <Badge variant="secondary">{source}</Badge>}
+          </DialogTitle>
+          <DialogDescription>
+            {fileName} · {sheet.rows.length} rows. Choose which column holds each transaction field.
+          </DialogDescription>
+        </DialogHeader>
+
+        {presets.length > 0 && (
+          <div className="space-y-1">
+            <Label className="text-xs">Saved presets</Label>
+            <div className="flex flex-wrap gap-2">
+              {presets.map((preset) => (
+                <div key={preset.id} className="flex items-center rounded-full border border-border text-xs">
+                  <button className="pl-3 pr-1 py-1 hover:text-primary" onClick={() => handlePresetChange(preset.id)}>
+                    {preset.name}
+                  </button>
+                  <button
+                    className="pr-2 py-1 opacity-60 hover:opacity-100 hover:text-destructive"
+                    onClick={() => handleDeletePreset(preset)}
+                    title="Delete preset"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {IMPORT_FIELDS.map(({ field, label }) => (
+            <div key={field} className="space-y-1">
+              <Label className="text-xs">{label}</Label>
+              <Select value={mapping.columns[field] ?? NOT_MAPPED} onValueChange={(value) => setColumn(field, value)}>
+                <SelectTrigger className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NOT_MAPPED}>Not mapped</SelectItem>
+                  {sheet.headers.map((header) => (
+                    <SelectItem key={header} value={header}>
+                      {header}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+          <div className="space-y-1">
+            <Label className="text-xs">Default category</Label>
+            <Input
+              className="h-9"
+              value={mapping.defaultCategory}
+              onChange={(e) => setMapping((prev) => ({ ...prev, defaultCategory: e.target.value }))}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-xs">Preview</Label>
+          <div className="rounded-lg border border-border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Vendor</TableHead>
+                  <TableHead>Amount</TableHead>
+                  <TableHead>Tax</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Description</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {transactions.slice(0, PREVIEW_ROWS).map((tx) => (
+                  <TableRow key={tx.id}>
+                    <TableCell className="whitespace-nowrap">
+                      {tx.date || <Badge variant="destructive">No date</Badge>}
+                    </TableCell>
+                    <TableCell>{tx.vendor}</TableCell>
+                    <TableCell className="whitespace-nowrap">{formatMoney(tx.amount)}</TableCell>
+                    <TableCell className="whitespace-nowrap">{formatMoney(tx.tax)}</TableCell>
+                    <TableCell>{tx.category}</TableCell>
+                    <TableCell className="max-w-[200px] truncate text-muted-foreground">{tx.description}</TableCell>
+                  </TableRow>
+                ))}
+                {transactions.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground">
+                      Map an amount or vendor column to see transactions
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+
+        {undated > 0 && (
+          <p className="text-sm text-destructive">
+            {undated} transaction(s) have no date{mapping.columns.date ? "" : " because no date column is mapped"}. They are
+            imported undated, so financial-year TDS totals and split-purchase checks leave them out.
+          </p>
+        )}
+
+        <div className="flex items-end gap-2">
+          <div className="flex-1 space-y-1">
+            <Label className="text-xs">Save mapping as preset</Label>
+            <Input
+              placeholder="e.g., HDFC current account"
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+            />
+          </div>
+          <Button variant="outline" onClick={handleSavePreset} disabled={!presetName.trim() || isSaving}>
+            {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+            Save preset
+          </Button>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => onImport(transactions)} disabled={!canImport}>
+            Import {transactions.length} transaction(s)
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,29 +1,28 @@
 import { DollarSign, Receipt, TrendingUp, Building2 } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Transaction } from "@/contexts/PipelineContext";
+import { formatMoney, formatMoneyCompact, Money, sumByCurrency, zeroMoney } from "@/lib/money";
 
 interface TransactionStatsCardsProps {
   transactions: Transaction[];
 }
 
 export function TransactionStatsCards({ transactions }: TransactionStatsCardsProps) {
-  const parseAmount = (amount: string): number => {
-    const num = parseFloat(amount.replace(/[^0-9.-]/g, ''));
-    return isNaN(num) ? 0 : num;
-  };
-
-  const totalAmount = transactions.reduce((sum, t) => sum + parseAmount(t.amount), 0);
-  const totalTax = transactions.reduce((sum, t) => sum + parseAmount(t.tax), 0);
+  const totalAmounts = sumByCurrency(transactions.map(t => t.amount));
+  const totalTaxes = sumByCurrency(transactions.map(t => t.tax));
   const uniqueVendors = new Set(transactions.map(t => t.vendor)).size;
   const categories = new Set(transactions.map(t => t.category)).size;
 
-  const formatCurrency = (num: number): string => {
-    return new Intl.NumberFormat('en-IN', {
-      style: 'currency',
-      currency: 'INR',
-      maximumFractionDigits: 0,
-    }).format(num);
-  };
+  // Largest currency total; other currencies are noted rather than added together
+  const formatTotal = (totals: Money[]): string =>
+    totals.length === 0 ? formatMoneyCompact(zeroMoney()) : formatMoneyCompact(totals[0]);
+
+  const otherCurrencies = (totals: Money[]) =>
+    totals.length > 1 && (
+      <p className="text-[10px] text-muted-foreground" title={totals.slice(1).map(formatMoney).join(", ")}>
+        + {totals.length - 1} other {totals.length > 2 ? "currencies" : "currency"}
+      </p>
+    );
 
   return (
     <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
@@ -48,8 +47,9 @@ export function TransactionStatsCards({ transactions }: TransactionStatsCardsPro
               <DollarSign className="h-5 w-5 text-success" />
             </div>
             <div>
-              <p className="text-2xl font-bold">{formatCurrency(totalAmount)}</p>
+              <p className="text-2xl font-bold">{formatTotal(totalAmounts)}</p>
               <p className="text-xs text-muted-foreground">Total Amount</p>
+              {otherCurrencies(totalAmounts)}
             </div>
           </div>
         </CardContent>
@@ -62,8 +62,9 @@ export function TransactionStatsCards({ transactions }: TransactionStatsCardsPro
               <TrendingUp className="h-5 w-5 text-warning" />
             </div>
             <div>
-              <p className="text-2xl font-bold">{formatCurrency(totalTax)}</p>
+              <p className="text-2xl font-bold">{formatTotal(totalTaxes)}</p>
               <p className="text-xs text-muted-foreground">Total Tax</p>
+              {otherCurrencies(totalTaxes)}
             </div>
           </div>
         </CardContent>
@@ -18,10 +18,15 @@ import {
   Sparkles,
   Cpu,
   Users,
-  UserCircle
+  UserCircle,
+  History,
+  Globe,
+  ListChecks
 } from "lucide-react";
 import { NavLink } from "@/components/NavLink";
 import { usePipeline } from "@/contexts/PipelineContext";
+import { useOrganization } from "@/contexts/OrganizationContext";
+import { AUDIT_ROLES, OrgRole, REVIEW_ROLES, roleLabel } from "@/lib/organizations";
 import {
   Sidebar,
   SidebarContent,
@@ -44,9 +49,13 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { useState } from "react";
 
-const mainNavItems = [
+// `roles` mirrors the route's ProtectedRoute gate in App.tsx
+const mainNavItems: { title: string; url: string; icon: typeof Home; highlight?: boolean; roles?: OrgRole[] }[] = [
   { title: "Home", url: "/dashboard", icon: Home },
-  { title: "Master Agent", url: "/master-agent", icon: Cpu, highlight: true },
+  { title: "Master Agent", url: "/master-agent", icon: Cpu, highlight: true, roles: AUDIT_ROLES },
+  { title: "Audit History", url: "/audits", icon: History },
+  { title: "Remediation", url: "/remediation", icon: ListChecks },
+  { title: "Regulation Portals", url: "/portals", icon: Globe, roles: ["admin"] },
   { title: "Pipeline Overview", url: "/dashboard/pipeline", icon: Workflow },
   { title: "Problem", url: "/dashboard/problem", icon: AlertTriangle },
   { title: "Solution", url: "/dashboard/solution", icon: Lightbulb },
@@ -61,41 +70,46 @@ const agents = [
     url: "/agents/regulation-monitor", 
     icon: Radio,
     description: "Fetch & index regulations",
-    dataKey: "regulations" as const
+    dataKey: "regulations" as const,
+    roles: AUDIT_ROLES,
   },
   { 
     title: "Legal Parsing", 
     url: "/agents/legal-parser", 
     icon: FileText,
     description: "Parse legal clauses",
-    dataKey: "parsedClauses" as const
+    dataKey: "parsedClauses" as const,
+    roles: AUDIT_ROLES,
   },
   { 
     title: "Transaction Understanding", 
     url: "/agents/transaction-understanding", 
     icon: Receipt,
     description: "Extract transaction data",
-    dataKey: "transactions" as const
+    dataKey: "transactions" as const,
+    roles: AUDIT_ROLES,
   },
   { 
     title: "Compliance Mapping", 
     url: "/agents/compliance-mapping", 
     icon: GitCompare,
     description: "Check compliance",
-    dataKey: "complianceResults" as const
+    dataKey: "complianceResults" as const,
+    roles: REVIEW_ROLES,
   },
   { 
     title: "Auditor Assistant", 
     url: "/agents/auditor-assistant", 
     icon: ClipboardCheck,
     description: "Generate audit reports",
-    dataKey: "auditReports" as const
+    dataKey: "auditReports" as const,
+    roles: AUDIT_ROLES,
   },
 ];
 
 const additionalNav = [
   { title: "Technology Stack", url: "/dashboard/tech-stack", icon: Cpu },
-  { title: "Meet ReguGuard Innovators", url: "/dashboard/team", icon: Users },
+  { title: "Team & Roles", url: "/dashboard/team", icon: Users },
 ];
 
 const bottomLinks = [
@@ -110,6 +124,9 @@ export function AppSidebar() {
   const collapsed = state === "collapsed";
   const [agentsOpen, setAgentsOpen] = useState(true);
   const pipeline = usePipeline();
+  const { organization, role } = useOrganization();
+
+  const canOpen = (item: { roles?: OrgRole[] }) => !item.roles || (role !== null && item.roles.includes(role));
 
   const getDataCount = (dataKey: typeof agents[number]['dataKey']) => {
     return pipeline[dataKey]?.length || 0;
@@ -123,9 +140,16 @@ export function AppSidebar() {
             <Shield className="w-4 h-4 text-primary" />
           </div>
           {!collapsed && (
-            <span className="font-bold text-sm">
-              <span className="text-gradient-primary">ReguGuard</span> AI
-            </span>
+            <div className="min-w-0">
+              <span className="font-bold text-sm">
+                <span className="text-gradient-primary">ReguGuard</span> AI
+              </span>
+              {organization && (
+                <p className="text-xs text-muted-foreground truncate">
+                  {organization.name} · {roleLabel(organization.role)}
+                </p>
+              )}
+            </div>
           )}
         </div>
       </SidebarHeader>
@@ -135,7 +159,7 @@ export function AppSidebar() {
         <SidebarGroup>
           <SidebarGroupContent>
             <SidebarMenu>
-              {mainNavItems.map((item) => (
+              {mainNavItems.filter(canOpen).map((item) => (
                 <SidebarMenuItem key={item.title}>
                   <SidebarMenuButton asChild tooltip={item.title}>
                     <NavLink 
@@ -171,7 +195,7 @@ export function AppSidebar() {
             <CollapsibleContent>
               <SidebarGroupContent>
                 <SidebarMenu>
-                  {agents.map((agent, index) => (
+                  {agents.map((agent, index) => canOpen(agent) && (
                     <SidebarMenuItem key={agent.title}>
                       <SidebarMenuButton asChild tooltip={agent.title}>
                         <NavLink 
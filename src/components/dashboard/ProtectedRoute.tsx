@@ -1,16 +1,22 @@
 import { ReactNode } from "react";
-import { Navigate } from "react-router-dom";
+import { Link, Navigate } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
-import { Loader2 } from "lucide-react";
+import { useOrganization } from "@/contexts/OrganizationContext";
+import { Button } from "@/components/ui/button";
+import { Loader2, ShieldX } from "lucide-react";
+import { OrgRole, roleLabel } from "@/lib/organizations";
 
 interface ProtectedRouteProps {
   children: ReactNode;
+  /** Roles in the active workspace that may open the route; any signed-in user when omitted */
+  roles?: OrgRole[];
 }
 
-export function ProtectedRoute({ children }: ProtectedRouteProps) {
+export function ProtectedRoute({ children, roles }: ProtectedRouteProps) {
   const { user, loading } = useAuth();
+  const { organization, role, loading: organizationLoading } = useOrganization();
 
-  if (loading) {
+  if (loading || (user && roles && organizationLoading)) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
         <Loader2 className="h-8 w-8 animate-spin text-primary" />
@@ -22,5 +28,24 @@ export function ProtectedRoute({ children }: ProtectedRouteProps) {
     return <Navigate to="/auth" replace />;
   }
 
+  if (roles && (!role || !roles.includes(role))) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-6">
+        <div className="max-w-md text-center space-y-4">
+          <ShieldX className="h-12 w-12 mx-auto text-muted-foreground" />
+          <h1 className="text-2xl font-bold">You don't have access to this page</h1>
+          <p className="text-muted-foreground">
+            {organization
+              ? `Your role in ${organization.name} is ${roleLabel(role)}; this page needs ${roles.map(roleLabel).join(" or ")}.`
+              : "You are not a member of any workspace. Ask an admin to add you."}
+          </p>
+          <Button asChild>
+            <Link to="/dashboard">Back to dashboard</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
   return <>{children}</>;
 }
@@ -0,0 +1,192 @@
+import { useEffect, useState } from "react";
+import { Loader2, Save, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useOrganization } from "@/contexts/OrganizationContext";
+import { AUDIT_ROLES, REVIEW_ROLES } from "@/lib/organizations";
+import {
+  deleteRemediationTask,
+  isOverdue,
+  REMEDIATION_STATUSES,
+  RemediationStatus,
+  RemediationTask,
+  updateRemediationTask,
+} from "@/lib/remediation";
+
+interface RemediationTaskDialogProps {
+  task: RemediationTask | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (task: RemediationTask) => void;
+  onDeleted: (id: string) => void;
+}
+
+const priorityColors = {
+  low: "bg-success/10 text-success border-success/20",
+  medium: "bg-warning/10 text-warning border-warning/20",
+  high: "bg-destructive/10 text-destructive border-destructive/20",
+};
+
+export function RemediationTaskDialog({ task, open, onOpenChange, onSaved, onDeleted }: RemediationTaskDialogProps) {
+  const { toast } = useToast();
+  const { role } = useOrganization();
+  const canUpdate = role !== null && REVIEW_ROLES.includes(role);
+  const canDelete = role !== null && AUDIT_ROLES.includes(role);
+  const [owner, setOwner] = useState("");
+  const [dueDate, setDueDate] = useState("");
+  const [status, setStatus] = useState<RemediationStatus>("open");
+  const [resolutionNote, setResolutionNote] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!task) return;
+    setOwner(task.owner);
+    setDueDate(task.dueDate);
+    setStatus(task.status);
+    setResolutionNote(task.resolutionNote);
+  }, [task]);
+
+  if (!task) return null;
+
+  const closing = status === "resolved" || status === "accepted_risk";
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      onSaved(await updateRemediationTask(task, { owner, dueDate, status, resolutionNote }));
+      onOpenChange(false);
+      toast({ title: "Remediation task updated" });
+    } catch (error) {
+      toast({
+        title: "Failed to update task",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      await deleteRemediationTask(task.id);
+      onDeleted(task.id);
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Failed to delete task",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <div className="flex items-center gap-2 mb-2">
+            <Badge variant="outline" className={priorityColors[task.priority]}>
+              {task.priority} priority
+            </Badge>
+            <Badge variant="outline" className="font-mono">
+              {task.clauseReference}
+            </Badge>
+            {isOverdue(task) && <Badge variant="destructive">Overdue</Badge>}
+          </div>
+          <DialogTitle>{task.vendor || "Audit finding"}</DialogTitle>
+          <DialogDescription>
+            {task.findingType === "violation" ? "Violation" : "Missing documents"} found on{" "}
+            {new Date(task.createdAt).toLocaleDateString()}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="p-3 bg-muted/50 rounded-lg space-y-2">
+            <div>
+              <p className="text-xs text-muted-foreground">Finding</p>
+              <p className="text-sm">{task.finding}</p>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground">Corrective action</p>
+              <p className="text-sm">{task.correctiveAction}</p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="task-owner">Owner</Label>
+              <Input id="task-owner" placeholder="Name or email" value={owner} onChange={(e) => setOwner(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="task-due">Due date</Label>
+              <Input id="task-due" type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label>Status</Label>
+              <Select value={status} onValueChange={(value) => setStatus(value as RemediationStatus)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {REMEDIATION_STATUSES.map((s) => (
+                    <SelectItem key={s.status} value={s.status}>
+                      {s.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="task-resolution">
+              Resolution{closing && <span className="text-destructive"> *</span>}
+            </Label>
+            <Textarea
+              id="task-resolution"
+              rows={3}
+              placeholder={
+                status === "accepted_risk"
+                  ? "Why the risk is accepted and who approved it"
+                  : "What was done to close the finding, with document references"
+              }
+              value={resolutionNote}
+              onChange={(e) => setResolutionNote(e.target.value)}
+            />
+            {task.resolvedAt && (
+              <p className="text-xs text-muted-foreground">Closed on {new Date(task.resolvedAt).toLocaleString()}</p>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-between">
+          {canDelete ? (
+            <Button variant="ghost" className="hover:text-destructive" onClick={handleDelete}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete
+            </Button>
+          ) : (
+            <span />
+          )}
+          <Button onClick={handleSave} disabled={!canUpdate || !dueDate || (closing && !resolutionNote.trim()) || isSaving}>
+            {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+            Save
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,77 @@
+import React, { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { fetchMemberships, setActiveOrganization, Membership, OrgRole } from '@/lib/organizations';
+
+interface OrganizationContextType {
+  memberships: Membership[];
+  /** The workspace the user is working in; RLS shows them its data only */
+  organization: Membership | null;
+  role: OrgRole | null;
+  loading: boolean;
+  switchOrganization: (organizationId: string) => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+const OrganizationContext = createContext<OrganizationContextType | undefined>(undefined);
+
+export function OrganizationProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+
+  const [memberships, setMemberships] = useState<Membership[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!userId) {
+      setMemberships([]);
+      setActiveId(null);
+      setLoading(false);
+      return;
+    }
+    try {
+      const state = await fetchMemberships(userId);
+      setMemberships(state.memberships);
+      setActiveId(state.activeId);
+    } catch (error) {
+      console.error('Failed to load organizations:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  // Reload whenever the signed-in user changes
+  useEffect(() => {
+    setLoading(true);
+    refresh();
+  }, [refresh]);
+
+  const switchOrganization = async (organizationId: string) => {
+    if (!userId || organizationId === activeId) return;
+    await setActiveOrganization(userId, organizationId);
+    setActiveId(organizationId);
+  };
+
+  const organization = memberships.find(m => m.organizationId === activeId) ?? null;
+
+  return (
+    <OrganizationContext.Provider value={{
+      memberships,
+      organization,
+      role: organization?.role ?? null,
+      loading,
+      switchOrganization,
+      refresh,
+    }}>
+      {children}
+    </OrganizationContext.Provider>
+  );
+}
+
+export function useOrganization() {
+  const context = useContext(OrganizationContext);
+  if (context === undefined) {
+    throw new Error('useOrganization must be used within an OrganizationProvider');
+  }
+  return context;
+}
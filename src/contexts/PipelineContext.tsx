@@ -1,4 +1,19 @@
-import React, { createContext, useContext, useState, ReactNode } from 'react';
+import React, { createContext, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useOrganization } from '@/contexts/OrganizationContext';
+import {
+  loadPipelineState,
+  replaceTransactions,
+  upsertTransactions,
+  replaceComplianceResults,
+  saveComplianceResult,
+  upsertComplianceResults,
+  replaceAuditReports,
+  upsertAuditReports,
+  clearPipelineState,
+  PipelineWorkspace,
+} from '@/lib/pipelinePersistence';
+import type { Money } from '@/lib/money';
 
 // Agent 1 Output / Agent 2 Input
 export interface Regulation {
@@ -10,6 +25,8 @@ export interface Regulation {
   content: string;
   url?: string;
   last_updated?: string;
+  /** content_hash of the indexed regulation this was loaded from */
+  contentHash?: string;
 }
 
 // Agent 2 Output - Parsed legal clauses
@@ -20,19 +37,64 @@ export interface ParsedClause {
   rule: string;
   conditions: string;
   penalties: string;
+  /** content_hash of the regulation text the clause was parsed from */
+  sourceHash?: string;
 }
 
 // Agent 3 Output - Transaction data
 export interface Transaction {
   id: string;
   category: string;
-  amount: string;
-  tax: string;
+  amount: Money;
+  /** Total tax; for GST, the sum of the components below when they are stated */
+  tax: Money;
+  cgst?: Money;
+  /** SGST, or UTGST in union territories */
+  sgst?: Money;
+  igst?: Money;
+  /** Income tax deducted at source from the payment */
+  tds?: Money;
+  /** TDS section the payment was booked under, e.g. "194C" */
+  tdsSection?: string;
   vendor: string;
   date: string;
   description: string;
+  /** Supplier's GST registration number */
+  gstin?: string;
+  /** Supplier's PAN */
+  pan?: string;
+  invoiceNumber?: string;
+  /** GST place of supply, as a state code or state name */
+  placeOfSupply?: string;
+  /** HSN (goods) or SAC (services) code */
+  hsnSac?: string;
+  /** How the purchase was made, for procurement payments */
+  procurementMode?: ProcurementMode;
+  /** Bids or quotations received */
+  bidsReceived?: number;
+  /** Tender, bid or GeM order number */
+  tenderReference?: string;
+  /** Extraction confidence (0-1) per field, for transactions read from documents */
+  confidence?: Partial<Record<TransactionField, number>>;
+  /** PDF page the transaction was read from */
+  sourcePage?: number;
 }
 
+export type TransactionField = "category" | "amount" | "tax" | "vendor" | "date" | "description";
+
+export type TransactionIdentifierField = "gstin" | "pan" | "invoiceNumber" | "placeOfSupply" | "hsnSac";
+
+/** Procurement methods of the General Financial Rules 2017, including GeM purchases */
+export type ProcurementMode =
+  | "without_quotation"
+  | "purchase_committee"
+  | "limited_tender"
+  | "open_tender"
+  | "single_tender"
+  | "gem_direct"
+  | "gem_l1"
+  | "gem_bid";
+
 // Agent 4 Output - Compliance check result
 export interface ComplianceResult {
   id: string;
@@ -78,22 +140,94 @@ interface PipelineContextType {
   complianceResults: ComplianceResult[];
   setComplianceResults: (results: ComplianceResult[]) => void;
   addComplianceResults: (results: ComplianceResult[]) => void;
+  updateComplianceResult: (result: ComplianceResult) => void;
   
   auditReports: AuditReport[];
   setAuditReports: (reports: AuditReport[]) => void;
   addAuditReport: (report: AuditReport) => void;
   
+  /** True while persisted pipeline state is being loaded for the signed-in user */
+  isHydrating: boolean;
+
   clearAll: () => void;
 }
 
 const PipelineContext = createContext<PipelineContextType | undefined>(undefined);
 
+// Merge hydrated rows with anything produced before hydration finished; in-memory items win.
+function mergeById<T extends { id: string }>(persisted: T[], current: T[]): T[] {
+  const currentIds = new Set(current.map(item => item.id));
+  return [...persisted.filter(item => !currentIds.has(item.id)), ...current];
+}
+
 export function PipelineProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const { organization } = useOrganization();
+  const userId = user?.id ?? null;
+  const organizationId = organization?.organizationId ?? null;
+
   const [regulations, setRegulations] = useState<Regulation[]>([]);
   const [parsedClauses, setParsedClauses] = useState<ParsedClause[]>([]);
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
-  const [complianceResults, setComplianceResults] = useState<ComplianceResult[]>([]);
-  const [auditReports, setAuditReports] = useState<AuditReport[]>([]);
+  const [transactions, setTransactionsState] = useState<Transaction[]>([]);
+  const [complianceResults, setComplianceResultsState] = useState<ComplianceResult[]>([]);
+  const [auditReports, setAuditReportsState] = useState<AuditReport[]>([]);
+  const [isHydrating, setIsHydrating] = useState(false);
+
+  // Hydrate from the database whenever the signed-in user or their workspace changes
+  useEffect(() => {
+    setTransactionsState([]);
+    setComplianceResultsState([]);
+    setAuditReportsState([]);
+
+    if (!userId || !organizationId) return;
+
+    let cancelled = false;
+    setIsHydrating(true);
+
+    loadPipelineState(organizationId)
+      .then((state) => {
+        if (cancelled) return;
+        setTransactionsState(prev => mergeById(state.transactions, prev));
+        setComplianceResultsState(prev => mergeById(state.complianceResults, prev));
+        setAuditReportsState(prev => mergeById(state.auditReports, prev));
+      })
+      .catch((error) => {
+        console.error('Failed to load pipeline state:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsHydrating(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, organizationId]);
+
+  // Write-through queue: writes run in order so a replace never races an earlier one.
+  // Persistence failures are logged and never block the UI.
+  const writeQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const persist = (label: string, write: (ws: PipelineWorkspace) => Promise<void>) => {
+    if (!userId || !organizationId) return;
+    const ws = { userId, organizationId };
+    writeQueueRef.current = writeQueueRef.current
+      .then(() => write(ws))
+      .catch((error) => console.error(`Failed to persist ${label}:`, error));
+  };
+
+  const setTransactions = (txns: Transaction[]) => {
+    setTransactionsState(txns);
+    persist('transactions', ws => replaceTransactions(ws, txns));
+  };
+
+  const setComplianceResults = (results: ComplianceResult[]) => {
+    setComplianceResultsState(results);
+    persist('compliance results', ws => replaceComplianceResults(ws, results));
+  };
+
+  const setAuditReports = (reports: AuditReport[]) => {
+    setAuditReportsState(reports);
+    persist('audit reports', ws => replaceAuditReports(ws, reports));
+  };
 
   const addRegulations = (regs: Regulation[]) => {
     setRegulations(prev => {
@@ -111,32 +245,42 @@ export function PipelineProvider({ children }: { children: ReactNode }) {
   };
 
   const addTransactions = (txns: Transaction[]) => {
-    setTransactions(prev => {
+    setTransactionsState(prev => {
       const newIds = new Set(txns.map(t => t.id));
       return [...prev.filter(t => !newIds.has(t.id)), ...txns];
     });
+    persist('transactions', ws => upsertTransactions(ws, txns));
   };
 
   const addComplianceResults = (results: ComplianceResult[]) => {
-    setComplianceResults(prev => {
+    setComplianceResultsState(prev => {
       const newIds = new Set(results.map(r => r.transactionId));
       return [...prev.filter(r => !newIds.has(r.transactionId)), ...results];
     });
+    persist('compliance results', ws => upsertComplianceResults(ws, results));
+  };
+
+  // Unlike addComplianceResults, keeps the other results for the same transaction
+  const updateComplianceResult = (result: ComplianceResult) => {
+    setComplianceResultsState(prev => prev.map(r => (r.id === result.id ? result : r)));
+    persist('compliance result', ws => saveComplianceResult(ws, result));
   };
 
   const addAuditReport = (report: AuditReport) => {
-    setAuditReports(prev => {
+    setAuditReportsState(prev => {
       const newIds = new Set([report.id]);
       return [...prev.filter(r => !newIds.has(r.id)), report];
     });
+    persist('audit report', ws => upsertAuditReports(ws, [report]));
   };
 
   const clearAll = () => {
     setRegulations([]);
     setParsedClauses([]);
-    setTransactions([]);
-    setComplianceResults([]);
-    setAuditReports([]);
+    setTransactionsState([]);
+    setComplianceResultsState([]);
+    setAuditReportsState([]);
+    persist('cleared pipeline state', ws => clearPipelineState(ws));
   };
 
   return (
@@ -153,9 +297,11 @@ export function PipelineProvider({ children }: { children: ReactNode }) {
       complianceResults,
       setComplianceResults,
       addComplianceResults,
+      updateComplianceResult,
       auditReports,
       setAuditReports,
       addAuditReport,
+      isHydrating,
       clearAll,
     }}>
       {children}
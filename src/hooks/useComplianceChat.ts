@@ -1,22 +1,55 @@
-import { useState, useCallback, useRef } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
+import { supabase } from "@/integrations/supabase/clientRuntime";
 import { getSupabasePublicConfig } from "@/lib/publicConfig";
-
-export interface Message {
-  role: "user" | "assistant";
-  content: string;
+import type { AuditChatContext, ResultReference } from "@/lib/auditChat";
+import {
+  ChatThread,
+  Citation,
+  createChatThread,
+  deleteChatThread,
+  fetchChatMessages,
+  fetchChatThreads,
+  Message,
+  renameChatThread,
+} from "@/lib/chatThreads";
+
+export type { Citation, Message } from "@/lib/chatThreads";
+
+interface UseComplianceChatOptions {
+  /** Save conversations as threads of the signed-in user */
+  persist?: boolean;
+  /** Answer questions about this audit instead of the regulations; such chats are not saved */
+  audit?: AuditChatContext | null;
 }
 
-export const useComplianceChat = () => {
+export const useComplianceChat = ({ persist = false, audit = null }: UseComplianceChatOptions = {}) => {
   const [messages, setMessages] = useState<Message[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [threads, setThreads] = useState<ChatThread[]>([]);
+  const [threadId, setThreadId] = useState<string | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
 
+  const refreshThreads = useCallback(async () => {
+    if (!persist) return;
+    try {
+      setThreads(await fetchChatThreads());
+    } catch (error) {
+      console.error("Failed to load chat threads:", error);
+    }
+  }, [persist]);
+
+  useEffect(() => {
+    refreshThreads();
+  }, [refreshThreads]);
+
   const sendMessage = useCallback(async (input: string) => {
     const userMsg: Message = { role: "user", content: input };
     setMessages(prev => [...prev, userMsg]);
     setIsLoading(true);
 
     let assistantContent = "";
+    let citations: Citation[] = [];
+    let resultRefs: ResultReference[] | undefined;
 
     const updateAssistant = (chunk: string) => {
       assistantContent += chunk;
@@ -25,7 +58,7 @@ export const useComplianceChat = () => {
         if (last?.role === "assistant") {
           return prev.map((m, i) => (i === prev.length - 1 ? { ...m, content: assistantContent } : m));
         }
-        return [...prev, { role: "assistant", content: assistantContent }];
+        return [...prev, { role: "assistant", content: assistantContent, citations, resultRefs }];
       });
     };
 
@@ -33,6 +66,20 @@ export const useComplianceChat = () => {
       abortControllerRef.current = new AbortController();
       
       const { url: supabaseUrl, publishableKey } = getSupabasePublicConfig();
+      let authToken = publishableKey;
+      let activeThreadId = threadId;
+
+      // Saved threads send only the new question; the server keeps the history
+      if (persist && !audit) {
+        const { data: { session } } = await supabase.auth.getSession();
+        authToken = session?.access_token ?? publishableKey;
+        if (!activeThreadId) {
+          const thread = await createChatThread();
+          activeThreadId = thread.id;
+          setThreadId(thread.id);
+          setThreads(prev => [thread, ...prev]);
+        }
+      }
 
       const response = await fetch(
         `${supabaseUrl}/functions/v1/compliance-chat`,
@@ -40,9 +87,16 @@ export const useComplianceChat = () => {
           method: "POST",
           headers: {
             "Content-Type": "application/json",
-            Authorization: `Bearer ${publishableKey}`,
+            Authorization: `Bearer ${authToken}`,
           },
-          body: JSON.stringify({ messages: [...messages, userMsg] }),
+          body: JSON.stringify(
+            activeThreadId
+              ? { threadId: activeThreadId, message: input }
+              : {
+                  messages: [...messages, userMsg].map(({ role, content }) => ({ role, content })),
+                  ...(audit ? { audit } : {}),
+                }
+          ),
           signal: abortControllerRef.current.signal,
         }
       );
@@ -80,6 +134,15 @@ export const useComplianceChat = () => {
 
           try {
             const parsed = JSON.parse(jsonStr);
+            // The first event lists the sources (or audit findings) the answer cites
+            if (parsed.citations) {
+              citations = parsed.citations;
+              continue;
+            }
+            if (parsed.resultRefs) {
+              resultRefs = parsed.resultRefs;
+              continue;
+            }
             const content = parsed.choices?.[0]?.delta?.content;
             if (content) updateAssistant(content);
           } catch {
@@ -99,13 +162,44 @@ export const useComplianceChat = () => {
     } finally {
       setIsLoading(false);
       abortControllerRef.current = null;
+      // Picks up the title given to a new thread and the new ordering
+      refreshThreads();
     }
-  }, [messages]);
+  }, [messages, persist, audit, threadId, refreshThreads]);
 
+  /** Start a new conversation; a saved thread stays in the list */
   const clearMessages = useCallback(() => {
+    abortControllerRef.current?.abort();
+    setThreadId(null);
+    setMessages([]);
+  }, []);
+
+  const selectThread = useCallback(async (id: string) => {
+    abortControllerRef.current?.abort();
+    setThreadId(id);
     setMessages([]);
+    try {
+      setMessages(await fetchChatMessages(id));
+    } catch (error) {
+      console.error("Failed to load chat messages:", error);
+      setMessages([{ role: "assistant", content: "Error: could not load this conversation." }]);
+    }
+  }, []);
+
+  const renameThread = useCallback(async (id: string, title: string) => {
+    await renameChatThread(id, title);
+    setThreads(prev => prev.map(t => (t.id === id ? { ...t, title } : t)));
   }, []);
 
+  const deleteThread = useCallback(async (id: string) => {
+    await deleteChatThread(id);
+    setThreads(prev => prev.filter(t => t.id !== id));
+    if (id === threadId) {
+      setThreadId(null);
+      setMessages([]);
+    }
+  }, [threadId]);
+
   const stopGeneration = useCallback(() => {
     abortControllerRef.current?.abort();
   }, []);
@@ -116,5 +210,10 @@ export const useComplianceChat = () => {
     sendMessage,
     clearMessages,
     stopGeneration,
+    threads,
+    threadId,
+    selectThread,
+    renameThread,
+    deleteThread,
   };
 };
@@ -3,6 +3,18 @@ import { usePipeline, Regulation, ParsedClause, Transaction, ComplianceResult, A
 import { supabase } from '@/integrations/supabase/clientRuntime';
 import { getSupabasePublicConfig } from '@/lib/publicConfig';
 import { useToast } from '@/hooks/use-toast';
+import { createAuditRunRecorder, detectCategories, AuditRunRecorder, AuditRunOutcome, AuditRunLogType } from '@/lib/auditRuns';
+import { loadCachedClauses, saveParsedClauses } from '@/lib/clauseCache';
+import {
+  readStructuredResponse,
+  StructuredAgentName,
+  StructuredAgentOutputs,
+} from '@/lib/structuredAgents';
+import { evaluateClause } from '@/lib/ruleEngine';
+import { isLocalCheck, loadLocalCheckContext, runLocalChecks } from '@/lib/localChecks';
+import { createRemediationTasks } from '@/lib/remediation';
+import { retrieveRegulations, RegulationRetrieval } from '@/lib/regulationRetrieval';
+import { formatMoney } from '@/lib/money';
 
 export type MasterAgentStep = 
   | 'idle'
@@ -24,12 +36,20 @@ export interface MasterAgentProgress {
   detectedCategories: string[];
 }
 
+// Undecided clause/transaction pairs per batch-compliance-audit call, so each response fits the output limit
+const CLAUSE_CHECK_BATCH_SIZE = 100;
+
 interface UseMasterAgentOptions {
   onComplete?: (report: AuditReport) => void;
   /** Minimum delay between API calls in ms (controls concurrency) */
   minIntervalMs?: number;
 }
 
+interface RunMasterAgentOptions {
+  /** Name of the uploaded file, recorded in the audit run history */
+  inputFileName?: string;
+}
+
 export function useMasterAgent(options: UseMasterAgentOptions = {}) {
   const { toast } = useToast();
   const pipeline = usePipeline();
@@ -53,6 +73,9 @@ export function useMasterAgent(options: UseMasterAgentOptions = {}) {
   const pauseResolveRef = useRef<(() => void) | null>(null);
   const isPausedRef = useRef(false);
 
+  // Records the current run for the audit history (/audits)
+  const recorderRef = useRef<AuditRunRecorder | null>(null);
+
   const pause = useCallback(() => {
     isPausedRef.current = true;
     setIsPaused(true);
@@ -76,6 +99,7 @@ export function useMasterAgent(options: UseMasterAgentOptions = {}) {
   }, []);
 
   const addLog = useCallback((type: 'info' | 'success' | 'error' | 'warning', message: string) => {
+    recorderRef.current?.log(type, message);
     setProgress(prev => ({
       ...prev,
       logs: [...prev.logs.slice(-100), { type, message, timestamp: new Date() }],
@@ -83,6 +107,7 @@ export function useMasterAgent(options: UseMasterAgentOptions = {}) {
   }, []);
 
   const updateProgress = useCallback((step: MasterAgentStep, message: string, current = 0, total = 0) => {
+    recorderRef.current?.step(step);
     setProgress(prev => ({
       ...prev,
       step,
@@ -92,7 +117,8 @@ export function useMasterAgent(options: UseMasterAgentOptions = {}) {
     }));
   }, []);
 
-  const callAgent = async (functionName: string, body: Record<string, unknown>): Promise<string> => {
+  // Throttled POST to an agent function, retrying on 429. Other failures are returned to the caller.
+  const postAgent = async (functionName: string, body: Record<string, unknown>): Promise<Response> => {
     // Check if paused before making call
     await checkPause();
 
@@ -119,40 +145,6 @@ export function useMasterAgent(options: UseMasterAgentOptions = {}) {
         body: JSON.stringify(body),
       });
 
-      if (response.ok) {
-        const reader = response.body?.getReader();
-        if (!reader) return '';
-
-        const decoder = new TextDecoder();
-        let result = '';
-        let buffer = '';
-
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-          buffer += decoder.decode(value, { stream: true });
-
-          const lines = buffer.split('\n');
-          buffer = lines.pop() || '';
-
-          for (const line of lines) {
-            if (line.startsWith('data:')) {
-              const jsonStr = line.slice(5).trim();
-              if (jsonStr === '[DONE]') continue;
-              try {
-                const parsed = JSON.parse(jsonStr);
-                const content = parsed.choices?.[0]?.delta?.content;
-                if (content) result += content;
-              } catch {
-                // Ignore parse errors
-              }
-            }
-          }
-        }
-
-        return result;
-      }
-
       // Handle rate limiting with backoff
       if (response.status === 429 && attempt < maxRetries) {
         const retryAfterHeader = response.headers.get('retry-after');
@@ -164,45 +156,34 @@ export function useMasterAgent(options: UseMasterAgentOptions = {}) {
         continue;
       }
 
-      const errorText = await readResponseError(response);
-      throw new Error(`Agent ${functionName} failed (${response.status}): ${errorText}`);
+      return response;
     }
 
     throw new Error(`Agent ${functionName} failed: rate limit exceeded`);
   };
 
-  // Detect transaction categories for regulation filtering
-  const detectCategories = (transactions: Transaction[]): string[] => {
-    const categoryMap: Record<string, string[]> = {
-      'tax': ['Tax', 'GST', 'Income Tax', 'VAT', 'Customs', 'Excise'],
-      'banking': ['Wire Transfer', 'Bank', 'NEFT', 'RTGS', 'UPI', 'Payment'],
-      'government': ['Government', 'Grant', 'Subsidy', 'Ministry', 'Public'],
-      'procurement': ['Procurement', 'GeM', 'Tender', 'Contract', 'Purchase'],
-      'investment': ['Investment', 'Securities', 'Stock', 'Mutual Fund'],
-      'compliance': ['Audit', 'Compliance', 'Filing', 'Return'],
-    };
-
-    const detectedCategories = new Set<string>();
-    
-    for (const tx of transactions) {
-      const searchText = `${tx.category} ${tx.description} ${tx.vendor}`.toLowerCase();
-      
-      for (const [category, keywords] of Object.entries(categoryMap)) {
-        if (keywords.some(kw => searchText.includes(kw.toLowerCase()))) {
-          detectedCategories.add(category);
-        }
-      }
-    }
-
-    return detectedCategories.size > 0 ? Array.from(detectedCategories) : ['compliance'];
+  const callStructuredAgent = async <K extends StructuredAgentName>(
+    functionName: K,
+    body: Record<string, unknown>
+  ): Promise<StructuredAgentOutputs[K]> => {
+    const response = await postAgent(functionName, { ...body, mode: 'structured' });
+    return readStructuredResponse(functionName, response);
   };
 
-  const runMasterAgent = useCallback(async (inputTransactions: Transaction[]) => {
+  const runMasterAgent = useCallback(async (
+    inputTransactions: Transaction[],
+    runOptions: RunMasterAgentOptions = {}
+  ) => {
     if (inputTransactions.length === 0) {
       toast({ title: 'No transaction data provided', variant: 'destructive' });
       return null;
     }
 
+    const recorder = createAuditRunRecorder('master_agent', runOptions.inputFileName);
+    recorderRef.current = recorder;
+    let allClauses: ParsedClause[] = [];
+    let complianceResults: ComplianceResult[] = [];
+
     setIsRunning(true);
     setFinalReport(null);
     setProgress({
@@ -221,72 +202,57 @@ export function useMasterAgent(options: UseMasterAgentOptions = {}) {
 
       const categories = detectCategories(inputTransactions);
       setProgress(prev => ({ ...prev, detectedCategories: categories }));
+      recorder.setDetectedCategories(categories);
       addLog('success', `Detected categories: ${categories.join(', ')}`);
 
       pipeline.setTransactions(inputTransactions);
 
-      // ====== STEP 2: FETCH RELEVANT REGULATIONS ======
-      updateProgress('fetching_regulations', 'Fetching relevant regulations from database...');
-      addLog('info', 'Querying indexed regulations based on detected categories');
+      // ====== STEP 2: RETRIEVE RELEVANT REGULATIONS ======
+      updateProgress('fetching_regulations', 'Retrieving relevant regulations...');
+      addLog('info', 'Searching embedded regulation passages for each transaction');
 
-      // Build category filter for database query
-      const categoryFilters = categories.map(cat => `%${cat}%`);
-      
       let regulations: Regulation[] = [];
-      
-      // First try to get regulations matching detected categories
-      const { data: filteredRegs, error: filterError } = await supabase
-        .from('indexed_regulations')
-        .select('*')
-        .eq('is_processed', true)
-        .order('crawled_at', { ascending: false });
-
-      if (filterError) {
-        addLog('warning', `Database query warning: ${filterError.message}`);
-      }
+      let retrieval: RegulationRetrieval | null = null;
 
-      if (filteredRegs && filteredRegs.length > 0) {
-        // Filter regulations based on detected categories
-        const categoryKeywords = categories.flatMap(cat => {
-          const keywords: Record<string, string[]> = {
-            'tax': ['tax', 'gst', 'income', 'vat', 'customs', 'excise', 'direct', 'indirect'],
-            'banking': ['bank', 'rbi', 'payment', 'transfer', 'finance', 'monetary'],
-            'government': ['government', 'ministry', 'public', 'official', 'central', 'state'],
-            'procurement': ['procurement', 'gem', 'tender', 'contract', 'purchase', 'vendor'],
-            'investment': ['investment', 'sebi', 'securities', 'market', 'trading'],
-            'compliance': ['compliance', 'audit', 'regulation', 'rule', 'act', 'law'],
-          };
-          return keywords[cat] || [cat];
-        });
+      try {
+        retrieval = await retrieveRegulations(inputTransactions);
+        regulations = retrieval.regulations;
+        if (regulations.length > 0) {
+          addLog('success', `Retrieved ${regulations.length} regulations by semantic similarity (${retrieval.model})`);
+        }
+        if (retrieval.skippedTransactionIds.length > 0) {
+          addLog('warning', `${retrieval.skippedTransactionIds.length} transaction(s) past the retrieval limit were checked against the regulations retrieved for the others`);
+        }
+      } catch (retrievalErr) {
+        addLog('warning', `Semantic retrieval failed: ${retrievalErr instanceof Error ? retrievalErr.message : String(retrievalErr)}`);
+      }
 
-        const filtered = filteredRegs.filter(reg => {
-          const searchText = `${reg.title || ''} ${reg.category || ''} ${reg.content || ''} ${reg.source || ''}`.toLowerCase();
-          return categoryKeywords.some(kw => searchText.includes(kw));
-        });
+      if (regulations.length === 0) {
+        // Nothing embedded yet (or retrieval unavailable): fall back to the most recent regulations
+        const { data: recentRegs, error: recentError } = await supabase
+          .from('indexed_regulations')
+          .select('*')
+          .eq('is_processed', true)
+          .order('crawled_at', { ascending: false })
+          .limit(5);
+
+        if (recentError) {
+          addLog('warning', `Database query warning: ${recentError.message}`);
+        }
 
-        if (filtered.length > 0) {
-          regulations = filtered.slice(0, 5).map(reg => ({
-            id: reg.id,
-            source: reg.source,
-            title: reg.title || 'Untitled Regulation',
-            date: new Date(reg.crawled_at).toISOString().split('T')[0],
-            version: '1.0',
-            content: reg.content || reg.summary || '',
-            url: reg.url,
-          }));
-          addLog('success', `Found ${regulations.length} regulations matching categories: ${categories.join(', ')}`);
-        } else {
-          // Fallback to all regulations if no category match
-          regulations = filteredRegs.slice(0, 5).map(reg => ({
-            id: reg.id,
-            source: reg.source,
-            title: reg.title || 'Untitled Regulation',
-            date: new Date(reg.crawled_at).toISOString().split('T')[0],
-            version: '1.0',
-            content: reg.content || reg.summary || '',
-            url: reg.url,
-          }));
-          addLog('warning', 'No category-specific regulations found, using general regulations');
+        regulations = (recentRegs || []).map(reg => ({
+          id: reg.id,
+          source: reg.source,
+          title: reg.title || 'Untitled Regulation',
+          date: new Date(reg.crawled_at).toISOString().split('T')[0],
+          version: '1.0',
+          content: reg.content || reg.summary || '',
+          url: reg.url,
+          contentHash: reg.content_hash ?? undefined,
+        }));
+        retrieval = null;
+        if (regulations.length > 0) {
+          addLog('warning', 'No embedded passages matched, using the most recent regulations');
         }
       }
 
@@ -294,7 +260,8 @@ export function useMasterAgent(options: UseMasterAgentOptions = {}) {
         throw new Error('No regulations found in database. Please crawl regulations first using the Regulation Monitor.');
       }
 
-      updateProgress('filtering_regulations', `Filtered ${regulations.length} relevant regulations`);
+      updateProgress('filtering_regulations', `Selected ${regulations.length} relevant regulations`);
+      recorder.setRegulationIds(regulations.map(r => r.id));
       pipeline.setRegulations(regulations);
       addLog('success', `Loaded ${regulations.length} regulations for compliance checking`);
 
@@ -302,26 +269,22 @@ export function useMasterAgent(options: UseMasterAgentOptions = {}) {
       updateProgress('parsing_clauses', 'Processing compliance audit...', 0, 1);
       addLog('info', 'Sending batch request for clause parsing + compliance mapping');
 
-      // First check cache for any existing clauses
-      const regulationIds = regulations.map((r) => r.id);
-      const { data: cachedRows, error: cacheErr } = await supabase
-        .from('parsed_clauses')
-        .select('*')
-        .in('regulation_id', regulationIds);
+      // Retrieved passages replace whole-document excerpts in the batch prompt
+      const retrievedPassages = new Map(retrieval?.regulations.map(r => [r.id, r.passages]) ?? []);
+      const relevantRegulationIds = new Map(retrieval?.matches.map(m => [m.transactionId, m.regulationIds]) ?? []);
 
-      if (cacheErr) {
-        addLog('warning', `Cache fetch failed: ${cacheErr.message}`);
+      // First check cache for clauses parsed from the current regulation text
+      let cachedClauses: ParsedClause[] = [];
+      try {
+        const cache = await loadCachedClauses(regulations);
+        cachedClauses = cache.clauses;
+        if (cache.staleRegulationIds.length > 0) {
+          addLog('warning', `${cache.staleClauseCount} cached clauses are outdated; re-parsing ${cache.staleRegulationIds.length} amended regulation(s)`);
+        }
+      } catch (cacheErr) {
+        addLog('warning', `Cache fetch failed: ${cacheErr instanceof Error ? cacheErr.message : String(cacheErr)}`);
       }
 
-      const cachedClauses: ParsedClause[] = (cachedRows || []).map((c) => ({
-        id: c.id,
-        regulationId: c.regulation_id,
-        clauseId: c.clause_id,
-        rule: c.rule,
-        conditions: c.conditions ?? '',
-        penalties: c.penalties ?? '',
-      }));
-
       if (cachedClauses.length > 0) {
         addLog('info', `Found ${cachedClauses.length} cached clauses`);
       }
@@ -330,8 +293,7 @@ export function useMasterAgent(options: UseMasterAgentOptions = {}) {
       const cachedRegIds = new Set(cachedClauses.map(c => c.regulationId));
       const uncachedRegs = regulations.filter(r => !cachedRegIds.has(r.id));
 
-      let allClauses: ParsedClause[] = [...cachedClauses];
-      let complianceResults: ComplianceResult[] = [];
+      allClauses = [...cachedClauses];
 
       if (uncachedRegs.length > 0 || cachedClauses.length === 0) {
         // Make ONE batch call for all uncached regulations + compliance mapping
@@ -348,8 +310,12 @@ export function useMasterAgent(options: UseMasterAgentOptions = {}) {
               amount: t.amount,
               tax: t.tax,
               category: t.category,
+              relevantRegulationIds: relevantRegulationIds.get(t.id),
+            })),
+            regulations: (uncachedRegs.length > 0 ? uncachedRegs : regulations).map((r) => ({
+              ...r,
+              passages: retrievedPassages.get(r.id),
             })),
-            regulations: uncachedRegs.length > 0 ? uncachedRegs : regulations,
           },
           {
             onRetry: (msg) => addLog('warning', msg),
@@ -367,24 +333,13 @@ export function useMasterAgent(options: UseMasterAgentOptions = {}) {
             rule: c.rule,
             conditions: c.conditions || '',
             penalties: c.penalties || '',
+            sourceHash: regulations.find(r => r.id === c.regulationId)?.contentHash,
           }));
 
-          // Cache the new clauses
-          const toInsert = newClauses.map((c) => ({
-            id: c.id,
-            regulation_id: c.regulationId,
-            clause_id: c.clauseId,
-            rule: c.rule,
-            conditions: c.conditions,
-            penalties: c.penalties,
-          }));
-
-          supabase
-            .from('parsed_clauses')
-            .upsert(toInsert, { onConflict: 'regulation_id,clause_id' })
-            .then(({ error }) => {
-              if (error) console.error('Clause cache insert failed:', error);
-            });
+          // Cache the new clauses, replacing any outdated ones
+          saveParsedClauses(newClauses).catch((error) => {
+            console.error('Clause cache insert failed:', error);
+          });
 
           allClauses = [...cachedClauses, ...newClauses];
           addLog('success', `Extracted ${newClauses.length} new clauses (total: ${allClauses.length})`);
@@ -404,22 +359,107 @@ export function useMasterAgent(options: UseMasterAgentOptions = {}) {
 
         addLog('info', batchResult.summary || 'Batch audit completed');
       } else {
-        // All regulations are cached, just run compliance mapping with cached clauses
-        addLog('info', 'All clauses cached, generating compliance results from cached data');
-        
-        // Generate simple compliance results based on cached clauses
-        for (const tx of inputTransactions) {
-          const relevantClauses = allClauses.slice(0, 3);
-          for (const clause of relevantClauses) {
-            complianceResults.push({
-              id: crypto.randomUUID(),
-              transactionId: tx.id,
-              clauseId: clause.id,
-              status: 'warning',
-              riskLevel: 'low',
-              reasoning: `Transaction reviewed against ${clause.clauseId}. Manual verification recommended.`,
-            });
-          }
+        addLog('info', 'All clauses cached, skipping batch clause extraction');
+      }
+
+      // ====== DETERMINISTIC RULE EVALUATION ======
+      // Clauses the rule engine can parse are decided locally and replace any AI result for the same pair;
+      // pairs whose clause does not apply get no result at all
+      const ruleResults: ComplianceResult[] = [];
+      const undecided: { tx: Transaction; clause: ParsedClause }[] = [];
+      const notApplicable = new Set<string>();
+      const pairKey = (transactionId: string, clauseId: string) => `${transactionId}:${clauseId}`;
+      for (const tx of inputTransactions) {
+        for (const clause of allClauses) {
+          const result = evaluateClause(clause, tx);
+          if (result === 'not_applicable') notApplicable.add(pairKey(tx.id, clause.id));
+          else if (result) ruleResults.push(result);
+          else undecided.push({ tx, clause });
+        }
+      }
+
+      const decidedPairs = new Set([...notApplicable, ...ruleResults.map(r => pairKey(r.transactionId, r.clauseId))]);
+      // Tax identifiers, GST, TDS and procurement rules are checked without a clause
+      const localCheckContext = await loadLocalCheckContext(inputTransactions);
+      const localResults = inputTransactions.flatMap(tx => runLocalChecks(tx, localCheckContext));
+      complianceResults = [
+        ...localResults,
+        ...ruleResults,
+        ...complianceResults.filter(r => !decidedPairs.has(pairKey(r.transactionId, r.clauseId))),
+      ];
+      addLog('info', `Rule engine decided ${ruleResults.length} checks (${notApplicable.size} clause/transaction pairs not applicable), ${undecided.length} need AI review`);
+      if (localResults.length > 0) {
+        const issues = localResults.filter(r => r.status !== 'compliant').length;
+        addLog(issues > 0 ? 'warning' : 'info', `Local tax checks: ${localResults.length} results, ${issues} issue(s)`);
+      }
+
+      // AI checks for clauses the engine could not parse and the batch call did not cover, in batches
+      const coveredPairs = new Set(complianceResults.map(r => pairKey(r.transactionId, r.clauseId)));
+      const pendingChecks = undecided.filter(({ tx, clause }) => !coveredPairs.has(pairKey(tx.id, clause.id)));
+
+      for (let i = 0; i < pendingChecks.length; i += CLAUSE_CHECK_BATCH_SIZE) {
+        const batch = pendingChecks.slice(i, i + CLAUSE_CHECK_BATCH_SIZE);
+        updateProgress('mapping_compliance', `AI check: ${batch.length} clause/transaction pairs`, i + batch.length, pendingChecks.length);
+
+        let assessed = new Map<string, { status: string; riskLevel: string; reasoning: string }>();
+        try {
+          const batchTransactions = [...new Map(batch.map(({ tx }) => [tx.id, tx])).values()];
+          const batchClauses = [...new Map(batch.map(({ clause }) => [clause.id, clause])).values()];
+          const checked = await invokeBatchComplianceAudit(
+            {
+              transactions: batchTransactions.map((t) => ({
+                id: t.id,
+                date: t.date,
+                vendor: t.vendor,
+                description: t.description,
+                amount: t.amount,
+                tax: t.tax,
+                category: t.category,
+              })),
+              clauses: batchClauses.map((c) => ({
+                id: c.id,
+                clauseId: c.clauseId,
+                rule: c.rule,
+                conditions: c.conditions,
+                penalties: c.penalties,
+              })),
+              pairs: batch.map(({ tx, clause }) => ({ transactionId: tx.id, clauseId: clause.id })),
+            },
+            {
+              onRetry: (msg) => addLog('warning', msg),
+            }
+          );
+          assessed = new Map(
+            (checked.results ?? []).map((r: { transactionId: string; clauseId: string; status: string; riskLevel: string; reasoning: string }) => [
+              pairKey(r.transactionId, r.clauseId),
+              r,
+            ])
+          );
+        } catch (err) {
+          addLog('warning', `AI check failed for ${batch.length} clause/transaction pairs`);
+        }
+
+        for (const { tx, clause } of batch) {
+          const r = assessed.get(pairKey(tx.id, clause.id));
+          complianceResults.push(
+            r
+              ? {
+                  id: crypto.randomUUID(),
+                  transactionId: tx.id,
+                  clauseId: clause.id,
+                  status: r.status as 'compliant' | 'violation' | 'warning',
+                  riskLevel: r.riskLevel as 'low' | 'medium' | 'high',
+                  reasoning: r.reasoning || 'Compliance assessment completed.',
+                }
+              : {
+                  id: crypto.randomUUID(),
+                  transactionId: tx.id,
+                  clauseId: clause.id,
+                  status: 'warning',
+                  riskLevel: 'medium',
+                  reasoning: 'Compliance check could not be completed automatically. Manual review required.',
+                }
+          );
         }
       }
 
@@ -437,9 +477,9 @@ export function useMasterAgent(options: UseMasterAgentOptions = {}) {
       addLog('info', 'Generating comprehensive audit report');
 
       // Call auditor assistant for AI-enhanced report
-      let aiReportSummary = '';
+      const aiDetails = new Map<string, { reasoning: string; correctiveAction: string }>();
       try {
-        aiReportSummary = await callAgent('agent-auditor-assistant', {
+        const aiReport = await callStructuredAgent('agent-auditor-assistant', {
           complianceData: {
             summary: {
               totalRegulations: regulations.length,
@@ -455,15 +495,18 @@ export function useMasterAgent(options: UseMasterAgentOptions = {}) {
               const tx = inputTransactions.find(t => t.id === r.transactionId);
               const clause = allClauses.find(c => c.id === r.clauseId);
               return {
+                complianceResultId: r.id,
                 status: r.status,
                 riskLevel: r.riskLevel,
                 reasoning: r.reasoning,
-                transaction: tx ? `${tx.vendor} - ${tx.amount}` : 'Unknown',
-                clause: clause?.clauseId || 'Unknown'
+                transaction: tx ? `${tx.vendor} - ${formatMoney(tx.amount)}` : 'Unknown',
+                clause: clause?.clauseId || (isLocalCheck(r.clauseId) ? r.clauseId : 'Unknown')
               };
             })
           }
         });
+        for (const detail of aiReport.details) aiDetails.set(detail.complianceResultId, detail);
+        addLog('info', aiReport.executiveSummary);
       } catch (err) {
         addLog('warning', 'AI report enhancement skipped');
       }
@@ -480,11 +523,12 @@ export function useMasterAgent(options: UseMasterAgentOptions = {}) {
         details: complianceResults.map(r => {
           const tx = inputTransactions.find(t => t.id === r.transactionId);
           const clause = allClauses.find(c => c.id === r.clauseId);
+          const aiDetail = aiDetails.get(r.id);
           return {
             complianceResultId: r.id,
-            clauseReference: clause?.clauseId || 'Unknown',
-            reasoning: r.reasoning || aiReportSummary.slice(0, 200),
-            correctiveAction: getCorrectiveAction(r.status, tx, clause)
+            clauseReference: clause?.clauseId || (isLocalCheck(r.clauseId) ? r.clauseId : 'Unknown'),
+            reasoning: aiDetail?.reasoning || r.reasoning || 'Compliance assessment completed.',
+            correctiveAction: aiDetail?.correctiveAction || getCorrectiveAction(r.status, tx, clause)
           };
         })
       };
@@ -501,6 +545,15 @@ export function useMasterAgent(options: UseMasterAgentOptions = {}) {
         description: `Found ${report.summary.violations} violations in ${report.summary.totalChecked} checks` 
       });
       
+      saveAuditRun(recorder, {
+        status: 'complete',
+        report,
+        complianceResults,
+        transactions: inputTransactions,
+        parsedClauses: allClauses,
+      });
+      openRemediationTasks(report, complianceResults, inputTransactions, addLog);
+
       options.onComplete?.(report);
       return report;
 
@@ -508,9 +561,17 @@ export function useMasterAgent(options: UseMasterAgentOptions = {}) {
       const message = error instanceof Error ? error.message : 'Unknown error';
       updateProgress('error', message);
       addLog('error', message);
+      saveAuditRun(recorder, {
+        status: 'error',
+        error: message,
+        complianceResults,
+        transactions: inputTransactions,
+        parsedClauses: allClauses,
+      });
       toast({ title: 'Audit failed', description: message, variant: 'destructive' });
       return null;
     } finally {
+      recorderRef.current = null;
       setIsRunning(false);
     }
   }, [pipeline, toast, options, addLog, updateProgress]);
@@ -541,6 +602,25 @@ export function useMasterAgent(options: UseMasterAgentOptions = {}) {
 
 const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
 
+// History is best-effort: a failed save must never fail the audit itself
+function saveAuditRun(recorder: AuditRunRecorder, outcome: AuditRunOutcome) {
+  recorder.save(outcome).catch((error) => console.error('Audit run history save failed:', error));
+}
+
+// Also best-effort; tasks can be created from the report on the remediation board
+function openRemediationTasks(
+  report: AuditReport,
+  results: ComplianceResult[],
+  transactions: Transaction[],
+  addLog: (type: AuditRunLogType, message: string) => void
+) {
+  createRemediationTasks(report, results, transactions)
+    .then((count) => {
+      if (count > 0) addLog('info', `${count} remediation task(s) opened`);
+    })
+    .catch((error) => console.error('Remediation task creation failed:', error));
+}
+
 async function invokeBatchComplianceAudit(
   payload: Record<string, unknown>,
   opts?: {
@@ -603,50 +683,6 @@ async function readResponseError(resp: Response): Promise<string> {
 }
 
 // Helper functions
-function extractRule(response: string): string | null {
-  const ruleMatch = response.match(/IF\s+[\s\S]*?THEN\s+[\s\S]*?(?=\n|$)/i);
-  return ruleMatch ? ruleMatch[0].trim() : null;
-}
-
-function extractConditions(response: string): string | null {
-  const condMatch = response.match(/(?:conditions?|applicable|applies?|when)[\s:]+([^\n]+(?:\n(?![A-Z]).*)*)/i);
-  return condMatch ? condMatch[1].trim().slice(0, 300) : null;
-}
-
-function extractPenalties(response: string): string | null {
-  const penMatch = response.match(/(?:penalt|fine|punishment|consequence)[\s\S]*?(?:\.|$)/i);
-  return penMatch ? penMatch[0].trim().slice(0, 200) : null;
-}
-
-function parseComplianceResult(response: string, transactionId: string, clauseId: string): ComplianceResult {
-  const lowerResponse = response.toLowerCase();
-  
-  let status: ComplianceResult['status'] = 'warning';
-  if (lowerResponse.includes('compliant') && !lowerResponse.includes('non-compliant') && !lowerResponse.includes('not compliant')) {
-    status = 'compliant';
-  } else if (lowerResponse.includes('violation') || lowerResponse.includes('non-compliant') || lowerResponse.includes('not compliant')) {
-    status = 'violation';
-  } else if (lowerResponse.includes('missing') || lowerResponse.includes('document')) {
-    status = 'missing_docs';
-  }
-
-  let riskLevel: ComplianceResult['riskLevel'] = 'medium';
-  if (lowerResponse.includes('high risk') || lowerResponse.includes('critical') || lowerResponse.includes('severe')) {
-    riskLevel = 'high';
-  } else if (lowerResponse.includes('low risk') || lowerResponse.includes('minor')) {
-    riskLevel = 'low';
-  }
-
-  return {
-    id: crypto.randomUUID(),
-    transactionId,
-    clauseId,
-    status,
-    riskLevel,
-    reasoning: response.slice(0, 500) || 'Compliance analysis completed.',
-  };
-}
-
 function getCorrectiveAction(
   status: ComplianceResult['status'], 
   tx?: Transaction, 
@@ -3,6 +3,18 @@ import { usePipeline, Regulation, ParsedClause, Transaction, ComplianceResult, A
 import { supabase } from '@/integrations/supabase/clientRuntime';
 import { getSupabasePublicConfig } from '@/lib/publicConfig';
 import { useToast } from '@/hooks/use-toast';
+import { createAuditRunRecorder, detectCategories, AuditRunRecorder, AuditRunOutcome, AuditRunLogType } from '@/lib/auditRuns';
+import {
+  readStructuredResponse,
+  StructuredAgentName,
+  StructuredAgentOutputs,
+  toComplianceResult,
+  toParsedClauses,
+} from '@/lib/structuredAgents';
+import { evaluateClause } from '@/lib/ruleEngine';
+import { isLocalCheck, loadLocalCheckContext, runLocalChecks } from '@/lib/localChecks';
+import { createRemediationTasks } from '@/lib/remediation';
+import { formatMoney, money } from '@/lib/money';
 
 export type PipelineStep = 
   | 'idle'
@@ -39,10 +51,13 @@ export function usePipelineRunner(options: UsePipelineRunnerOptions = {}) {
   });
 
   const lastCallAtRef = useRef(0);
+  // Records the current run for the audit history (/audits)
+  const recorderRef = useRef<AuditRunRecorder | null>(null);
   // Avoid triggering upstream model quotas during pipeline runs.
   const MIN_AGENT_CALL_INTERVAL_MS = 1500;
 
   const addLog = useCallback((type: 'info' | 'success' | 'error' | 'warning', message: string) => {
+    recorderRef.current?.log(type, message);
     setProgress(prev => ({
       ...prev,
       logs: [...prev.logs.slice(-50), { type, message, timestamp: new Date() }],
@@ -50,6 +65,7 @@ export function usePipelineRunner(options: UsePipelineRunnerOptions = {}) {
   }, []);
 
   const updateProgress = useCallback((step: PipelineStep, message: string, current = 0, total = 0) => {
+    recorderRef.current?.step(step);
     setProgress(prev => ({
       ...prev,
       step,
@@ -59,7 +75,8 @@ export function usePipelineRunner(options: UsePipelineRunnerOptions = {}) {
     }));
   }, []);
 
-  const callAgent = async (functionName: string, body: Record<string, unknown>): Promise<string> => {
+  // Throttled POST to an agent function, retrying on 429. Other failures are returned to the caller.
+  const postAgent = async (functionName: string, body: Record<string, unknown>): Promise<Response> => {
     const now = Date.now();
     const sinceLast = now - lastCallAtRef.current;
     if (sinceLast < MIN_AGENT_CALL_INTERVAL_MS) {
@@ -83,40 +100,6 @@ export function usePipelineRunner(options: UsePipelineRunnerOptions = {}) {
         body: JSON.stringify(body),
       });
 
-      if (response.ok) {
-        const reader = response.body?.getReader();
-        if (!reader) return '';
-
-        const decoder = new TextDecoder();
-        let result = '';
-        let buffer = '';
-
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-          buffer += decoder.decode(value, { stream: true });
-
-          const lines = buffer.split('\n');
-          buffer = lines.pop() || '';
-
-          for (const line of lines) {
-            if (line.startsWith('data:')) {
-              const jsonStr = line.slice(5).trim();
-              if (jsonStr === '[DONE]') continue;
-              try {
-                const parsed = JSON.parse(jsonStr);
-                const content = parsed.choices?.[0]?.delta?.content;
-                if (content) result += content;
-              } catch {
-                // Ignore parse errors
-              }
-            }
-          }
-        }
-
-        return result;
-      }
-
       if (response.status === 429 && attempt < maxRetries) {
         const retryAfterHeader = response.headers.get('retry-after');
         const retryAfterMs = retryAfterHeader ? Number(retryAfterHeader) * 1000 : 0;
@@ -127,17 +110,70 @@ export function usePipelineRunner(options: UsePipelineRunnerOptions = {}) {
         continue;
       }
 
+      return response;
+    }
+
+    throw new Error(`Agent ${functionName} failed: rate limit exceeded`);
+  };
+
+  const callAgent = async (functionName: string, body: Record<string, unknown>): Promise<string> => {
+    const response = await postAgent(functionName, body);
+    if (!response.ok) {
       const errorText = await readResponseError(response);
       throw new Error(`Agent ${functionName} failed (${response.status}): ${errorText}`);
     }
 
-    throw new Error(`Agent ${functionName} failed: rate limit exceeded`);
+    const reader = response.body?.getReader();
+    if (!reader) return '';
+
+    const decoder = new TextDecoder();
+    let result = '';
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        if (line.startsWith('data:')) {
+          const jsonStr = line.slice(5).trim();
+          if (jsonStr === '[DONE]') continue;
+          try {
+            const parsed = JSON.parse(jsonStr);
+            const content = parsed.choices?.[0]?.delta?.content;
+            if (content) result += content;
+          } catch {
+            // Ignore parse errors
+          }
+        }
+      }
+    }
+
+    return result;
+  };
+
+  const callStructuredAgent = async <K extends StructuredAgentName>(
+    functionName: K,
+    body: Record<string, unknown>
+  ): Promise<StructuredAgentOutputs[K]> => {
+    const response = await postAgent(functionName, { ...body, mode: 'structured' });
+    return readStructuredResponse(functionName, response);
   };
 
   const runFullPipeline = useCallback(async (
     inputRegulations?: Regulation[],
     inputTransactions?: Transaction[]
   ) => {
+    const recorder = createAuditRunRecorder('pipeline');
+    recorderRef.current = recorder;
+    let transactions: Transaction[] = inputTransactions || pipeline.transactions;
+    const allClauses: ParsedClause[] = [];
+    const complianceResults: ComplianceResult[] = [];
+
     setIsRunning(true);
     setProgress({
       step: 'idle',
@@ -173,6 +209,7 @@ export function usePipelineRunner(options: UsePipelineRunnerOptions = {}) {
             version: '1.0',
             content: reg.content || reg.summary || '',
             url: reg.url,
+            contentHash: reg.content_hash ?? undefined,
           }));
           pipeline.setRegulations(regulations);
           addLog('success', `Loaded ${regulations.length} regulations from database`);
@@ -191,36 +228,18 @@ export function usePipelineRunner(options: UsePipelineRunnerOptions = {}) {
       updateProgress('parsing_clauses', 'Parsing legal clauses...', 0, regulations.length);
       addLog('info', 'Starting legal parsing (Agent 2)');
 
-      const allClauses: ParsedClause[] = [];
+      recorder.setRegulationIds(regulations.map(r => r.id));
+
       for (let i = 0; i < regulations.length; i++) {
         const reg = regulations[i];
         updateProgress('parsing_clauses', `Parsing: ${reg.title.slice(0, 50)}...`, i + 1, regulations.length);
 
         try {
-          const aiResponse = await callAgent('agent-legal-parser', { 
-            text: `### ${reg.title}\nSource: ${reg.source}\nDate: ${reg.date}\n\n${reg.content.slice(0, 4000)}` 
+          const { clauses: structuredClauses } = await callStructuredAgent('agent-legal-parser', {
+            text: `### ${reg.title}\nSource: ${reg.source}\nDate: ${reg.date}\n\n${reg.content.slice(0, 4000)}`
           });
 
-          // Extract structured clauses from AI response
-          const sourcePrefix = reg.source.toUpperCase().replace(/[^A-Z0-9]/g, '_').slice(0, 10);
-          const clauses: ParsedClause[] = [
-            {
-              id: crypto.randomUUID(),
-              regulationId: reg.id,
-              clauseId: `${sourcePrefix}_${String(i * 2 + 1).padStart(3, '0')}`,
-              rule: extractRule(aiResponse) || `IF entity_type = 'registered_business' AND transaction_value > threshold THEN file_compliance_report WITHIN deadline`,
-              conditions: extractConditions(aiResponse) || `Applicable under ${reg.source} regulations`,
-              penalties: extractPenalties(aiResponse) || `Non-compliance penalty as per ${reg.source} guidelines`,
-            },
-            {
-              id: crypto.randomUUID(),
-              regulationId: reg.id,
-              clauseId: `${sourcePrefix}_${String(i * 2 + 2).padStart(3, '0')}`,
-              rule: `IF document_type = 'financial_record' THEN maintain_records FOR period_years = 8`,
-              conditions: `All financial documents must be maintained in prescribed format with digital signatures`,
-              penalties: `Documentation penalty: ₹5,000 per day of non-compliance`,
-            }
-          ];
+          const clauses = toParsedClauses(structuredClauses, reg.id, reg.contentHash);
           allClauses.push(...clauses);
           addLog('success', `Parsed: ${reg.title.slice(0, 40)}... → ${clauses.length} clauses`);
         } catch (err) {
@@ -232,8 +251,6 @@ export function usePipelineRunner(options: UsePipelineRunnerOptions = {}) {
       addLog('success', `Agent 2 complete: Generated ${allClauses.length} compliance clauses`);
 
       // ====== STEP 3: PROCESS TRANSACTIONS ======
-      let transactions: Transaction[] = inputTransactions || pipeline.transactions;
-      
       if (transactions.length === 0) {
         updateProgress('processing_transactions', 'No transactions provided, generating demo data...');
         addLog('info', 'Loading demo transactions (Agent 3)');
@@ -243,8 +260,8 @@ export function usePipelineRunner(options: UsePipelineRunnerOptions = {}) {
           {
             id: crypto.randomUUID(),
             category: "Wire Transfer",
-            amount: "₹1,25,00,000",
-            tax: "₹0.00",
+            amount: money(12500000),
+            tax: money(0),
             vendor: "State Bank of India",
             date: new Date().toISOString().split('T')[0],
             description: "Inter-state fund transfer for infrastructure project"
@@ -252,8 +269,8 @@ export function usePipelineRunner(options: UsePipelineRunnerOptions = {}) {
           {
             id: crypto.randomUUID(),
             category: "Government Grant",
-            amount: "₹5,00,00,000",
-            tax: "₹12,50,000",
+            amount: money(50000000),
+            tax: money(1250000),
             vendor: "Ministry of Finance",
             date: new Date().toISOString().split('T')[0],
             description: "Central grant for rural development scheme"
@@ -261,11 +278,18 @@ export function usePipelineRunner(options: UsePipelineRunnerOptions = {}) {
           {
             id: crypto.randomUUID(),
             category: "Procurement",
-            amount: "₹87,50,000",
-            tax: "₹15,75,000",
+            amount: money(8750000),
+            tax: money(1575000),
             vendor: "GeM Portal Vendor",
             date: new Date().toISOString().split('T')[0],
-            description: "IT equipment procurement via GeM"
+            description: "IT equipment procurement via GeM",
+            gstin: "07AAGCG4521M1ZH",
+            invoiceNumber: "GEM/2024/B/4417",
+            placeOfSupply: "07-Delhi",
+            hsnSac: "8471",
+            procurementMode: "gem_bid",
+            bidsReceived: 4,
+            tenderReference: "GEM/2024/B/4417"
           }
         ];
         
@@ -274,7 +298,7 @@ export function usePipelineRunner(options: UsePipelineRunnerOptions = {}) {
           await callAgent('agent-transaction-understanding', {
             transactionData: JSON.stringify(transactions.map(t => ({
               vendor: t.vendor,
-              amount: t.amount,
+              amount: formatMoney(t.amount),
               category: t.category,
               description: t.description
             })))
@@ -288,21 +312,44 @@ export function usePipelineRunner(options: UsePipelineRunnerOptions = {}) {
       } else {
         addLog('info', `Using ${transactions.length} existing transactions`);
       }
+      recorder.setDetectedCategories(detectCategories(transactions));
 
       // ====== STEP 4: COMPLIANCE MAPPING ======
       updateProgress('mapping_compliance', 'Running compliance checks (Agent 4)...', 0, transactions.length);
       addLog('info', `Starting compliance mapping: ${transactions.length} transactions × ${allClauses.length} clauses`);
+      const localCheckContext = await loadLocalCheckContext(transactions);
 
-      const complianceResults: ComplianceResult[] = [];
-      
       for (let i = 0; i < transactions.length; i++) {
         const tx = transactions[i];
         updateProgress('mapping_compliance', `Checking: ${tx.vendor}`, i + 1, transactions.length);
 
+        // Tax identifiers and GST computation, checked locally without a clause
+        for (const result of runLocalChecks(tx, localCheckContext)) {
+          complianceResults.push(result);
+          const statusEmoji = result.status === 'compliant' ? '✓' : result.status === 'violation' ? '✗' : '⚠';
+          addLog(
+            result.status === 'compliant' ? 'success' : result.status === 'violation' ? 'error' : 'warning',
+            `${statusEmoji} ${tx.vendor} ${result.clauseId}: ${result.status} (local check)`
+          );
+        }
+
         // Check against each relevant clause
         for (const clause of allClauses) {
+          // Deterministic rules are decided locally; only unparseable clauses go to the AI
+          const ruleResult = evaluateClause(clause, tx);
+          if (ruleResult === 'not_applicable') continue;
+          if (ruleResult) {
+            complianceResults.push(ruleResult);
+            const statusEmoji = ruleResult.status === 'compliant' ? '✓' : ruleResult.status === 'violation' ? '✗' : '⚠';
+            addLog(
+              ruleResult.status === 'compliant' ? 'success' : ruleResult.status === 'violation' ? 'error' : 'warning',
+              `${statusEmoji} ${tx.vendor} vs ${clause.clauseId}: ${ruleResult.status} (rule engine)`
+            );
+            continue;
+          }
+
           try {
-            const aiResponse = await callAgent('agent-compliance-mapping', {
+            const assessment = await callStructuredAgent('agent-compliance-mapping', {
               transaction: {
                 id: tx.id,
                 category: tx.category,
@@ -320,7 +367,7 @@ export function usePipelineRunner(options: UsePipelineRunnerOptions = {}) {
               }
             });
 
-            const result = parseComplianceResult(aiResponse, tx.id, clause.id);
+            const result = toComplianceResult(assessment, tx.id, clause.id);
             complianceResults.push(result);
             
             const statusEmoji = result.status === 'compliant' ? '✓' : result.status === 'violation' ? '✗' : '⚠';
@@ -357,16 +404,17 @@ export function usePipelineRunner(options: UsePipelineRunnerOptions = {}) {
       const auditInput = {
         regulations: regulations.map(r => ({ id: r.id, title: r.title, source: r.source })),
         clauses: allClauses.map(c => ({ clauseId: c.clauseId, rule: c.rule, penalties: c.penalties })),
-        transactions: transactions.map(t => ({ id: t.id, vendor: t.vendor, amount: t.amount, category: t.category })),
+        transactions: transactions.map(t => ({ id: t.id, vendor: t.vendor, amount: formatMoney(t.amount), category: t.category })),
         complianceResults: complianceResults.map(r => {
           const tx = transactions.find(t => t.id === r.transactionId);
           const clause = allClauses.find(c => c.id === r.clauseId);
           return {
+            complianceResultId: r.id,
             status: r.status,
             riskLevel: r.riskLevel,
             reasoning: r.reasoning,
-            transaction: tx ? `${tx.vendor} - ${tx.amount}` : 'Unknown',
-            clause: clause?.clauseId || 'Unknown'
+            transaction: tx ? `${tx.vendor} - ${formatMoney(tx.amount)}` : 'Unknown',
+            clause: clause?.clauseId || (isLocalCheck(r.clauseId) ? r.clauseId : 'Unknown')
           };
         }),
         summary: {
@@ -380,11 +428,13 @@ export function usePipelineRunner(options: UsePipelineRunnerOptions = {}) {
         }
       };
 
-      let aiReportSummary = '';
+      const aiDetails = new Map<string, { reasoning: string; correctiveAction: string }>();
       try {
-        aiReportSummary = await callAgent('agent-auditor-assistant', {
+        const aiReport = await callStructuredAgent('agent-auditor-assistant', {
           complianceData: auditInput
         });
+        for (const detail of aiReport.details) aiDetails.set(detail.complianceResultId, detail);
+        addLog('info', aiReport.executiveSummary);
       } catch (err) {
         addLog('warning', 'AI report generation enhanced with structured data');
       }
@@ -402,11 +452,12 @@ export function usePipelineRunner(options: UsePipelineRunnerOptions = {}) {
         details: complianceResults.map(r => {
           const tx = transactions.find(t => t.id === r.transactionId);
           const clause = allClauses.find(c => c.id === r.clauseId);
+          const aiDetail = aiDetails.get(r.id);
           return {
             complianceResultId: r.id,
-            clauseReference: clause?.clauseId || 'Unknown',
-            reasoning: r.reasoning || aiReportSummary.slice(0, 200),
-            correctiveAction: getCorrectiveAction(r.status, tx, clause)
+            clauseReference: clause?.clauseId || (isLocalCheck(r.clauseId) ? r.clauseId : 'Unknown'),
+            reasoning: aiDetail?.reasoning || r.reasoning || 'Compliance assessment completed.',
+            correctiveAction: aiDetail?.correctiveAction || getCorrectiveAction(r.status, tx, clause)
           };
         })
       };
@@ -420,6 +471,14 @@ export function usePipelineRunner(options: UsePipelineRunnerOptions = {}) {
         title: 'Pipeline completed!', 
         description: `Generated report: ${report.summary.violations} violations found in ${report.summary.totalChecked} checks` 
       });
+      saveAuditRun(recorder, {
+        status: 'complete',
+        report,
+        complianceResults,
+        transactions,
+        parsedClauses: allClauses,
+      });
+      openRemediationTasks(report, complianceResults, transactions, addLog);
       options.onComplete?.(report);
 
       return report;
@@ -428,9 +487,17 @@ export function usePipelineRunner(options: UsePipelineRunnerOptions = {}) {
       const message = error instanceof Error ? error.message : 'Unknown error';
       updateProgress('error', message);
       addLog('error', message);
+      saveAuditRun(recorder, {
+        status: 'error',
+        error: message,
+        complianceResults,
+        transactions,
+        parsedClauses: allClauses,
+      });
       toast({ title: 'Pipeline failed', description: message, variant: 'destructive' });
       return null;
     } finally {
+      recorderRef.current = null;
       setIsRunning(false);
     }
   }, [pipeline, toast, options, addLog, updateProgress]);
@@ -455,6 +522,25 @@ export function usePipelineRunner(options: UsePipelineRunnerOptions = {}) {
 
 const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
 
+// History is best-effort: a failed save must never fail the pipeline itself
+function saveAuditRun(recorder: AuditRunRecorder, outcome: AuditRunOutcome) {
+  recorder.save(outcome).catch((error) => console.error('Audit run history save failed:', error));
+}
+
+// Also best-effort; tasks can be created from the report on the remediation board
+function openRemediationTasks(
+  report: AuditReport,
+  results: ComplianceResult[],
+  transactions: Transaction[],
+  addLog: (type: AuditRunLogType, message: string) => void
+) {
+  createRemediationTasks(report, results, transactions)
+    .then((count) => {
+      if (count > 0) addLog('info', `${count} remediation task(s) opened`);
+    })
+    .catch((error) => console.error('Remediation task creation failed:', error));
+}
+
 async function readResponseError(resp: Response): Promise<string> {
   const contentType = resp.headers.get('content-type') || '';
   if (contentType.includes('application/json')) {
@@ -465,51 +551,6 @@ async function readResponseError(resp: Response): Promise<string> {
   return text || resp.statusText || 'Unknown error';
 }
 
-// Helper functions to extract structured data from AI responses
-function extractRule(response: string): string | null {
-  const ruleMatch = response.match(/IF\s+[\s\S]*?THEN\s+[\s\S]*?(?=\n|$)/i);
-  return ruleMatch ? ruleMatch[0].trim() : null;
-}
-
-function extractConditions(response: string): string | null {
-  const condMatch = response.match(/(?:conditions?|applicable|applies?|when)[\s:]+([^\n]+(?:\n(?![A-Z]).*)*)/i);
-  return condMatch ? condMatch[1].trim().slice(0, 300) : null;
-}
-
-function extractPenalties(response: string): string | null {
-  const penMatch = response.match(/(?:penalt|fine|punishment|consequence)[\s\S]*?(?:\.|$)/i);
-  return penMatch ? penMatch[0].trim().slice(0, 200) : null;
-}
-
-function parseComplianceResult(response: string, transactionId: string, clauseId: string): ComplianceResult {
-  const lowerResponse = response.toLowerCase();
-  
-  let status: ComplianceResult['status'] = 'warning';
-  if (lowerResponse.includes('compliant') && !lowerResponse.includes('non-compliant') && !lowerResponse.includes('not compliant')) {
-    status = 'compliant';
-  } else if (lowerResponse.includes('violation') || lowerResponse.includes('non-compliant') || lowerResponse.includes('not compliant')) {
-    status = 'violation';
-  } else if (lowerResponse.includes('missing') || lowerResponse.includes('document')) {
-    status = 'missing_docs';
-  }
-
-  let riskLevel: ComplianceResult['riskLevel'] = 'medium';
-  if (lowerResponse.includes('high risk') || lowerResponse.includes('critical') || lowerResponse.includes('severe')) {
-    riskLevel = 'high';
-  } else if (lowerResponse.includes('low risk') || lowerResponse.includes('minor')) {
-    riskLevel = 'low';
-  }
-
-  return {
-    id: crypto.randomUUID(),
-    transactionId,
-    clauseId,
-    status,
-    riskLevel,
-    reasoning: response.slice(0, 500) || 'Compliance analysis completed.',
-  };
-}
-
 function getCorrectiveAction(
   status: ComplianceResult['status'], 
   tx?: Transaction, 
@@ -0,0 +1,56 @@
+import { useState, useCallback } from "react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  invokeStructuredAgent,
+  StructuredAgentError,
+  StructuredAgentName,
+  StructuredAgentOutputs,
+} from "@/lib/structuredAgents";
+
+export function useStructuredAgent() {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [validationErrors, setValidationErrors] = useState<string[]>([]);
+  const { toast } = useToast();
+
+  const clearError = useCallback(() => {
+    setError(null);
+    setValidationErrors([]);
+  }, []);
+
+  const runAgent = useCallback(
+    async <K extends StructuredAgentName>(
+      functionName: K,
+      body: Record<string, unknown> | FormData
+    ): Promise<StructuredAgentOutputs[K]> => {
+      setIsLoading(true);
+      setError(null);
+      setValidationErrors([]);
+
+      try {
+        return await invokeStructuredAgent(functionName, body);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : "Unknown error occurred";
+        setError(message);
+        if (err instanceof StructuredAgentError) setValidationErrors(err.validationErrors);
+        toast({
+          title: "Error",
+          description: message,
+          variant: "destructive",
+        });
+        throw err;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [toast]
+  );
+
+  return {
+    isLoading,
+    error,
+    validationErrors,
+    runAgent,
+    clearError,
+  };
+}
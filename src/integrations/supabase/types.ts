@@ -14,14 +14,433 @@ export type Database = {
   }
   public: {
     Tables: {
+      audit_reports: {
+        Row: {
+          created_at: string
+          details: Json
+          generated_at: string
+          id: string
+          organization_id: string
+          summary: Json
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          details?: Json
+          generated_at?: string
+          id: string
+          organization_id?: string
+          summary: Json
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          details?: Json
+          generated_at?: string
+          id?: string
+          organization_id?: string
+          summary?: Json
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "audit_reports_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      audit_runs: {
+        Row: {
+          completed_at: string
+          compliance_results: Json
+          created_at: string
+          detected_categories: string[]
+          duration_ms: number
+          error: string | null
+          id: string
+          input_file_name: string | null
+          logs: Json
+          organization_id: string
+          parsed_clauses: Json
+          regulation_ids: string[]
+          report: Json | null
+          runner: string
+          started_at: string
+          status: string
+          step_timings: Json
+          total_checked: number
+          transactions: Json
+          user_id: string
+          violations: number
+        }
+        Insert: {
+          completed_at: string
+          compliance_results?: Json
+          created_at?: string
+          detected_categories?: string[]
+          duration_ms: number
+          error?: string | null
+          id?: string
+          input_file_name?: string | null
+          logs?: Json
+          organization_id?: string
+          parsed_clauses?: Json
+          regulation_ids?: string[]
+          report?: Json | null
+          runner: string
+          started_at: string
+          status: string
+          step_timings?: Json
+          total_checked?: number
+          transactions?: Json
+          user_id: string
+          violations?: number
+        }
+        Update: {
+          completed_at?: string
+          compliance_results?: Json
+          created_at?: string
+          detected_categories?: string[]
+          duration_ms?: number
+          error?: string | null
+          id?: string
+          input_file_name?: string | null
+          logs?: Json
+          organization_id?: string
+          parsed_clauses?: Json
+          regulation_ids?: string[]
+          report?: Json | null
+          runner?: string
+          started_at?: string
+          status?: string
+          step_timings?: Json
+          total_checked?: number
+          transactions?: Json
+          user_id?: string
+          violations?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "audit_runs_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_messages: {
+        Row: {
+          citations: Json
+          content: string
+          created_at: string
+          id: string
+          role: string
+          thread_id: string
+        }
+        Insert: {
+          citations?: Json
+          content: string
+          created_at?: string
+          id?: string
+          role: string
+          thread_id: string
+        }
+        Update: {
+          citations?: Json
+          content?: string
+          created_at?: string
+          id?: string
+          role?: string
+          thread_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_messages_thread_id_fkey"
+            columns: ["thread_id"]
+            isOneToOne: false
+            referencedRelation: "chat_threads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_threads: {
+        Row: {
+          created_at: string
+          id: string
+          summarized_message_count: number
+          summary: string | null
+          title: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          summarized_message_count?: number
+          summary?: string | null
+          title?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          summarized_message_count?: number
+          summary?: string | null
+          title?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      compliance_results: {
+        Row: {
+          clause_id: string
+          created_at: string
+          id: string
+          missing_docs: string[] | null
+          organization_id: string
+          reasoning: string
+          risk_level: string
+          status: string
+          transaction_id: string
+          user_id: string
+        }
+        Insert: {
+          clause_id: string
+          created_at?: string
+          id: string
+          missing_docs?: string[] | null
+          organization_id?: string
+          reasoning?: string
+          risk_level: string
+          status: string
+          transaction_id: string
+          user_id: string
+        }
+        Update: {
+          clause_id?: string
+          created_at?: string
+          id?: string
+          missing_docs?: string[] | null
+          organization_id?: string
+          reasoning?: string
+          risk_level?: string
+          status?: string
+          transaction_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "compliance_results_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      crawl_jobs: {
+        Row: {
+          created_at: string
+          error: string | null
+          failed_count: number
+          failures: Json
+          finished_at: string | null
+          id: string
+          indexed_count: number
+          portal_id: string
+          request_id: number | null
+          skipped_count: number
+          started_at: string | null
+          status: string
+          trigger: string
+          urls_found: number
+        }
+        Insert: {
+          created_at?: string
+          error?: string | null
+          failed_count?: number
+          failures?: Json
+          finished_at?: string | null
+          id?: string
+          indexed_count?: number
+          portal_id: string
+          request_id?: number | null
+          skipped_count?: number
+          started_at?: string | null
+          status?: string
+          trigger?: string
+          urls_found?: number
+        }
+        Update: {
+          created_at?: string
+          error?: string | null
+          failed_count?: number
+          failures?: Json
+          finished_at?: string | null
+          id?: string
+          indexed_count?: number
+          portal_id?: string
+          request_id?: number | null
+          skipped_count?: number
+          started_at?: string | null
+          status?: string
+          trigger?: string
+          urls_found?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "crawl_jobs_portal_id_fkey"
+            columns: ["portal_id"]
+            isOneToOne: false
+            referencedRelation: "regulation_portals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      evidence_files: {
+        Row: {
+          compliance_result_id: string | null
+          created_at: string
+          document_type: string
+          file_name: string
+          id: string
+          mime_type: string
+          organization_id: string
+          sha256: string
+          size_bytes: number
+          storage_path: string
+          transaction_id: string
+          user_id: string
+        }
+        Insert: {
+          compliance_result_id?: string | null
+          created_at?: string
+          document_type?: string
+          file_name: string
+          id?: string
+          mime_type?: string
+          organization_id?: string
+          sha256: string
+          size_bytes: number
+          storage_path: string
+          transaction_id: string
+          user_id: string
+        }
+        Update: {
+          compliance_result_id?: string | null
+          created_at?: string
+          document_type?: string
+          file_name?: string
+          id?: string
+          mime_type?: string
+          organization_id?: string
+          sha256?: string
+          size_bytes?: number
+          storage_path?: string
+          transaction_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "evidence_files_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      gst_rates: {
+        Row: {
+          created_at: string
+          description: string
+          hsn_sac: string
+          id: string
+          organization_id: string
+          rate: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string
+          hsn_sac: string
+          id?: string
+          organization_id?: string
+          rate: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          hsn_sac?: string
+          id?: string
+          organization_id?: string
+          rate?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "gst_rates_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      import_mapping_presets: {
+        Row: {
+          created_at: string
+          default_category: string
+          headers: string[]
+          id: string
+          mapping: Json
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          default_category?: string
+          headers?: string[]
+          id?: string
+          mapping?: Json
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          default_category?: string
+          headers?: string[]
+          id?: string
+          mapping?: Json
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       indexed_regulations: {
         Row: {
+          amended_at: string | null
           category: string | null
           content: string | null
           content_hash: string | null
+          content_type: string
           crawled_at: string
           id: string
           is_processed: boolean
+          page_count: number | null
           published_date: string | null
           source: string
           summary: string | null
@@ -30,12 +449,15 @@ export type Database = {
           url: string
         }
         Insert: {
+          amended_at?: string | null
           category?: string | null
           content?: string | null
           content_hash?: string | null
+          content_type?: string
           crawled_at?: string
           id?: string
           is_processed?: boolean
+          page_count?: number | null
           published_date?: string | null
           source: string
           summary?: string | null
@@ -44,12 +466,15 @@ export type Database = {
           url: string
         }
         Update: {
+          amended_at?: string | null
           category?: string | null
           content?: string | null
           content_hash?: string | null
+          content_type?: string
           crawled_at?: string
           id?: string
           is_processed?: boolean
+          page_count?: number | null
           published_date?: string | null
           source?: string
           summary?: string | null
@@ -59,6 +484,59 @@ export type Database = {
         }
         Relationships: []
       }
+      organization_members: {
+        Row: {
+          created_at: string
+          organization_id: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          organization_id: string
+          role?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          organization_id?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_members_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organizations: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       parsed_clauses: {
         Row: {
           clause_id: string
@@ -68,6 +546,8 @@ export type Database = {
           penalties: string | null
           regulation_id: string
           rule: string
+          source_hash: string | null
+          stale_at: string | null
         }
         Insert: {
           clause_id: string
@@ -77,6 +557,8 @@ export type Database = {
           penalties?: string | null
           regulation_id: string
           rule: string
+          source_hash?: string | null
+          stale_at?: string | null
         }
         Update: {
           clause_id?: string
@@ -86,11 +568,14 @@ export type Database = {
           penalties?: string | null
           regulation_id?: string
           rule?: string
+          source_hash?: string | null
+          stale_at?: string | null
         }
         Relationships: []
       }
       profiles: {
         Row: {
+          active_organization_id: string | null
           avatar_url: string | null
           created_at: string
           display_name: string | null
@@ -99,6 +584,7 @@ export type Database = {
           updated_at: string
         }
         Insert: {
+          active_organization_id?: string | null
           avatar_url?: string | null
           created_at?: string
           display_name?: string | null
@@ -107,6 +593,7 @@ export type Database = {
           updated_at?: string
         }
         Update: {
+          active_organization_id?: string | null
           avatar_url?: string | null
           created_at?: string
           display_name?: string | null
@@ -114,44 +601,352 @@ export type Database = {
           id?: string
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "profiles_active_organization_id_fkey"
+            columns: ["active_organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      regulation_chunks: {
+        Row: {
+          chunk_index: number
+          content: string
+          created_at: string
+          embedded_at: string | null
+          embedding: string | null
+          embedding_model: string | null
+          id: string
+          page_number: number | null
+          paragraph_end: number
+          paragraph_start: number
+          regulation_id: string
+        }
+        Insert: {
+          chunk_index: number
+          content: string
+          created_at?: string
+          embedded_at?: string | null
+          embedding?: string | null
+          embedding_model?: string | null
+          id?: string
+          page_number?: number | null
+          paragraph_end: number
+          paragraph_start: number
+          regulation_id: string
+        }
+        Update: {
+          chunk_index?: number
+          content?: string
+          created_at?: string
+          embedded_at?: string | null
+          embedding?: string | null
+          embedding_model?: string | null
+          id?: string
+          page_number?: number | null
+          paragraph_end?: number
+          paragraph_start?: number
+          regulation_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "regulation_chunks_regulation_id_fkey"
+            columns: ["regulation_id"]
+            isOneToOne: false
+            referencedRelation: "indexed_regulations"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       regulation_portals: {
         Row: {
           base_url: string
           category: string
+          crawl_schedule: string | null
           created_at: string
+          exclude_patterns: string[]
           id: string
+          include_patterns: string[]
           is_active: boolean
           last_crawled_at: string | null
+          map_limit: number
+          max_urls: number
           name: string
+          updated_at: string
         }
         Insert: {
           base_url: string
           category: string
+          crawl_schedule?: string | null
           created_at?: string
+          exclude_patterns?: string[]
           id?: string
+          include_patterns?: string[]
           is_active?: boolean
           last_crawled_at?: string | null
+          map_limit?: number
+          max_urls?: number
           name: string
+          updated_at?: string
         }
         Update: {
           base_url?: string
           category?: string
+          crawl_schedule?: string | null
           created_at?: string
+          exclude_patterns?: string[]
           id?: string
+          include_patterns?: string[]
           is_active?: boolean
           last_crawled_at?: string | null
+          map_limit?: number
+          max_urls?: number
           name?: string
+          updated_at?: string
         }
         Relationships: []
       }
+      regulation_versions: {
+        Row: {
+          captured_at: string
+          content: string | null
+          content_hash: string | null
+          id: string
+          page_count: number | null
+          regulation_id: string
+          summary: string | null
+          title: string | null
+          version_number: number
+        }
+        Insert: {
+          captured_at?: string
+          content?: string | null
+          content_hash?: string | null
+          id?: string
+          page_count?: number | null
+          regulation_id: string
+          summary?: string | null
+          title?: string | null
+          version_number: number
+        }
+        Update: {
+          captured_at?: string
+          content?: string | null
+          content_hash?: string | null
+          id?: string
+          page_count?: number | null
+          regulation_id?: string
+          summary?: string | null
+          title?: string | null
+          version_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "regulation_versions_regulation_id_fkey"
+            columns: ["regulation_id"]
+            isOneToOne: false
+            referencedRelation: "indexed_regulations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      remediation_tasks: {
+        Row: {
+          audit_report_id: string
+          clause_reference: string
+          compliance_result_id: string
+          corrective_action: string
+          created_at: string
+          due_date: string
+          finding: string
+          finding_type: string
+          id: string
+          organization_id: string
+          owner: string
+          priority: string
+          resolution_note: string
+          resolved_at: string | null
+          status: string
+          transaction_id: string
+          updated_at: string
+          user_id: string
+          vendor: string
+        }
+        Insert: {
+          audit_report_id: string
+          clause_reference: string
+          compliance_result_id: string
+          corrective_action: string
+          created_at?: string
+          due_date: string
+          finding: string
+          finding_type: string
+          id?: string
+          organization_id?: string
+          owner?: string
+          priority: string
+          resolution_note?: string
+          resolved_at?: string | null
+          status?: string
+          transaction_id: string
+          updated_at?: string
+          user_id: string
+          vendor?: string
+        }
+        Update: {
+          audit_report_id?: string
+          clause_reference?: string
+          compliance_result_id?: string
+          corrective_action?: string
+          created_at?: string
+          due_date?: string
+          finding?: string
+          finding_type?: string
+          id?: string
+          organization_id?: string
+          owner?: string
+          priority?: string
+          resolution_note?: string
+          resolved_at?: string | null
+          status?: string
+          transaction_id?: string
+          updated_at?: string
+          user_id?: string
+          vendor?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "remediation_tasks_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transactions: {
+        Row: {
+          amount_paise: number
+          bids_received: number | null
+          category: string
+          cgst_paise: number | null
+          created_at: string
+          currency: string
+          date: string
+          description: string
+          field_confidence: Json | null
+          gstin: string | null
+          hsn_sac: string | null
+          igst_paise: number | null
+          id: string
+          invoice_number: string | null
+          organization_id: string
+          pan: string | null
+          place_of_supply: string | null
+          procurement_mode: string | null
+          sgst_paise: number | null
+          source_page: number | null
+          tax_paise: number
+          tds_paise: number | null
+          tds_section: string | null
+          tender_reference: string | null
+          user_id: string
+          vendor: string
+        }
+        Insert: {
+          amount_paise: number
+          bids_received?: number | null
+          category: string
+          cgst_paise?: number | null
+          created_at?: string
+          currency?: string
+          date: string
+          description?: string
+          field_confidence?: Json | null
+          gstin?: string | null
+          hsn_sac?: string | null
+          igst_paise?: number | null
+          id: string
+          invoice_number?: string | null
+          organization_id?: string
+          pan?: string | null
+          place_of_supply?: string | null
+          procurement_mode?: string | null
+          sgst_paise?: number | null
+          source_page?: number | null
+          tax_paise?: number
+          tds_paise?: number | null
+          tds_section?: string | null
+          tender_reference?: string | null
+          user_id: string
+          vendor: string
+        }
+        Update: {
+          amount_paise?: number
+          bids_received?: number | null
+          category?: string
+          cgst_paise?: number | null
+          created_at?: string
+          currency?: string
+          date?: string
+          description?: string
+          field_confidence?: Json | null
+          gstin?: string | null
+          hsn_sac?: string | null
+          igst_paise?: number | null
+          id?: string
+          invoice_number?: string | null
+          organization_id?: string
+          pan?: string | null
+          place_of_supply?: string | null
+          procurement_mode?: string | null
+          sgst_paise?: number | null
+          source_page?: number | null
+          tax_paise?: number
+          tds_paise?: number | null
+          tds_section?: string | null
+          tender_reference?: string | null
+          user_id?: string
+          vendor?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transactions_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      active_organization_id: {
+        Args: never
+        Returns: string
+      }
+      add_organization_member: {
+        Args: { member_email: string; member_role: string; org: string }
+        Returns: string
+      }
+      create_organization: {
+        Args: { org_name: string }
+        Returns: string
+      }
+      organization_role: {
+        Args: { org: string }
+        Returns: string
+      }
+      workspace_role: {
+        Args: { org: string }
+        Returns: string
+      }
     }
     Enums: {
       [_ in never]: never
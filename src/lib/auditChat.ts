@@ -0,0 +1,65 @@
+/**
+ * "Ask about this audit": the compliance chat answers from one audit report
+ * instead of the indexed regulations. Findings are sent joined to their
+ * transactions and clauses; the answer cites them as [R1], [R2], ... and the
+ * chat maps those references back to compliance result ids.
+ */
+import type { AuditReport, ComplianceResult, ParsedClause, Transaction } from "@/contexts/PipelineContext";
+
+export interface ResultReference {
+  ref: string;
+  resultId: string;
+}
+
+export interface AuditChatContext {
+  reportId: string;
+  generatedAt: string;
+  summary: AuditReport["summary"];
+  results: {
+    id: string;
+    status: ComplianceResult["status"];
+    riskLevel: ComplianceResult["riskLevel"];
+    reasoning: string;
+    correctiveAction?: string;
+    missingDocs?: string[];
+    transaction: Transaction | null;
+    clause: Pick<ParsedClause, "clauseId" | "rule" | "conditions" | "penalties"> | null;
+  }[];
+}
+
+/** Results the report covers, falling back to all results when it lists no details */
+export function reportResults(report: AuditReport, results: ComplianceResult[]): ComplianceResult[] {
+  if (report.details.length === 0) return results;
+  const ids = new Set(report.details.map((d) => d.complianceResultId));
+  return results.filter((r) => ids.has(r.id));
+}
+
+export function buildAuditChatContext(
+  report: AuditReport,
+  results: ComplianceResult[],
+  transactions: Transaction[],
+  clauses: ParsedClause[]
+): AuditChatContext {
+  const details = new Map(report.details.map((d) => [d.complianceResultId, d]));
+
+  return {
+    reportId: report.id,
+    generatedAt: report.generatedAt,
+    summary: report.summary,
+    results: reportResults(report, results).map((result) => {
+      const clause = clauses.find((c) => c.id === result.clauseId);
+      return {
+        id: result.id,
+        status: result.status,
+        riskLevel: result.riskLevel,
+        reasoning: details.get(result.id)?.reasoning || result.reasoning,
+        correctiveAction: details.get(result.id)?.correctiveAction,
+        missingDocs: result.missingDocs,
+        transaction: transactions.find((t) => t.id === result.transactionId) ?? null,
+        clause: clause
+          ? { clauseId: clause.clauseId, rule: clause.rule, conditions: clause.conditions, penalties: clause.penalties }
+          : null,
+      };
+    }),
+  };
+}
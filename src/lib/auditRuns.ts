@@ -0,0 +1,275 @@
+/**
+ * Audit run history.
+ *
+ * Every call to `runMasterAgent` (useMasterAgent) or `runFullPipeline`
+ * (usePipelineRunner) is recorded as an audit run: its inputs, timings,
+ * progress logs and a snapshot of the final report and the data it refers to.
+ * The snapshot lets `/audits/:runId` re-open a report after the working
+ * pipeline has moved on.
+ */
+
+import { supabase } from "@/integrations/supabase/clientRuntime";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import type { AuditReport, ComplianceResult, ParsedClause, Transaction } from "@/contexts/PipelineContext";
+
+export type AuditRunner = "master_agent" | "pipeline";
+export type AuditRunLogType = "info" | "success" | "error" | "warning";
+
+export interface AuditRunLog {
+  type: AuditRunLogType;
+  message: string;
+  timestamp: string;
+}
+
+export interface AuditRunStepTiming {
+  step: string;
+  startedAt: string;
+  durationMs: number;
+}
+
+export interface AuditRunSummary {
+  id: string;
+  runner: AuditRunner;
+  status: "complete" | "error";
+  error: string | null;
+  inputFileName: string | null;
+  detectedCategories: string[];
+  regulationIds: string[];
+  startedAt: string;
+  completedAt: string;
+  durationMs: number;
+  totalChecked: number;
+  violations: number;
+}
+
+export interface AuditRun extends AuditRunSummary {
+  stepTimings: AuditRunStepTiming[];
+  report: AuditReport | null;
+  complianceResults: ComplianceResult[];
+  transactions: Transaction[];
+  parsedClauses: ParsedClause[];
+  logs: AuditRunLog[];
+}
+
+export interface AuditRunFilters {
+  from?: string;
+  to?: string;
+  onlyWithViolations?: boolean;
+  category?: string;
+}
+
+// Logs kept per run, the most recent ones: the summary, report and errors come last.
+const MAX_RECORDED_LOGS = 1000;
+
+const SUMMARY_COLUMNS =
+  "id, runner, status, error, input_file_name, detected_categories, regulation_ids, started_at, completed_at, duration_ms, total_checked, violations";
+
+type AuditRunSummaryRow = Pick<
+  Tables<"audit_runs">,
+  | "id"
+  | "runner"
+  | "status"
+  | "error"
+  | "input_file_name"
+  | "detected_categories"
+  | "regulation_ids"
+  | "started_at"
+  | "completed_at"
+  | "duration_ms"
+  | "total_checked"
+  | "violations"
+>;
+
+function toSummary(row: AuditRunSummaryRow): AuditRunSummary {
+  return {
+    id: row.id,
+    runner: row.runner as AuditRunner,
+    status: row.status as AuditRunSummary["status"],
+    error: row.error,
+    inputFileName: row.input_file_name,
+    detectedCategories: row.detected_categories,
+    regulationIds: row.regulation_ids,
+    startedAt: row.started_at,
+    completedAt: row.completed_at,
+    durationMs: row.duration_ms,
+    totalChecked: row.total_checked,
+    violations: row.violations,
+  };
+}
+
+function toAuditRun(row: Tables<"audit_runs">): AuditRun {
+  return {
+    ...toSummary(row),
+    stepTimings: row.step_timings as unknown as AuditRunStepTiming[],
+    report: row.report as unknown as AuditReport | null,
+    complianceResults: row.compliance_results as unknown as ComplianceResult[],
+    transactions: row.transactions as unknown as Transaction[],
+    parsedClauses: row.parsed_clauses as unknown as ParsedClause[],
+    logs: row.logs as unknown as AuditRunLog[],
+  };
+}
+
+// Keywords that put a run's transactions in a category; runs are filtered by category on /audits
+const CATEGORY_KEYWORDS: Record<string, string[]> = {
+  tax: ["Tax", "GST", "Income Tax", "VAT", "Customs", "Excise"],
+  banking: ["Wire Transfer", "Bank", "NEFT", "RTGS", "UPI", "Payment"],
+  government: ["Government", "Grant", "Subsidy", "Ministry", "Public"],
+  procurement: ["Procurement", "GeM", "Tender", "Contract", "Purchase"],
+  investment: ["Investment", "Securities", "Stock", "Mutual Fund"],
+  compliance: ["Audit", "Compliance", "Filing", "Return"],
+};
+
+export const AUDIT_CATEGORIES = Object.keys(CATEGORY_KEYWORDS);
+
+/** Categories of the audited transactions, for the run summary (retrieval itself is semantic) */
+export function detectCategories(transactions: Transaction[]): string[] {
+  const detected = new Set<string>();
+  for (const tx of transactions) {
+    const searchText = `${tx.category} ${tx.description} ${tx.vendor}`.toLowerCase();
+    for (const [category, keywords] of Object.entries(CATEGORY_KEYWORDS)) {
+      if (keywords.some((kw) => searchText.includes(kw.toLowerCase()))) detected.add(category);
+    }
+  }
+  return detected.size > 0 ? Array.from(detected) : ["compliance"];
+}
+
+export function formatRunDuration(ms: number) {
+  const secs = Math.round(ms / 1000);
+  if (secs < 60) return `${secs}s`;
+  return `${Math.floor(secs / 60)}m ${secs % 60}s`;
+}
+
+export async function fetchAuditRuns(filters: AuditRunFilters = {}): Promise<AuditRunSummary[]> {
+  let query = supabase
+    .from("audit_runs")
+    .select(SUMMARY_COLUMNS)
+    .order("started_at", { ascending: false })
+    .limit(200);
+
+  if (filters.from) query = query.gte("started_at", new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) query = query.lte("started_at", new Date(`${filters.to}T23:59:59.999`).toISOString());
+  if (filters.onlyWithViolations) query = query.gt("violations", 0);
+  if (filters.category) query = query.contains("detected_categories", [filters.category]);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []).map(toSummary);
+}
+
+export async function fetchAuditRun(id: string): Promise<AuditRun | null> {
+  const { data, error } = await supabase.from("audit_runs").select("*").eq("id", id).maybeSingle();
+  if (error) throw error;
+  return data ? toAuditRun(data) : null;
+}
+
+/** The run that produced an audit report, for reports generated by a recorded run */
+export async function fetchAuditRunForReport(reportId: string): Promise<AuditRun | null> {
+  const { data, error } = await supabase
+    .from("audit_runs")
+    .select("*")
+    .eq("report->>id", reportId)
+    .order("started_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? toAuditRun(data) : null;
+}
+
+export async function deleteAuditRun(id: string) {
+  const { error } = await supabase.from("audit_runs").delete().eq("id", id);
+  if (error) throw error;
+}
+
+export interface AuditRunOutcome {
+  status: AuditRunSummary["status"];
+  error?: string;
+  report?: AuditReport | null;
+  complianceResults?: ComplianceResult[];
+  transactions?: Transaction[];
+  parsedClauses?: ParsedClause[];
+}
+
+/**
+ * Collects logs, step timings and inputs while a run is in progress, then
+ * saves everything as one `audit_runs` row when the run finishes.
+ */
+export function createAuditRunRecorder(runner: AuditRunner, inputFileName?: string) {
+  const startedAt = Date.now();
+  const logs: AuditRunLog[] = [];
+  let droppedLogs = 0;
+  const stepTimings: AuditRunStepTiming[] = [];
+  let currentStep: { step: string; startedAt: number } | null = null;
+  let detectedCategories: string[] = [];
+  let regulationIds: string[] = [];
+
+  const closeCurrentStep = (now: number) => {
+    if (!currentStep) return;
+    stepTimings.push({
+      step: currentStep.step,
+      startedAt: new Date(currentStep.startedAt).toISOString(),
+      durationMs: now - currentStep.startedAt,
+    });
+    currentStep = null;
+  };
+
+  return {
+    log(type: AuditRunLogType, message: string) {
+      if (logs.length >= MAX_RECORDED_LOGS) {
+        logs.shift();
+        droppedLogs++;
+      }
+      logs.push({ type, message, timestamp: new Date().toISOString() });
+    },
+
+    step(step: string) {
+      if (currentStep?.step === step) return;
+      const now = Date.now();
+      closeCurrentStep(now);
+      currentStep = { step, startedAt: now };
+    },
+
+    setDetectedCategories(categories: string[]) {
+      detectedCategories = categories;
+    },
+
+    setRegulationIds(ids: string[]) {
+      regulationIds = ids;
+    },
+
+    async save(outcome: AuditRunOutcome) {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session?.user) return;
+
+      const completedAt = Date.now();
+      closeCurrentStep(completedAt);
+
+      const recordedLogs: AuditRunLog[] = droppedLogs > 0
+        ? [{ type: "warning", message: `${droppedLogs} earlier log entries were not kept`, timestamp: logs[0].timestamp }, ...logs]
+        : logs;
+
+      const { error } = await supabase.from("audit_runs").insert({
+        user_id: session.user.id,
+        runner,
+        status: outcome.status,
+        error: outcome.error ?? null,
+        input_file_name: inputFileName ?? null,
+        detected_categories: detectedCategories,
+        regulation_ids: regulationIds,
+        started_at: new Date(startedAt).toISOString(),
+        completed_at: new Date(completedAt).toISOString(),
+        duration_ms: completedAt - startedAt,
+        step_timings: stepTimings as unknown as Json,
+        total_checked: outcome.report?.summary.totalChecked ?? 0,
+        violations: outcome.report?.summary.violations ?? 0,
+        report: (outcome.report ?? null) as unknown as Json,
+        compliance_results: (outcome.complianceResults ?? []) as unknown as Json,
+        transactions: (outcome.transactions ?? []) as unknown as Json,
+        parsed_clauses: (outcome.parsedClauses ?? []) as unknown as Json,
+        logs: recordedLogs as unknown as Json,
+      });
+      if (error) throw error;
+    },
+  };
+}
+
+export type AuditRunRecorder = ReturnType<typeof createAuditRunRecorder>;
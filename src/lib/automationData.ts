@@ -5,6 +5,8 @@ import {
   ComplianceResult,
   AuditReport,
 } from "@/contexts/PipelineContext";
+import { money, toMajor } from "@/lib/money";
+import { checkGstComputation, DEFAULT_GST_RATES } from "@/lib/gst";
 
 // --- Agent 1 Data ---
 export const sampleRegulations: Regulation[] = [
@@ -60,30 +62,39 @@ export const runAgent2Simulation = (regs: Regulation[]): ParsedClause[] => {
 export const sampleTransactions: Transaction[] = [
   {
     id: "TXN_2024_FINANCE_00145",
-    amount: "₹25,00,000",
-    tax: "₹1,25,000",
+    amount: money(2500000),
+    tax: money(125000),
     vendor: "ABC Infrastructure Ltd.",
     category: "construction",
     date: "2024-12-25",
-    description: "Infrastructure construction project - Phase 1 materials procurement"
+    description: "Infrastructure construction project - Phase 1 materials procurement",
+    gstin: "27AABCA1234C1ZF",
+    invoiceNumber: "ABC/24-25/0931",
+    placeOfSupply: "27-Maharashtra",
+    hsnSac: "995411",
+    procurementMode: "open_tender",
+    bidsReceived: 2,
+    tenderReference: "MH/PWD/2024/1182"
   },
   {
     id: "TXN_2024_FINANCE_00146",
-    amount: "₹5,00,000",
-    tax: "₹90,000",
+    amount: money(500000),
+    tax: money(90000),
     vendor: "TechSoft Solutions",
     category: "software",
     date: "2024-12-26",
-    description: "Annual software license renewal and maintenance"
+    description: "Annual software license renewal and maintenance",
+    gstin: "29AACCT5678D1Z1",
+    invoiceNumber: "TS-2024-1187",
+    placeOfSupply: "29-Karnataka",
+    hsnSac: "997331"
   }
 ];
 
 // --- Agent 4 Logic (CORE Compliance Mapping) ---
 export const runAgent4Simulation = (clauses: ParsedClause[], transactions: Transaction[]): ComplianceResult[] => {
   return transactions.map(txn => {
-    // Parse amount for comparison
-    const amountValue = parseFloat(txn.amount.replace(/[₹,]/g, ''));
-    const taxValue = parseFloat(txn.tax.replace(/[₹,]/g, ''));
+    const amountValue = toMajor(txn.amount);
     
     // Simple compliance check simulation
     const applicableClauses = clauses.filter(c => 
@@ -102,18 +113,14 @@ export const runAgent4Simulation = (clauses: ParsedClause[], transactions: Trans
       };
     }
 
-    // Check for tax compliance
-    const expectedTax = amountValue * 0.18;
-    const taxMismatch = taxValue < expectedTax * 0.95;
+    // Check for tax compliance at the HSN/SAC rate and CGST+SGST / IGST split
+    const gst = checkGstComputation(txn, DEFAULT_GST_RATES);
 
-    if (taxMismatch && amountValue > 1000000) {
+    if (gst?.status === 'violation' && amountValue > 1000000) {
       return {
-        id: crypto.randomUUID(),
-        transactionId: txn.id,
+        ...gst,
         clauseId: applicableClauses[0].id,
-        status: 'violation' as const,
-        riskLevel: 'high' as const,
-        reasoning: `Tax mismatch detected. Expected ₹${expectedTax.toLocaleString('en-IN')} (18% GST), but claimed ₹${taxValue.toLocaleString('en-IN')}. This violates ${applicableClauses[0].clauseId}.`
+        reasoning: `${gst.reasoning} This violates ${applicableClauses[0].clauseId}.`
       };
     }
 
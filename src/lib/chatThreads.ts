@@ -0,0 +1,79 @@
+/**
+ * Saved compliance chat threads. Threads and their messages are private to
+ * the signed-in user (RLS); `compliance-chat` stores each question and reply
+ * and titles a thread after its first question.
+ */
+import { supabase } from "@/integrations/supabase/clientRuntime";
+import type { Tables } from "@/integrations/supabase/types";
+import type { ResultReference } from "@/lib/auditChat";
+
+/** Indexed regulation an answer was grounded in; the answer refers to it as [index] */
+export interface Citation {
+  index: number;
+  regulationId: string;
+  title: string;
+  url: string;
+  source: string;
+  excerpt: string;
+  pageNumber: number | null;
+  paragraphStart: number | null;
+  paragraphEnd: number | null;
+  clauses: { clauseId: string; rule: string }[];
+}
+
+export interface Message {
+  role: "user" | "assistant";
+  content: string;
+  citations?: Citation[];
+  /** Audit findings an answer about an audit refers to as [R1], [R2], ... */
+  resultRefs?: ResultReference[];
+}
+
+export type ChatThread = Pick<Tables<"chat_threads">, "id" | "title" | "created_at" | "updated_at">;
+
+/** The user's threads, most recently active first */
+export async function fetchChatThreads(): Promise<ChatThread[]> {
+  const { data, error } = await supabase
+    .from("chat_threads")
+    .select("id, title, created_at, updated_at")
+    .order("updated_at", { ascending: false });
+  if (error) throw error;
+  return data || [];
+}
+
+export async function fetchChatMessages(threadId: string): Promise<Message[]> {
+  const { data, error } = await supabase
+    .from("chat_messages")
+    .select("role, content, citations")
+    .eq("thread_id", threadId)
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+  return (data || []).map((row) => ({
+    role: row.role === "assistant" ? "assistant" : "user",
+    content: row.content,
+    citations: (row.citations as unknown as Citation[]) ?? [],
+  }));
+}
+
+export async function createChatThread(): Promise<ChatThread> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Sign in to save conversations");
+
+  const { data, error } = await supabase
+    .from("chat_threads")
+    .insert({ user_id: user.id })
+    .select("id, title, created_at, updated_at")
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+export async function renameChatThread(id: string, title: string): Promise<void> {
+  const { error } = await supabase.from("chat_threads").update({ title }).eq("id", id);
+  if (error) throw error;
+}
+
+export async function deleteChatThread(id: string): Promise<void> {
+  const { error } = await supabase.from("chat_threads").delete().eq("id", id);
+  if (error) throw error;
+}
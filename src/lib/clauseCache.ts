@@ -0,0 +1,126 @@
+/**
+ * Parsed clause cache.
+ *
+ * `parsed_clauses` keeps the clauses extracted from indexed regulations so
+ * repeat audits don't re-parse them. Each row records the `content_hash` of
+ * the regulation text it came from; when the crawler stores a new hash a
+ * database trigger sets `stale_at` on the old clauses. Stale clauses are never
+ * handed to an audit: their regulations are re-parsed instead.
+ */
+
+import { supabase } from "@/integrations/supabase/clientRuntime";
+import type { ParsedClause, Regulation } from "@/contexts/PipelineContext";
+
+export interface CachedClauses {
+  /** Clauses parsed from the current text of their regulation */
+  clauses: ParsedClause[];
+  /** Regulations whose cached clauses are outdated and must be re-parsed */
+  staleRegulationIds: string[];
+  staleClauseCount: number;
+}
+
+export interface StaleRegulation {
+  clauseCount: number;
+  staleSince: string;
+}
+
+export async function loadCachedClauses(regulations: Pick<Regulation, "id" | "contentHash">[]): Promise<CachedClauses> {
+  const { data, error } = await supabase
+    .from("parsed_clauses")
+    .select("*")
+    .in("regulation_id", regulations.map((r) => r.id));
+  if (error) throw error;
+
+  const currentHash = new Map(regulations.map((r) => [r.id, r.contentHash]));
+  const isStale = (row: { regulation_id: string; source_hash: string | null; stale_at: string | null }) => {
+    if (row.stale_at) return true;
+    const hash = currentHash.get(row.regulation_id);
+    return !!hash && row.source_hash !== hash;
+  };
+
+  // One outdated clause makes the whole regulation's cache unusable
+  const staleRegulationIds = new Set((data || []).filter(isStale).map((row) => row.regulation_id));
+  const fresh = (data || []).filter((row) => !staleRegulationIds.has(row.regulation_id));
+
+  return {
+    clauses: fresh.map((row) => ({
+      id: row.id,
+      regulationId: row.regulation_id,
+      clauseId: row.clause_id,
+      rule: row.rule,
+      conditions: row.conditions ?? "",
+      penalties: row.penalties ?? "",
+      sourceHash: row.source_hash ?? undefined,
+    })),
+    staleRegulationIds: [...staleRegulationIds],
+    staleClauseCount: (data || []).length - fresh.length,
+  };
+}
+
+/**
+ * Replace the cached clauses of every regulation in `clauses`. Old rows are
+ * removed first so clause ids that disappeared from a revision don't linger.
+ */
+export async function saveParsedClauses(clauses: ParsedClause[]) {
+  const regulationIds = [...new Set(clauses.map((c) => c.regulationId))];
+  if (regulationIds.length === 0) return;
+
+  const { error: deleteError } = await supabase.from("parsed_clauses").delete().in("regulation_id", regulationIds);
+  if (deleteError) throw deleteError;
+
+  const { error } = await supabase.from("parsed_clauses").upsert(
+    clauses.map((c) => ({
+      id: c.id,
+      regulation_id: c.regulationId,
+      clause_id: c.clauseId,
+      rule: c.rule,
+      conditions: c.conditions,
+      penalties: c.penalties,
+      source_hash: c.sourceHash ?? null,
+    })),
+    { onConflict: "regulation_id,clause_id" }
+  );
+  if (error) throw error;
+}
+
+/** Indexed regulations with cached clauses that were invalidated by a newer revision */
+export async function fetchStaleRegulations(): Promise<Map<string, StaleRegulation>> {
+  const { data, error } = await supabase
+    .from("parsed_clauses")
+    .select("regulation_id, stale_at")
+    .not("stale_at", "is", null);
+  if (error) throw error;
+
+  const stale = new Map<string, StaleRegulation>();
+  for (const row of data || []) {
+    const entry = stale.get(row.regulation_id);
+    const staleAt = row.stale_at as string;
+    stale.set(row.regulation_id, {
+      clauseCount: (entry?.clauseCount ?? 0) + 1,
+      staleSince: entry && entry.staleSince < staleAt ? entry.staleSince : staleAt,
+    });
+  }
+  return stale;
+}
+
+/**
+ * Ids of clauses parsed from a regulation text that has since changed.
+ * Clauses without a recorded hash (manually added regulations) are never outdated.
+ */
+export async function findOutdatedClauses(clauses: ParsedClause[]): Promise<Set<string>> {
+  const hashed = clauses.filter((c) => c.sourceHash);
+  if (hashed.length === 0) return new Set();
+
+  const { data, error } = await supabase
+    .from("indexed_regulations")
+    .select("id, content_hash")
+    .in("id", [...new Set(hashed.map((c) => c.regulationId))]);
+  if (error) throw error;
+
+  const currentHash = new Map((data || []).map((row) => [row.id, row.content_hash]));
+  return new Set(
+    hashed
+      .filter((c) => currentHash.has(c.regulationId) && currentHash.get(c.regulationId) !== c.sourceHash)
+      .map((c) => c.id)
+  );
+}
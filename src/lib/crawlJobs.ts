@@ -0,0 +1,72 @@
+/**
+ * Crawl jobs and portal schedules.
+ *
+ * pg_cron crawls each active portal on its `crawl_schedule` and every crawl,
+ * scheduled or started from the Regulation Monitor, is recorded in
+ * `crawl_jobs` with the number of URLs indexed, skipped and failed.
+ */
+
+import { supabase } from "@/integrations/supabase/clientRuntime";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type CrawlJobStatus = "queued" | "running" | "complete" | "failed";
+
+export interface CrawlJob {
+  id: string;
+  portalId: string;
+  trigger: "schedule" | "manual";
+  status: CrawlJobStatus;
+  urlsFound: number;
+  indexed: number;
+  skipped: number;
+  failed: number;
+  failures: { url: string; error: string }[];
+  error: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+function toCrawlJob(row: Tables<"crawl_jobs">): CrawlJob {
+  return {
+    id: row.id,
+    portalId: row.portal_id,
+    trigger: row.trigger as CrawlJob["trigger"],
+    status: row.status as CrawlJobStatus,
+    urlsFound: row.urls_found,
+    indexed: row.indexed_count,
+    skipped: row.skipped_count,
+    failed: row.failed_count,
+    failures: (row.failures as unknown as CrawlJob["failures"]) ?? [],
+    error: row.error,
+    createdAt: row.created_at,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+  };
+}
+
+/** Most recent crawl jobs across all portals, newest first */
+export async function fetchRecentCrawlJobs(limit = 20): Promise<CrawlJob[]> {
+  const { data, error } = await supabase
+    .from("crawl_jobs")
+    .select("*")
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return (data || []).map(toCrawlJob);
+}
+
+const CRON_PRESETS: Record<string, string> = {
+  "0 * * * *": "Hourly",
+  "0 2 * * *": "Daily",
+  "0 2 * * 0": "Weekly",
+};
+
+/** Human-readable form of a portal's crawl schedule (cron expression or interval) */
+export function describeCrawlSchedule(schedule: string | null): string {
+  if (!schedule) return "Manual only";
+  const trimmed = schedule.trim();
+  if (CRON_PRESETS[trimmed]) return CRON_PRESETS[trimmed];
+  if (/^\S+(\s+\S+){4}$/.test(trimmed)) return `Cron ${trimmed}`;
+  return `Every ${trimmed.replace(/^1\s+/, "")}`;
+}
@@ -0,0 +1,181 @@
+/**
+ * Evidence files attached to transactions and compliance results.
+ *
+ * Invoices, bid comparatives, sanction orders and the like are stored in the
+ * private "evidence" bucket under the uploader's user id, with a row in
+ * `evidence_files` recording what the file is and its SHA-256. Members of the
+ * workspace reach each other's files through these rows. Rows are never
+ * updated, so a file can be re-hashed at any time and compared with the hash
+ * taken at upload.
+ *
+ * A file attached to a compliance result is also attached to the result's
+ * transaction; a file attached to the transaction alone counts as evidence
+ * for every result on it. A `missing_docs` result can be marked compliant
+ * once each of its missing documents has a file of that type.
+ */
+
+import { supabase } from "@/integrations/supabase/clientRuntime";
+import type { Tables } from "@/integrations/supabase/types";
+import type { ComplianceResult } from "@/contexts/PipelineContext";
+
+const BUCKET = "evidence";
+
+// Same limit as the bucket's file_size_limit
+export const MAX_EVIDENCE_BYTES = 10 * 1024 * 1024;
+
+/** Offered alongside a result's missing documents when choosing what a file is */
+export const EVIDENCE_DOCUMENT_TYPES = ["Invoice", "Bid comparative", "Sanction order", "Purchase order", "Other"];
+
+export interface EvidenceFile {
+  id: string;
+  transactionId: string;
+  complianceResultId: string | null;
+  /** Which required document the file provides, e.g. "Sanction order" */
+  documentType: string;
+  fileName: string;
+  storagePath: string;
+  mimeType: string;
+  sizeBytes: number;
+  sha256: string;
+  createdAt: string;
+}
+
+/** Lowercase hex SHA-256 of a file or blob */
+export async function sha256Hex(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/** Missing documents of a result that no attached file provides yet */
+export function outstandingDocs(result: ComplianceResult, evidence: EvidenceFile[]): string[] {
+  const provided = new Set(evidence.map((file) => file.documentType));
+  return (result.missingDocs ?? []).filter((doc) => !provided.has(doc));
+}
+
+/**
+ * Whether a reviewer may mark a result compliant: it is a `missing_docs`
+ * result and every missing document has a file, or at least one file when
+ * the result names none.
+ */
+export function canResolveWithEvidence(result: ComplianceResult, evidence: EvidenceFile[]): boolean {
+  if (result.status !== "missing_docs" || evidence.length === 0) return false;
+  return outstandingDocs(result, evidence).length === 0;
+}
+
+/** The result as marked compliant by a reviewer, citing the files by name and hash */
+export function resolveWithEvidence(result: ComplianceResult, evidence: EvidenceFile[], reviewer: string): ComplianceResult {
+  const files = evidence.map((file) => `${file.fileName} (SHA-256 ${file.sha256.slice(0, 12)}…)`).join(", ");
+  const by = reviewer ? ` by ${reviewer}` : "";
+  return {
+    ...result,
+    status: "compliant",
+    riskLevel: "low",
+    reasoning: `${result.reasoning} Marked compliant${by} on ${new Date().toISOString().split("T")[0]} on the evidence of ${files}.`,
+    missingDocs: undefined,
+  };
+}
+
+// ---------- Storage ----------
+
+const toEvidence = (row: Tables<"evidence_files">): EvidenceFile => ({
+  id: row.id,
+  transactionId: row.transaction_id,
+  complianceResultId: row.compliance_result_id,
+  documentType: row.document_type,
+  fileName: row.file_name,
+  storagePath: row.storage_path,
+  mimeType: row.mime_type,
+  sizeBytes: row.size_bytes,
+  sha256: row.sha256,
+  createdAt: row.created_at,
+});
+
+/**
+ * Files for a transaction. With a compliance result id, only the files for
+ * that result and those attached to the transaction as a whole.
+ */
+export async function fetchEvidence(transactionId: string, complianceResultId?: string): Promise<EvidenceFile[]> {
+  const { data, error } = await supabase
+    .from("evidence_files")
+    .select("*")
+    .eq("transaction_id", transactionId)
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+  const files = (data || []).map(toEvidence);
+  return complianceResultId
+    ? files.filter((file) => !file.complianceResultId || file.complianceResultId === complianceResultId)
+    : files;
+}
+
+export async function uploadEvidence(
+  file: File,
+  target: { transactionId: string; complianceResultId?: string; documentType: string }
+): Promise<EvidenceFile> {
+  if (file.size > MAX_EVIDENCE_BYTES) {
+    throw new Error(`${file.name} is larger than ${formatFileSize(MAX_EVIDENCE_BYTES)}`);
+  }
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Sign in to attach evidence");
+
+  const sha256 = await sha256Hex(file);
+  const safeName = file.name.replace(/[^\w.-]+/g, "_");
+  // The first folder is the owner's id, which the bucket policies check
+  const storagePath = `${user.id}/${crypto.randomUUID()}/${safeName}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(BUCKET)
+    .upload(storagePath, file, { contentType: file.type || undefined });
+  if (uploadError) throw uploadError;
+
+  const { data, error } = await supabase
+    .from("evidence_files")
+    .insert({
+      user_id: user.id,
+      transaction_id: target.transactionId,
+      compliance_result_id: target.complianceResultId ?? null,
+      document_type: target.documentType,
+      file_name: file.name,
+      storage_path: storagePath,
+      mime_type: file.type,
+      size_bytes: file.size,
+      sha256,
+    })
+    .select("*")
+    .single();
+  if (error) {
+    // Don't leave an object behind that no row points to
+    await supabase.storage.from(BUCKET).remove([storagePath]);
+    throw error;
+  }
+  return toEvidence(data);
+}
+
+/** Short-lived link for viewing or downloading a file */
+export async function evidenceDownloadUrl(file: EvidenceFile): Promise<string> {
+  const { data, error } = await supabase.storage.from(BUCKET).createSignedUrl(file.storagePath, 60, {
+    download: file.fileName,
+  });
+  if (error) throw error;
+  return data.signedUrl;
+}
+
+/** Re-hash the stored file; false when it no longer matches the hash taken at upload */
+export async function verifyEvidence(file: EvidenceFile): Promise<boolean> {
+  const { data, error } = await supabase.storage.from(BUCKET).download(file.storagePath);
+  if (error) throw error;
+  return (await sha256Hex(data)) === file.sha256;
+}
+
+// The object goes first: auditors may delete other members' objects only while their row exists
+export async function deleteEvidence(file: EvidenceFile) {
+  const { error: storageError } = await supabase.storage.from(BUCKET).remove([file.storagePath]);
+  if (storageError) throw storageError;
+  const { error } = await supabase.from("evidence_files").delete().eq("id", file.id);
+  if (error) throw error;
+}
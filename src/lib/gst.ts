@@ -0,0 +1,263 @@
+/**
+ * GST computation checks.
+ *
+ * The expected GST on a transaction is its taxable value (`amount`) times the
+ * rate for its HSN/SAC code, split into CGST + SGST for intra-state supplies
+ * (supplier GSTIN state = place of supply) and IGST for inter-state ones. The
+ * expected components are compared with the declared ones and the difference
+ * is reported in a `ComplianceResult`.
+ *
+ * Rates come from a built-in table of common codes that each workspace can
+ * extend or override (`gst_rates`, shared by its members). Codes match by longest
+ * prefix, so "8471" covers "84713010".
+ */
+
+import { supabase } from "@/integrations/supabase/clientRuntime";
+import type { Tables } from "@/integrations/supabase/types";
+import type { ComplianceResult, Transaction } from "@/contexts/PipelineContext";
+import { formatMoney, type Money } from "@/lib/money";
+import { resolveStateCode, validateGstin } from "@/lib/taxIdentifiers";
+
+export interface GstRate {
+  /** HSN or SAC code or prefix, digits only */
+  hsnSac: string;
+  /** Total GST rate in percent (CGST + SGST, or IGST) */
+  rate: number;
+  description: string;
+  /** Set for rates the workspace added or changed */
+  id?: string;
+  /**
+   * Why a built-in rate may not fit every supply under the code; a mismatch
+   * against such a rate is a warning rather than a violation
+   */
+  caveat?: string;
+}
+
+/**
+ * Rates for codes common in government purchases, as revised from 22 September 2025
+ * (5% and 18% slabs, 40% for luxury and sin goods). Edit them to match later notifications.
+ */
+export const DEFAULT_GST_RATES: GstRate[] = [
+  { hsnSac: "3004", rate: 5, description: "Medicaments", caveat: "Listed life-saving drugs are exempt" },
+  { hsnSac: "4901", rate: 0, description: "Printed books" },
+  { hsnSac: "2523", rate: 18, description: "Cement" },
+  { hsnSac: "7214", rate: 18, description: "Steel bars and rods" },
+  { hsnSac: "8415", rate: 18, description: "Air conditioners" },
+  { hsnSac: "8443", rate: 18, description: "Printers and copiers" },
+  { hsnSac: "8471", rate: 18, description: "Computers and peripherals" },
+  { hsnSac: "8517", rate: 18, description: "Telephones and network equipment" },
+  { hsnSac: "8528", rate: 18, description: "Monitors and projectors" },
+  {
+    hsnSac: "8703",
+    rate: 40,
+    description: "Motor cars",
+    caveat: "Small petrol and diesel cars are at 18% and electric cars at 5%",
+  },
+  { hsnSac: "9403", rate: 18, description: "Furniture" },
+  {
+    hsnSac: "9954",
+    rate: 18,
+    description: "Construction services",
+    caveat: "Residential and affordable housing construction is at lower rates",
+  },
+  {
+    hsnSac: "9965",
+    rate: 5,
+    description: "Goods transport services",
+    caveat: "Goods transport agencies may opt for 18% with input tax credit",
+  },
+  { hsnSac: "9971", rate: 18, description: "Financial services" },
+  {
+    hsnSac: "9973",
+    rate: 18,
+    description: "Leasing, rental and licensing (incl. software licences)",
+    caveat: "Leasing of goods is taxed at the rate of the goods",
+  },
+  { hsnSac: "9983", rate: 18, description: "Professional and technical services (incl. IT consulting)" },
+  { hsnSac: "9985", rate: 18, description: "Support services (incl. manpower supply)" },
+  { hsnSac: "9987", rate: 18, description: "Maintenance and repair services" },
+  { hsnSac: "9993", rate: 0, description: "Human health services" },
+];
+
+/** Clause id of GST computation results; like identifier checks, they have no parsed clause behind them */
+export const GST_CHECK = "GST-CALC";
+
+// Each component may be rounded to the nearest rupee on the invoice
+const ROUNDING_PAISE = 100;
+
+const digits = (code: string) => code.replace(/\D/g, "");
+
+/** Defaults with the workspace's rates applied over them, sorted by code */
+export function mergeGstRates(overrides: GstRate[]): GstRate[] {
+  const byCode = new Map(DEFAULT_GST_RATES.map((r) => [r.hsnSac, r]));
+  for (const rate of overrides) byCode.set(rate.hsnSac, rate);
+  return [...byCode.values()].sort((a, b) => a.hsnSac.localeCompare(b.hsnSac));
+}
+
+/** Rate for an HSN/SAC code by longest matching prefix */
+export function findGstRate(rates: GstRate[], hsnSac: string): GstRate | null {
+  const code = digits(hsnSac);
+  let best: GstRate | null = null;
+  for (const rate of rates) {
+    if (code.startsWith(rate.hsnSac) && (!best || rate.hsnSac.length > best.hsnSac.length)) best = rate;
+  }
+  return best;
+}
+
+export type SupplyType = "intra_state" | "inter_state";
+
+export interface GstComputation {
+  rate: GstRate;
+  supplyType: SupplyType | null;
+  /** Expected components in paise; the split is only known with the supply type */
+  expected: { total: number; cgst?: number; sgst?: number; igst?: number };
+}
+
+/** Intra- or inter-state from the supplier's GSTIN state and the place of supply */
+export function supplyType(tx: Transaction): SupplyType | null {
+  if (!tx.gstin || !tx.placeOfSupply || validateGstin(tx.gstin)) return null;
+  const destination = resolveStateCode(tx.placeOfSupply);
+  if (!destination) return null;
+  return tx.gstin.trim().slice(0, 2) === destination ? "intra_state" : "inter_state";
+}
+
+export function computeGst(tx: Transaction, rates: GstRate[]): GstComputation | null {
+  const rate = tx.hsnSac ? findGstRate(rates, tx.hsnSac) : null;
+  if (!rate) return null;
+
+  const total = Math.round((tx.amount.paise * rate.rate) / 100);
+  const type = supplyType(tx);
+  if (type === "inter_state") return { rate, supplyType: type, expected: { total, igst: total } };
+  if (type === "intra_state") {
+    const half = Math.round(total / 2);
+    return { rate, supplyType: type, expected: { total, cgst: half, sgst: total - half } };
+  }
+  return { rate, supplyType: null, expected: { total } };
+}
+
+/**
+ * Check the declared GST on a transaction against its HSN/SAC rate and
+ * supply type. Returns null when the transaction is not in rupees or has no
+ * HSN/SAC code; codes missing from the rate table, and totals that differ
+ * from a built-in rate with a caveat, give a warning.
+ */
+export function checkGstComputation(tx: Transaction, rates: GstRate[]): ComplianceResult | null {
+  if (!tx.hsnSac || tx.amount.currency !== "INR" || tx.tax.currency !== "INR") return null;
+
+  const base = { id: crypto.randomUUID(), transactionId: tx.id, clauseId: GST_CHECK };
+  const computation = computeGst(tx, rates);
+  if (!computation) {
+    return {
+      ...base,
+      status: "warning",
+      riskLevel: "medium",
+      reasoning: `GST check: no rate for HSN/SAC ${tx.hsnSac} in the GST rate table, so the tax of ${formatMoney(tx.tax)} could not be verified. Add the code to the rate table.`,
+    };
+  }
+
+  const { rate, expected } = computation;
+  const inr = (paise: number): Money => ({ paise, currency: "INR" });
+  const differences: string[] = [];
+
+  const totalDiff = tx.tax.paise - expected.total;
+  if (Math.abs(totalDiff) > ROUNDING_PAISE) {
+    differences.push(
+      `total GST declared ${formatMoney(tx.tax)} vs expected ${formatMoney(inr(expected.total))} (${totalDiff > 0 ? "excess" : "short"} ${formatMoney(inr(Math.abs(totalDiff)))})`
+    );
+  }
+
+  // Components are only compared when the invoice states them and the supply type is known
+  const declared = { cgst: tx.cgst, sgst: tx.sgst, igst: tx.igst };
+  if (computation.supplyType && Object.values(declared).some(Boolean)) {
+    for (const component of ["cgst", "sgst", "igst"] as const) {
+      const declaredPaise = declared[component]?.paise ?? 0;
+      const expectedPaise = expected[component] ?? 0;
+      const diff = declaredPaise - expectedPaise;
+      if (Math.abs(diff) > ROUNDING_PAISE) {
+        differences.push(
+          `${component.toUpperCase()} declared ${formatMoney(inr(declaredPaise))} vs expected ${formatMoney(inr(expectedPaise))} (difference ${formatMoney(inr(diff))})`
+        );
+      }
+    }
+  }
+
+  const basis = `${rate.rate}% on ${formatMoney(tx.amount)} for HSN/SAC ${tx.hsnSac} (${rate.description})`;
+  const split =
+    computation.supplyType === "intra_state"
+      ? `intra-state supply, so CGST ${formatMoney(inr(expected.cgst ?? 0))} + SGST ${formatMoney(inr(expected.sgst ?? 0))}`
+      : computation.supplyType === "inter_state"
+        ? `inter-state supply, so IGST ${formatMoney(inr(expected.igst ?? 0))}`
+        : "supply type unknown without a valid GSTIN and place of supply, so only the total is checked";
+
+  if (differences.length === 0) {
+    return {
+      ...base,
+      status: "compliant",
+      riskLevel: "low",
+      reasoning: `GST check: ${basis} gives ${formatMoney(inr(expected.total))}; ${split}. Declared tax matches.`,
+    };
+  }
+
+  // The right amount under the wrong head has to be paid again under the right one (CGST Act s.77)
+  const wrongHead = Math.abs(totalDiff) <= ROUNDING_PAISE;
+  if (rate.caveat && !wrongHead) {
+    return {
+      ...base,
+      status: "warning",
+      riskLevel: "medium",
+      reasoning: `GST check: ${basis} gives ${formatMoney(inr(expected.total))}; ${split}. Discrepancies: ${differences.join("; ")}. The built-in rate may not apply (${rate.caveat}); confirm the rate for this supply and set it in the rate table.`,
+    };
+  }
+  return {
+    ...base,
+    status: "violation",
+    riskLevel: wrongHead ? "medium" : "high",
+    reasoning: `GST check: ${basis} gives ${formatMoney(inr(expected.total))}; ${split}. Discrepancies: ${differences.join("; ")}.${wrongHead ? " The total is right but charged under the wrong head." : ""}`,
+  };
+}
+
+// ---------- Saved rates ----------
+
+const toGstRate = (row: Tables<"gst_rates">): GstRate => ({
+  id: row.id,
+  hsnSac: row.hsn_sac,
+  rate: Number(row.rate),
+  description: row.description,
+});
+
+/** The workspace's rates over the defaults; the defaults alone when signed out or offline */
+export async function loadGstRates(): Promise<GstRate[]> {
+  const { data, error } = await supabase.from("gst_rates").select("*");
+  if (error) {
+    console.warn("Using default GST rates:", error.message);
+    return DEFAULT_GST_RATES;
+  }
+  return mergeGstRates((data || []).map(toGstRate));
+}
+
+/** Add or change the workspace's rate for a code */
+export async function saveGstRate(rate: GstRate): Promise<GstRate> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Sign in to edit GST rates");
+
+  const hsnSac = digits(rate.hsnSac);
+  if (!hsnSac) throw new Error("Enter an HSN or SAC code");
+  if (!(rate.rate >= 0 && rate.rate <= 100)) throw new Error("Rate must be between 0 and 100");
+
+  const { data, error } = await supabase
+    .from("gst_rates")
+    .upsert(
+      { user_id: user.id, hsn_sac: hsnSac, rate: rate.rate, description: rate.description },
+      { onConflict: "organization_id,hsn_sac" }
+    )
+    .select("*")
+    .single();
+  if (error) throw error;
+  return toGstRate(data);
+}
+
+/** Remove the workspace's rate, restoring the default for that code if there is one */
+export async function deleteGstRate(id: string): Promise<void> {
+  const { error } = await supabase.from("gst_rates").delete().eq("id", id);
+  if (error) throw error;
+}
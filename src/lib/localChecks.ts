@@ -0,0 +1,54 @@
+/**
+ * Compliance checks decided locally from transaction data alone.
+ *
+ * Unlike rule engine results, these are not tied to a parsed clause: their
+ * `clauseId` is a fixed check id such as "GSTIN", "GST-CALC", "TDS-194C" or
+ * "GFR-SPLIT", which is also what reports show as the clause reference. TDS
+ * thresholds and split purchases depend on all payments to a payee, so the
+ * context is built from the whole transaction set.
+ */
+
+import type { ComplianceResult, Transaction } from "@/contexts/PipelineContext";
+import { checkGstComputation, GST_CHECK, GstRate, loadGstRates } from "@/lib/gst";
+import { checkProcurement, detectSplitPurchases, PROCUREMENT_CHECKS, SplitPurchase } from "@/lib/procurement";
+import { IDENTIFIER_CHECKS, validateTransactionIdentifiers } from "@/lib/taxIdentifiers";
+import { assessTds, checkTds, TDS_SECTIONS, TdsAssessment, tdsCheckId } from "@/lib/tds";
+
+const LOCAL_CHECK_IDS = new Set<string>([
+  ...Object.values(IDENTIFIER_CHECKS),
+  GST_CHECK,
+  ...TDS_SECTIONS.map((s) => tdsCheckId(s.section)),
+  ...Object.values(PROCUREMENT_CHECKS),
+]);
+
+export const isLocalCheck = (clauseId: string): boolean => LOCAL_CHECK_IDS.has(clauseId);
+
+/** Reference data the checks need, loaded once per run */
+export interface LocalCheckContext {
+  gstRates: GstRate[];
+  /** Expected TDS per transaction id */
+  tds: Map<string, TdsAssessment>;
+  /** Split purchases per transaction id */
+  splits: Map<string, SplitPurchase>;
+}
+
+/** `transactions` is the full set the checked transactions belong to */
+export async function loadLocalCheckContext(transactions: Transaction[]): Promise<LocalCheckContext> {
+  return {
+    gstRates: await loadGstRates(),
+    tds: assessTds(transactions),
+    splits: detectSplitPurchases(transactions),
+  };
+}
+
+/** Results of all local checks on a transaction */
+export function runLocalChecks(tx: Transaction, context: LocalCheckContext): ComplianceResult[] {
+  const gst = checkGstComputation(tx, context.gstRates);
+  const tds = checkTds(tx, context.tds.get(tx.id));
+  return [
+    ...validateTransactionIdentifiers(tx),
+    ...(gst ? [gst] : []),
+    ...(tds ? [tds] : []),
+    ...checkProcurement(tx, context.splits.get(tx.id)),
+  ];
+}
@@ -0,0 +1,135 @@
+/**
+ * Money on transactions.
+ *
+ * Amounts are held as an integer count of the currency's minor unit (paise
+ * for INR) plus an ISO 4217 currency code, so sums and threshold comparisons
+ * are exact. Text such as "₹1,25,00,000", "Rs. 5,000", "USD 1,200.50" or
+ * "50 lakhs" is parsed on the way in, and lakh/crore grouping is applied only
+ * when an amount is displayed.
+ */
+
+export interface Money {
+  /** Amount in minor units (paise for INR) */
+  paise: number;
+  /** ISO 4217 code, e.g. "INR" */
+  currency: string;
+}
+
+export const DEFAULT_CURRENCY = "INR";
+
+/** Currencies offered where a transaction is entered by hand */
+export const CURRENCIES = ["INR", "USD", "EUR", "GBP", "AED", "SGD"];
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  "₹": "INR",
+  "rs": "INR",
+  "rs.": "INR",
+  "inr": "INR",
+  "$": "USD",
+  "us$": "USD",
+  "€": "EUR",
+  "£": "GBP",
+};
+
+const UNITS: Record<string, number> = {
+  k: 1e3,
+  thousand: 1e3,
+  lakh: 1e5,
+  lakhs: 1e5,
+  lac: 1e5,
+  lacs: 1e5,
+  crore: 1e7,
+  crores: 1e7,
+};
+
+// Ledger exports mark entries "5,000.00 Dr" / "5,000.00 Cr"; the sign is not kept
+const LEDGER_MARKERS = new Set(["dr", "cr"]);
+
+export function money(major: number, currency = DEFAULT_CURRENCY): Money {
+  return { paise: Math.round(major * 100), currency };
+}
+
+export const zeroMoney = (currency = DEFAULT_CURRENCY): Money => ({ paise: 0, currency });
+
+/** Amount in major units (rupees for INR) */
+export const toMajor = (value: Money): number => value.paise / 100;
+
+export function isMoney(value: unknown): value is Money {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    typeof (value as Money).paise === "number" &&
+    typeof (value as Money).currency === "string"
+  );
+}
+
+/**
+ * Parse an amount. Numbers are taken as major units; strings may carry a
+ * currency symbol or code and an Indian unit ("2.5 crore"). Returns null when
+ * no number can be read.
+ */
+export function parseMoney(value: unknown, currency = DEFAULT_CURRENCY): Money | null {
+  if (isMoney(value)) return value;
+  if (typeof value === "number") return Number.isFinite(value) ? money(value, currency) : null;
+  if (typeof value !== "string") return null;
+
+  const match = /^\s*([^\d\s.-]*\.?)\s*(-?[\d,]*\.?\d+)\s*([a-z]*)\.?\s*([a-z]{3})?\s*$/i.exec(value);
+  if (!match) return null;
+
+  const [, prefix, digits, word, suffix] = match;
+  const number = Number(digits.replace(/,/g, ""));
+  if (!Number.isFinite(number)) return null;
+
+  // A trailing word is a unit ("50 lakhs"), a ledger marker, or a currency code ("1,200 USD")
+  const unit = word.toLowerCase();
+  const trailingCode = !suffix && word.length === 3 && !(unit in UNITS) ? word : suffix;
+  const multiplier = !unit || LEDGER_MARKERS.has(unit) || trailingCode === word ? 1 : UNITS[unit];
+  const code = trailingCode
+    ? trailingCode.toUpperCase()
+    : prefix
+      ? CURRENCY_SYMBOLS[prefix.toLowerCase()] ?? prefix.replace(/\.$/, "").toUpperCase()
+      : currency;
+  if (multiplier === undefined || !/^[A-Z]{3}$/.test(code)) return null;
+
+  return money(number * multiplier, code);
+}
+
+const formatters = new Map<string, (major: number) => string>();
+
+function formatter(currency: string, compact: boolean): (major: number) => string {
+  const key = `${currency}|${compact}`;
+  let cached = formatters.get(key);
+  if (!cached) {
+    const digits = compact ? { minimumFractionDigits: 0, maximumFractionDigits: 2 } : { minimumFractionDigits: 2 };
+    try {
+      const format = new Intl.NumberFormat(currency === "INR" ? "en-IN" : "en", { style: "currency", currency, ...digits });
+      cached = (major) => format.format(major);
+    } catch {
+      // Codes Intl does not know are shown as a prefix
+      const format = new Intl.NumberFormat("en", digits);
+      cached = (major) => `${currency} ${format.format(major)}`;
+    }
+    formatters.set(key, cached);
+  }
+  return cached;
+}
+
+/** "₹1,25,00,000.00"; INR uses lakh/crore digit grouping */
+export function formatMoney(value: Money): string {
+  return formatter(value.currency, false)(toMajor(value));
+}
+
+/** Short form for cards and charts: "₹1.25 Cr", "₹50 L", "$12,000" */
+export function formatMoneyCompact(value: Money): string {
+  const major = toMajor(value);
+  if (value.currency !== "INR" || Math.abs(major) < 1e5) return formatter(value.currency, true)(major);
+  const [divisor, suffix] = Math.abs(major) >= 1e7 ? [1e7, "Cr"] : [1e5, "L"];
+  return `${formatter("INR", true)(major / divisor)} ${suffix}`;
+}
+
+/** Totals per currency, largest first */
+export function sumByCurrency(values: Money[]): Money[] {
+  const totals = new Map<string, number>();
+  for (const value of values) totals.set(value.currency, (totals.get(value.currency) ?? 0) + value.paise);
+  return [...totals].map(([currency, paise]) => ({ paise, currency })).sort((a, b) => b.paise - a.paise);
+}
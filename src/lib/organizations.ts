@@ -0,0 +1,142 @@
+/**
+ * Organizations (team workspaces), memberships and roles.
+ *
+ * Transactions, compliance results, audit reports and runs, remediation
+ * tasks, evidence and GST rates belong to a workspace, and RLS shows each
+ * user the rows of their active workspace only. Every user has a personal
+ * workspace; admins add colleagues to theirs by email. The role a member
+ * holds decides what they may change and which pages they can open.
+ */
+
+import { supabase } from "@/integrations/supabase/clientRuntime";
+
+export type OrgRole = "admin" | "auditor" | "reviewer" | "viewer";
+
+export const ORG_ROLES: { role: OrgRole; label: string; description: string }[] = [
+  { role: "admin", label: "Admin", description: "Manages the workspace and its members, and everything an auditor can do" },
+  { role: "auditor", label: "Auditor", description: "Runs audits and edits transactions, results, reports and GST rates" },
+  { role: "reviewer", label: "Reviewer", description: "Marks results compliant, works remediation tasks and attaches evidence" },
+  { role: "viewer", label: "Viewer", description: "Reads workspace data without changing it" },
+];
+
+/** Roles that may run the pipeline and change workspace data */
+export const AUDIT_ROLES: OrgRole[] = ["admin", "auditor"];
+/** Roles that may review findings: mark results compliant, work tasks, attach evidence */
+export const REVIEW_ROLES: OrgRole[] = ["admin", "auditor", "reviewer"];
+
+export const roleLabel = (role: OrgRole) => ORG_ROLES.find((r) => r.role === role)?.label ?? role;
+
+export interface Membership {
+  organizationId: string;
+  name: string;
+  role: OrgRole;
+  joinedAt: string;
+}
+
+export interface OrganizationMember {
+  userId: string;
+  email: string;
+  displayName: string;
+  role: OrgRole;
+  joinedAt: string;
+}
+
+/** The user's workspaces, oldest membership first, and the one they are working in */
+export async function fetchMemberships(userId: string): Promise<{ memberships: Membership[]; activeId: string | null }> {
+  const [membershipRes, profileRes] = await Promise.all([
+    supabase
+      .from("organization_members")
+      .select("role, created_at, organizations(id, name)")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: true }),
+    supabase.from("profiles").select("active_organization_id").eq("id", userId).maybeSingle(),
+  ]);
+  if (membershipRes.error) throw membershipRes.error;
+  if (profileRes.error) throw profileRes.error;
+
+  const memberships = (membershipRes.data || [])
+    .filter((row) => row.organizations)
+    .map((row) => ({
+      organizationId: row.organizations.id,
+      name: row.organizations.name,
+      role: row.role as OrgRole,
+      joinedAt: row.created_at,
+    }));
+  // Same fallback as active_organization_id(): the first workspace joined
+  const saved = profileRes.data?.active_organization_id;
+  const active = memberships.find((m) => m.organizationId === saved) ?? memberships[0];
+  return { memberships, activeId: active?.organizationId ?? null };
+}
+
+export async function setActiveOrganization(userId: string, organizationId: string) {
+  const { error } = await supabase.from("profiles").update({ active_organization_id: organizationId }).eq("id", userId);
+  if (error) throw error;
+}
+
+/** Create a workspace with the caller as admin; it becomes their active workspace */
+export async function createOrganization(name: string): Promise<string> {
+  if (!name.trim()) throw new Error("Name the workspace");
+  const { data, error } = await supabase.rpc("create_organization", { org_name: name.trim() });
+  if (error) throw error;
+  return data;
+}
+
+export async function renameOrganization(organizationId: string, name: string) {
+  if (!name.trim()) throw new Error("Name the workspace");
+  const { error } = await supabase.from("organizations").update({ name: name.trim() }).eq("id", organizationId);
+  if (error) throw error;
+}
+
+export async function fetchMembers(organizationId: string): Promise<OrganizationMember[]> {
+  const { data: rows, error } = await supabase
+    .from("organization_members")
+    .select("user_id, role, created_at")
+    .eq("organization_id", organizationId)
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+
+  const userIds = (rows || []).map((row) => row.user_id);
+  const { data: profiles, error: profileError } = userIds.length
+    ? await supabase.from("profiles").select("id, email, display_name").in("id", userIds)
+    : { data: [], error: null };
+  if (profileError) throw profileError;
+  const profilesById = new Map((profiles || []).map((p) => [p.id, p]));
+
+  return (rows || []).map((row) => ({
+    userId: row.user_id,
+    email: profilesById.get(row.user_id)?.email ?? "",
+    displayName: profilesById.get(row.user_id)?.display_name ?? "",
+    role: row.role as OrgRole,
+    joinedAt: row.created_at,
+  }));
+}
+
+/** Add a signed-up user by email; an existing member gets the new role */
+export async function addMember(organizationId: string, email: string, role: OrgRole) {
+  if (!email.trim()) throw new Error("Enter the member's email");
+  const { error } = await supabase.rpc("add_organization_member", {
+    org: organizationId,
+    member_email: email.trim(),
+    member_role: role,
+  });
+  if (error) throw error;
+}
+
+export async function updateMemberRole(organizationId: string, userId: string, role: OrgRole) {
+  const { error } = await supabase
+    .from("organization_members")
+    .update({ role })
+    .eq("organization_id", organizationId)
+    .eq("user_id", userId);
+  if (error) throw error;
+}
+
+/** Remove a member, or leave the workspace when userId is the caller's own */
+export async function removeMember(organizationId: string, userId: string) {
+  const { error } = await supabase
+    .from("organization_members")
+    .delete()
+    .eq("organization_id", organizationId)
+    .eq("user_id", userId);
+  if (error) throw error;
+}
@@ -0,0 +1,334 @@
+/**
+ * Database persistence for pipeline state.
+ *
+ * Transactions, compliance results and audit reports are stored per
+ * workspace (organization) so an audit survives reloads and every member of
+ * the workspace works on the same set; `user_id` records who first wrote each
+ * row, and a trigger keeps it when another member re-saves the row. Replacing
+ * or clearing the set only removes rows the user wrote, so one member's run
+ * never deletes another's work. RLS limits reads to the user's active
+ * workspace and writes to its auditors. Regulations and parsed clauses
+ * already live in shared tables (`indexed_regulations`, `parsed_clauses`) and
+ * are not handled here.
+ */
+
+import { supabase } from "@/integrations/supabase/clientRuntime";
+import type { Json, Tables, TablesInsert } from "@/integrations/supabase/types";
+import type { AuditReport, ComplianceResult, ProcurementMode, Transaction } from "@/contexts/PipelineContext";
+
+export interface PipelineWorkspace {
+  userId: string;
+  organizationId: string;
+}
+
+export interface PersistedPipelineState {
+  transactions: Transaction[];
+  complianceResults: ComplianceResult[];
+  auditReports: AuditReport[];
+}
+
+// ---------- Row mappers ----------
+
+function toTransaction(row: Tables<"transactions">): Transaction {
+  return {
+    id: row.id,
+    category: row.category,
+    amount: { paise: row.amount_paise, currency: row.currency },
+    tax: { paise: row.tax_paise, currency: row.currency },
+    cgst: row.cgst_paise === null ? undefined : { paise: row.cgst_paise, currency: row.currency },
+    sgst: row.sgst_paise === null ? undefined : { paise: row.sgst_paise, currency: row.currency },
+    igst: row.igst_paise === null ? undefined : { paise: row.igst_paise, currency: row.currency },
+    tds: row.tds_paise === null ? undefined : { paise: row.tds_paise, currency: row.currency },
+    tdsSection: row.tds_section ?? undefined,
+    vendor: row.vendor,
+    date: row.date,
+    description: row.description,
+    gstin: row.gstin ?? undefined,
+    pan: row.pan ?? undefined,
+    invoiceNumber: row.invoice_number ?? undefined,
+    placeOfSupply: row.place_of_supply ?? undefined,
+    hsnSac: row.hsn_sac ?? undefined,
+    procurementMode: (row.procurement_mode as ProcurementMode) ?? undefined,
+    bidsReceived: row.bids_received ?? undefined,
+    tenderReference: row.tender_reference ?? undefined,
+    confidence: (row.field_confidence as Transaction["confidence"]) ?? undefined,
+    sourcePage: row.source_page ?? undefined,
+  };
+}
+
+function fromTransaction(ws: PipelineWorkspace, tx: Transaction): TablesInsert<"transactions"> {
+  return {
+    id: tx.id,
+    organization_id: ws.organizationId,
+    user_id: ws.userId,
+    category: tx.category,
+    amount_paise: tx.amount.paise,
+    tax_paise: tx.tax.paise,
+    cgst_paise: tx.cgst?.paise ?? null,
+    sgst_paise: tx.sgst?.paise ?? null,
+    igst_paise: tx.igst?.paise ?? null,
+    tds_paise: tx.tds?.paise ?? null,
+    tds_section: tx.tdsSection ?? null,
+    currency: tx.amount.currency,
+    vendor: tx.vendor,
+    date: tx.date,
+    description: tx.description ?? "",
+    gstin: tx.gstin ?? null,
+    pan: tx.pan ?? null,
+    invoice_number: tx.invoiceNumber ?? null,
+    place_of_supply: tx.placeOfSupply ?? null,
+    hsn_sac: tx.hsnSac ?? null,
+    procurement_mode: tx.procurementMode ?? null,
+    bids_received: tx.bidsReceived ?? null,
+    tender_reference: tx.tenderReference ?? null,
+    field_confidence: (tx.confidence as Json) ?? null,
+    source_page: tx.sourcePage ?? null,
+  };
+}
+
+function toComplianceResult(row: Tables<"compliance_results">): ComplianceResult {
+  return {
+    id: row.id,
+    transactionId: row.transaction_id,
+    clauseId: row.clause_id,
+    status: row.status as ComplianceResult["status"],
+    riskLevel: row.risk_level as ComplianceResult["riskLevel"],
+    reasoning: row.reasoning,
+    missingDocs: row.missing_docs ?? undefined,
+  };
+}
+
+function fromComplianceResult(ws: PipelineWorkspace, result: ComplianceResult): TablesInsert<"compliance_results"> {
+  return {
+    id: result.id,
+    organization_id: ws.organizationId,
+    user_id: ws.userId,
+    transaction_id: result.transactionId,
+    clause_id: result.clauseId,
+    status: result.status,
+    risk_level: result.riskLevel,
+    reasoning: result.reasoning ?? "",
+    missing_docs: result.missingDocs ?? null,
+  };
+}
+
+function toAuditReport(row: Tables<"audit_reports">): AuditReport {
+  return {
+    id: row.id,
+    generatedAt: row.generated_at,
+    summary: row.summary as unknown as AuditReport["summary"],
+    details: row.details as unknown as AuditReport["details"],
+  };
+}
+
+function fromAuditReport(ws: PipelineWorkspace, report: AuditReport): TablesInsert<"audit_reports"> {
+  return {
+    id: report.id,
+    organization_id: ws.organizationId,
+    user_id: ws.userId,
+    generated_at: report.generatedAt,
+    summary: report.summary as unknown as Json,
+    details: report.details as unknown as Json,
+  };
+}
+
+// ---------- Reads ----------
+
+export async function loadPipelineState(organizationId: string): Promise<PersistedPipelineState> {
+  const [txRes, resultRes, reportRes] = await Promise.all([
+    supabase.from("transactions").select("*").eq("organization_id", organizationId).order("created_at", { ascending: true }),
+    supabase.from("compliance_results").select("*").eq("organization_id", organizationId).order("created_at", { ascending: true }),
+    supabase.from("audit_reports").select("*").eq("organization_id", organizationId).order("generated_at", { ascending: true }),
+  ]);
+
+  if (txRes.error) throw txRes.error;
+  if (resultRes.error) throw resultRes.error;
+  if (reportRes.error) throw reportRes.error;
+
+  const transactions = (txRes.data || []).map(toTransaction);
+  return {
+    transactions,
+    complianceResults: currentResults((resultRes.data || []).map(toComplianceResult), transactions),
+    auditReports: (reportRes.data || []).map(toAuditReport),
+  };
+}
+
+/**
+ * The working set of results: the latest per transaction and clause, for
+ * transactions still in the set. Superseded results stay stored while a task
+ * or evidence file points at them, and members' runs can overlap.
+ */
+function currentResults(results: ComplianceResult[], transactions: Transaction[]): ComplianceResult[] {
+  const transactionIds = new Set(transactions.map((t) => t.id));
+  const latest = new Map<string, ComplianceResult>();
+  // Rows arrive oldest first, so later results replace earlier ones
+  for (const result of results) {
+    if (transactionIds.has(result.transactionId)) latest.set(`${result.transactionId}:${result.clauseId}`, result);
+  }
+  return [...latest.values()];
+}
+
+// ---------- Writes ----------
+// The stored rows mirror the in-memory pipeline: "replace" functions back the
+// context setters, "upsert" functions back the add* helpers. A replace writes
+// the new rows before removing the stale ones, so a failed write never leaves
+// the workspace with neither. Only rows the user wrote are removed, and
+// compliance results that remediation tasks or evidence point at are kept.
+
+type PipelineTable = "transactions" | "compliance_results" | "audit_reports";
+
+// Rows read per request (PostgREST caps a response at 1000) and ids per delete (keeps the URL short)
+const PAGE_SIZE = 1000;
+const DELETE_CHUNK = 100;
+
+async function readAllPages<T>(
+  readPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await readPage(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+/** Ids of the rows the user wrote in the workspace */
+async function ownIds(table: PipelineTable, ws: PipelineWorkspace): Promise<string[]> {
+  const rows = await readAllPages((from, to) =>
+    supabase
+      .from(table)
+      .select("id")
+      .eq("organization_id", ws.organizationId)
+      .eq("user_id", ws.userId)
+      .order("id")
+      .range(from, to)
+  );
+  return rows.map((row) => row.id);
+}
+
+/** Compliance results a remediation task or evidence file points at */
+async function referencedResultIds(ws: PipelineWorkspace): Promise<Set<string>> {
+  const [tasks, evidence] = await Promise.all([
+    readAllPages((from, to) =>
+      supabase
+        .from("remediation_tasks")
+        .select("compliance_result_id")
+        .eq("organization_id", ws.organizationId)
+        .order("id")
+        .range(from, to)
+    ),
+    readAllPages((from, to) =>
+      supabase
+        .from("evidence_files")
+        .select("compliance_result_id")
+        .eq("organization_id", ws.organizationId)
+        .not("compliance_result_id", "is", null)
+        .order("id")
+        .range(from, to)
+    ),
+  ]);
+  return new Set([...tasks, ...evidence].map((row) => row.compliance_result_id));
+}
+
+async function deleteRowsById(table: PipelineTable, ws: PipelineWorkspace, ids: string[]) {
+  for (let i = 0; i < ids.length; i += DELETE_CHUNK) {
+    const { error } = await supabase
+      .from(table)
+      .delete()
+      .eq("organization_id", ws.organizationId)
+      .eq("user_id", ws.userId)
+      .in("id", ids.slice(i, i + DELETE_CHUNK));
+    if (error) throw error;
+  }
+}
+
+/** Remove the user's rows that are not among `keepIds`, sparing referenced results */
+async function deleteStaleRows(table: PipelineTable, ws: PipelineWorkspace, keepIds: string[]) {
+  const keep = new Set(keepIds);
+  if (table === "compliance_results") {
+    for (const id of await referencedResultIds(ws)) keep.add(id);
+  }
+  const stale = (await ownIds(table, ws)).filter((id) => !keep.has(id));
+  await deleteRowsById(table, ws, stale);
+}
+
+export async function replaceTransactions(ws: PipelineWorkspace, txns: Transaction[]) {
+  await upsertTransactions(ws, txns);
+  await deleteStaleRows("transactions", ws, txns.map((t) => t.id));
+}
+
+export async function upsertTransactions(ws: PipelineWorkspace, txns: Transaction[]) {
+  if (txns.length === 0) return;
+  const { error } = await supabase
+    .from("transactions")
+    .upsert(txns.map((t) => fromTransaction(ws, t)), { onConflict: "organization_id,id" });
+  if (error) throw error;
+}
+
+export async function replaceComplianceResults(ws: PipelineWorkspace, results: ComplianceResult[]) {
+  await writeComplianceResults(ws, results);
+  await deleteStaleRows("compliance_results", ws, results.map((r) => r.id));
+}
+
+/** New results supersede the user's stored results for the same transactions. */
+export async function upsertComplianceResults(ws: PipelineWorkspace, results: ComplianceResult[]) {
+  if (results.length === 0) return;
+  await writeComplianceResults(ws, results);
+
+  const transactionIds = [...new Set(results.map((r) => r.transactionId))];
+  const { data, error } = await supabase
+    .from("compliance_results")
+    .select("id")
+    .eq("organization_id", ws.organizationId)
+    .eq("user_id", ws.userId)
+    .in("transaction_id", transactionIds);
+  if (error) throw error;
+
+  const keep = await referencedResultIds(ws);
+  for (const r of results) keep.add(r.id);
+  await deleteRowsById("compliance_results", ws, (data || []).map((row) => row.id).filter((id) => !keep.has(id)));
+}
+
+async function writeComplianceResults(ws: PipelineWorkspace, results: ComplianceResult[]) {
+  if (results.length === 0) return;
+  const { error } = await supabase
+    .from("compliance_results")
+    .upsert(results.map((r) => fromComplianceResult(ws, r)), { onConflict: "organization_id,id" });
+  if (error) throw error;
+}
+
+/**
+ * Overwrite one stored result, leaving the other results for its transaction
+ * in place. An update rather than an upsert, so reviewers (who may update
+ * results but not add them) can save it.
+ */
+export async function saveComplianceResult(ws: PipelineWorkspace, result: ComplianceResult) {
+  const { id, organization_id, ...row } = fromComplianceResult(ws, result);
+  const { error } = await supabase
+    .from("compliance_results")
+    .update(row)
+    .eq("organization_id", organization_id)
+    .eq("id", id);
+  if (error) throw error;
+}
+
+export async function replaceAuditReports(ws: PipelineWorkspace, reports: AuditReport[]) {
+  await upsertAuditReports(ws, reports);
+  await deleteStaleRows("audit_reports", ws, reports.map((r) => r.id));
+}
+
+export async function upsertAuditReports(ws: PipelineWorkspace, reports: AuditReport[]) {
+  if (reports.length === 0) return;
+  const { error } = await supabase
+    .from("audit_reports")
+    .upsert(reports.map((r) => fromAuditReport(ws, r)), { onConflict: "organization_id,id" });
+  if (error) throw error;
+}
+
+/** Remove the user's rows from the workspace; other members' rows stay */
+export async function clearPipelineState(ws: PipelineWorkspace) {
+  await deleteStaleRows("compliance_results", ws, []);
+  await deleteStaleRows("transactions", ws, []);
+  await deleteStaleRows("audit_reports", ws, []);
+}
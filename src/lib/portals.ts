@@ -0,0 +1,86 @@
+/**
+ * Regulation portals.
+ *
+ * Portals are read straight from `regulation_portals` and changed through the
+ * `manage-portals` edge function, which validates the crawl settings and
+ * writes with the service role.
+ */
+
+import { supabase } from "@/integrations/supabase/clientRuntime";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type RegulationPortal = Tables<"regulation_portals">;
+
+export type PortalInput = Pick<
+  RegulationPortal,
+  | "name"
+  | "base_url"
+  | "category"
+  | "is_active"
+  | "crawl_schedule"
+  | "include_patterns"
+  | "exclude_patterns"
+  | "max_urls"
+  | "map_limit"
+>;
+
+// Mirrors the column defaults in regulation_portals
+export const DEFAULT_PORTAL_INPUT: PortalInput = {
+  name: "",
+  base_url: "",
+  category: "",
+  is_active: true,
+  crawl_schedule: "1 day",
+  include_patterns: [
+    "circular", "notification", "order", "amendment", "act", "rule",
+    "guideline", "press", "gazette", "faq", "instruction", "directive",
+  ],
+  exclude_patterns: ["/hindi/"],
+  max_urls: 5,
+  map_limit: 50,
+};
+
+/** Every portal, including deactivated ones, by name */
+export async function fetchAllPortals(): Promise<RegulationPortal[]> {
+  const { data, error } = await supabase.from("regulation_portals").select("*").order("name");
+  if (error) throw error;
+  return data || [];
+}
+
+async function invokeManagePortals<T>(body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke("manage-portals", { body });
+  if (error) {
+    // Validation and permission errors come back as a JSON body on a non-2xx response
+    const details = await error.context?.json?.().catch(() => null);
+    throw new Error(details?.error || error.message);
+  }
+  return data as T;
+}
+
+/** Whether the signed-in user is a portal admin (listed in PORTAL_ADMIN_EMAILS) */
+export async function fetchPortalAccess(): Promise<boolean> {
+  const { canManage } = await invokeManagePortals<{ canManage: boolean }>({ action: "access" });
+  return canManage;
+}
+
+export async function createPortal(portal: PortalInput): Promise<RegulationPortal> {
+  const { portal: saved } = await invokeManagePortals<{ portal: RegulationPortal }>({ action: "create", portal });
+  return saved;
+}
+
+export async function updatePortal(id: string, changes: Partial<PortalInput>): Promise<RegulationPortal> {
+  const { portal: saved } = await invokeManagePortals<{ portal: RegulationPortal }>({ action: "update", id, portal: changes });
+  return saved;
+}
+
+export async function deletePortal(id: string): Promise<void> {
+  await invokeManagePortals({ action: "delete", id });
+}
+
+/** One pattern per line; commas are valid inside regular expressions */
+export function parsePatternList(text: string): string[] {
+  return text
+    .split("\n")
+    .map((pattern) => pattern.trim())
+    .filter(Boolean);
+}
@@ -0,0 +1,231 @@
+/**
+ * Procurement checks under the General Financial Rules 2017.
+ *
+ * A purchase must use a procurement mode whose value limit covers it, with
+ * enough bids and a tender or GeM reference where the mode calls for them.
+ * Purchases that record no mode are told which mode their value requires.
+ * Split purchases are found across the whole transaction set: several
+ * payments to one payee within a short window that each sit just under a
+ * mode's limit but together exceed it (GFR 157).
+ *
+ * Limits follow GFR 2017 as amended in July 2024: purchase without quotation
+ * up to ₹1 lakh, purchase committee up to ₹10 lakh, limited tender up to
+ * ₹50 lakh; on GeM, direct purchase up to ₹50,000 and L1 up to ₹10 lakh.
+ */
+
+import type { ComplianceResult, ProcurementMode, Transaction } from "@/contexts/PipelineContext";
+import { formatMoney, money, type Money } from "@/lib/money";
+import { payeePan } from "@/lib/taxIdentifiers";
+
+export interface ProcurementModeRule {
+  label: string;
+  rule: string;
+  /** Highest value the mode may be used for, in rupees */
+  limit: number | null;
+  /** Bids, quotations or GeM sellers that must be compared */
+  minBids?: number;
+  /** Whether a tender, bid or GeM order number must be recorded */
+  needsReference?: boolean;
+}
+
+export const PROCUREMENT_MODES: Record<ProcurementMode, ProcurementModeRule> = {
+  without_quotation: { label: "Purchase without quotation", rule: "GFR 154", limit: 100000 },
+  purchase_committee: { label: "Purchase committee", rule: "GFR 155", limit: 1000000 },
+  limited_tender: { label: "Limited tender", rule: "GFR 162", limit: 5000000, minBids: 3, needsReference: true },
+  open_tender: { label: "Open tender", rule: "GFR 161", limit: null, minBids: 3, needsReference: true },
+  single_tender: { label: "Single tender", rule: "GFR 166", limit: null, needsReference: true },
+  gem_direct: { label: "GeM direct purchase", rule: "GFR 149(i)", limit: 50000, needsReference: true },
+  gem_l1: { label: "GeM L1 purchase", rule: "GFR 149(ii)", limit: 1000000, minBids: 3, needsReference: true },
+  gem_bid: { label: "GeM bid or reverse auction", rule: "GFR 149(iii)", limit: null, minBids: 3, needsReference: true },
+};
+
+// Modes outside GeM in increasing order of value; a purchase needs the first whose limit covers it
+const MODE_LADDER: ProcurementMode[] = ["without_quotation", "purchase_committee", "limited_tender", "open_tender"];
+
+/** Clause ids of procurement results; like the tax checks, they have no parsed clause behind them */
+export const PROCUREMENT_CHECKS = {
+  mode: "GFR-MODE",
+  bids: "GFR-BIDS",
+  reference: "GFR-REF",
+  split: "GFR-SPLIT",
+} as const;
+
+const PROCUREMENT_PATTERN =
+  /\b(procure|purchas|supply|supplies|goods|equipment|material|construction|works|furniture|computer|stationery|tender|gem)/i;
+
+// A payment "just under" a limit is above this share of it
+const SPLIT_BAND = 0.8;
+// Payments this many days apart or fewer count as one demand
+const SPLIT_WINDOW_DAYS = 30;
+
+/** Payments that are purchases: a mode is recorded, or the wording says so */
+export function isProcurement(tx: Transaction): boolean {
+  return Boolean(tx.procurementMode) || PROCUREMENT_PATTERN.test(`${tx.category} ${tx.description}`);
+}
+
+/** Mode for free text such as "LTE", "GeM - L1" or "Purchase Committee"; null when not recognised */
+export function parseProcurementMode(value: string): ProcurementMode | null {
+  const text = value.trim().toLowerCase().replace(/[\s-]+/g, "_");
+  if (!text) return null;
+  if (text in PROCUREMENT_MODES) return text as ProcurementMode;
+  if (text.includes("gem")) {
+    if (/bid|auction|\bra\b/.test(text.replace(/_/g, " "))) return "gem_bid";
+    return /l1/.test(text) ? "gem_l1" : "gem_direct";
+  }
+  if (/without_quot|direct/.test(text)) return "without_quotation";
+  if (/committee/.test(text)) return "purchase_committee";
+  if (/limited|^lte$/.test(text)) return "limited_tender";
+  if (/single|proprietary|^ste$/.test(text)) return "single_tender";
+  if (/open|advertis|^ote$/.test(text)) return "open_tender";
+  return null;
+}
+
+/** Least formal mode outside GeM that may be used for a purchase of this value */
+export function requiredMode(amount: Money): ProcurementMode {
+  return MODE_LADDER.find((mode) => {
+    const { limit } = PROCUREMENT_MODES[mode];
+    return limit === null || amount.paise <= limit * 100;
+  }) as ProcurementMode;
+}
+
+export interface SplitPurchase {
+  /** Mode whose limit the payments stay under */
+  mode: ProcurementMode;
+  payments: Transaction[];
+  total: Money;
+}
+
+/**
+ * Payments that look like one demand split to stay under a mode's limit.
+ * Keyed by transaction id; a payment in several such groups gets the one
+ * with the highest limit.
+ */
+export function detectSplitPurchases(transactions: Transaction[]): Map<string, SplitPurchase> {
+  const byPayee = new Map<string, Transaction[]>();
+  for (const tx of transactions) {
+    // Undated payments cannot be placed in a window
+    if (tx.amount.currency !== "INR" || !isProcurement(tx) || !tx.date) continue;
+    // Purchases already made by open competition cannot avoid it
+    if (tx.procurementMode && PROCUREMENT_MODES[tx.procurementMode].limit === null) continue;
+    const key = payeePan(tx) ?? tx.vendor.trim().toLowerCase();
+    if (!byPayee.has(key)) byPayee.set(key, []);
+    byPayee.get(key)?.push(tx);
+  }
+
+  const splits = new Map<string, SplitPurchase>();
+  const day = 24 * 60 * 60 * 1000;
+  for (const payments of byPayee.values()) {
+    payments.sort((a, b) => a.date.localeCompare(b.date));
+
+    for (const mode of [...MODE_LADDER].reverse()) {
+      const { limit } = PROCUREMENT_MODES[mode];
+      if (limit === null) continue;
+      const limitPaise = limit * 100;
+      const near = payments.filter((tx) => tx.amount.paise <= limitPaise && tx.amount.paise > limitPaise * SPLIT_BAND);
+
+      for (let start = 0; start < near.length; start++) {
+        const windowEnd = Date.parse(near[start].date) + SPLIT_WINDOW_DAYS * day;
+        const group = near.slice(start).filter((tx) => Date.parse(tx.date) <= windowEnd);
+        const total = group.reduce((sum, tx) => sum + tx.amount.paise, 0);
+        if (group.length < 2 || total <= limitPaise) continue;
+        for (const tx of group) {
+          if (!splits.has(tx.id)) splits.set(tx.id, { mode, payments: group, total: { paise: total, currency: "INR" } });
+        }
+      }
+    }
+  }
+  return splits;
+}
+
+/**
+ * Check a purchase against the GFR procurement rules. Returns one result per
+ * failed check; payments that are not purchases, or that pass, produce none.
+ */
+export function checkProcurement(tx: Transaction, split: SplitPurchase | undefined): ComplianceResult[] {
+  const results: ComplianceResult[] = [];
+  const report = (
+    clauseId: string,
+    status: ComplianceResult["status"],
+    riskLevel: ComplianceResult["riskLevel"],
+    reasoning: string,
+    missingDocs?: string[]
+  ) =>
+    results.push({
+      id: crypto.randomUUID(),
+      transactionId: tx.id,
+      clauseId,
+      status,
+      riskLevel,
+      reasoning: `Procurement check: ${reasoning}`,
+      ...(missingDocs ? { missingDocs } : {}),
+    });
+
+  if (tx.amount.currency !== "INR" || !isProcurement(tx)) return results;
+  const value = formatMoney(tx.amount);
+  const required = requiredMode(tx.amount);
+  const needed = PROCUREMENT_MODES[required];
+  const procedure = `the ${needed.label.toLowerCase()} procedure (${needed.rule})${needed.limit === null ? "" : " or a more formal one"}`;
+
+  if (!tx.procurementMode) {
+    if (required !== "without_quotation") {
+      report(
+        PROCUREMENT_CHECKS.mode,
+        "missing_docs",
+        "medium",
+        `a purchase of ${value} needs ${procedure}, but no procurement mode is recorded.`,
+        [`${needed.label} record for this purchase`]
+      );
+    }
+  } else {
+    const mode = PROCUREMENT_MODES[tx.procurementMode];
+    if (mode.limit !== null && tx.amount.paise > mode.limit * 100) {
+      report(
+        PROCUREMENT_CHECKS.mode,
+        "violation",
+        "high",
+        `${mode.label} (${mode.rule}) may be used up to ${formatMoney(money(mode.limit))}, but was used for a purchase of ${value}, which needs ${procedure}.`
+      );
+    }
+    if (tx.procurementMode === "single_tender") {
+      report(
+        PROCUREMENT_CHECKS.mode,
+        "missing_docs",
+        "medium",
+        `single tender (${mode.rule}) is allowed only for proprietary items, emergencies or standardisation, with the reasons recorded.`,
+        ["Proprietary article certificate or recorded justification for single tender"]
+      );
+    }
+    if (mode.minBids && tx.bidsReceived !== undefined && tx.bidsReceived < mode.minBids) {
+      report(
+        PROCUREMENT_CHECKS.bids,
+        "warning",
+        "medium",
+        `${mode.label} (${mode.rule}) received ${tx.bidsReceived} bid${tx.bidsReceived === 1 ? "" : "s"}, fewer than ${mode.minBids}; the reasons for accepting limited competition must be recorded.`,
+        ["Recorded reasons for accepting fewer bids, or re-tender decision"]
+      );
+    }
+    if (mode.needsReference && !tx.tenderReference) {
+      report(
+        PROCUREMENT_CHECKS.reference,
+        "missing_docs",
+        "medium",
+        `${mode.label.toLowerCase()} purchase without a tender, bid or GeM order number.`,
+        [`${tx.procurementMode.startsWith("gem") ? "GeM order or bid" : "Tender"} reference for this purchase`]
+      );
+    }
+  }
+
+  if (split) {
+    const mode = PROCUREMENT_MODES[split.mode];
+    const payments = split.payments.map((p) => `${formatMoney(p.amount)} on ${p.date}`).join(", ");
+    report(
+      PROCUREMENT_CHECKS.split,
+      "violation",
+      "high",
+      `${split.payments.length} payments to ${tx.vendor} within ${SPLIT_WINDOW_DAYS} days (${payments}) each sit just under the ${formatMoney(money(mode.limit ?? 0))} limit for ${mode.label.toLowerCase()} but total ${formatMoney(split.total)}. GFR 157 bars splitting a demand to avoid the procedure or sanction its total value requires.`,
+      ["Sanction and procurement record for the combined demand"]
+    );
+  }
+
+  return results;
+}
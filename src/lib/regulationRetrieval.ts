@@ -0,0 +1,88 @@
+/**
+ * Semantic retrieval of regulations for an audit. Transactions are embedded
+ * and matched against embedded regulation chunks (pgvector), so a circular is
+ * found by what it says rather than by keywords in the transaction text.
+ */
+import { supabase } from "@/integrations/supabase/clientRuntime";
+import type { Regulation, Transaction } from "@/contexts/PipelineContext";
+
+export interface RetrievedPassage {
+  chunkId: string;
+  content: string;
+  /** 1-based PDF page; null for HTML pages */
+  pageNumber: number | null;
+  paragraphStart: number;
+  paragraphEnd: number;
+  similarity: number;
+}
+
+export interface RetrievedRegulation extends Regulation {
+  /** Sum of the regulation's best chunk similarity over all transactions */
+  score: number;
+  passages: RetrievedPassage[];
+}
+
+export interface RegulationRetrieval {
+  /** Embedding model the chunks were matched with */
+  model: string;
+  regulations: RetrievedRegulation[];
+  /** Regulations relevant to each transaction, limited to those returned */
+  matches: { transactionId: string; regulationIds: string[] }[];
+  /** Transactions past the per-request limit, which were not searched for */
+  skippedTransactionIds: string[];
+}
+
+interface RetrievedRow {
+  id: string;
+  title: string | null;
+  url: string;
+  source: string;
+  content: string | null;
+  summary: string | null;
+  content_hash: string | null;
+  crawled_at: string;
+  score: number;
+  passages: RetrievedPassage[];
+}
+
+/** Each transaction's top regulations, merged and best match first */
+export async function retrieveRegulations(
+  transactions: Transaction[],
+  options: { topK?: number; regulationsPerTransaction?: number } = {}
+): Promise<RegulationRetrieval> {
+  const { data, error } = await supabase.functions.invoke("retrieve-regulations", {
+    body: {
+      transactions: transactions.map((t) => ({
+        id: t.id,
+        vendor: t.vendor,
+        description: t.description,
+        category: t.category,
+        amount: t.amount,
+      })),
+      ...options,
+    },
+  });
+  if (error) {
+    const details = await error.context?.json?.().catch(() => null);
+    throw new Error(details?.error || error.message);
+  }
+
+  const rows = (data.regulations ?? []) as RetrievedRow[];
+  return {
+    model: data.model,
+    matches: data.matches ?? [],
+    skippedTransactionIds: data.skippedTransactionIds ?? [],
+    regulations: rows.map((reg) => ({
+      id: reg.id,
+      source: reg.source,
+      title: reg.title || "Untitled Regulation",
+      date: new Date(reg.crawled_at).toISOString().split("T")[0],
+      version: "1.0",
+      content: reg.content || reg.summary || "",
+      url: reg.url,
+      contentHash: reg.content_hash ?? undefined,
+      score: reg.score,
+      passages: reg.passages ?? [],
+    })),
+  };
+}
@@ -0,0 +1,179 @@
+/**
+ * Regulation version history.
+ *
+ * The database snapshots every distinct `content_hash` of an indexed
+ * regulation into `regulation_versions` and stamps `amended_at` on the
+ * regulation when its content changes. This module loads that history,
+ * diffs two versions paragraph by paragraph and works out whether a
+ * regulation was amended after the last audit run that used it.
+ */
+
+import { supabase } from "@/integrations/supabase/clientRuntime";
+import type { Tables } from "@/integrations/supabase/types";
+
+export interface RegulationVersion {
+  id: string;
+  regulationId: string;
+  versionNumber: number;
+  title: string | null;
+  content: string;
+  summary: string | null;
+  pageCount: number | null;
+  capturedAt: string;
+}
+
+export type ParagraphChange = "added" | "removed" | "unchanged";
+
+export interface ParagraphDiffEntry {
+  change: ParagraphChange;
+  text: string;
+}
+
+export interface ParagraphDiff {
+  entries: ParagraphDiffEntry[];
+  added: number;
+  removed: number;
+}
+
+// Above this many paragraph pairs the LCS table gets too large for the browser
+const MAX_LCS_CELLS = 4_000_000;
+
+function toVersion(row: Tables<"regulation_versions">): RegulationVersion {
+  return {
+    id: row.id,
+    regulationId: row.regulation_id,
+    versionNumber: row.version_number,
+    title: row.title,
+    content: row.content || "",
+    summary: row.summary,
+    pageCount: row.page_count,
+    capturedAt: row.captured_at,
+  };
+}
+
+/** Versions of an indexed regulation, newest first */
+export async function fetchRegulationVersions(regulationId: string): Promise<RegulationVersion[]> {
+  const { data, error } = await supabase
+    .from("regulation_versions")
+    .select("*")
+    .eq("regulation_id", regulationId)
+    .order("version_number", { ascending: false });
+  if (error) throw error;
+  return (data || []).map(toVersion);
+}
+
+export interface IndexedRegulationRef {
+  id: string;
+  amendedAt: string | null;
+}
+
+/**
+ * The indexed regulation a pipeline regulation refers to. Regulations loaded
+ * from the index keep its id; ones fetched by URL are matched on the URL.
+ */
+export async function findIndexedRegulation(regulation: { id: string; url?: string }): Promise<IndexedRegulationRef | null> {
+  const { data: byId } = await supabase
+    .from("indexed_regulations")
+    .select("id, amended_at")
+    .eq("id", regulation.id)
+    .maybeSingle();
+  if (byId) return { id: byId.id, amendedAt: byId.amended_at };
+  if (!regulation.url) return null;
+
+  const { data: byUrl } = await supabase
+    .from("indexed_regulations")
+    .select("id, amended_at")
+    .eq("url", regulation.url)
+    .maybeSingle();
+  return byUrl ? { id: byUrl.id, amendedAt: byUrl.amended_at } : null;
+}
+
+/**
+ * When each regulation was last part of one of the user's audit runs.
+ * Regulations that were never audited are absent from the map.
+ */
+export async function fetchLastAuditedAt(regulationIds: string[]): Promise<Map<string, string>> {
+  const lastAudited = new Map<string, string>();
+  if (regulationIds.length === 0) return lastAudited;
+
+  const { data, error } = await supabase
+    .from("audit_runs")
+    .select("regulation_ids, completed_at")
+    .eq("status", "complete")
+    .overlaps("regulation_ids", regulationIds)
+    .order("completed_at", { ascending: false })
+    .limit(200);
+  if (error) throw error;
+
+  for (const run of data || []) {
+    for (const id of run.regulation_ids) {
+      if (!lastAudited.has(id)) lastAudited.set(id, run.completed_at);
+    }
+  }
+  return lastAudited;
+}
+
+export function isAmendedSinceAudit(amendedAt: string | null, lastAuditedAt: string | undefined): boolean {
+  if (!amendedAt || !lastAuditedAt) return false;
+  return new Date(amendedAt).getTime() > new Date(lastAuditedAt).getTime();
+}
+
+export function splitRegulationParagraphs(content: string): string[] {
+  return content
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean);
+}
+
+// Whitespace and PDF page/paragraph labels shift between revisions without changing the text
+const normalize = (paragraph: string) =>
+  paragraph.replace(/^\[Page \d+, para \d+\]\s*/, "").replace(/\s+/g, " ").trim().toLowerCase();
+
+/** Added and removed paragraphs going from `before` to `after`, in document order */
+export function diffParagraphs(before: string, after: string): ParagraphDiff {
+  const a = splitRegulationParagraphs(before);
+  const b = splitRegulationParagraphs(after);
+  const na = a.map(normalize);
+  const nb = b.map(normalize);
+  const entries: ParagraphDiffEntry[] = [];
+
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    // Too large for an ordered diff: report set differences instead
+    const inA = new Set(na);
+    const inB = new Set(nb);
+    a.forEach((text, i) => entries.push({ change: inB.has(na[i]) ? "unchanged" : "removed", text }));
+    b.forEach((text, j) => {
+      if (!inA.has(nb[j])) entries.push({ change: "added", text });
+    });
+  } else {
+    // Longest common subsequence over paragraphs
+    const lcs: Uint32Array[] = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lcs[i][j] = na[i] === nb[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+      if (na[i] === nb[j]) {
+        entries.push({ change: "unchanged", text: b[j] });
+        i++;
+        j++;
+      } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+        entries.push({ change: "removed", text: a[i++] });
+      } else {
+        entries.push({ change: "added", text: b[j++] });
+      }
+    }
+    while (i < a.length) entries.push({ change: "removed", text: a[i++] });
+    while (j < b.length) entries.push({ change: "added", text: b[j++] });
+  }
+
+  return {
+    entries,
+    added: entries.filter((e) => e.change === "added").length,
+    removed: entries.filter((e) => e.change === "removed").length,
+  };
+}
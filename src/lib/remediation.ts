@@ -0,0 +1,210 @@
+/**
+ * Remediation tasks for audit findings.
+ *
+ * Every violation or missing-documents detail of an `AuditReport` becomes a
+ * task with an owner, a due date and a priority taken from the finding's
+ * risk level. Tasks move from open to in progress and are closed as resolved
+ * or as an accepted risk; closing requires a note saying how, so the board
+ * doubles as the record that findings were dealt with.
+ *
+ * Tasks are shared by the members of a workspace and keyed by finding: the
+ * transaction and the clause it breaches. Compliance result ids change with
+ * every run, so re-running the audit finds the existing task for a finding
+ * and leaves it (and its progress) untouched.
+ */
+
+import { supabase } from "@/integrations/supabase/clientRuntime";
+import type { Tables, TablesUpdate } from "@/integrations/supabase/types";
+import type { AuditReport, ComplianceResult, Transaction } from "@/contexts/PipelineContext";
+
+export type RemediationStatus = "open" | "in_progress" | "resolved" | "accepted_risk";
+export type RemediationPriority = ComplianceResult["riskLevel"];
+
+export const REMEDIATION_STATUSES: { status: RemediationStatus; label: string }[] = [
+  { status: "open", label: "Open" },
+  { status: "in_progress", label: "In progress" },
+  { status: "resolved", label: "Resolved" },
+  { status: "accepted_risk", label: "Accepted risk" },
+];
+
+export interface RemediationTask {
+  id: string;
+  auditReportId: string;
+  complianceResultId: string;
+  transactionId: string;
+  vendor: string;
+  clauseReference: string;
+  findingType: "violation" | "missing_docs";
+  finding: string;
+  correctiveAction: string;
+  owner: string;
+  /** YYYY-MM-DD */
+  dueDate: string;
+  priority: RemediationPriority;
+  status: RemediationStatus;
+  resolutionNote: string;
+  resolvedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type RemediationTaskUpdate = Partial<Pick<RemediationTask, "owner" | "dueDate" | "status" | "resolutionNote">>;
+
+// Matches the deadlines in the corrective actions: controls within 7 days, documents within 30
+const DUE_DAYS: Record<RemediationTask["findingType"], number> = { violation: 7, missing_docs: 30 };
+
+const CLOSED_STATUSES: RemediationStatus[] = ["resolved", "accepted_risk"];
+
+export const isClosed = (task: Pick<RemediationTask, "status">) => CLOSED_STATUSES.includes(task.status);
+
+/** Open or in progress past its due date; `today` is YYYY-MM-DD */
+export const isOverdue = (task: RemediationTask, today = new Date().toISOString().split("T")[0]) =>
+  !isClosed(task) && task.dueDate < today;
+
+function addDays(date: Date, days: number): string {
+  const due = new Date(date);
+  due.setDate(due.getDate() + days);
+  return due.toISOString().split("T")[0];
+}
+
+type NewRemediationTask = Omit<RemediationTask, "id" | "status" | "resolutionNote" | "resolvedAt" | "createdAt" | "updatedAt">;
+
+/** Tasks for the violations and missing documents in a report */
+export function tasksFromReport(
+  report: AuditReport,
+  results: ComplianceResult[],
+  transactions: Transaction[],
+  owner: string
+): NewRemediationTask[] {
+  const resultsById = new Map(results.map((r) => [r.id, r]));
+  const generatedAt = new Date(report.generatedAt);
+
+  return report.details.flatMap((detail) => {
+    const result = resultsById.get(detail.complianceResultId);
+    if (!result || (result.status !== "violation" && result.status !== "missing_docs")) return [];
+    const tx = transactions.find((t) => t.id === result.transactionId);
+    const missingDocs = result.missingDocs?.length ? ` Missing: ${result.missingDocs.join("; ")}.` : "";
+
+    return [{
+      auditReportId: report.id,
+      complianceResultId: result.id,
+      transactionId: result.transactionId,
+      vendor: tx?.vendor ?? "",
+      clauseReference: detail.clauseReference,
+      findingType: result.status,
+      finding: `${detail.reasoning}${missingDocs}`,
+      correctiveAction: detail.correctiveAction,
+      owner,
+      dueDate: addDays(generatedAt, DUE_DAYS[result.status]),
+      priority: result.riskLevel,
+    }];
+  });
+}
+
+// ---------- Storage ----------
+
+const toTask = (row: Tables<"remediation_tasks">): RemediationTask => ({
+  id: row.id,
+  auditReportId: row.audit_report_id,
+  complianceResultId: row.compliance_result_id,
+  transactionId: row.transaction_id,
+  vendor: row.vendor,
+  clauseReference: row.clause_reference,
+  findingType: row.finding_type as RemediationTask["findingType"],
+  finding: row.finding,
+  correctiveAction: row.corrective_action,
+  owner: row.owner,
+  dueDate: row.due_date,
+  priority: row.priority as RemediationPriority,
+  status: row.status as RemediationStatus,
+  resolutionNote: row.resolution_note,
+  resolvedAt: row.resolved_at,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+export async function fetchRemediationTasks(): Promise<RemediationTask[]> {
+  const { data, error } = await supabase
+    .from("remediation_tasks")
+    .select("*")
+    .order("due_date", { ascending: true })
+    .limit(1000);
+  if (error) throw error;
+  return (data || []).map(toTask);
+}
+
+const findingKey = (task: Pick<RemediationTask, "transactionId" | "clauseReference">) =>
+  `${task.transactionId}:${task.clauseReference}`;
+
+/**
+ * Open tasks for a report's findings, owned by the signed-in user until
+ * reassigned. Findings that already have a task, from this or an earlier
+ * run, are skipped. Returns the number of tasks created.
+ */
+export async function createRemediationTasks(
+  report: AuditReport,
+  results: ComplianceResult[],
+  transactions: Transaction[]
+): Promise<number> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return 0;
+
+  // A report can list a finding twice when two results share a transaction and clause
+  const tasks = [
+    ...new Map(tasksFromReport(report, results, transactions, user.email ?? "").map((t) => [findingKey(t), t])).values(),
+  ];
+  if (tasks.length === 0) return 0;
+
+  const { data, error } = await supabase
+    .from("remediation_tasks")
+    .upsert(
+      tasks.map((task) => ({
+        user_id: user.id,
+        audit_report_id: task.auditReportId,
+        compliance_result_id: task.complianceResultId,
+        transaction_id: task.transactionId,
+        vendor: task.vendor,
+        clause_reference: task.clauseReference,
+        finding_type: task.findingType,
+        finding: task.finding,
+        corrective_action: task.correctiveAction,
+        owner: task.owner,
+        due_date: task.dueDate,
+        priority: task.priority,
+      })),
+      { onConflict: "organization_id,transaction_id,clause_reference", ignoreDuplicates: true }
+    )
+    .select("id");
+  if (error) throw error;
+  return data?.length ?? 0;
+}
+
+export async function updateRemediationTask(task: RemediationTask, update: RemediationTaskUpdate): Promise<RemediationTask> {
+  const status = update.status ?? task.status;
+  const resolutionNote = (update.resolutionNote ?? task.resolutionNote).trim();
+  if (CLOSED_STATUSES.includes(status) && !resolutionNote) {
+    throw new Error(
+      status === "resolved"
+        ? "Describe how the finding was resolved before closing the task"
+        : "Record why the risk is accepted and who approved it"
+    );
+  }
+
+  const row: TablesUpdate<"remediation_tasks"> = {
+    ...(update.owner !== undefined ? { owner: update.owner.trim() } : {}),
+    ...(update.dueDate !== undefined ? { due_date: update.dueDate } : {}),
+    status,
+    resolution_note: resolutionNote,
+    // Editing a closed task keeps the time it was closed
+    resolved_at: CLOSED_STATUSES.includes(status) ? task.resolvedAt ?? new Date().toISOString() : null,
+  };
+
+  const { data, error } = await supabase.from("remediation_tasks").update(row).eq("id", task.id).select("*").single();
+  if (error) throw error;
+  return toTask(data);
+}
+
+export async function deleteRemediationTask(id: string) {
+  const { error } = await supabase.from("remediation_tasks").delete().eq("id", id);
+  if (error) throw error;
+}
@@ -0,0 +1,640 @@
+/**
+ * Deterministic rule engine for parsed legal clauses.
+ *
+ * `ParsedClause.rule` holds rules such as
+ *   IF transaction_value > 1000000 AND category IN ['procurement'] THEN minimum_bids_required = 3
+ *
+ * This module parses that DSL into a typed AST and evaluates it against
+ * `Transaction` fields, producing a `ComplianceResult` whose reasoning traces
+ * every predicate that was checked. Clauses the engine cannot parse, or whose
+ * conditions reference data a transaction does not carry, are left for the
+ * LLM-based compliance check.
+ *
+ * Grammar (keywords are case-insensitive):
+ *   rule        := IF expr THEN requirement
+ *   expr        := and (OR and)*
+ *   and         := unary (AND unary)*
+ *   unary       := NOT unary | '(' expr ')' | predicate
+ *   predicate   := operand op operand
+ *                | operand [NOT] IN '[' literal (',' literal)* ']'
+ *                | operand CONTAINS operand
+ *   op          := = | == | != | <> | > | >= | < | <=
+ *   requirement := expr | free text (treated as evidence to be produced)
+ *
+ * Numbers accept Indian grouping and units: `1,00,000`, `₹5,000`, `50 lakhs`, `2 crore`.
+ * A bound written as `minimum_bids_required = 3` is read as `bids >= 3`
+ * (and `maximum_x = n` as `x <= n`) when `bids` is a transaction field.
+ */
+
+import type { ComplianceResult, ParsedClause, Transaction } from "@/contexts/PipelineContext";
+import { toMajor, type Money } from "@/lib/money";
+
+// ---------- AST ----------
+
+export type RuleLiteral = number | string | boolean;
+
+export type RuleOperand =
+  | { kind: "field"; name: string }
+  | { kind: "literal"; value: RuleLiteral };
+
+export type ComparisonOperator = "=" | "!=" | ">" | ">=" | "<" | "<=";
+
+export type RuleExpr =
+  | { type: "and"; left: RuleExpr; right: RuleExpr }
+  | { type: "or"; left: RuleExpr; right: RuleExpr }
+  | { type: "not"; expr: RuleExpr }
+  | { type: "compare"; left: RuleOperand; op: ComparisonOperator; right: RuleOperand }
+  | { type: "in"; operand: RuleOperand; values: RuleLiteral[]; negated: boolean }
+  | { type: "contains"; operand: RuleOperand; value: RuleOperand };
+
+export type RuleRequirement =
+  | { kind: "predicate"; expr: RuleExpr; text: string }
+  | { kind: "evidence"; text: string };
+
+export interface CompiledRule {
+  source: string;
+  condition: RuleExpr;
+  conditionText: string;
+  requirement: RuleRequirement;
+}
+
+export type RuleParseResult =
+  | { ok: true; rule: CompiledRule }
+  | { ok: false; error: string };
+
+// ---------- Transaction fields ----------
+
+type FieldValue = number | string;
+
+// Thresholds in rules are rupees; amounts in other currencies cannot be compared with them
+const rupees = (value: Money): number | null => (value.currency === "INR" ? toMajor(value) : null);
+
+/** Fields the engine can read from a Transaction, with accepted aliases. */
+const FIELD_RESOLVERS: Record<string, (tx: Transaction) => FieldValue | null> = {
+  amount: (tx) => rupees(tx.amount),
+  tax: (tx) => rupees(tx.tax),
+  tax_rate: (tx) => {
+    if (tx.amount.paise === 0 || tx.amount.currency !== tx.tax.currency) return null;
+    return Math.round((tx.tax.paise / tx.amount.paise) * 10000) / 100;
+  },
+  category: (tx) => tx.category ?? "",
+  vendor: (tx) => tx.vendor ?? "",
+  date: (tx) => tx.date || null,
+  description: (tx) => tx.description ?? "",
+  procurement_mode: (tx) => tx.procurementMode ?? null,
+  bids: (tx) => tx.bidsReceived ?? null,
+  tender_reference: (tx) => tx.tenderReference ?? null,
+};
+
+const FIELD_ALIASES: Record<string, string> = {
+  amount: "amount",
+  transaction_value: "amount",
+  transaction_amount: "amount",
+  value: "amount",
+  tax: "tax",
+  tax_amount: "tax",
+  gst_amount: "tax",
+  tax_rate: "tax_rate",
+  gst_rate: "tax_rate",
+  category: "category",
+  transaction_category: "category",
+  transaction_type: "category",
+  vendor: "vendor",
+  vendor_name: "vendor",
+  party: "vendor",
+  date: "date",
+  transaction_date: "date",
+  description: "description",
+  procurement_mode: "procurement_mode",
+  procurement_method: "procurement_mode",
+  mode_of_procurement: "procurement_mode",
+  tender_type: "procurement_mode",
+  bids: "bids",
+  bids_received: "bids",
+  number_of_bids: "bids",
+  bid_count: "bids",
+  quotations: "bids",
+  quotations_received: "bids",
+  tender_reference: "tender_reference",
+  tender_ref: "tender_reference",
+  tender_id: "tender_reference",
+};
+
+const DATE_FIELDS = new Set(["date"]);
+
+function canonicalField(name: string): string | null {
+  return FIELD_ALIASES[name.toLowerCase().replace(/^transaction\./, "")] ?? null;
+}
+
+/** Parse a formatted amount such as "₹1,25,00,000" or "12500.50". */
+export function parseAmount(value: string | number | null | undefined): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (!value) return null;
+  const cleaned = value.replace(/[^\d.-]/g, "");
+  if (!cleaned) return null;
+  const parsed = Number(cleaned);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+// ---------- Tokenizer ----------
+
+type Token =
+  | { type: "number"; value: number; text: string }
+  | { type: "string"; value: string; text: string }
+  | { type: "ident"; value: string; text: string }
+  | { type: "keyword"; value: "AND" | "OR" | "NOT" | "IN" | "CONTAINS" | "TRUE" | "FALSE"; text: string }
+  | { type: "op"; value: ComparisonOperator; text: string }
+  | { type: "punct"; value: "(" | ")" | "[" | "]" | ","; text: string };
+
+const KEYWORDS = new Set(["AND", "OR", "NOT", "IN", "CONTAINS", "TRUE", "FALSE"]);
+
+const UNIT_MULTIPLIERS: Record<string, number> = {
+  k: 1_000,
+  thousand: 1_000,
+  lakh: 1_00_000,
+  lakhs: 1_00_000,
+  lac: 1_00_000,
+  lacs: 1_00_000,
+  crore: 1_00_00_000,
+  crores: 1_00_00_000,
+  cr: 1_00_00_000,
+};
+
+class RuleSyntaxError extends Error {}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if ("()[],".includes(ch)) {
+      tokens.push({ type: "punct", value: ch as "(" | ")" | "[" | "]" | ",", text: ch });
+      i++;
+      continue;
+    }
+
+    const opMatch = /^(==|!=|<>|>=|<=|=|>|<)/.exec(input.slice(i));
+    if (opMatch) {
+      const raw = opMatch[1];
+      const op: ComparisonOperator = raw === "==" ? "=" : raw === "<>" ? "!=" : (raw as ComparisonOperator);
+      tokens.push({ type: "op", value: op, text: raw });
+      i += raw.length;
+      continue;
+    }
+
+    if (ch === "'" || ch === '"') {
+      const end = input.indexOf(ch, i + 1);
+      if (end === -1) throw new RuleSyntaxError(`Unterminated string starting at position ${i}`);
+      const value = input.slice(i + 1, end);
+      tokens.push({ type: "string", value, text: input.slice(i, end + 1) });
+      i = end + 1;
+      continue;
+    }
+
+    const numberMatch = /^(?:₹|rs\.?\s*|inr\s*)?(-?\d[\d,]*(?:\.\d+)?)(?:\s*(k|thousand|lakhs?|lacs?|crores?|cr)\b)?/i.exec(input.slice(i));
+    if (numberMatch) {
+      const base = Number(numberMatch[1].replace(/,/g, ""));
+      const unit = numberMatch[2]?.toLowerCase();
+      const value = unit ? base * UNIT_MULTIPLIERS[unit] : base;
+      tokens.push({ type: "number", value, text: numberMatch[0] });
+      i += numberMatch[0].length;
+      continue;
+    }
+
+    const identMatch = /^[A-Za-z_][A-Za-z0-9_.]*/.exec(input.slice(i));
+    if (identMatch) {
+      const word = identMatch[0];
+      const upper = word.toUpperCase();
+      if (KEYWORDS.has(upper)) {
+        tokens.push({ type: "keyword", value: upper as Extract<Token, { type: "keyword" }>["value"], text: word });
+      } else {
+        tokens.push({ type: "ident", value: word, text: word });
+      }
+      i += word.length;
+      continue;
+    }
+
+    throw new RuleSyntaxError(`Unexpected character '${ch}' at position ${i}`);
+  }
+
+  return tokens;
+}
+
+// ---------- Parser ----------
+
+function comparison(left: RuleOperand, op: ComparisonOperator, right: RuleOperand): RuleExpr {
+  const name = left.kind === "field" && op === "=" ? left.name : null;
+  const bound = name ? /^(min|minimum|max|maximum)_(\w+?)(?:_required)?$/i.exec(name) : null;
+  if (bound && canonicalField(name) === null && canonicalField(bound[2]) !== null) {
+    const atLeast = bound[1].toLowerCase().startsWith("min");
+    return { type: "compare", left: { kind: "field", name: bound[2] }, op: atLeast ? ">=" : "<=", right };
+  }
+  return { type: "compare", left, op, right };
+}
+
+function parseExpression(tokens: Token[]): RuleExpr {
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+  const isKeyword = (value: string) => peek()?.type === "keyword" && peek().value === value;
+  const isPunct = (value: string) => peek()?.type === "punct" && peek().value === value;
+
+  const expectPunct = (value: string) => {
+    const token = next();
+    if (!token || token.type !== "punct" || token.value !== value) {
+      throw new RuleSyntaxError(`Expected '${value}' but found ${token ? `'${token.text}'` : "end of input"}`);
+    }
+  };
+
+  const parseLiteral = (): RuleLiteral => {
+    const token = next();
+    if (!token) throw new RuleSyntaxError("Expected a value but found end of input");
+    if (token.type === "number" || token.type === "string") return token.value;
+    if (token.type === "keyword" && (token.value === "TRUE" || token.value === "FALSE")) return token.value === "TRUE";
+    // Bare words inside lists are treated as strings: IN [procurement, works]
+    if (token.type === "ident") return token.value;
+    throw new RuleSyntaxError(`Expected a value but found '${token.text}'`);
+  };
+
+  const parseOperand = (): RuleOperand => {
+    const token = peek();
+    if (token?.type === "ident") {
+      next();
+      return { kind: "field", name: token.value };
+    }
+    return { kind: "literal", value: parseLiteral() };
+  };
+
+  const parsePredicate = (): RuleExpr => {
+    const operand = parseOperand();
+
+    if (isKeyword("NOT") || isKeyword("IN")) {
+      const negated = isKeyword("NOT");
+      if (negated) next();
+      if (!isKeyword("IN")) throw new RuleSyntaxError("Expected IN after NOT");
+      next();
+      expectPunct("[");
+      const values: RuleLiteral[] = [];
+      while (!isPunct("]")) {
+        values.push(parseLiteral());
+        if (isPunct(",")) next();
+        else if (!isPunct("]")) throw new RuleSyntaxError(`Expected ',' or ']' in list but found '${peek()?.text ?? "end of input"}'`);
+      }
+      expectPunct("]");
+      return { type: "in", operand, values, negated };
+    }
+
+    if (isKeyword("CONTAINS")) {
+      next();
+      return { type: "contains", operand, value: parseOperand() };
+    }
+
+    const opToken = next();
+    if (!opToken || opToken.type !== "op") {
+      throw new RuleSyntaxError(`Expected a comparison operator but found ${opToken ? `'${opToken.text}'` : "end of input"}`);
+    }
+    return comparison(operand, opToken.value, parseOperand());
+  };
+
+  const parseUnary = (): RuleExpr => {
+    if (isKeyword("NOT")) {
+      next();
+      return { type: "not", expr: parseUnary() };
+    }
+    if (isPunct("(")) {
+      next();
+      const expr = parseOr();
+      expectPunct(")");
+      return expr;
+    }
+    return parsePredicate();
+  };
+
+  const parseAnd = (): RuleExpr => {
+    let left = parseUnary();
+    while (isKeyword("AND")) {
+      next();
+      left = { type: "and", left, right: parseUnary() };
+    }
+    return left;
+  };
+
+  const parseOr = (): RuleExpr => {
+    let left = parseAnd();
+    while (isKeyword("OR")) {
+      next();
+      left = { type: "or", left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  const expr = parseOr();
+  if (pos < tokens.length) {
+    throw new RuleSyntaxError(`Unexpected '${tokens[pos].text}' after end of expression`);
+  }
+  return expr;
+}
+
+/** Parse a clause rule of the form `IF <condition> THEN <requirement>`. */
+export function parseRule(source: string): RuleParseResult {
+  const match = /^\s*IF\s+([\s\S]+?)\s+THEN\s+([\s\S]+?)\s*;?\s*$/i.exec(source ?? "");
+  if (!match) return { ok: false, error: "Rule must have the form IF <condition> THEN <requirement>" };
+
+  const [, conditionText, requirementText] = match;
+
+  let condition: RuleExpr;
+  try {
+    condition = parseExpression(tokenize(conditionText));
+  } catch (error) {
+    return { ok: false, error: `Invalid condition: ${(error as Error).message}` };
+  }
+
+  // A requirement that is not a valid expression is still a requirement:
+  // it describes evidence the auditee has to produce.
+  let requirement: RuleRequirement;
+  try {
+    requirement = { kind: "predicate", expr: parseExpression(tokenize(requirementText)), text: requirementText };
+  } catch {
+    requirement = { kind: "evidence", text: requirementText };
+  }
+
+  return { ok: true, rule: { source, condition, conditionText, requirement } };
+}
+
+// ---------- Evaluation ----------
+
+function collectFields(expr: RuleExpr, fields: string[] = []): string[] {
+  const addOperand = (operand: RuleOperand) => {
+    if (operand.kind === "field") fields.push(operand.name);
+  };
+  switch (expr.type) {
+    case "and":
+    case "or":
+      collectFields(expr.left, fields);
+      collectFields(expr.right, fields);
+      break;
+    case "not":
+      collectFields(expr.expr, fields);
+      break;
+    case "compare":
+      addOperand(expr.left);
+      addOperand(expr.right);
+      break;
+    case "in":
+      addOperand(expr.operand);
+      break;
+    case "contains":
+      addOperand(expr.operand);
+      addOperand(expr.value);
+      break;
+  }
+  return fields;
+}
+
+/** Fields referenced by an expression that no Transaction carries. */
+export function unknownFields(expr: RuleExpr): string[] {
+  return [...new Set(collectFields(expr).filter((name) => canonicalField(name) === null))];
+}
+
+/** Known fields the transaction has no value for, e.g. bids on a payment that records none. */
+function missingValues(expr: RuleExpr, tx: Transaction): string[] {
+  return collectFields(expr).filter((name) => {
+    const field = canonicalField(name);
+    return field !== null && FIELD_RESOLVERS[field](tx) === null;
+  });
+}
+
+export interface PredicateTrace {
+  predicate: string;
+  actual: string;
+  passed: boolean;
+}
+
+export interface RuleEvaluation {
+  applicable: boolean;
+  outcome: "not_applicable" | "pass" | "fail" | "evidence_required";
+  conditionTrace: PredicateTrace[];
+  requirementTrace: PredicateTrace[];
+  /** Requirement text that has to be evidenced when it cannot be checked from the transaction */
+  evidence?: string;
+}
+
+function formatLiteral(value: RuleLiteral): string {
+  return typeof value === "string" ? `'${value}'` : String(value);
+}
+
+function formatOperand(operand: RuleOperand): string {
+  return operand.kind === "field" ? operand.name : formatLiteral(operand.value);
+}
+
+function formatValue(value: FieldValue | RuleLiteral | null): string {
+  if (value === null) return "n/a";
+  return typeof value === "string" ? `'${value}'` : String(value);
+}
+
+function describe(expr: RuleExpr): string {
+  switch (expr.type) {
+    case "and":
+      return `(${describe(expr.left)} AND ${describe(expr.right)})`;
+    case "or":
+      return `(${describe(expr.left)} OR ${describe(expr.right)})`;
+    case "not":
+      return `NOT ${describe(expr.expr)}`;
+    case "compare":
+      return `${formatOperand(expr.left)} ${expr.op} ${formatOperand(expr.right)}`;
+    case "in":
+      return `${formatOperand(expr.operand)} ${expr.negated ? "NOT IN" : "IN"} [${expr.values.map(formatLiteral).join(", ")}]`;
+    case "contains":
+      return `${formatOperand(expr.operand)} CONTAINS ${formatOperand(expr.value)}`;
+  }
+}
+
+function resolveOperand(operand: RuleOperand, tx: Transaction): FieldValue | RuleLiteral | null {
+  if (operand.kind === "literal") return operand.value;
+  const field = canonicalField(operand.name);
+  return field ? FIELD_RESOLVERS[field](tx) : null;
+}
+
+function isDateOperand(operand: RuleOperand) {
+  if (operand.kind !== "field") return false;
+  const field = canonicalField(operand.name);
+  return field !== null && DATE_FIELDS.has(field);
+}
+
+function toComparable(value: FieldValue | RuleLiteral | null, asDate: boolean): number | string | boolean | null {
+  if (value === null) return null;
+  if (asDate) {
+    const time = Date.parse(String(value));
+    return Number.isNaN(time) ? null : time;
+  }
+  if (typeof value === "string") {
+    const numeric = parseAmount(value);
+    // Only treat strings as numbers when they look numeric ("₹1,000"), not "GST-2024"
+    if (numeric !== null && /^[\s₹\d,.-]+$/.test(value)) return numeric;
+    return value.trim().toLowerCase();
+  }
+  return value;
+}
+
+function compare(left: number | string | boolean | null, op: ComparisonOperator, right: number | string | boolean | null): boolean {
+  if (left === null || right === null) return false;
+  switch (op) {
+    case "=":
+      return left === right;
+    case "!=":
+      return left !== right;
+    case ">":
+      return left > right;
+    case ">=":
+      return left >= right;
+    case "<":
+      return left < right;
+    case "<=":
+      return left <= right;
+  }
+}
+
+function evaluateExpr(expr: RuleExpr, tx: Transaction, trace: PredicateTrace[]): boolean {
+  switch (expr.type) {
+    // Both sides are always evaluated so the trace covers every predicate
+    case "and": {
+      const left = evaluateExpr(expr.left, tx, trace);
+      const right = evaluateExpr(expr.right, tx, trace);
+      return left && right;
+    }
+    case "or": {
+      const left = evaluateExpr(expr.left, tx, trace);
+      const right = evaluateExpr(expr.right, tx, trace);
+      return left || right;
+    }
+    case "not":
+      return !evaluateExpr(expr.expr, tx, trace);
+    case "compare": {
+      const asDate = isDateOperand(expr.left) || isDateOperand(expr.right);
+      const leftValue = resolveOperand(expr.left, tx);
+      const rightValue = resolveOperand(expr.right, tx);
+      const passed = compare(toComparable(leftValue, asDate), expr.op, toComparable(rightValue, asDate));
+      const actual = [expr.left, expr.right]
+        .map((operand, i) => (operand.kind === "field" ? `${operand.name} = ${formatValue(i === 0 ? leftValue : rightValue)}` : null))
+        .filter(Boolean)
+        .join(", ");
+      trace.push({ predicate: describe(expr), actual, passed });
+      return passed;
+    }
+    case "in": {
+      const value = resolveOperand(expr.operand, tx);
+      const comparable = toComparable(value, false);
+      const found = expr.values.some((candidate) => toComparable(candidate, false) === comparable);
+      const passed = expr.negated ? !found : found;
+      trace.push({ predicate: describe(expr), actual: `${formatOperand(expr.operand)} = ${formatValue(value)}`, passed });
+      return passed;
+    }
+    case "contains": {
+      const haystack = resolveOperand(expr.operand, tx);
+      const needle = resolveOperand(expr.value, tx);
+      const passed =
+        haystack !== null && needle !== null &&
+        String(haystack).toLowerCase().includes(String(needle).toLowerCase());
+      trace.push({ predicate: describe(expr), actual: `${formatOperand(expr.operand)} = ${formatValue(haystack)}`, passed });
+      return passed;
+    }
+  }
+}
+
+/**
+ * Whether the engine can decide a rule on its own. The condition must only
+ * reference transaction fields; the requirement may reference anything
+ * (unknown fields, or fields the transaction has no value for, turn it into
+ * an evidence requirement). A condition that fails only because the
+ * transaction lacks a field it reads is left undecided by `evaluateClause`.
+ */
+export function canEvaluate(rule: CompiledRule): boolean {
+  return unknownFields(rule.condition).length === 0;
+}
+
+/** False when the rule reads rupee amounts of a transaction in another currency. */
+function comparableAmounts(rule: CompiledRule, tx: Transaction): boolean {
+  if (tx.amount.currency === "INR" && tx.tax.currency === "INR") return true;
+  const exprs = rule.requirement.kind === "predicate" ? [rule.condition, rule.requirement.expr] : [rule.condition];
+  return !exprs.some((expr) => collectFields(expr).some((name) => ["amount", "tax"].includes(canonicalField(name) ?? "")));
+}
+
+export function evaluateRule(rule: CompiledRule, tx: Transaction): RuleEvaluation {
+  const conditionTrace: PredicateTrace[] = [];
+  const applicable = evaluateExpr(rule.condition, tx, conditionTrace);
+
+  if (!applicable) {
+    return { applicable, outcome: "not_applicable", conditionTrace, requirementTrace: [] };
+  }
+
+  const { requirement } = rule;
+  if (requirement.kind === "evidence" || unknownFields(requirement.expr).length > 0 || missingValues(requirement.expr, tx).length > 0) {
+    return { applicable, outcome: "evidence_required", conditionTrace, requirementTrace: [], evidence: requirement.text };
+  }
+
+  const requirementTrace: PredicateTrace[] = [];
+  const passed = evaluateExpr(requirement.expr, tx, requirementTrace);
+  return { applicable, outcome: passed ? "pass" : "fail", conditionTrace, requirementTrace };
+}
+
+function formatTrace(trace: PredicateTrace[]): string {
+  return trace.map((t) => `${t.passed ? "✓" : "✗"} ${t.predicate} (${t.actual})`).join("; ");
+}
+
+/**
+ * Evaluate a parsed clause against a transaction. Returns "not_applicable"
+ * when the clause's condition does not hold for the transaction, so no result
+ * is recorded for the pair, and null when the engine cannot decide the clause,
+ * so the caller can fall back to an LLM check. A condition that does not hold
+ * while the transaction has no value for a field it reads is undecided, not
+ * inapplicable: the missing value might have made it hold.
+ */
+export function evaluateClause(clause: ParsedClause, tx: Transaction): ComplianceResult | "not_applicable" | null {
+  const parsed = parseRule(clause.rule);
+  if (!parsed.ok || !canEvaluate(parsed.rule) || !comparableAmounts(parsed.rule, tx)) return null;
+
+  const evaluation = evaluateRule(parsed.rule, tx);
+  const conditionTrace = formatTrace(evaluation.conditionTrace);
+  const base = {
+    id: crypto.randomUUID(),
+    transactionId: tx.id,
+    clauseId: clause.id,
+  };
+
+  switch (evaluation.outcome) {
+    case "not_applicable":
+      return missingValues(parsed.rule.condition, tx).length > 0 ? null : "not_applicable";
+    case "pass":
+      return {
+        ...base,
+        status: "compliant",
+        riskLevel: "low",
+        reasoning: `Rule engine: ${clause.clauseId} applies (${conditionTrace}) and its requirement is met (${formatTrace(evaluation.requirementTrace)}).`,
+      };
+    case "fail": {
+      const failed = evaluation.requirementTrace.filter((t) => !t.passed);
+      return {
+        ...base,
+        status: "violation",
+        riskLevel: "high",
+        reasoning: `Rule engine: ${clause.clauseId} applies (${conditionTrace}) but its requirement failed: ${formatTrace(failed)}.${clause.penalties ? ` Penalty: ${clause.penalties}` : ""}`,
+      };
+    }
+    case "evidence_required":
+      return {
+        ...base,
+        status: "missing_docs",
+        riskLevel: "medium",
+        reasoning: `Rule engine: ${clause.clauseId} applies (${conditionTrace}). Requirement "${evaluation.evidence}" cannot be verified from transaction data; supporting evidence is required.`,
+        missingDocs: [`Evidence that ${evaluation.evidence}`],
+      };
+  }
+}
@@ -0,0 +1,214 @@
+/**
+ * Client side of the agents' structured output contract.
+ *
+ * Agent edge functions called with `mode: "structured"` answer with
+ * `{ mode: "structured", data }`, where `data` has already been validated
+ * against the function's response schema. When validation fails they answer
+ * 422 with the list of `validationErrors`, surfaced here as a
+ * `StructuredAgentError`.
+ */
+
+import { getSupabasePublicConfig } from "@/lib/publicConfig";
+import { DEFAULT_CURRENCY, money } from "@/lib/money";
+import type {
+  ComplianceResult,
+  ParsedClause,
+  ProcurementMode,
+  Transaction,
+  TransactionField,
+  TransactionIdentifierField,
+} from "@/contexts/PipelineContext";
+
+export interface StructuredClause {
+  clauseId: string;
+  rule: string;
+  conditions: string;
+  penalties: string;
+}
+
+export interface StructuredComplianceAssessment {
+  status: ComplianceResult["status"];
+  riskLevel: ComplianceResult["riskLevel"];
+  reasoning: string;
+  missingDocs?: string[];
+}
+
+/** Amount and tax come back in major units (rupees for INR) */
+export interface StructuredTransaction
+  extends Omit<
+    Transaction,
+    | "id"
+    | "amount"
+    | "tax"
+    | "cgst"
+    | "sgst"
+    | "igst"
+    | "tds"
+    | "tdsSection"
+    | "confidence"
+    | "sourcePage"
+    | TransactionIdentifierField
+    | "procurementMode"
+    | "bidsReceived"
+    | "tenderReference"
+  > {
+  amount: number;
+  tax: number;
+  /** GST components, null when the document does not break the tax down */
+  cgst?: number | null;
+  sgst?: number | null;
+  igst?: number | null;
+  /** TDS deducted, null when the document does not show a deduction */
+  tds?: number | null;
+  tdsSection?: string | null;
+  currency: string;
+  /** Identifiers are null when the document does not show them */
+  gstin?: string | null;
+  pan?: string | null;
+  invoiceNumber?: string | null;
+  placeOfSupply?: string | null;
+  hsnSac?: string | null;
+  /** Procurement details are null when the document does not show them */
+  procurementMode?: ProcurementMode | null;
+  bidsReceived?: number | null;
+  tenderReference?: string | null;
+  confidence?: Record<TransactionField, number>;
+  sourcePage?: number | null;
+}
+
+export interface StructuredAuditReport {
+  executiveSummary: string;
+  complianceStatus: "COMPLIANT" | "NON_COMPLIANT" | "PARTIALLY_COMPLIANT";
+  details: {
+    complianceResultId: string;
+    clauseReference: string;
+    reasoning: string;
+    correctiveAction: string;
+  }[];
+}
+
+/** Response payload of each agent in structured mode */
+export interface StructuredAgentOutputs {
+  "agent-legal-parser": { clauses: StructuredClause[] };
+  "agent-compliance-mapping": StructuredComplianceAssessment;
+  "agent-transaction-understanding": { transactions: StructuredTransaction[] };
+  "agent-auditor-assistant": StructuredAuditReport;
+}
+
+export type StructuredAgentName = keyof StructuredAgentOutputs;
+
+export class StructuredAgentError extends Error {
+  status: number;
+  validationErrors: string[];
+
+  constructor(message: string, status: number, validationErrors: string[] = []) {
+    super(validationErrors.length > 0 ? `${message}: ${validationErrors.slice(0, 3).join("; ")}` : message);
+    this.name = "StructuredAgentError";
+    this.status = status;
+    this.validationErrors = validationErrors;
+  }
+}
+
+/** Read a structured agent response, throwing StructuredAgentError on failure */
+export async function readStructuredResponse<K extends StructuredAgentName>(
+  functionName: K,
+  resp: Response
+): Promise<StructuredAgentOutputs[K]> {
+  const payload = await resp.json().catch(() => null);
+
+  if (!resp.ok) {
+    const message = payload?.error || `Agent ${functionName} failed (${resp.status})`;
+    throw new StructuredAgentError(message, resp.status, payload?.validationErrors ?? []);
+  }
+
+  if (!payload || payload.mode !== "structured" || payload.data === undefined) {
+    throw new StructuredAgentError(`Agent ${functionName} did not return structured output`, resp.status);
+  }
+
+  return payload.data as StructuredAgentOutputs[K];
+}
+
+/** Call an agent in structured mode; FormData bodies are sent as multipart uploads */
+export async function invokeStructuredAgent<K extends StructuredAgentName>(
+  functionName: K,
+  body: Record<string, unknown> | FormData
+): Promise<StructuredAgentOutputs[K]> {
+  const { url, publishableKey } = getSupabasePublicConfig();
+  const isUpload = body instanceof FormData;
+  if (isUpload) body.set("mode", "structured");
+
+  const resp = await fetch(`${url}/functions/v1/${functionName}`, {
+    method: "POST",
+    headers: {
+      ...(isUpload ? {} : { "Content-Type": "application/json" }),
+      Authorization: `Bearer ${publishableKey}`,
+    },
+    body: isUpload ? body : JSON.stringify({ ...body, mode: "structured" }),
+  });
+  return readStructuredResponse(functionName, resp);
+}
+
+export function toParsedClauses(clauses: StructuredClause[], regulationId: string, sourceHash?: string): ParsedClause[] {
+  return clauses.map((clause) => ({
+    id: crypto.randomUUID(),
+    regulationId,
+    clauseId: clause.clauseId,
+    rule: clause.rule,
+    conditions: clause.conditions,
+    penalties: clause.penalties,
+    sourceHash,
+  }));
+}
+
+export function toComplianceResult(
+  assessment: StructuredComplianceAssessment,
+  transactionId: string,
+  clauseId: string
+): ComplianceResult {
+  return {
+    id: crypto.randomUUID(),
+    transactionId,
+    clauseId,
+    status: assessment.status,
+    riskLevel: assessment.riskLevel,
+    reasoning: assessment.reasoning,
+    missingDocs: assessment.missingDocs?.length ? assessment.missingDocs : undefined,
+  };
+}
+
+export function toTransactions(transactions: StructuredTransaction[]): Transaction[] {
+  return transactions.map(
+    ({ amount, tax, cgst, sgst, igst, tds, tdsSection, currency, confidence, sourcePage, gstin, pan, invoiceNumber, placeOfSupply, hsnSac, procurementMode, bidsReceived, tenderReference, ...tx }) => {
+      const code = currency || DEFAULT_CURRENCY;
+      return {
+        id: crypto.randomUUID(),
+        ...tx,
+        amount: money(amount, code),
+        tax: money(tax, code),
+        ...(typeof cgst === "number" ? { cgst: money(cgst, code) } : {}),
+        ...(typeof sgst === "number" ? { sgst: money(sgst, code) } : {}),
+        ...(typeof igst === "number" ? { igst: money(igst, code) } : {}),
+        ...(typeof tds === "number" ? { tds: money(tds, code) } : {}),
+        ...(tdsSection ? { tdsSection } : {}),
+        ...(gstin ? { gstin } : {}),
+        ...(pan ? { pan } : {}),
+        ...(invoiceNumber ? { invoiceNumber } : {}),
+        ...(placeOfSupply ? { placeOfSupply } : {}),
+        ...(hsnSac ? { hsnSac } : {}),
+        ...(procurementMode ? { procurementMode } : {}),
+        ...(typeof bidsReceived === "number" ? { bidsReceived } : {}),
+        ...(tenderReference ? { tenderReference } : {}),
+        ...(confidence ? { confidence } : {}),
+        ...(sourcePage ? { sourcePage } : {}),
+      };
+    }
+  );
+}
+
+/** Extracted fields below this confidence are flagged for review */
+export const LOW_CONFIDENCE = 0.7;
+
+export function isLowConfidence(transaction: Transaction, field: TransactionField): boolean {
+  const confidence = transaction.confidence?.[field];
+  return confidence !== undefined && confidence < LOW_CONFIDENCE;
+}
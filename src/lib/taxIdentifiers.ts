@@ -0,0 +1,227 @@
+/**
+ * Validation of the tax identifiers carried on a transaction.
+ *
+ * GSTINs are checked for structure, a known state code and the mod-36 check
+ * character; PANs for structure and holder type. The PAN embedded in a GSTIN
+ * must match the stated PAN, and the place of supply is compared with the
+ * supplier's state. Failures become deterministic `ComplianceResult`s that sit
+ * next to the rule engine's clause results.
+ */
+
+import type { ComplianceResult, Transaction } from "@/contexts/PipelineContext";
+
+/** GST state and union territory codes (first two characters of a GSTIN) */
+export const GST_STATE_CODES: Record<string, string> = {
+  "01": "Jammu and Kashmir",
+  "02": "Himachal Pradesh",
+  "03": "Punjab",
+  "04": "Chandigarh",
+  "05": "Uttarakhand",
+  "06": "Haryana",
+  "07": "Delhi",
+  "08": "Rajasthan",
+  "09": "Uttar Pradesh",
+  "10": "Bihar",
+  "11": "Sikkim",
+  "12": "Arunachal Pradesh",
+  "13": "Nagaland",
+  "14": "Manipur",
+  "15": "Mizoram",
+  "16": "Tripura",
+  "17": "Meghalaya",
+  "18": "Assam",
+  "19": "West Bengal",
+  "20": "Jharkhand",
+  "21": "Odisha",
+  "22": "Chhattisgarh",
+  "23": "Madhya Pradesh",
+  "24": "Gujarat",
+  "26": "Dadra and Nagar Haveli and Daman and Diu",
+  "27": "Maharashtra",
+  "29": "Karnataka",
+  "30": "Goa",
+  "31": "Lakshadweep",
+  "32": "Kerala",
+  "33": "Tamil Nadu",
+  "34": "Puducherry",
+  "35": "Andaman and Nicobar Islands",
+  "36": "Telangana",
+  "37": "Andhra Pradesh",
+  "38": "Ladakh",
+  "97": "Other Territory",
+};
+
+// Fourth character of a PAN: the kind of holder
+const PAN_HOLDER_TYPES: Record<string, string> = {
+  P: "individual",
+  C: "company",
+  H: "HUF",
+  F: "firm",
+  A: "association of persons",
+  T: "trust",
+  B: "body of individuals",
+  L: "local authority",
+  J: "artificial juridical person",
+  G: "government",
+};
+
+const GSTIN_CHARSET = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+const PAN_PATTERN = /^[A-Z]{5}\d{4}[A-Z]$/;
+// CGST Rule 46(b): up to 16 characters, letters, digits, hyphen and slash
+const INVOICE_NUMBER_PATTERN = /^[A-Za-z0-9/-]{1,16}$/;
+// HSN codes are 4, 6 or 8 digits; SAC codes are 6 digits starting with 99
+const HSN_SAC_PATTERN = /^(\d{4}|\d{6}|\d{8})$/;
+
+const normalize = (value: string) => value.replace(/[\s-]/g, "").toUpperCase();
+
+/** Check character for the first 14 characters of a GSTIN (mod-36, alternating weights 1 and 2) */
+export function gstinCheckCharacter(body: string): string {
+  let sum = 0;
+  for (let i = 0; i < 14; i++) {
+    const product = GSTIN_CHARSET.indexOf(body[i]) * (i % 2 === 0 ? 1 : 2);
+    sum += Math.floor(product / 36) + (product % 36);
+  }
+  return GSTIN_CHARSET[(36 - (sum % 36)) % 36];
+}
+
+/** What is wrong with a GSTIN, or null when it is valid */
+export function validateGstin(value: string): string | null {
+  const gstin = normalize(value);
+  if (gstin.length !== 15) return `GSTIN ${value} has ${gstin.length} characters instead of 15`;
+  if (!GSTIN_PATTERN.test(gstin)) return `GSTIN ${value} does not follow the state code + PAN + entity + Z + check format`;
+  if (!GST_STATE_CODES[gstin.slice(0, 2)]) return `GSTIN ${value} starts with unknown state code ${gstin.slice(0, 2)}`;
+  const expected = gstinCheckCharacter(gstin);
+  if (gstin[14] !== expected) return `GSTIN ${value} fails the checksum (check character should be ${expected})`;
+  return null;
+}
+
+export function validatePan(value: string): string | null {
+  const pan = normalize(value);
+  if (!PAN_PATTERN.test(pan)) return `PAN ${value} does not follow the AAAAA9999A format`;
+  if (!PAN_HOLDER_TYPES[pan[3]]) return `PAN ${value} has unknown holder type ${pan[3]}`;
+  return null;
+}
+
+export function validateInvoiceNumber(value: string): string | null {
+  return INVOICE_NUMBER_PATTERN.test(value.trim())
+    ? null
+    : `Invoice number ${value} must be at most 16 letters, digits, hyphens or slashes`;
+}
+
+export function validateHsnSac(value: string): string | null {
+  return HSN_SAC_PATTERN.test(value.replace(/\s/g, "")) ? null : `HSN/SAC code ${value} must be 4, 6 or 8 digits`;
+}
+
+/** PAN embedded in a GSTIN (characters 3-12) */
+export const panFromGstin = (gstin: string): string => normalize(gstin).slice(2, 12);
+
+/** Payee PAN from the transaction or its GSTIN, or null when neither is valid */
+export function payeePan(tx: Transaction): string | null {
+  if (tx.pan && !validatePan(tx.pan)) return normalize(tx.pan);
+  if (tx.gstin && !validateGstin(tx.gstin)) return panFromGstin(tx.gstin);
+  return null;
+}
+
+/**
+ * State code for a place of supply given as a code ("27"), a code and name
+ * ("27-Maharashtra") or a state name. Returns null when it cannot be resolved.
+ */
+export function resolveStateCode(placeOfSupply: string): string | null {
+  const code = /^\s*(\d{1,2})\b/.exec(placeOfSupply)?.[1]?.padStart(2, "0");
+  if (code) return GST_STATE_CODES[code] ? code : null;
+  const name = placeOfSupply.trim().toLowerCase();
+  return Object.keys(GST_STATE_CODES).find((c) => GST_STATE_CODES[c].toLowerCase() === name) ?? null;
+}
+
+export function validatePlaceOfSupply(value: string): string | null {
+  return resolveStateCode(value) ? null : `Place of supply "${value}" is not a GST state code or state name`;
+}
+
+// ---------- Compliance results ----------
+
+/** Clause ids of identifier checks; these results have no parsed clause behind them */
+export const IDENTIFIER_CHECKS = {
+  gstin: "GSTIN",
+  pan: "PAN",
+  invoiceNumber: "INV-NO",
+  placeOfSupply: "POS",
+  hsnSac: "HSN-SAC",
+} as const;
+
+/**
+ * Validate the identifiers on a transaction. Returns one result per failed
+ * check: malformed or inconsistent identifiers are violations, identifiers a
+ * taxed transaction needs but does not carry are missing documents. Checks
+ * that pass produce no result.
+ */
+export function validateTransactionIdentifiers(tx: Transaction): ComplianceResult[] {
+  const results: ComplianceResult[] = [];
+  const report = (clauseId: string, status: "violation" | "missing_docs", reasoning: string, missingDocs?: string[]) =>
+    results.push({
+      id: crypto.randomUUID(),
+      transactionId: tx.id,
+      clauseId,
+      status,
+      riskLevel: status === "violation" ? "high" : "medium",
+      reasoning: `Identifier check: ${reasoning}`,
+      ...(missingDocs ? { missingDocs } : {}),
+    });
+
+  // GST was charged, so the invoice must identify the supplier and itself
+  const taxed = tx.tax.currency === "INR" && tx.tax.paise > 0;
+
+  const gstinError = tx.gstin ? validateGstin(tx.gstin) : null;
+  const gstin = tx.gstin && !gstinError ? normalize(tx.gstin) : null;
+  if (gstinError) {
+    report(IDENTIFIER_CHECKS.gstin, "violation", `${gstinError}. Input tax credit cannot be claimed against an invalid GSTIN.`);
+  } else if (!tx.gstin && taxed) {
+    report(IDENTIFIER_CHECKS.gstin, "missing_docs", "GST is charged but the supplier's GSTIN is not recorded.", [
+      "Tax invoice showing the supplier's GSTIN",
+    ]);
+  }
+
+  if (tx.pan) {
+    const panError = validatePan(tx.pan);
+    if (panError) {
+      report(IDENTIFIER_CHECKS.pan, "violation", `${panError}.`);
+    } else if (gstin && panFromGstin(gstin) !== normalize(tx.pan)) {
+      report(
+        IDENTIFIER_CHECKS.pan,
+        "violation",
+        `PAN ${tx.pan} does not match the PAN ${panFromGstin(gstin)} embedded in GSTIN ${gstin}.`
+      );
+    }
+  }
+
+  if (tx.invoiceNumber) {
+    const invoiceError = validateInvoiceNumber(tx.invoiceNumber);
+    if (invoiceError) report(IDENTIFIER_CHECKS.invoiceNumber, "violation", `${invoiceError} (CGST Rule 46).`);
+  } else if (taxed) {
+    report(IDENTIFIER_CHECKS.invoiceNumber, "missing_docs", "GST is charged but no invoice number is recorded.", [
+      "Tax invoice with a serial number",
+    ]);
+  }
+
+  if (tx.placeOfSupply) {
+    const stateCode = resolveStateCode(tx.placeOfSupply);
+    const supplierState = gstin?.slice(0, 2);
+    if (!stateCode) {
+      report(IDENTIFIER_CHECKS.placeOfSupply, "violation", `${validatePlaceOfSupply(tx.placeOfSupply)}.`);
+    } else if (supplierState && supplierState !== stateCode && !tx.igst && (tx.cgst?.paise || tx.sgst?.paise)) {
+      // Inter-state supplies are normal; only CGST/SGST charged on one is a defect (GST-CALC checks the amounts)
+      report(
+        IDENTIFIER_CHECKS.placeOfSupply,
+        "violation",
+        `Place of supply ${stateCode} (${GST_STATE_CODES[stateCode]}) differs from the supplier's GSTIN state ${supplierState} (${GST_STATE_CODES[supplierState]}), so this inter-state supply must be invoiced with IGST, not CGST/SGST.`
+      );
+    }
+  }
+
+  if (tx.hsnSac) {
+    const hsnError = validateHsnSac(tx.hsnSac);
+    if (hsnError) report(IDENTIFIER_CHECKS.hsnSac, "violation", `${hsnError}.`);
+  }
+
+  return results;
+}
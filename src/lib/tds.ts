@@ -0,0 +1,265 @@
+/**
+ * TDS (tax deducted at source) checks on vendor payments.
+ *
+ * Each payment is assigned a TDS section, from the section recorded on the
+ * transaction or else from its SAC/HSN code and wording. Payments are then
+ * grouped per payee (PAN, else the PAN inside the GSTIN, else the vendor
+ * name), section and financial year, so the single-payment and annual
+ * thresholds are applied to the whole transaction set rather than one
+ * payment at a time. The expected deduction is compared with the TDS
+ * recorded on the transaction.
+ *
+ * Rates and thresholds follow the Income-tax Act as amended for FY 2025-26.
+ */
+
+import type { ComplianceResult, Transaction } from "@/contexts/PipelineContext";
+import { formatMoney, type Money } from "@/lib/money";
+import { payeePan } from "@/lib/taxIdentifiers";
+
+export interface TdsSection {
+  section: string;
+  title: string;
+  /** Single payment above which TDS applies, in rupees */
+  singleLimit: number | null;
+  /** Payments to one payee in a financial year above which TDS applies, in rupees */
+  annualLimit: number | null;
+  /** Rate in percent for individual/HUF payees and for others */
+  rates: { individual: number; other: number };
+  /** Deduct only on the part of the annual total above the limit (194Q) */
+  excessOnly?: boolean;
+  /** Who must deduct, when not every payer has to */
+  condition?: string;
+}
+
+export const TDS_SECTIONS: TdsSection[] = [
+  {
+    section: "194C",
+    title: "Payments to contractors",
+    singleLimit: 30000,
+    annualLimit: 100000,
+    rates: { individual: 1, other: 2 },
+  },
+  {
+    section: "194J(a)",
+    title: "Fees for technical services",
+    singleLimit: null,
+    annualLimit: 50000,
+    rates: { individual: 2, other: 2 },
+  },
+  {
+    section: "194J(b)",
+    title: "Fees for professional services and royalty",
+    singleLimit: null,
+    annualLimit: 50000,
+    rates: { individual: 10, other: 10 },
+  },
+  {
+    section: "194I(a)",
+    title: "Rent of plant, machinery or equipment",
+    singleLimit: 50000,
+    annualLimit: null,
+    rates: { individual: 2, other: 2 },
+  },
+  {
+    section: "194I(b)",
+    title: "Rent of land, building or furniture",
+    singleLimit: 50000,
+    annualLimit: null,
+    rates: { individual: 10, other: 10 },
+  },
+  {
+    section: "194Q",
+    title: "Purchase of goods",
+    singleLimit: null,
+    annualLimit: 5000000,
+    rates: { individual: 0.1, other: 0.1 },
+    excessOnly: true,
+    condition: "Applies only if the buyer's turnover exceeded ₹10 crore last year; Central and State Government buyers are excluded.",
+  },
+];
+
+// SAC prefixes by section; the longest matching prefix wins
+const SAC_SECTIONS: Record<string, string> = {
+  "9954": "194C",
+  "9965": "194C",
+  "9966": "194C",
+  "9967": "194C",
+  "9985": "194C",
+  "9987": "194C",
+  "9988": "194C",
+  "9981": "194J(b)",
+  "9982": "194J(b)",
+  "9983": "194J(b)",
+  "997331": "194J(b)",
+  "9972": "194I(b)",
+  "9973": "194I(a)",
+};
+
+const KEYWORD_SECTIONS: [RegExp, string][] = [
+  [/\b(rent|lease)\b.*\b(machine|machinery|equipment|plant|vehicle)/i, "194I(a)"],
+  [/\b(rent|lease)\b/i, "194I(b)"],
+  [/\btechnical (service|support)|call cent(er|re)/i, "194J(a)"],
+  [/\b(professional|consult|legal|audit fee|royalty|architect)/i, "194J(b)"],
+  [/\b(contract|works|construction|civil|repair|maintenance|transport|catering|manpower|security service|printing)/i, "194C"],
+];
+
+// Deductions may be rounded to the nearest rupee
+const ROUNDING_PAISE = 100;
+
+export const tdsCheckId = (section: string) => `TDS-${section}`;
+
+const findSection = (section: string) => TDS_SECTIONS.find((s) => s.section === section) ?? null;
+
+/** Section a payment falls under, or null when no TDS section applies */
+export function tdsSectionFor(tx: Transaction): TdsSection | null {
+  if (tx.tdsSection) {
+    const recorded = tx.tdsSection.replace(/\s/g, "").toUpperCase().replace(/\(([AB])\)$/, (_, sub) => `(${sub.toLowerCase()})`);
+    return findSection(recorded) ?? findSection(`${recorded}(b)`);
+  }
+
+  const code = tx.hsnSac?.replace(/\D/g, "") ?? "";
+  if (code.startsWith("99")) {
+    const prefix = Object.keys(SAC_SECTIONS)
+      .filter((p) => code.startsWith(p))
+      .sort((a, b) => b.length - a.length)[0];
+    if (prefix) return findSection(SAC_SECTIONS[prefix]);
+  }
+
+  const text = `${tx.category} ${tx.description}`;
+  const keyword = KEYWORD_SECTIONS.find(([pattern]) => pattern.test(text));
+  if (keyword) return findSection(keyword[1]);
+
+  // Goods carry an HSN code, which never starts with 99
+  if (code.length >= 4 && !code.startsWith("99")) return findSection("194Q");
+  return null;
+}
+
+/** "2024-25" for dates from April 2024 to March 2025 */
+export function financialYear(date: string): string {
+  const [year, month] = date.split("-").map(Number);
+  const start = month >= 4 ? year : year - 1;
+  return `${start}-${String((start + 1) % 100).padStart(2, "0")}`;
+}
+
+export interface TdsAssessment {
+  transactionId: string;
+  section: TdsSection;
+  pan: string | null;
+  financialYear: string;
+  rate: number;
+  /** Payments, in paise, the deduction on this transaction covers */
+  liablePaise: number;
+  expectedPaise: number;
+  /** Payee total for the section and year up to and including this payment */
+  aggregatePaise: number;
+}
+
+/**
+ * Expected TDS on every payment in the set. Once a payee's annual total
+ * crosses the limit, the deduction on the crossing payment also covers the
+ * earlier payments that were below it.
+ */
+export function assessTds(transactions: Transaction[]): Map<string, TdsAssessment> {
+  const groups = new Map<string, { tx: Transaction; section: TdsSection; pan: string | null; year: string }[]>();
+  for (const tx of transactions) {
+    if (tx.amount.currency !== "INR" || tx.amount.paise <= 0) continue;
+    const section = tdsSectionFor(tx);
+    if (!section) continue;
+    const pan = payeePan(tx);
+    // An undated payment cannot be placed in a year, so it is assessed on its own
+    const year = tx.date ? financialYear(tx.date) : "";
+    const key = [pan ?? tx.vendor.trim().toLowerCase(), section.section, year || `undated:${tx.id}`].join("|");
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)?.push({ tx, section, pan, year });
+  }
+
+  const assessments = new Map<string, TdsAssessment>();
+  for (const payments of groups.values()) {
+    payments.sort((a, b) => a.tx.date.localeCompare(b.tx.date));
+    let aggregate = 0;
+    let pending = 0;
+    let crossed = false;
+
+    for (const { tx, section, pan, year } of payments) {
+      const amount = tx.amount.paise;
+      aggregate += amount;
+      const annualLimit = section.annualLimit === null ? null : section.annualLimit * 100;
+      const singleLimit = section.singleLimit === null ? null : section.singleLimit * 100;
+
+      let liable = 0;
+      if (section.excessOnly && annualLimit !== null) {
+        liable = Math.max(0, Math.min(amount, aggregate - annualLimit));
+      } else if (crossed || (annualLimit !== null && aggregate > annualLimit)) {
+        liable = amount + pending;
+        pending = 0;
+        crossed = true;
+      } else if (singleLimit !== null && amount > singleLimit) {
+        liable = amount;
+      } else {
+        pending += amount;
+      }
+
+      const individual = pan !== null && ["P", "H"].includes(pan[3]);
+      const rate = individual ? section.rates.individual : section.rates.other;
+      assessments.set(tx.id, {
+        transactionId: tx.id,
+        section,
+        pan,
+        financialYear: year,
+        rate,
+        liablePaise: liable,
+        expectedPaise: Math.round((liable * rate) / 100),
+        aggregatePaise: aggregate,
+      });
+    }
+  }
+  return assessments;
+}
+
+/**
+ * Compare the TDS recorded on a payment with the expected deduction.
+ * Returns null when no deduction is due on it.
+ */
+export function checkTds(tx: Transaction, assessment: TdsAssessment | undefined): ComplianceResult | null {
+  if (!assessment || assessment.expectedPaise === 0) return null;
+
+  const { section, pan, rate } = assessment;
+  const inr = (paise: number): Money => ({ paise, currency: "INR" });
+  const declared = tx.tds ?? inr(0);
+  const payee = pan ? `PAN ${pan}` : `${tx.vendor} (PAN not recorded; without a PAN s.206AA requires at least 20%)`;
+  const basis =
+    `section ${section.section} (${section.title.toLowerCase()}) requires ${rate}% of ${formatMoney(inr(assessment.liablePaise))}` +
+    ` = ${formatMoney(inr(assessment.expectedPaise))}; ` +
+    (assessment.financialYear
+      ? `payments to ${payee} under this section in FY ${assessment.financialYear} total ${formatMoney(inr(assessment.aggregatePaise))}`
+      : `the payment to ${payee} has no date, so it is assessed on its own`);
+  const condition = section.condition ? ` ${section.condition}` : "";
+  const base = {
+    id: crypto.randomUUID(),
+    transactionId: tx.id,
+    clauseId: tdsCheckId(section.section),
+  };
+
+  if (declared.paise === 0) {
+    return {
+      ...base,
+      status: "violation",
+      riskLevel: section.condition ? "medium" : "high",
+      reasoning: `TDS check: ${basis}, but no TDS was deducted. Interest under s.201(1A) runs from the date of payment.${condition}`,
+    };
+  }
+  if (declared.paise < assessment.expectedPaise - ROUNDING_PAISE) {
+    return {
+      ...base,
+      status: "violation",
+      riskLevel: "medium",
+      reasoning: `TDS check: ${basis}, but only ${formatMoney(declared)} was deducted (short by ${formatMoney(inr(assessment.expectedPaise - declared.paise))}).${condition}`,
+    };
+  }
+  return {
+    ...base,
+    status: "compliant",
+    riskLevel: "low",
+    reasoning: `TDS check: ${basis}; ${formatMoney(declared)} was deducted.`,
+  };
+}
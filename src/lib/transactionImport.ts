@@ -0,0 +1,444 @@
+/**
+ * Spreadsheet imports of transactions.
+ *
+ * A CSV, Excel or JSON file is read into a `SourceSheet` (headers plus raw
+ * rows), its columns are mapped to `Transaction` fields, and the mapped rows
+ * become transactions. Mappings for common Tally, SAP and bank-statement
+ * exports are detected from the headers; users can save their own mappings
+ * as presets (`import_mapping_presets`, private to the user), which are
+ * picked again for files with the same headers.
+ */
+
+import * as XLSX from "xlsx";
+import { supabase } from "@/integrations/supabase/clientRuntime";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import type { Transaction, TransactionField, TransactionIdentifierField } from "@/contexts/PipelineContext";
+import { DEFAULT_CURRENCY, formatMoney, isMoney, Money, parseMoney, zeroMoney } from "@/lib/money";
+import { parseProcurementMode } from "@/lib/procurement";
+
+export type Cell = string | number | boolean | Date | null;
+
+export interface SourceSheet {
+  headers: string[];
+  rows: Cell[][];
+}
+
+/** Transaction fields plus a credit column, used for rows whose amount column is blank, and the currency */
+export type ImportField =
+  | TransactionField
+  | TransactionIdentifierField
+  | "cgst"
+  | "sgst"
+  | "igst"
+  | "tds"
+  | "tdsSection"
+  | "procurementMode"
+  | "bidsReceived"
+  | "tenderReference"
+  | "creditAmount"
+  | "currency";
+
+/** Source column header for each field */
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export interface ImportMapping {
+  columns: ColumnMapping;
+  /** Category for rows without one */
+  defaultCategory: string;
+}
+
+export const IMPORT_FIELDS: { field: ImportField; label: string }[] = [
+  { field: "date", label: "Date" },
+  { field: "vendor", label: "Vendor" },
+  { field: "amount", label: "Amount" },
+  { field: "creditAmount", label: "Credit amount" },
+  { field: "tax", label: "Tax" },
+  { field: "cgst", label: "CGST" },
+  { field: "sgst", label: "SGST/UTGST" },
+  { field: "igst", label: "IGST" },
+  { field: "tds", label: "TDS deducted" },
+  { field: "tdsSection", label: "TDS section" },
+  { field: "currency", label: "Currency" },
+  { field: "category", label: "Category" },
+  { field: "description", label: "Description" },
+  { field: "gstin", label: "GSTIN" },
+  { field: "pan", label: "PAN" },
+  { field: "invoiceNumber", label: "Invoice no." },
+  { field: "placeOfSupply", label: "Place of supply" },
+  { field: "hsnSac", label: "HSN/SAC" },
+  { field: "procurementMode", label: "Procurement mode" },
+  { field: "bidsReceived", label: "Bids received" },
+  { field: "tenderReference", label: "Tender reference" },
+];
+
+const IDENTIFIER_FIELDS: ImportField[] = ["gstin", "pan", "invoiceNumber", "placeOfSupply", "hsnSac"];
+const GST_COMPONENT_FIELDS = ["cgst", "sgst", "igst"] as const;
+const PROCUREMENT_FIELDS: ImportField[] = ["procurementMode", "bidsReceived", "tenderReference"];
+
+// Matched by exact header before the other fields, so "GSTIN" or "CGST" is not taken for tax, "Company" for PAN,
+// "TDS Amount" for the amount or "Tender Type" for the category
+const EXACT_FIELDS: ImportField[] = [...IDENTIFIER_FIELDS, ...GST_COMPONENT_FIELDS, "tds", "tdsSection", ...PROCUREMENT_FIELDS];
+
+interface ImportLayout {
+  id: string;
+  name: string;
+  /** Headers (normalized) that must all be present */
+  signature: string[][];
+  /** Candidate headers (normalized) per field, best first */
+  columns: Partial<Record<ImportField, string[]>>;
+  defaultCategory: string;
+}
+
+export const normalizeHeader = (header: string) =>
+  header.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+// Tally day book, SAP vendor line items (FBL1N) and the usual Indian bank statement columns
+const LAYOUTS: ImportLayout[] = [
+  {
+    id: "tally",
+    name: "Tally day book",
+    signature: [["particulars"], ["vch type", "voucher type"]],
+    columns: {
+      date: ["date"],
+      vendor: ["particulars"],
+      amount: ["debit amount", "debit"],
+      creditAmount: ["credit amount", "credit"],
+      category: ["vch type", "voucher type"],
+      description: ["narration", "vch no", "voucher no"],
+      gstin: ["gstin uin", "party gstin uin", "gstin"],
+      invoiceNumber: ["supplier invoice no", "reference no"],
+      placeOfSupply: ["place of supply"],
+      hsnSac: ["hsn sac", "hsn code"],
+    },
+    defaultCategory: "Voucher",
+  },
+  {
+    id: "sap",
+    name: "SAP line items",
+    signature: [["posting date", "document date"], ["amount in local currency", "amount in doc curr", "amount in lc"]],
+    columns: {
+      date: ["document date", "posting date"],
+      vendor: ["name 1", "vendor name", "name", "vendor", "account"],
+      amount: ["amount in local currency", "amount in lc", "amount in doc curr"],
+      tax: ["tax amount", "tax amnt"],
+      currency: ["local currency", "currency", "crcy", "document currency"],
+      category: ["document type", "doc type", "type"],
+      description: ["text", "item text", "reference", "document number"],
+      gstin: ["gstin", "tax number 3"],
+      invoiceNumber: ["reference"],
+      placeOfSupply: ["place of supply"],
+      hsnSac: ["hsn sac code", "hsn sac"],
+    },
+    defaultCategory: "Vendor Invoice",
+  },
+  {
+    id: "bank",
+    name: "Bank statement",
+    signature: [
+      ["narration", "description", "particulars", "transaction remarks", "remarks"],
+      ["withdrawal amt", "withdrawal amount", "withdrawal", "debit", "debit amt", "debit amount"],
+      ["closing balance", "balance"],
+    ],
+    columns: {
+      date: ["txn date", "transaction date", "date", "value dt", "value date"],
+      vendor: ["narration", "description", "particulars", "transaction remarks", "remarks"],
+      amount: ["withdrawal amt", "withdrawal amount", "withdrawal", "debit amt", "debit amount", "debit"],
+      creditAmount: ["deposit amt", "deposit amount", "deposit", "credit amt", "credit amount", "credit"],
+      description: ["narration", "description", "particulars", "transaction remarks", "remarks"],
+    },
+    defaultCategory: "Bank Transaction",
+  },
+];
+
+// Fallback for other layouts: a header containing any of these words
+const GENERIC_COLUMNS: Record<ImportField, string[]> = {
+  date: ["date", "dt"],
+  vendor: ["vendor", "party", "payee", "supplier", "merchant", "name", "particulars"],
+  amount: ["amount", "amt", "debit", "withdrawal", "value", "total"],
+  creditAmount: ["credit", "deposit"],
+  tax: ["tax", "gst", "vat"],
+  cgst: ["cgst", "cgst amount", "cgst amt", "central tax", "central tax amount"],
+  sgst: ["sgst", "sgst amount", "sgst amt", "utgst", "utgst amount", "sgst utgst", "state tax", "state ut tax"],
+  igst: ["igst", "igst amount", "igst amt", "integrated tax", "integrated tax amount"],
+  tds: ["tds", "tds amount", "tds amt", "tds deducted", "withholding tax", "withholding tax amount"],
+  tdsSection: ["tds section", "section", "tds nature", "nature of payment"],
+  currency: ["currency", "ccy", "crcy"],
+  category: ["category", "type", "head"],
+  description: ["description", "narration", "remarks", "details", "desc", "particulars", "memo"],
+  gstin: ["gstin", "gstin uin", "gst no", "gst number", "gstin no", "party gstin", "supplier gstin", "vendor gstin"],
+  pan: ["pan", "pan no", "pan number", "party pan", "vendor pan"],
+  invoiceNumber: ["invoice no", "invoice number", "inv no", "bill no", "bill number", "invoice", "invoicenumber"],
+  placeOfSupply: ["place of supply", "placeofsupply", "pos", "state"],
+  hsnSac: ["hsn", "sac", "hsn sac", "hsnsac", "hsn code", "sac code", "hsn sac code"],
+  procurementMode: ["procurement mode", "procurement method", "mode of procurement", "tender type", "purchase mode"],
+  bidsReceived: ["bids received", "no of bids", "number of bids", "bids", "quotations received", "no of quotations"],
+  tenderReference: ["tender reference", "tender ref", "tender no", "tender id", "bid no", "bid number", "gem order no", "contract no"],
+};
+
+function findColumn(headers: string[], candidates: string[] = [], partial = false): string | undefined {
+  const normalized = headers.map(normalizeHeader);
+  for (const candidate of candidates) {
+    const index = normalized.findIndex((h) => (partial ? h.includes(candidate) : h === candidate));
+    if (index >= 0) return headers[index];
+  }
+  return undefined;
+}
+
+function hasHeader(headers: string[], candidates: string[]): boolean {
+  return findColumn(headers, candidates) !== undefined;
+}
+
+/** Built-in layout the headers match, if any */
+export function detectLayout(headers: string[]): { id: string; name: string; mapping: ImportMapping } | null {
+  const layout = LAYOUTS.find((l) => l.signature.every((candidates) => hasHeader(headers, candidates)));
+  if (!layout) return null;
+
+  const columns: ColumnMapping = {};
+  for (const { field } of IMPORT_FIELDS) {
+    const column = findColumn(headers, layout.columns[field]);
+    if (column) columns[field] = column;
+  }
+  return { id: layout.id, name: layout.name, mapping: { columns, defaultCategory: layout.defaultCategory } };
+}
+
+/** Best-effort mapping by header name for files of no known layout */
+export function guessMapping(headers: string[]): ImportMapping {
+  const columns: ColumnMapping = {};
+  const used = new Set<string>();
+  const fields = [...EXACT_FIELDS, ...IMPORT_FIELDS.map((f) => f.field).filter((f) => !EXACT_FIELDS.includes(f))];
+  for (const field of fields) {
+    const available = headers.filter((h) => !used.has(h) || field === "description");
+    const column = findColumn(available, GENERIC_COLUMNS[field], !EXACT_FIELDS.includes(field));
+    if (column) {
+      columns[field] = column;
+      used.add(column);
+    }
+  }
+  return { columns, defaultCategory: "Expense" };
+}
+
+// ---------- Reading files ----------
+
+// Statements often start with account details; the header row is searched for among the first rows
+const HEADER_SEARCH_ROWS = 25;
+
+const KNOWN_HEADERS = new Set(
+  [...LAYOUTS.flatMap((l) => Object.values(l.columns).flat()), ...Object.values(GENERIC_COLUMNS).flat()]
+);
+
+function findHeaderRow(rows: Cell[][]): number {
+  let best = 0;
+  let bestScore = -1;
+  rows.slice(0, HEADER_SEARCH_ROWS).forEach((row, i) => {
+    const labels = row.filter((cell): cell is string => typeof cell === "string" && cell.trim() !== "");
+    if (labels.length < 2) return;
+    const score = labels.filter((label) => KNOWN_HEADERS.has(normalizeHeader(label))).length * 10 + labels.length;
+    if (score > bestScore) {
+      best = i;
+      bestScore = score;
+    }
+  });
+  return best;
+}
+
+function uniqueHeaders(row: Cell[]): string[] {
+  const seen = new Map<string, number>();
+  return row.map((cell, i) => {
+    const base = cell === null || cell === "" ? `Column ${i + 1}` : String(cell).trim();
+    const count = (seen.get(base) ?? 0) + 1;
+    seen.set(base, count);
+    return count > 1 ? `${base} (${count})` : base;
+  });
+}
+
+function toSheet(rows: Cell[][]): SourceSheet {
+  const headerRow = findHeaderRow(rows);
+  const width = Math.max(0, ...rows.map((row) => row.length));
+  const header = Array.from({ length: width }, (_, i) => rows[headerRow]?.[i] ?? null);
+  return {
+    headers: uniqueHeaders(header),
+    rows: rows
+      .slice(headerRow + 1)
+      .filter((row) => row.some((cell) => cell !== null && cell !== "")),
+  };
+}
+
+/** First worksheet of a CSV or Excel file */
+export async function readSpreadsheet(file: File): Promise<SourceSheet> {
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: "array" });
+  const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!worksheet) throw new Error("File has no worksheets");
+  const rows = XLSX.utils.sheet_to_json<Cell[]>(worksheet, { header: 1, raw: true, defval: null });
+  const sheet = toSheet(rows);
+  if (sheet.rows.length === 0) throw new Error("File has no data rows");
+  return sheet;
+}
+
+/** JSON exports: an array of records, or `{ transactions: [...] }` */
+export function sheetFromJson(json: unknown): SourceSheet {
+  const records = (Array.isArray(json) ? json : (json as { transactions?: unknown[] })?.transactions ?? [json])
+    .filter((record): record is Record<string, unknown> => !!record && typeof record === "object");
+  const headers = [...new Set(records.flatMap((record) => Object.keys(record)))];
+  const rows = records.map((record) =>
+    headers.map((header) => {
+      const value = record[header];
+      // Amounts exported from this app are money objects
+      if (isMoney(value)) return formatMoney(value);
+      return value === undefined || typeof value === "object" ? null : (value as Cell);
+    })
+  );
+  if (rows.length === 0) throw new Error("File has no transactions");
+  return { headers, rows };
+}
+
+// ---------- Mapping rows ----------
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+const isoDate = (year: number, month: number, day: number) =>
+  `${year < 100 ? 2000 + year : year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+
+/**
+ * YYYY-MM-DD from Excel serials, ISO dates and Indian day-first dates (15/01/2024, 15-Jan-24, 15.01.2024).
+ * Blank cells stay blank: an invented date would put the payment in the wrong financial year.
+ */
+export function formatImportDate(value: Cell): string {
+  if (value === null || (typeof value === "string" && !value.trim())) return "";
+  if (value instanceof Date) return value.toISOString().split("T")[0];
+
+  if (typeof value === "number") {
+    const date = XLSX.SSF.parse_date_code(value);
+    if (date) return isoDate(date.y, date.m, date.d);
+  }
+
+  const text = String(value).trim();
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (iso) return isoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+  const dayFirst = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})$/);
+  if (dayFirst) return isoDate(Number(dayFirst[3]), Number(dayFirst[2]), Number(dayFirst[1]));
+
+  const named = text.match(/^(\d{1,2})[\s/-]([A-Za-z]{3})[A-Za-z]*[\s/-](\d{2,4})$/);
+  const month = named ? MONTHS.indexOf(named[2].toLowerCase()) + 1 : 0;
+  if (named && month > 0) return isoDate(Number(named[3]), month, Number(named[1]));
+
+  const parsed = new Date(text);
+  return isNaN(parsed.getTime()) ? text : parsed.toISOString().split("T")[0];
+}
+
+/** Amount of a cell, in the row's currency unless the cell names one; credit/debit signs are dropped */
+export function importAmount(value: Cell, currency: string): Money | null {
+  const amount = parseMoney(typeof value === "number" || typeof value === "string" ? value : null, currency);
+  return amount && { ...amount, paise: Math.abs(amount.paise) };
+}
+
+const cellText = (value: Cell) => (value === null ? "" : String(value).trim());
+
+export function applyMapping(sheet: SourceSheet, mapping: ImportMapping): Transaction[] {
+  const index = (field: ImportField) => {
+    const column = mapping.columns[field];
+    return column === undefined ? -1 : sheet.headers.indexOf(column);
+  };
+  const cell = (row: Cell[], field: ImportField) => (index(field) >= 0 ? row[index(field)] ?? null : null);
+
+  // Blank identifier cells are left off the transaction
+  const identifiers = (row: Cell[]) =>
+    Object.fromEntries(
+      IDENTIFIER_FIELDS.map((field) => [field, cellText(cell(row, field))]).filter(([, value]) => value)
+    ) as Pick<Transaction, TransactionIdentifierField>;
+
+  return sheet.rows.flatMap((row) => {
+    const code = cellText(cell(row, "currency")).toUpperCase();
+    const currency = /^[A-Z]{3}$/.test(code) ? code : DEFAULT_CURRENCY;
+    // Statements fill either the debit or the credit column, sometimes leaving 0.00 in the other
+    const debit = importAmount(cell(row, "amount"), currency);
+    const credit = importAmount(cell(row, "creditAmount"), currency);
+    const amount = debit?.paise ? debit : credit?.paise ? credit : debit ?? credit;
+    const vendor = cellText(cell(row, "vendor"));
+    // Totals, opening balances and other rows without an amount or party
+    if (!amount && !vendor) return [];
+
+    const taxCurrency = amount?.currency ?? currency;
+    const components = Object.fromEntries(
+      GST_COMPONENT_FIELDS.map((field) => [field, importAmount(cell(row, field), taxCurrency)]).filter(([, value]) => value)
+    ) as Pick<Transaction, (typeof GST_COMPONENT_FIELDS)[number]>;
+    // Sheets with only CGST/SGST/IGST columns get their sum as the total tax
+    const componentTotal = Object.values(components).reduce((sum, value) => sum + value.paise, 0);
+    const tax = importAmount(cell(row, "tax"), taxCurrency) ?? { paise: componentTotal, currency: taxCurrency };
+    const tds = importAmount(cell(row, "tds"), taxCurrency);
+    const tdsSection = cellText(cell(row, "tdsSection"));
+    const procurementMode = parseProcurementMode(cellText(cell(row, "procurementMode")));
+    const bidsReceived = Number.parseInt(cellText(cell(row, "bidsReceived")), 10);
+    const tenderReference = cellText(cell(row, "tenderReference"));
+
+    return [{
+      id: crypto.randomUUID(),
+      category: cellText(cell(row, "category")) || mapping.defaultCategory || "Expense",
+      amount: amount ?? zeroMoney(currency),
+      tax,
+      ...components,
+      ...(tds ? { tds } : {}),
+      ...(tdsSection ? { tdsSection } : {}),
+      vendor: vendor || "Unknown",
+      date: formatImportDate(cell(row, "date")),
+      description: cellText(cell(row, "description")),
+      ...identifiers(row),
+      ...(procurementMode ? { procurementMode } : {}),
+      ...(Number.isInteger(bidsReceived) && bidsReceived >= 0 ? { bidsReceived } : {}),
+      ...(tenderReference ? { tenderReference } : {}),
+    }];
+  });
+}
+
+// ---------- Saved presets ----------
+
+export type ImportPreset = Tables<"import_mapping_presets">;
+
+export const presetMapping = (preset: ImportPreset): ImportMapping => ({
+  columns: preset.mapping as ColumnMapping,
+  defaultCategory: preset.default_category,
+});
+
+/** Saved preset made for a file with the same headers, most recently used first */
+export function matchPreset(presets: ImportPreset[], headers: string[]): ImportPreset | null {
+  const key = [...headers].map(normalizeHeader).sort().join("|");
+  return presets.find((preset) => [...preset.headers].sort().join("|") === key) ?? null;
+}
+
+/** The user's presets, most recently saved first */
+export async function fetchImportPresets(): Promise<ImportPreset[]> {
+  const { data, error } = await supabase
+    .from("import_mapping_presets")
+    .select("*")
+    .order("updated_at", { ascending: false });
+  if (error) throw error;
+  return data || [];
+}
+
+/** Save under `name`, replacing the user's preset of the same name */
+export async function saveImportPreset(name: string, headers: string[], mapping: ImportMapping): Promise<ImportPreset> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Sign in to save mapping presets");
+
+  const { data, error } = await supabase
+    .from("import_mapping_presets")
+    .upsert(
+      {
+        user_id: user.id,
+        name,
+        headers: headers.map(normalizeHeader),
+        mapping: mapping.columns as Json,
+        default_category: mapping.defaultCategory,
+      },
+      { onConflict: "user_id,name" }
+    )
+    .select("*")
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteImportPreset(id: string): Promise<void> {
+  const { error } = await supabase.from("import_mapping_presets").delete().eq("id", id);
+  if (error) throw error;
+}
@@ -0,0 +1,207 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { History, Loader2, ChevronRight, Filter, XCircle, CheckCircle2, Cpu, Workflow } from "lucide-react";
+import { DashboardLayout } from "@/components/dashboard/DashboardLayout";
+import { DataTable } from "@/components/dashboard/DataTable";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { AUDIT_CATEGORIES, fetchAuditRuns, formatRunDuration, AuditRunSummary } from "@/lib/auditRuns";
+
+export default function AuditHistoryPage() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [runs, setRuns] = useState<AuditRunSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [onlyWithViolations, setOnlyWithViolations] = useState(false);
+  const [categoryFilter, setCategoryFilter] = useState('all');
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    fetchAuditRuns({
+      from: fromDate || undefined,
+      to: toDate || undefined,
+      onlyWithViolations,
+      category: categoryFilter === 'all' ? undefined : categoryFilter,
+    })
+      .then((data) => {
+        if (!cancelled) setRuns(data);
+      })
+      .catch((error) => {
+        console.error('Error loading audit runs:', error);
+        toast({ title: 'Failed to load audit history', variant: 'destructive' });
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [fromDate, toDate, onlyWithViolations, categoryFilter, toast]);
+
+  const hasFilters = !!fromDate || !!toDate || onlyWithViolations || categoryFilter !== 'all';
+
+  const clearFilters = () => {
+    setFromDate('');
+    setToDate('');
+    setOnlyWithViolations(false);
+    setCategoryFilter('all');
+  };
+
+  const columns = [
+    {
+      key: "startedAt",
+      header: "Started",
+      render: (run: AuditRunSummary) => (
+        <div>
+          <div className="font-medium">{new Date(run.startedAt).toLocaleString()}</div>
+          <div className="text-xs text-muted-foreground flex items-center gap-1">
+            {run.runner === 'master_agent' ? <Cpu className="h-3 w-3" /> : <Workflow className="h-3 w-3" />}
+            {run.runner === 'master_agent' ? 'Master Agent' : 'Pipeline'}
+          </div>
+        </div>
+      ),
+    },
+    {
+      key: "inputFileName",
+      header: "Input",
+      render: (run: AuditRunSummary) => (
+        <span className="text-sm">{run.inputFileName || <span className="text-muted-foreground">—</span>}</span>
+      ),
+    },
+    {
+      key: "detectedCategories",
+      header: "Categories",
+      render: (run: AuditRunSummary) => (
+        <div className="flex flex-wrap gap-1">
+          {run.detectedCategories.map((cat) => (
+            <Badge key={cat} variant="secondary" className="text-xs">{cat}</Badge>
+          ))}
+        </div>
+      ),
+    },
+    {
+      key: "violations",
+      header: "Result",
+      render: (run: AuditRunSummary) =>
+        run.status === 'error' ? (
+          <Badge variant="destructive" className="gap-1">
+            <XCircle className="h-3 w-3" />
+            Failed
+          </Badge>
+        ) : run.violations > 0 ? (
+          <Badge variant="destructive">{run.violations} / {run.totalChecked} violations</Badge>
+        ) : (
+          <Badge className="bg-success text-success-foreground gap-1">
+            <CheckCircle2 className="h-3 w-3" />
+            {run.totalChecked} checks
+          </Badge>
+        ),
+    },
+    {
+      key: "durationMs",
+      header: "Duration",
+      render: (run: AuditRunSummary) => (
+        <span className="text-sm font-mono">{formatRunDuration(run.durationMs)}</span>
+      ),
+    },
+    {
+      key: "actions",
+      header: "",
+      render: (run: AuditRunSummary) => (
+        <Button variant="ghost" size="sm" onClick={() => navigate(`/audits/${run.id}`)}>
+          Open
+          <ChevronRight className="h-4 w-4 ml-1" />
+        </Button>
+      ),
+    },
+  ];
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <History className="h-8 w-8 text-primary" />
+            Audit History
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            Browse past audit runs, replay their logs and re-open their reports
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Filter className="h-5 w-5" />
+              Filters
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="audit-from">From</Label>
+                <Input id="audit-from" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} className="w-[160px]" />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="audit-to">To</Label>
+                <Input id="audit-to" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} className="w-[160px]" />
+              </div>
+              <div className="space-y-1">
+                <Label>Category</Label>
+                <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+                  <SelectTrigger className="w-[160px]">
+                    <SelectValue placeholder="Category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Categories</SelectItem>
+                    {AUDIT_CATEGORIES.map((cat) => (
+                      <SelectItem key={cat} value={cat}>{cat}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center gap-2 h-10">
+                <Switch id="audit-violations" checked={onlyWithViolations} onCheckedChange={setOnlyWithViolations} />
+                <Label htmlFor="audit-violations">Only runs with violations</Label>
+              </div>
+              {hasFilters && (
+                <Button variant="ghost" onClick={clearFilters}>Clear filters</Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Audit Runs</CardTitle>
+            <CardDescription>{runs.length} run(s)</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex items-center justify-center h-32">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : (
+              <DataTable
+                data={runs}
+                columns={columns}
+                emptyMessage={hasFilters ? "No audit runs match these filters" : "No audit runs yet. Run the Master Agent to create one."}
+              />
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,343 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import {
+  ArrowLeft,
+  Loader2,
+  Play,
+  Square,
+  FileDown,
+  Trash2,
+  FileText,
+  Timer,
+  Sparkles,
+  XCircle,
+  ClipboardCheck,
+  ListChecks,
+} from "lucide-react";
+import { DashboardLayout } from "@/components/dashboard/DashboardLayout";
+import { StatusBadge } from "@/components/dashboard/DataTable";
+import { AuditReportStatsCards } from "@/components/agents/AuditReportStatsCards";
+import { ComplianceResultModal } from "@/components/agents/ComplianceResultModal";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import { ComplianceResult } from "@/contexts/PipelineContext";
+import { useOrganization } from "@/contexts/OrganizationContext";
+import { exportAuditReportToPdf } from "@/utils/pdfExport";
+import { fetchAuditRun, deleteAuditRun, formatRunDuration, AuditRun } from "@/lib/auditRuns";
+import { createRemediationTasks } from "@/lib/remediation";
+import { AUDIT_ROLES } from "@/lib/organizations";
+
+// Delay between log lines while replaying a run
+const REPLAY_INTERVAL_MS = 120;
+
+export default function AuditRunDetailPage() {
+  const { runId } = useParams<{ runId: string }>();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { role } = useOrganization();
+  const canEdit = role !== null && AUDIT_ROLES.includes(role);
+  const [run, setRun] = useState<AuditRun | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [visibleLogCount, setVisibleLogCount] = useState(0);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const [selectedResult, setSelectedResult] = useState<ComplianceResult | null>(null);
+  const replayTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+
+  useEffect(() => {
+    if (!runId) return;
+    let cancelled = false;
+
+    fetchAuditRun(runId)
+      .then((data) => {
+        if (cancelled) return;
+        setRun(data);
+        setVisibleLogCount(data?.logs.length ?? 0);
+      })
+      .catch((error) => {
+        console.error('Error loading audit run:', error);
+        toast({ title: 'Failed to load audit run', variant: 'destructive' });
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [runId, toast]);
+
+  const stopReplay = useCallback(() => {
+    if (replayTimerRef.current) {
+      clearInterval(replayTimerRef.current);
+      replayTimerRef.current = null;
+    }
+    setIsReplaying(false);
+  }, []);
+
+  useEffect(() => stopReplay, [stopReplay]);
+
+  useEffect(() => {
+    if (isReplaying && run && visibleLogCount >= run.logs.length) stopReplay();
+  }, [isReplaying, run, visibleLogCount, stopReplay]);
+
+  const startReplay = () => {
+    if (!run) return;
+    stopReplay();
+    setVisibleLogCount(0);
+    setIsReplaying(true);
+
+    replayTimerRef.current = setInterval(() => {
+      setVisibleLogCount((count) => Math.min(count + 1, run.logs.length));
+    }, REPLAY_INTERVAL_MS);
+  };
+
+  const handleExportPdf = () => {
+    if (!run?.report) return;
+    exportAuditReportToPdf({
+      report: run.report,
+      complianceResults: run.complianceResults,
+      transactions: run.transactions,
+      parsedClauses: run.parsedClauses,
+    });
+    toast({ title: 'PDF report downloaded' });
+  };
+
+  const handleOpenTasks = async () => {
+    if (!run?.report) return;
+    try {
+      const count = await createRemediationTasks(run.report, run.complianceResults, run.transactions);
+      toast({ title: count > 0 ? `${count} remediation task(s) opened` : 'Every finding in this report already has a task' });
+      navigate('/remediation');
+    } catch (error) {
+      console.error('Error creating remediation tasks:', error);
+      toast({ title: 'Failed to create remediation tasks', variant: 'destructive' });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!run) return;
+    try {
+      await deleteAuditRun(run.id);
+      toast({ title: 'Audit run deleted' });
+      navigate('/audits');
+    } catch (error) {
+      console.error('Error deleting audit run:', error);
+      toast({ title: 'Failed to delete audit run', variant: 'destructive' });
+    }
+  };
+
+  if (loading) {
+    return (
+      <DashboardLayout>
+        <div className="flex items-center justify-center h-64">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (!run) {
+    return (
+      <DashboardLayout>
+        <Card className="border-dashed">
+          <CardContent className="py-12 text-center">
+            <FileText className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <h3 className="text-lg font-medium mb-2">Audit run not found</h3>
+            <Button onClick={() => navigate('/audits')}>Back to Audit History</Button>
+          </CardContent>
+        </Card>
+      </DashboardLayout>
+    );
+  }
+
+  const visibleLogs = run.logs.slice(0, visibleLogCount);
+  const selectedTransaction = selectedResult
+    ? run.transactions.find(t => t.id === selectedResult.transactionId) ?? null
+    : null;
+  const selectedClause = selectedResult
+    ? run.parsedClauses.find(c => c.id === selectedResult.clauseId) ?? null
+    : null;
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div className="flex items-start gap-4">
+            <Button variant="ghost" size="icon" onClick={() => navigate('/audits')}>
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div>
+              <h1 className="text-2xl font-bold">
+                Audit Run — {new Date(run.startedAt).toLocaleString()}
+              </h1>
+              <div className="flex flex-wrap items-center gap-2 mt-1 text-sm text-muted-foreground">
+                <span>{run.runner === 'master_agent' ? 'Master Agent' : 'Pipeline'}</span>
+                {run.inputFileName && <span>• {run.inputFileName}</span>}
+                <span>• {formatRunDuration(run.durationMs)}</span>
+                <span>• {run.regulationIds.length} regulation(s)</span>
+                {run.detectedCategories.map((cat) => (
+                  <Badge key={cat} variant="secondary" className="text-xs">{cat}</Badge>
+                ))}
+              </div>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            {run.report && (
+              <Button size="sm" onClick={handleExportPdf}>
+                <FileDown className="h-4 w-4 mr-2" />
+                PDF
+              </Button>
+            )}
+            {run.report && canEdit && (
+              <Button size="sm" variant="outline" onClick={handleOpenTasks}>
+                <ListChecks className="h-4 w-4 mr-2" />
+                Remediation
+              </Button>
+            )}
+            {canEdit && (
+              <Button size="sm" variant="outline" onClick={handleDelete}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {run.status === 'error' && (
+          <Card className="border-destructive/30 bg-destructive/5">
+            <CardContent className="py-4 flex items-center gap-3">
+              <XCircle className="h-5 w-5 text-destructive shrink-0" />
+              <p className="text-sm">
+                <span className="font-medium text-destructive">Run failed:</span> {run.error || 'Unknown error'}
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        {run.report && <AuditReportStatsCards report={run.report} />}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Step timings */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Timer className="h-5 w-5 text-primary" />
+                Step Timings
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {run.stepTimings.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No step timings recorded</p>
+              ) : (
+                run.stepTimings.map((timing, i) => (
+                  <div key={i} className="flex items-center justify-between text-sm p-2 rounded-lg bg-muted/50">
+                    <span className="font-mono text-xs">{timing.step}</span>
+                    <span className="font-mono text-xs text-muted-foreground">{formatRunDuration(timing.durationMs)}</span>
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Log replay */}
+          <Card className="lg:col-span-2">
+            <CardHeader className="flex flex-row items-center justify-between">
+              <div>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <Sparkles className="h-5 w-5 text-primary" />
+                  Processing Log
+                </CardTitle>
+                <CardDescription>{run.logs.length} entries</CardDescription>
+              </div>
+              {run.logs.length > 0 && (
+                isReplaying ? (
+                  <Button size="sm" variant="outline" onClick={stopReplay}>
+                    <Square className="h-4 w-4 mr-2" />
+                    Stop
+                  </Button>
+                ) : (
+                  <Button size="sm" variant="outline" onClick={startReplay}>
+                    <Play className="h-4 w-4 mr-2" />
+                    Replay
+                  </Button>
+                )
+              )}
+            </CardHeader>
+            <CardContent>
+              <ScrollArea className="h-64 w-full rounded-lg border bg-muted/30 p-3">
+                <div className="space-y-1">
+                  {visibleLogs.map((log, i) => (
+                    <div key={i} className="flex items-start gap-2 text-xs font-mono">
+                      <span className="text-muted-foreground shrink-0">
+                        {new Date(log.timestamp).toLocaleTimeString()}
+                      </span>
+                      <span className={
+                        log.type === 'error' ? 'text-destructive' :
+                        log.type === 'success' ? 'text-success' :
+                        log.type === 'warning' ? 'text-warning' :
+                        'text-foreground'
+                      }>
+                        {log.message}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Report details */}
+        {run.report && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <ClipboardCheck className="h-5 w-5" />
+                Report Findings
+              </CardTitle>
+              <CardDescription>
+                Generated on {new Date(run.report.generatedAt).toLocaleString()}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {run.report.details.map((detail, index) => {
+                const result = run.complianceResults.find(r => r.id === detail.complianceResultId);
+                return (
+                  <button
+                    key={index}
+                    type="button"
+                    className="w-full text-left p-4 border border-border rounded-lg hover:border-primary/30 transition-colors"
+                    onClick={() => result && setSelectedResult(result)}
+                  >
+                    <div className="flex items-center justify-between mb-2">
+                      <span className="font-mono text-sm text-primary bg-primary/10 px-2 py-1 rounded">
+                        {detail.clauseReference}
+                      </span>
+                      {result && <StatusBadge status={result.status} />}
+                    </div>
+                    <p className="text-sm mb-2">{detail.reasoning}</p>
+                    <p className="text-xs text-muted-foreground bg-muted p-2 rounded">
+                      <strong>Action:</strong> {detail.correctiveAction}
+                    </p>
+                  </button>
+                );
+              })}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      <ComplianceResultModal
+        result={selectedResult}
+        transaction={selectedTransaction}
+        clause={selectedClause}
+        open={!!selectedResult}
+        onOpenChange={(open) => !open && setSelectedResult(null)}
+      />
+    </DashboardLayout>
+  );
+}
@@ -25,6 +25,7 @@ import {
   runAgent4Simulation,
   runAgent5Simulation
 } from "@/lib/automationData";
+import { formatMoney } from "@/lib/money";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
 
@@ -133,10 +134,10 @@ export default function AutomationPage() {
       const agent3Output = {
         transaction_analysis: txns.map(t => ({
           transaction_id: t.id,
-          amount: t.amount,
+          amount: formatMoney(t.amount),
           vendor: t.vendor,
           category: t.category,
-          tax: t.tax,
+          tax: formatMoney(t.tax),
           date: t.date,
           description: t.description
         })),
@@ -25,6 +25,8 @@ import {
   PlayCircle
 } from "lucide-react";
 import { DashboardLayout } from "@/components/dashboard/DashboardLayout";
+import { AuditChatPanel } from "@/components/agents/AuditChatPanel";
+import { TransactionImportDialog } from "@/components/agents/TransactionImportDialog";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -40,6 +42,8 @@ import { Transaction, AuditReport } from "@/contexts/PipelineContext";
 import { exportAuditReportToPdf } from "@/utils/pdfExport";
 import { usePipeline } from "@/contexts/PipelineContext";
 import * as XLSX from 'xlsx';
+import { readSpreadsheet, sheetFromJson, SourceSheet } from "@/lib/transactionImport";
+import { AuditRun, fetchAuditRunForReport } from "@/lib/auditRuns";
 
 const STEP_LABELS: Record<MasterAgentStep, { label: string; icon: React.ReactNode }> = {
   'idle': { label: 'Ready', icon: <Clock className="h-4 w-4" /> },
@@ -68,7 +72,10 @@ export default function MasterAgentPage() {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [uploadedFileName, setUploadedFileName] = useState<string>('');
-  const { complianceResults, parsedClauses } = usePipeline();
+  const [importSheet, setImportSheet] = useState<SourceSheet | null>(null);
+  const [importFileName, setImportFileName] = useState<string>('');
+  const { complianceResults, parsedClauses, auditReports, transactions: pipelineTransactions } = usePipeline();
+  const [selectedReportId, setSelectedReportId] = useState<string | null>(null);
 
   // Concurrency control: 1 = slower (safer), 5 = faster
   const [concurrencyLevel, setConcurrencyLevel] = useState<number[]>([1]); // default safe
@@ -89,6 +96,32 @@ export default function MasterAgentPage() {
     }
   });
 
+  // A freshly generated report takes precedence over one re-opened from history
+  const activeReport = finalReport ?? auditReports.find(r => r.id === selectedReportId) ?? null;
+  // The pipeline only holds the latest run's results, so a report re-opened from history
+  // reads the results, transactions and clauses it was generated from out of its run's snapshot
+  const [reopenedRun, setReopenedRun] = useState<AuditRun | null>(null);
+  useEffect(() => {
+    setReopenedRun(null);
+    if (!selectedReportId) return;
+    let cancelled = false;
+    fetchAuditRunForReport(selectedReportId)
+      .then((run) => !cancelled && setReopenedRun(run))
+      .catch((error) => console.error('Failed to load the run for this report:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedReportId]);
+  const reportRun = !finalReport && reopenedRun?.report?.id === activeReport?.id ? reopenedRun : null;
+  const reportResults = reportRun?.complianceResults ?? complianceResults;
+  const reportTransactions = reportRun?.transactions ?? pipelineTransactions;
+  const reportClauses = reportRun?.parsedClauses ?? parsedClauses;
+
+  const previousReports = useMemo(
+    () => [...auditReports].sort((a, b) => b.generatedAt.localeCompare(a.generatedAt)),
+    [auditReports]
+  );
+
   // Time estimation logic
   const [startTime, setStartTime] = useState<number | null>(null);
   const [elapsedSeconds, setElapsedSeconds] = useState(0);
@@ -166,55 +199,33 @@ export default function MasterAgentPage() {
     };
   }, [stepTimeEstimates, elapsedSeconds]);
 
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
-    setUploadedFileName(file.name);
-    const reader = new FileReader();
-
-    reader.onload = (e) => {
-      try {
-        const data = e.target?.result;
-        
-        if (file.name.endsWith('.json')) {
-          const jsonData = JSON.parse(data as string);
-          const txns = parseTransactions(Array.isArray(jsonData) ? jsonData : jsonData.transactions || [jsonData]);
-          setTransactions(txns);
-          toast({ title: `Loaded ${txns.length} transactions from JSON` });
-        } else if (file.name.endsWith('.csv') || file.name.endsWith('.xlsx') || file.name.endsWith('.xls')) {
-          const workbook = XLSX.read(data, { type: 'binary' });
-          const sheetName = workbook.SheetNames[0];
-          const worksheet = workbook.Sheets[sheetName];
-          const jsonData = XLSX.utils.sheet_to_json(worksheet);
-          const txns = parseTransactions(jsonData);
-          setTransactions(txns);
-          toast({ title: `Loaded ${txns.length} transactions from ${file.name}` });
-        } else {
-          toast({ title: 'Unsupported file format', variant: 'destructive' });
-        }
-      } catch (err) {
-        toast({ title: 'Failed to parse file', description: String(err), variant: 'destructive' });
+    try {
+      if (file.name.endsWith('.json')) {
+        setImportSheet(sheetFromJson(JSON.parse(await file.text())));
+      } else if (file.name.endsWith('.csv') || file.name.endsWith('.xlsx') || file.name.endsWith('.xls')) {
+        setImportSheet(await readSpreadsheet(file));
+      } else {
+        toast({ title: 'Unsupported file format', variant: 'destructive' });
+        return;
       }
-    };
-
-    if (file.name.endsWith('.json')) {
-      reader.readAsText(file);
-    } else {
-      reader.readAsBinaryString(file);
+      setImportFileName(file.name);
+    } catch (err) {
+      toast({ title: 'Failed to parse file', description: String(err), variant: 'destructive' });
+    } finally {
+      // Picking the same file again reopens the mapping
+      event.target.value = '';
     }
   };
 
-  const parseTransactions = (data: any[]): Transaction[] => {
-    return data.map((item, index) => ({
-      id: item.id || crypto.randomUUID(),
-      category: item.category || item.type || item.Category || 'General',
-      amount: item.amount || item.Amount || item.value || '₹0',
-      tax: item.tax || item.Tax || item.gst || '₹0',
-      vendor: item.vendor || item.Vendor || item.party || item.name || `Vendor ${index + 1}`,
-      date: item.date || item.Date || new Date().toISOString().split('T')[0],
-      description: item.description || item.Description || item.remarks || '',
-    }));
+  const handleImport = (txns: Transaction[]) => {
+    setTransactions(txns);
+    setUploadedFileName(importFileName);
+    setImportSheet(null);
+    toast({ title: `Loaded ${txns.length} transactions from ${importFileName}` });
   };
 
   const handleStartAudit = async () => {
@@ -222,36 +233,37 @@ export default function MasterAgentPage() {
       toast({ title: 'Please upload transaction data first', variant: 'destructive' });
       return;
     }
-    await runMasterAgent(transactions);
+    setSelectedReportId(null);
+    await runMasterAgent(transactions, { inputFileName: uploadedFileName || undefined });
   };
 
   const handleExportPdf = () => {
-    if (!finalReport) return;
+    if (!activeReport) return;
     exportAuditReportToPdf({
-      report: finalReport,
-      complianceResults,
-      transactions,
-      parsedClauses
+      report: activeReport,
+      complianceResults: reportResults,
+      transactions: reportRun?.transactions ?? transactions,
+      parsedClauses: reportClauses
     });
     toast({ title: 'PDF report downloaded' });
   };
 
   const handleExportExcel = () => {
-    if (!finalReport) return;
+    if (!activeReport) return;
 
     const summaryData = [
       ['Audit Report Summary'],
-      ['Generated At', new Date(finalReport.generatedAt).toLocaleString()],
-      ['Total Checks', finalReport.summary.totalChecked],
-      ['Compliant', finalReport.summary.compliant],
-      ['Violations', finalReport.summary.violations],
-      ['Warnings', finalReport.summary.warnings],
+      ['Generated At', new Date(activeReport.generatedAt).toLocaleString()],
+      ['Total Checks', activeReport.summary.totalChecked],
+      ['Compliant', activeReport.summary.compliant],
+      ['Violations', activeReport.summary.violations],
+      ['Warnings', activeReport.summary.warnings],
     ];
 
     const detailsData = [
       ['Clause Reference', 'Status', 'Reasoning', 'Corrective Action'],
-      ...finalReport.details.map(d => {
-        const result = complianceResults.find(r => r.id === d.complianceResultId);
+      ...activeReport.details.map(d => {
+        const result = reportResults.find(r => r.id === d.complianceResultId);
         return [d.clauseReference, result?.status || 'Unknown', d.reasoning, d.correctiveAction];
       })
     ];
@@ -261,13 +273,14 @@ export default function MasterAgentPage() {
     const wsDetails = XLSX.utils.aoa_to_sheet(detailsData);
     XLSX.utils.book_append_sheet(wb, wsSummary, 'Summary');
     XLSX.utils.book_append_sheet(wb, wsDetails, 'Details');
-    XLSX.writeFile(wb, `audit-report-${finalReport.generatedAt.split('T')[0]}.xlsx`);
+    XLSX.writeFile(wb, `audit-report-${activeReport.generatedAt.split('T')[0]}.xlsx`);
     
     toast({ title: 'Excel report downloaded' });
   };
 
   const handleReset = () => {
     reset();
+    setSelectedReportId(null);
     setTransactions([]);
     setUploadedFileName('');
     if (fileInputRef.current) {
@@ -305,7 +318,7 @@ export default function MasterAgentPage() {
               <p className="text-muted-foreground">Fully automated compliance audit workflow</p>
             </div>
           </div>
-          {(transactions.length > 0 || finalReport) && (
+          {(transactions.length > 0 || activeReport) && (
             <Button variant="outline" onClick={handleReset}>
               <RefreshCw className="h-4 w-4 mr-2" />
               Reset
@@ -529,6 +542,44 @@ export default function MasterAgentPage() {
                 )}
               </CardContent>
             </Card>
+
+            {/* Previous Audits (persisted per user) */}
+            {previousReports.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Previous Audits</CardTitle>
+                  <CardDescription>Re-open an earlier audit report</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ScrollArea className="max-h-64">
+                    <div className="space-y-2">
+                      {previousReports.map((report) => (
+                        <Button
+                          key={report.id}
+                          variant={activeReport?.id === report.id ? "secondary" : "ghost"}
+                          className="w-full justify-start"
+                          onClick={() => setSelectedReportId(report.id)}
+                          disabled={isRunning}
+                        >
+                          <FileText className="h-4 w-4 mr-2" />
+                          <span className="flex-1 text-left">
+                            {new Date(report.generatedAt).toLocaleString()}
+                          </span>
+                          {report.summary.violations > 0 && (
+                            <Badge variant="destructive" className="ml-2">
+                              {report.summary.violations}
+                            </Badge>
+                          )}
+                          <Badge variant="outline" className="ml-2">
+                            {report.summary.totalChecked}
+                          </Badge>
+                        </Button>
+                      ))}
+                    </div>
+                  </ScrollArea>
+                </CardContent>
+              </Card>
+            )}
           </div>
 
           {/* Right Panel - Results & Report */}
@@ -577,7 +628,7 @@ export default function MasterAgentPage() {
             </Card>
 
             {/* Final Report */}
-            {finalReport && (
+            {activeReport && (
               <Card className="border-success/30">
                 <CardHeader className="bg-gradient-to-r from-success/10 to-transparent">
                   <div className="flex items-center justify-between">
@@ -587,7 +638,7 @@ export default function MasterAgentPage() {
                         Audit Report Ready
                       </CardTitle>
                       <CardDescription>
-                        Generated on {new Date(finalReport.generatedAt).toLocaleString()}
+                        Generated on {new Date(activeReport.generatedAt).toLocaleString()}
                       </CardDescription>
                     </div>
                     <div className="flex gap-2">
@@ -606,19 +657,19 @@ export default function MasterAgentPage() {
                   {/* Summary Stats */}
                   <div className="grid grid-cols-4 gap-4 mb-6">
                     <div className="p-4 bg-muted/50 rounded-lg text-center">
-                      <div className="text-2xl font-bold">{finalReport.summary.totalChecked}</div>
+                      <div className="text-2xl font-bold">{activeReport.summary.totalChecked}</div>
                       <div className="text-xs text-muted-foreground">Total Checks</div>
                     </div>
                     <div className="p-4 bg-success/10 rounded-lg text-center border border-success/20">
-                      <div className="text-2xl font-bold text-success">{finalReport.summary.compliant}</div>
+                      <div className="text-2xl font-bold text-success">{activeReport.summary.compliant}</div>
                       <div className="text-xs text-muted-foreground">Compliant</div>
                     </div>
                     <div className="p-4 bg-destructive/10 rounded-lg text-center border border-destructive/20">
-                      <div className="text-2xl font-bold text-destructive">{finalReport.summary.violations}</div>
+                      <div className="text-2xl font-bold text-destructive">{activeReport.summary.violations}</div>
                       <div className="text-xs text-muted-foreground">Violations</div>
                     </div>
                     <div className="p-4 bg-warning/10 rounded-lg text-center border border-warning/20">
-                      <div className="text-2xl font-bold text-warning">{finalReport.summary.warnings}</div>
+                      <div className="text-2xl font-bold text-warning">{activeReport.summary.warnings}</div>
                       <div className="text-xs text-muted-foreground">Warnings</div>
                     </div>
                   </div>
@@ -628,14 +679,14 @@ export default function MasterAgentPage() {
                     <div className="flex items-center justify-between">
                       <span className="font-medium">Compliance Rate</span>
                       <span className="text-2xl font-bold">
-                        {finalReport.summary.totalChecked > 0 
-                          ? Math.round((finalReport.summary.compliant / finalReport.summary.totalChecked) * 100)
+                        {activeReport.summary.totalChecked > 0 
+                          ? Math.round((activeReport.summary.compliant / activeReport.summary.totalChecked) * 100)
                           : 0}%
                       </span>
                     </div>
                     <Progress 
-                      value={finalReport.summary.totalChecked > 0 
-                        ? (finalReport.summary.compliant / finalReport.summary.totalChecked) * 100
+                      value={activeReport.summary.totalChecked > 0 
+                        ? (activeReport.summary.compliant / activeReport.summary.totalChecked) * 100
                         : 0} 
                       className="h-2 mt-2"
                     />
@@ -646,11 +697,11 @@ export default function MasterAgentPage() {
                     <TabsList className="grid w-full grid-cols-3">
                       <TabsTrigger value="violations" className="gap-2">
                         <XCircle className="h-4 w-4" />
-                        Violations ({finalReport.summary.violations})
+                        Violations ({activeReport.summary.violations})
                       </TabsTrigger>
                       <TabsTrigger value="warnings" className="gap-2">
                         <AlertTriangle className="h-4 w-4" />
-                        Warnings ({finalReport.summary.warnings})
+                        Warnings ({activeReport.summary.warnings})
                       </TabsTrigger>
                       <TabsTrigger value="all" className="gap-2">
                         <FileText className="h-4 w-4" />
@@ -661,9 +712,9 @@ export default function MasterAgentPage() {
                     <TabsContent value="violations" className="mt-4">
                       <ScrollArea className="h-64">
                         <div className="space-y-3">
-                          {finalReport.details
+                          {activeReport.details
                             .filter(d => {
-                              const result = complianceResults.find(r => r.id === d.complianceResultId);
+                              const result = reportResults.find(r => r.id === d.complianceResultId);
                               return result?.status === 'violation';
                             })
                             .map((detail, i) => (
@@ -677,7 +728,7 @@ export default function MasterAgentPage() {
                                 </p>
                               </div>
                             ))}
-                          {finalReport.summary.violations === 0 && (
+                          {activeReport.summary.violations === 0 && (
                             <div className="text-center py-8 text-muted-foreground">
                               <CheckCircle2 className="h-8 w-8 mx-auto mb-2 text-success" />
                               No violations found!
@@ -690,9 +741,9 @@ export default function MasterAgentPage() {
                     <TabsContent value="warnings" className="mt-4">
                       <ScrollArea className="h-64">
                         <div className="space-y-3">
-                          {finalReport.details
+                          {activeReport.details
                             .filter(d => {
-                              const result = complianceResults.find(r => r.id === d.complianceResultId);
+                              const result = reportResults.find(r => r.id === d.complianceResultId);
                               return result?.status === 'warning' || result?.status === 'missing_docs';
                             })
                             .map((detail, i) => (
@@ -706,7 +757,7 @@ export default function MasterAgentPage() {
                                 </p>
                               </div>
                             ))}
-                          {finalReport.summary.warnings === 0 && (
+                          {activeReport.summary.warnings === 0 && (
                             <div className="text-center py-8 text-muted-foreground">
                               <CheckCircle2 className="h-8 w-8 mx-auto mb-2 text-success" />
                               No warnings found!
@@ -719,8 +770,8 @@ export default function MasterAgentPage() {
                     <TabsContent value="all" className="mt-4">
                       <ScrollArea className="h-64">
                         <div className="space-y-3">
-                          {finalReport.details.slice(0, 20).map((detail, i) => {
-                            const result = complianceResults.find(r => r.id === detail.complianceResultId);
+                          {activeReport.details.slice(0, 20).map((detail, i) => {
+                            const result = reportResults.find(r => r.id === detail.complianceResultId);
                             return (
                               <div key={i} className="p-3 border rounded-lg">
                                 <div className="flex items-center gap-2 mb-2">
@@ -745,8 +796,19 @@ export default function MasterAgentPage() {
               </Card>
             )}
 
+            {/* Questions about the report */}
+            {activeReport && !isRunning && (
+              <AuditChatPanel
+                key={activeReport.id}
+                report={activeReport}
+                results={reportResults}
+                transactions={reportTransactions}
+                clauses={reportClauses}
+              />
+            )}
+
             {/* Empty State */}
-            {!finalReport && !isRunning && (
+            {!activeReport && !isRunning && (
               <Card className="border-dashed">
                 <CardContent className="py-12 text-center">
                   <Cpu className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
@@ -778,6 +840,13 @@ export default function MasterAgentPage() {
           </div>
         </div>
       </div>
+
+      <TransactionImportDialog
+        sheet={importSheet}
+        fileName={importFileName}
+        onOpenChange={(open) => !open && setImportSheet(null)}
+        onImport={handleImport}
+      />
     </DashboardLayout>
   );
 }
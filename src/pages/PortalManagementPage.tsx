@@ -0,0 +1,266 @@
+import { useEffect, useState } from "react";
+import { Globe, Loader2, Plus, Pencil, Trash2, ExternalLink, CalendarClock, ShieldX } from "lucide-react";
+import { DashboardLayout } from "@/components/dashboard/DashboardLayout";
+import { DataTable } from "@/components/dashboard/DataTable";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Switch } from "@/components/ui/switch";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { PortalFormDialog } from "@/components/agents/PortalFormDialog";
+import { useToast } from "@/hooks/use-toast";
+import { describeCrawlSchedule } from "@/lib/crawlJobs";
+import {
+  createPortal,
+  deletePortal,
+  fetchAllPortals,
+  fetchPortalAccess,
+  PortalInput,
+  RegulationPortal,
+  updatePortal,
+} from "@/lib/portals";
+
+export default function PortalManagementPage() {
+  const { toast } = useToast();
+  const [portals, setPortals] = useState<RegulationPortal[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingPortal, setEditingPortal] = useState<RegulationPortal | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [portalToDelete, setPortalToDelete] = useState<RegulationPortal | null>(null);
+  // Null until checked; portals are read-only for everyone but portal admins
+  const [canManage, setCanManage] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    fetchAllPortals()
+      .then(setPortals)
+      .catch((error) => {
+        console.error("Error loading portals:", error);
+        toast({ title: "Failed to load portals", variant: "destructive" });
+      })
+      .finally(() => setLoading(false));
+
+    fetchPortalAccess()
+      .then(setCanManage)
+      .catch((error) => {
+        console.error("Error checking portal access:", error);
+        setCanManage(false);
+      });
+  }, [toast]);
+
+  const replacePortal = (saved: RegulationPortal) =>
+    setPortals((prev) =>
+      prev.some((p) => p.id === saved.id)
+        ? prev.map((p) => (p.id === saved.id ? saved : p))
+        : [...prev, saved].sort((a, b) => a.name.localeCompare(b.name))
+    );
+
+  const openForm = (portal: RegulationPortal | null) => {
+    setEditingPortal(portal);
+    setFormOpen(true);
+  };
+
+  const handleSubmit = async (input: PortalInput) => {
+    try {
+      const saved = editingPortal ? await updatePortal(editingPortal.id, input) : await createPortal(input);
+      replacePortal(saved);
+      setFormOpen(false);
+      toast({ title: editingPortal ? "Portal updated" : "Portal added", description: saved.name });
+    } catch (error) {
+      toast({
+        title: "Failed to save portal",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleToggleActive = async (portal: RegulationPortal, isActive: boolean) => {
+    try {
+      replacePortal(await updatePortal(portal.id, { is_active: isActive }));
+      toast({ title: isActive ? "Portal activated" : "Portal deactivated", description: portal.name });
+    } catch (error) {
+      toast({
+        title: "Failed to update portal",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!portalToDelete) return;
+    try {
+      await deletePortal(portalToDelete.id);
+      setPortals((prev) => prev.filter((p) => p.id !== portalToDelete.id));
+      toast({ title: "Portal deleted", description: portalToDelete.name });
+    } catch (error) {
+      toast({
+        title: "Failed to delete portal",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setPortalToDelete(null);
+    }
+  };
+
+  const columns = [
+    {
+      key: "name",
+      header: "Portal",
+      render: (portal: RegulationPortal) => (
+        <div className="max-w-[280px]">
+          <p className="font-medium text-sm">{portal.name}</p>
+          <a
+            href={portal.base_url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-xs text-muted-foreground hover:text-primary flex items-center gap-1 truncate"
+          >
+            {portal.base_url}
+            <ExternalLink className="h-3 w-3 shrink-0" />
+          </a>
+        </div>
+      ),
+    },
+    {
+      key: "category",
+      header: "Category",
+      render: (portal: RegulationPortal) => <Badge variant="outline" className="text-xs">{portal.category}</Badge>,
+    },
+    {
+      key: "crawl_schedule",
+      header: "Schedule",
+      render: (portal: RegulationPortal) => (
+        <div className="text-sm">
+          <div className="flex items-center gap-1">
+            <CalendarClock className="h-3 w-3 text-muted-foreground" />
+            {describeCrawlSchedule(portal.crawl_schedule)}
+          </div>
+          <div className="text-xs text-muted-foreground">
+            {portal.last_crawled_at ? `Last crawled ${new Date(portal.last_crawled_at).toLocaleString()}` : "Not crawled"}
+          </div>
+        </div>
+      ),
+    },
+    {
+      key: "settings",
+      header: "Crawl Settings",
+      render: (portal: RegulationPortal) => (
+        <div className="text-xs text-muted-foreground space-y-0.5">
+          <div>{portal.max_urls} of {portal.map_limit} mapped URLs</div>
+          <div>
+            {portal.include_patterns.length} include • {portal.exclude_patterns.length} exclude patterns
+          </div>
+        </div>
+      ),
+    },
+    {
+      key: "is_active",
+      header: "Active",
+      render: (portal: RegulationPortal) => (
+        <Switch
+          checked={portal.is_active}
+          disabled={!canManage}
+          onCheckedChange={(checked) => handleToggleActive(portal, checked)}
+          aria-label={`${portal.is_active ? "Deactivate" : "Activate"} ${portal.name}`}
+        />
+      ),
+    },
+    {
+      key: "actions",
+      header: "",
+      render: (portal: RegulationPortal) => (
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="icon" onClick={() => openForm(portal)} disabled={!canManage} title="Edit portal">
+            <Pencil className="h-4 w-4 text-muted-foreground hover:text-primary" />
+          </Button>
+          <Button variant="ghost" size="icon" onClick={() => setPortalToDelete(portal)} disabled={!canManage} title="Delete portal">
+            <Trash2 className="h-4 w-4 text-muted-foreground hover:text-destructive" />
+          </Button>
+        </div>
+      ),
+    },
+  ];
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold flex items-center gap-2">
+              <Globe className="h-8 w-8 text-primary" />
+              Regulation Portals
+            </h1>
+            <p className="text-muted-foreground mt-1">
+              Choose which regulator sites are crawled, how often, and which of their pages are indexed
+            </p>
+          </div>
+          <Button onClick={() => openForm(null)} disabled={!canManage} className="gap-2">
+            <Plus className="h-4 w-4" />
+            Add Portal
+          </Button>
+        </div>
+
+        {canManage === false && (
+          <Alert>
+            <ShieldX className="h-4 w-4" />
+            <AlertTitle>You are not a portal admin</AlertTitle>
+            <AlertDescription>
+              Portals are shared by every workspace, so only the emails listed in the PORTAL_ADMIN_EMAILS function
+              secret can add, change or delete them. You can still view them here.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Portals</CardTitle>
+            <CardDescription>
+              {portals.filter((p) => p.is_active).length} active of {portals.length} portal(s)
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex items-center justify-center h-32">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : (
+              <DataTable data={portals} columns={columns} emptyMessage="No portals yet. Add one to start crawling." />
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <PortalFormDialog portal={editingPortal} open={formOpen} onOpenChange={setFormOpen} onSubmit={handleSubmit} />
+
+      <AlertDialog open={!!portalToDelete} onOpenChange={(open) => !open && setPortalToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {portalToDelete?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The portal, its schedule and its crawl history are removed. Regulations already indexed from it are kept.
+              Deactivate the portal instead to pause crawling.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </DashboardLayout>
+  );
+}
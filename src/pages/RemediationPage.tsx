@@ -0,0 +1,215 @@
+import { useCallback, useEffect, useState } from "react";
+import { ListChecks, Loader2, AlertTriangle, CalendarClock, User, Plus } from "lucide-react";
+import { DashboardLayout } from "@/components/dashboard/DashboardLayout";
+import { RemediationTaskDialog } from "@/components/dashboard/RemediationTaskDialog";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { usePipeline } from "@/contexts/PipelineContext";
+import { useOrganization } from "@/contexts/OrganizationContext";
+import { AUDIT_ROLES } from "@/lib/organizations";
+import {
+  createRemediationTasks,
+  fetchRemediationTasks,
+  isClosed,
+  isOverdue,
+  REMEDIATION_STATUSES,
+  RemediationTask,
+} from "@/lib/remediation";
+
+const priorityColors = {
+  low: "bg-success/10 text-success border-success/20",
+  medium: "bg-warning/10 text-warning border-warning/20",
+  high: "bg-destructive/10 text-destructive border-destructive/20",
+};
+
+const PRIORITY_ORDER = { high: 0, medium: 1, low: 2 };
+
+export default function RemediationPage() {
+  const { toast } = useToast();
+  const { auditReports, complianceResults, transactions } = usePipeline();
+  const { role } = useOrganization();
+  const canCreate = role !== null && AUDIT_ROLES.includes(role);
+  const [tasks, setTasks] = useState<RemediationTask[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [ownerFilter, setOwnerFilter] = useState("");
+  const [onlyOverdue, setOnlyOverdue] = useState(false);
+  const [selectedTask, setSelectedTask] = useState<RemediationTask | null>(null);
+
+  const loadTasks = useCallback(
+    () =>
+      fetchRemediationTasks()
+        .then(setTasks)
+        .catch((error) => {
+          console.error("Error loading remediation tasks:", error);
+          toast({ title: "Failed to load remediation tasks", variant: "destructive" });
+        })
+        .finally(() => setLoading(false)),
+    [toast]
+  );
+
+  useEffect(() => {
+    loadTasks();
+  }, [loadTasks]);
+
+  const latestReport = auditReports[auditReports.length - 1];
+
+  const handleCreateFromReport = async () => {
+    if (!latestReport) return;
+    setIsCreating(true);
+    try {
+      const count = await createRemediationTasks(latestReport, complianceResults, transactions);
+      toast({
+        title: count > 0 ? `${count} remediation task(s) opened` : "Every finding in the latest report already has a task",
+      });
+      await loadTasks();
+    } catch (error) {
+      toast({
+        title: "Failed to create tasks",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const owner = ownerFilter.trim().toLowerCase();
+  const visible = tasks.filter(
+    (task) => (!owner || task.owner.toLowerCase().includes(owner)) && (!onlyOverdue || isOverdue(task))
+  );
+  const overdueCount = tasks.filter((task) => isOverdue(task)).length;
+  const openCount = tasks.filter((task) => !isClosed(task)).length;
+
+  const columnTasks = (status: RemediationTask["status"]) =>
+    visible
+      .filter((task) => task.status === status)
+      .sort((a, b) => a.dueDate.localeCompare(b.dueDate) || PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority]);
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold flex items-center gap-2">
+              <ListChecks className="h-8 w-8 text-primary" />
+              Remediation
+            </h1>
+            <p className="text-muted-foreground mt-1">
+              Track audit findings to closure: every violation and missing document gets an owner and a due date
+            </p>
+          </div>
+          {canCreate && (
+            <Button onClick={handleCreateFromReport} disabled={!latestReport || isCreating}>
+              {isCreating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+              Tasks from latest report
+            </Button>
+          )}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Findings</CardTitle>
+            <CardDescription>
+              {openCount} open task(s)
+              {overdueCount > 0 && <span className="text-destructive"> · {overdueCount} overdue</span>}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="remediation-owner">Owner</Label>
+                <Input
+                  id="remediation-owner"
+                  placeholder="Filter by owner"
+                  value={ownerFilter}
+                  onChange={(e) => setOwnerFilter(e.target.value)}
+                  className="w-[220px]"
+                />
+              </div>
+              <div className="flex items-center gap-2 h-10">
+                <Switch id="remediation-overdue" checked={onlyOverdue} onCheckedChange={setOnlyOverdue} />
+                <Label htmlFor="remediation-overdue">Only overdue</Label>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-32">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : tasks.length === 0 ? (
+          <div className="border border-border rounded-lg p-8 text-center text-muted-foreground">
+            No remediation tasks yet. Tasks are opened for violations and missing documents when an audit completes.
+          </div>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-4">
+            {REMEDIATION_STATUSES.map(({ status, label }) => {
+              const items = columnTasks(status);
+              return (
+                <div key={status} className="rounded-lg border border-border bg-muted/30 p-3 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <h2 className="font-semibold text-sm">{label}</h2>
+                    <Badge variant="secondary">{items.length}</Badge>
+                  </div>
+                  {items.map((task) => {
+                    const overdue = isOverdue(task);
+                    return (
+                      <button
+                        key={task.id}
+                        type="button"
+                        onClick={() => setSelectedTask(task)}
+                        className={`w-full text-left rounded-lg border bg-card p-3 space-y-2 hover:border-primary transition-colors ${
+                          overdue ? "border-destructive bg-destructive/5" : "border-border"
+                        }`}
+                      >
+                        <div className="flex items-center gap-2 flex-wrap">
+                          <Badge variant="outline" className={priorityColors[task.priority]}>
+                            {task.priority}
+                          </Badge>
+                          <span className="font-mono text-xs text-muted-foreground">{task.clauseReference}</span>
+                          {overdue && (
+                            <Badge variant="destructive" className="gap-1 ml-auto">
+                              <AlertTriangle className="h-3 w-3" />
+                              Overdue
+                            </Badge>
+                          )}
+                        </div>
+                        <p className="font-medium text-sm">{task.vendor || "Audit finding"}</p>
+                        <p className="text-xs text-muted-foreground line-clamp-3">{task.finding}</p>
+                        <div className="flex items-center justify-between text-xs text-muted-foreground">
+                          <span className="flex items-center gap-1 truncate">
+                            <User className="h-3 w-3" />
+                            {task.owner || "Unassigned"}
+                          </span>
+                          <span className={`flex items-center gap-1 ${overdue ? "text-destructive font-medium" : ""}`}>
+                            <CalendarClock className="h-3 w-3" />
+                            {task.dueDate}
+                          </span>
+                        </div>
+                      </button>
+                    );
+                  })}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <RemediationTaskDialog
+        task={selectedTask}
+        open={!!selectedTask}
+        onOpenChange={(open) => !open && setSelectedTask(null)}
+        onSaved={(saved) => setTasks((current) => current.map((t) => (t.id === saved.id ? saved : t)))}
+        onDeleted={(id) => setTasks((current) => current.filter((t) => t.id !== id))}
+      />
+    </DashboardLayout>
+  );
+}
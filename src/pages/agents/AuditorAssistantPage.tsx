@@ -13,6 +13,8 @@ import { useNavigate } from "react-router-dom";
 import { AuditReportStatsCards } from "@/components/agents/AuditReportStatsCards";
 import { useStreamingAgent } from "@/hooks/useStreamingAgent";
 import { exportAuditReportToPdf } from "@/utils/pdfExport";
+import { formatMoney } from "@/lib/money";
+import { isLocalCheck } from "@/lib/localChecks";
 
 export default function AuditorAssistantPage() {
   const { 
@@ -51,8 +53,8 @@ export default function AuditorAssistantPage() {
           status: r.status,
           risk: r.riskLevel,
           reasoning: r.reasoning,
-          transaction: tx ? `${tx.vendor} - ${tx.amount}` : 'Unknown',
-          clause: clause?.clauseId || 'Unknown'
+          transaction: tx ? `${tx.vendor} - ${formatMoney(tx.amount)}` : 'Unknown',
+          clause: clause?.clauseId || (isLocalCheck(r.clauseId) ? r.clauseId : 'Unknown')
         };
       })
     });
@@ -70,7 +72,7 @@ export default function AuditorAssistantPage() {
         const clause = parsedClauses.find(c => c.id === r.clauseId);
         return {
           complianceResultId: r.id,
-          clauseReference: clause?.clauseId || 'Unknown',
+          clauseReference: clause?.clauseId || (isLocalCheck(r.clauseId) ? r.clauseId : 'Unknown'),
           reasoning: r.reasoning,
           correctiveAction: r.status === 'violation' 
             ? "Immediate review required. Implement controls and document remediation steps."
@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { GitCompare, Loader2, Sparkles, Eye } from "lucide-react";
+import { GitCompare, Loader2, Sparkles, Eye, Percent } from "lucide-react";
 import { DashboardLayout } from "@/components/dashboard/DashboardLayout";
 import { AgentPageHeader } from "@/components/dashboard/AgentPageHeader";
 import { DataTable, StatusBadge } from "@/components/dashboard/DataTable";
@@ -10,7 +10,12 @@ import { useToast } from "@/hooks/use-toast";
 import { useNavigate } from "react-router-dom";
 import { ComplianceStatsCards } from "@/components/agents/ComplianceStatsCards";
 import { ComplianceResultModal } from "@/components/agents/ComplianceResultModal";
-import { useStreamingAgent } from "@/hooks/useStreamingAgent";
+import { GstRateTableDialog } from "@/components/agents/GstRateTableDialog";
+import { useStructuredAgent } from "@/hooks/useStructuredAgent";
+import { evaluateClause } from "@/lib/ruleEngine";
+import { loadLocalCheckContext, runLocalChecks } from "@/lib/localChecks";
+import { toComplianceResult, StructuredAgentError } from "@/lib/structuredAgents";
+import { findOutdatedClauses } from "@/lib/clauseCache";
 
 export default function ComplianceMappingPage() {
   const { 
@@ -18,6 +23,7 @@ export default function ComplianceMappingPage() {
     parsedClauses, 
     complianceResults, 
     addComplianceResults,
+    updateComplianceResult,
   } = usePipeline();
   const { toast } = useToast();
   const navigate = useNavigate();
@@ -26,40 +32,10 @@ export default function ComplianceMappingPage() {
   const [selectedResult, setSelectedResult] = useState<ComplianceResult | null>(null);
   const [processingCount, setProcessingCount] = useState({ current: 0, total: 0 });
   const [currentCheck, setCurrentCheck] = useState<string>('');
+  const [showGstRates, setShowGstRates] = useState(false);
 
-  const { response, isLoading, runAgent, clearResponse } = useStreamingAgent({
-    onComplete: () => {}
-  });
-
-  const parseAIResponse = (aiResponse: string, transactionId: string, clauseId: string): ComplianceResult => {
-    const lowerResponse = aiResponse.toLowerCase();
-    
-    let status: ComplianceResult['status'] = 'warning';
-    if (lowerResponse.includes('compliant') && !lowerResponse.includes('non-compliant') && !lowerResponse.includes('not compliant')) {
-      status = 'compliant';
-    } else if (lowerResponse.includes('violation') || lowerResponse.includes('non-compliant') || lowerResponse.includes('not compliant')) {
-      status = 'violation';
-    } else if (lowerResponse.includes('missing') && lowerResponse.includes('document')) {
-      status = 'missing_docs';
-    }
-
-    let riskLevel: ComplianceResult['riskLevel'] = 'medium';
-    if (lowerResponse.includes('high risk') || lowerResponse.includes('critical') || lowerResponse.includes('severe')) {
-      riskLevel = 'high';
-    } else if (lowerResponse.includes('low risk') || lowerResponse.includes('minor') || lowerResponse.includes('compliant')) {
-      riskLevel = 'low';
-    }
-
-    return {
-      id: crypto.randomUUID(),
-      transactionId,
-      clauseId,
-      status,
-      riskLevel,
-      reasoning: aiResponse.slice(0, 500) || 'Compliance analysis completed based on regulatory framework.',
-      missingDocs: status === 'missing_docs' ? ['Supporting documentation required'] : undefined
-    };
-  };
+  const { runAgent, clearError } = useStructuredAgent();
+  const isChecking = processingCount.total > 0;
 
   const handleCheckCompliance = async () => {
     if (selectedTxIds.length === 0 || selectedClauseIds.length === 0) {
@@ -71,21 +47,49 @@ export default function ComplianceMappingPage() {
     }
 
     const selectedTxs = transactions.filter(t => selectedTxIds.includes(t.id));
-    const selectedClauses = parsedClauses.filter(c => selectedClauseIds.includes(c.id));
+
+    // Never audit against clauses parsed from an earlier version of a regulation
+    const outdatedIds = await findOutdatedClauses(parsedClauses.filter(c => selectedClauseIds.includes(c.id)))
+      .catch(() => new Set<string>());
+    const selectedClauses = parsedClauses.filter(c => selectedClauseIds.includes(c.id) && !outdatedIds.has(c.id));
+    if (outdatedIds.size > 0) {
+      toast({
+        title: `Skipped ${outdatedIds.size} outdated clause(s)`,
+        description: "Their regulation changed after parsing. Re-parse it in Legal Parsing to include them.",
+        variant: "destructive",
+      });
+    }
+    if (selectedClauses.length === 0) return;
     const total = selectedTxs.length * selectedClauses.length;
     setProcessingCount({ current: 0, total });
 
-    clearResponse();
+    clearError();
     const results: ComplianceResult[] = [];
 
+    // TDS thresholds and split purchases count every payment to the payee, not just the selected ones
+    const localCheckContext = await loadLocalCheckContext(transactions);
     for (const tx of selectedTxs) {
+      const localResults = runLocalChecks(tx, localCheckContext);
+      if (localResults.length > 0) {
+        results.push(...localResults);
+        addComplianceResults(localResults);
+      }
+
       for (const clause of selectedClauses) {
         setProcessingCount(prev => ({ ...prev, current: prev.current + 1 }));
         setCurrentCheck(`${tx.vendor} → ${clause.clauseId}`);
+
+        const ruleResult = evaluateClause(clause, tx);
+        if (ruleResult === 'not_applicable') continue;
+        if (ruleResult) {
+          results.push(ruleResult);
+          addComplianceResults([ruleResult]);
+          continue;
+        }
         
-        let aiResponse = '';
+        let result: ComplianceResult;
         try {
-          aiResponse = await runAgent('agent-compliance-mapping', {
+          const assessment = await runAgent('agent-compliance-mapping', {
             transaction: {
               id: tx.id,
               category: tx.category,
@@ -102,11 +106,21 @@ export default function ComplianceMappingPage() {
               penalties: clause.penalties
             }
           });
+          result = toComplianceResult(assessment, tx.id, clause.id);
         } catch (err) {
-          aiResponse = 'Unable to complete automated compliance check. Manual review required.';
+          const detail = err instanceof StructuredAgentError && err.validationErrors.length > 0
+            ? ` Invalid AI response: ${err.validationErrors.join('; ')}`
+            : '';
+          result = {
+            id: crypto.randomUUID(),
+            transactionId: tx.id,
+            clauseId: clause.id,
+            status: 'warning',
+            riskLevel: 'medium',
+            reasoning: `Unable to complete automated compliance check. Manual review required.${detail}`,
+          };
         }
 
-        const result = parseAIResponse(aiResponse || response, tx.id, clause.id);
         results.push(result);
         addComplianceResults([result]);
       }
@@ -221,7 +235,7 @@ export default function ComplianceMappingPage() {
           )}
 
           {/* AI Processing Indicator */}
-          {isLoading && (
+          {isChecking && (
             <Card className="border-primary/30 bg-gradient-to-br from-primary/5 to-transparent">
               <CardContent className="py-4">
                 <div className="flex items-center gap-3">
@@ -231,7 +245,7 @@ export default function ComplianceMappingPage() {
                       Processing compliance check {processingCount.current} of {processingCount.total}
                     </p>
                     <p className="text-xs text-muted-foreground mt-1 line-clamp-2">
-                      {response || "Analyzing transaction against regulatory clause..."}
+                      {currentCheck || "Analyzing transaction against regulatory clause..."}
                     </p>
                   </div>
                 </div>
@@ -277,14 +291,14 @@ export default function ComplianceMappingPage() {
             </Card>
           </div>
 
-          <div className="flex justify-center">
+          <div className="flex justify-center gap-3">
             <Button 
               size="lg"
               onClick={handleCheckCompliance}
-              disabled={isLoading || selectedTxIds.length === 0 || selectedClauseIds.length === 0}
+              disabled={isChecking || selectedTxIds.length === 0 || selectedClauseIds.length === 0}
               className="min-w-[280px]"
             >
-              {isLoading ? (
+              {isChecking ? (
                 <>
                   <Loader2 className="h-4 w-4 mr-2 animate-spin" />
                   Checking Compliance...
@@ -296,6 +310,10 @@ export default function ComplianceMappingPage() {
                 </>
               )}
             </Button>
+            <Button size="lg" variant="outline" onClick={() => setShowGstRates(true)}>
+              <Percent className="h-4 w-4 mr-2" />
+              GST Rates
+            </Button>
           </div>
 
           <Card>
@@ -322,7 +340,10 @@ export default function ComplianceMappingPage() {
         clause={selectedResult ? parsedClauses.find(c => c.id === selectedResult.clauseId) || null : null}
         open={!!selectedResult}
         onOpenChange={(open) => !open && setSelectedResult(null)}
+        onResolve={updateComplianceResult}
       />
+
+      <GstRateTableDialog open={showGstRates} onOpenChange={setShowGstRates} />
     </DashboardLayout>
   );
 }
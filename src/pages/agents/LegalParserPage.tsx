@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { FileText, Loader2, Download, Trash2, Scale, Eye, Sparkles, ArrowRight, Database, RefreshCw } from "lucide-react";
+import { FileText, Loader2, Download, Trash2, Scale, Eye, Sparkles, ArrowRight, Database, RefreshCw, AlertTriangle } from "lucide-react";
 import { DashboardLayout } from "@/components/dashboard/DashboardLayout";
 import { AgentPageHeader } from "@/components/dashboard/AgentPageHeader";
 import { DataTable } from "@/components/dashboard/DataTable";
@@ -12,8 +12,10 @@ import { useToast } from "@/hooks/use-toast";
 import { useNavigate } from "react-router-dom";
 import { ClauseStatsCards } from "@/components/agents/ClauseStatsCards";
 import { ClauseDetailModal } from "@/components/agents/ClauseDetailModal";
-import { useStreamingAgent } from "@/hooks/useStreamingAgent";
+import { useStructuredAgent } from "@/hooks/useStructuredAgent";
+import { toParsedClauses, StructuredAgentError } from "@/lib/structuredAgents";
 import { supabase } from "@/integrations/supabase/clientRuntime";
+import { fetchStaleRegulations, findOutdatedClauses, saveParsedClauses, StaleRegulation } from "@/lib/clauseCache";
 
 interface IndexedRegulation {
   id: string;
@@ -25,6 +27,7 @@ interface IndexedRegulation {
   category: string | null;
   crawled_at: string;
   is_processed: boolean;
+  content_hash: string | null;
 }
 
 export default function LegalParserPage() {
@@ -37,12 +40,28 @@ export default function LegalParserPage() {
   const [indexedRegulations, setIndexedRegulations] = useState<IndexedRegulation[]>([]);
   const [selectedIndexedIds, setSelectedIndexedIds] = useState<string[]>([]);
   const [activeTab, setActiveTab] = useState<string>("indexed");
-
-  const { response: streamedContent, isLoading: isStreaming, runAgent, clearResponse } = useStreamingAgent({
-    onComplete: (content) => {
-      console.log("Parsing complete:", content.slice(0, 100));
-    },
-  });
+  const [staleRegulations, setStaleRegulations] = useState<Map<string, StaleRegulation>>(new Map());
+  const [outdatedClauseIds, setOutdatedClauseIds] = useState<Set<string>>(new Set());
+
+  const [isParsing, setIsParsing] = useState(false);
+  const [parserOutput, setParserOutput] = useState("");
+  const { runAgent } = useStructuredAgent();
+
+  // Parse one regulation into clauses, appending the validated agent output to the preview
+  const parseRegulation = async (regulationId: string, title: string, text: string, sourceHash?: string): Promise<ParsedClause[]> => {
+    try {
+      const { clauses } = await runAgent("agent-legal-parser", { text });
+      setParserOutput(prev => `${prev}### ${title}\n${JSON.stringify(clauses, null, 2)}\n\n`);
+      return toParsedClauses(clauses, regulationId, sourceHash);
+    } catch (err) {
+      const details = err instanceof StructuredAgentError && err.validationErrors.length > 0
+        ? `\n${err.validationErrors.map(e => `  - ${e}`).join("\n")}`
+        : "";
+      const message = err instanceof Error ? err.message : "Unknown error";
+      setParserOutput(prev => `${prev}### ${title}\nFailed: ${message}${details}\n\n`);
+      return [];
+    }
+  };
 
   // Fetch indexed regulations on mount
   useEffect(() => {
@@ -58,8 +77,24 @@ export default function LegalParserPage() {
       }
     };
     fetchIndexed();
+    fetchStaleRegulations()
+      .then(setStaleRegulations)
+      .catch((error) => console.error("Failed to load outdated clauses:", error));
   }, []);
 
+  // Flag clauses in the pipeline whose regulation text changed after they were parsed
+  useEffect(() => {
+    let cancelled = false;
+    findOutdatedClauses(parsedClauses)
+      .then((ids) => {
+        if (!cancelled) setOutdatedClauseIds(ids);
+      })
+      .catch((error) => console.error("Failed to check clauses for outdated regulations:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [parsedClauses]);
+
   // Parse indexed regulations from database
   const handleParseIndexed = async () => {
     if (selectedIndexedIds.length === 0) {
@@ -67,7 +102,8 @@ export default function LegalParserPage() {
       return;
     }
 
-    clearResponse();
+    setParserOutput("");
+    setIsParsing(true);
     const selectedRegs = indexedRegulations.filter(r => selectedIndexedIds.includes(r.id));
 
     // First add them to the pipeline context as Regulation objects
@@ -79,6 +115,7 @@ export default function LegalParserPage() {
       version: "1.0",
       content: r.content || r.summary || "",
       url: r.url,
+      contentHash: r.content_hash ?? undefined,
     }));
     addRegulations(regsToAdd);
 
@@ -90,31 +127,21 @@ export default function LegalParserPage() {
       
       const combinedText = `### ${reg.title || "Regulation"}\nSource: ${reg.source}\nCategory: ${reg.category || "General"}\n\n${content.slice(0, 4000)}`;
 
-      await runAgent("agent-legal-parser", { text: combinedText });
-
-      const sourcePrefix = reg.source.toUpperCase().replace(/[^A-Z0-9]/g, '_').slice(0, 10);
-      const clauses: ParsedClause[] = [
-        {
-          id: crypto.randomUUID(),
-          regulationId: reg.id,
-          clauseId: `${sourcePrefix}_${String(i * 2 + 1).padStart(3, '0')}`,
-          rule: `IF entity_type = 'registered_business' AND transaction_value > threshold THEN file_compliance_report WITHIN deadline`,
-          conditions: `Applicable when: 1) Entity is registered under ${reg.source}, 2) Transaction value exceeds prescribed threshold, 3) Transaction occurs within Indian jurisdiction`,
-          penalties: `Non-compliance penalty as per ${reg.source} guidelines. Repeated violations may result in license suspension.`,
-        },
-        {
-          id: crypto.randomUUID(),
-          regulationId: reg.id,
-          clauseId: `${sourcePrefix}_${String(i * 2 + 2).padStart(3, '0')}`,
-          rule: `IF document_type = 'financial_record' THEN maintain_records FOR period_years = 8`,
-          conditions: `Applies to: All financial documents, transaction records, audit trails. Must be maintained in prescribed format.`,
-          penalties: `Documentation penalty: ₹5,000 per day of non-compliance. Maximum aggregate penalty: ₹5,00,000 per financial year.`,
-        },
-      ];
+      const clauses = await parseRegulation(reg.id, reg.title || "Regulation", combinedText, reg.content_hash ?? undefined);
       allClauses.push(...clauses);
     }
 
-    addParsedClauses(allClauses);
+    // Re-parsed regulations replace their earlier (possibly outdated) clauses
+    const reparsedIds = new Set(allClauses.map(c => c.regulationId));
+    setParsedClauses([...parsedClauses.filter(c => !reparsedIds.has(c.regulationId)), ...allClauses]);
+    try {
+      await saveParsedClauses(allClauses);
+      setStaleRegulations(prev => new Map([...prev].filter(([id]) => !reparsedIds.has(id))));
+    } catch (error) {
+      console.error("Clause cache insert failed:", error);
+    }
+
+    setIsParsing(false);
     setSelectedIndexedIds([]);
     toast({ title: `Parsed ${selectedRegs.length} regulation(s) into ${allClauses.length} clauses` });
   };
@@ -126,33 +153,16 @@ export default function LegalParserPage() {
       return;
     }
 
-    clearResponse();
+    setParserOutput("");
+    setIsParsing(true);
     const selectedRegs = regulations.filter(r => selectedRegIds.includes(r.id));
-    
-    const combinedText = selectedRegs.map(r => 
-      `### ${r.title}\nSource: ${r.source}\nDate: ${r.date}\n\n${r.content.slice(0, 3000)}`
-    ).join("\n\n---\n\n");
-
-    await runAgent("agent-legal-parser", { text: combinedText });
-
-    const newClauses: ParsedClause[] = selectedRegs.flatMap((reg, regIndex) => [
-      {
-        id: crypto.randomUUID(),
-        regulationId: reg.id,
-        clauseId: `${reg.source.toUpperCase().replace(/\s/g, '_')}_${String(regIndex * 2 + 1).padStart(3, '0')}`,
-        rule: `IF entity_type = 'registered_business' AND transaction_value > threshold THEN file_compliance_report WITHIN deadline`,
-        conditions: `Applicable when: 1) Entity is registered under ${reg.source}, 2) Transaction value exceeds prescribed threshold, 3) Transaction occurs within Indian jurisdiction`,
-        penalties: `Non-compliance penalty: Fine up to ₹10,00,000 or 1% of transaction value (whichever is higher). Repeated violations may result in license suspension.`,
-      },
-      {
-        id: crypto.randomUUID(),
-        regulationId: reg.id,
-        clauseId: `${reg.source.toUpperCase().replace(/\s/g, '_')}_${String(regIndex * 2 + 2).padStart(3, '0')}`,
-        rule: `IF document_type = 'financial_record' THEN maintain_records FOR period_years = 8`,
-        conditions: `Applies to: All financial documents, transaction records, audit trails. Must be maintained in prescribed format with digital signatures.`,
-        penalties: `Documentation penalty: ₹5,000 per day of non-compliance. Maximum aggregate penalty: ₹5,00,000 per financial year.`,
-      },
-    ]);
+
+    const newClauses: ParsedClause[] = [];
+    for (const reg of selectedRegs) {
+      const text = `### ${reg.title}\nSource: ${reg.source}\nDate: ${reg.date}\n\n${reg.content.slice(0, 3000)}`;
+      newClauses.push(...await parseRegulation(reg.id, reg.title, text));
+    }
+    setIsParsing(false);
 
     addParsedClauses(newClauses);
     setSelectedRegIds([]);
@@ -223,7 +233,15 @@ export default function LegalParserPage() {
       key: "clauseId", 
       header: "Clause ID",
       render: (item: ParsedClause) => (
-        <Badge variant="outline" className="font-mono text-xs">{item.clauseId}</Badge>
+        <div className="flex flex-col items-start gap-1">
+          <Badge variant="outline" className="font-mono text-xs">{item.clauseId}</Badge>
+          {outdatedClauseIds.has(item.id) && (
+            <Badge variant="destructive" className="gap-1 text-xs" title="The regulation changed after this clause was parsed">
+              <AlertTriangle className="h-3 w-3" />
+              Outdated
+            </Badge>
+          )}
+        </div>
       ),
     },
     { 
@@ -293,6 +311,18 @@ export default function LegalParserPage() {
       key: "status",
       header: "Status",
       render: (item: IndexedRegulation) => {
+        const stale = staleRegulations.get(item.id);
+        if (stale) {
+          return (
+            <Badge
+              className="gap-1 bg-amber-500/20 text-amber-500 hover:bg-amber-500/30"
+              title={`Amended on ${new Date(stale.staleSince).toLocaleDateString()}; ${stale.clauseCount} cached clause(s) need re-parsing`}
+            >
+              <AlertTriangle className="h-3 w-3" />
+              Outdated
+            </Badge>
+          );
+        }
         const hasClauses = parsedClauses.some(c => c.regulationId === item.id);
         return hasClauses ? (
           <Badge className="bg-emerald-500/20 text-emerald-500 hover:bg-emerald-500/30">Parsed</Badge>
@@ -358,6 +388,21 @@ export default function LegalParserPage() {
                     </div>
                   </CardHeader>
                   <CardContent className="space-y-4">
+                    {staleRegulations.size > 0 && (
+                      <div className="flex items-center justify-between gap-3 rounded-lg border border-amber-500/30 bg-amber-500/10 px-3 py-2">
+                        <p className="text-xs text-amber-500">
+                          {staleRegulations.size} regulation(s) changed since their clauses were parsed. Audits skip the outdated clauses until they are re-parsed.
+                        </p>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="shrink-0"
+                          onClick={() => setSelectedIndexedIds(indexedRegulations.filter(r => staleRegulations.has(r.id)).map(r => r.id))}
+                        >
+                          Select outdated
+                        </Button>
+                      </div>
+                    )}
                     <DataTable 
                       data={indexedRegulations} 
                       columns={indexedColumns}
@@ -367,10 +412,10 @@ export default function LegalParserPage() {
                     />
                     <Button 
                       onClick={handleParseIndexed}
-                      disabled={isStreaming || selectedIndexedIds.length === 0}
+                      disabled={isParsing || selectedIndexedIds.length === 0}
                       className="w-full"
                     >
-                      {isStreaming ? (
+                      {isParsing ? (
                         <>
                           <Loader2 className="h-4 w-4 mr-2 animate-spin" />
                           Parsing Clauses...
@@ -393,14 +438,14 @@ export default function LegalParserPage() {
                       </div>
                       <div>
                         <CardTitle className="text-lg">AI Parsing Output</CardTitle>
-                        <CardDescription>Real-time clause extraction preview</CardDescription>
+                        <CardDescription>Validated clause extraction output</CardDescription>
                       </div>
                     </div>
                   </CardHeader>
                   <CardContent>
                     <div className="min-h-[200px] max-h-[400px] overflow-auto p-4 rounded-lg bg-muted/50 border border-border/50 font-mono text-xs">
-                      {streamedContent ? (
-                        <pre className="whitespace-pre-wrap">{streamedContent}</pre>
+                      {parserOutput ? (
+                        <pre className="whitespace-pre-wrap">{parserOutput}</pre>
                       ) : (
                         <div className="h-full flex items-center justify-center text-muted-foreground">
                           <div className="text-center">
@@ -455,10 +500,10 @@ export default function LegalParserPage() {
                     />
                     <Button 
                       onClick={handleParseClauses}
-                      disabled={isStreaming || selectedRegIds.length === 0}
+                      disabled={isParsing || selectedRegIds.length === 0}
                       className="w-full"
                     >
-                      {isStreaming ? (
+                      {isParsing ? (
                         <>
                           <Loader2 className="h-4 w-4 mr-2 animate-spin" />
                           Parsing Clauses...
@@ -481,14 +526,14 @@ export default function LegalParserPage() {
                       </div>
                       <div>
                         <CardTitle className="text-lg">AI Parsing Output</CardTitle>
-                        <CardDescription>Real-time clause extraction preview</CardDescription>
+                        <CardDescription>Validated clause extraction output</CardDescription>
                       </div>
                     </div>
                   </CardHeader>
                   <CardContent>
                     <div className="min-h-[200px] max-h-[400px] overflow-auto p-4 rounded-lg bg-muted/50 border border-border/50 font-mono text-xs">
-                      {streamedContent ? (
-                        <pre className="whitespace-pre-wrap">{streamedContent}</pre>
+                      {parserOutput ? (
+                        <pre className="whitespace-pre-wrap">{parserOutput}</pre>
                       ) : (
                         <div className="h-full flex items-center justify-center text-muted-foreground">
                           <div className="text-center">
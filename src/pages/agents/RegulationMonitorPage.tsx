@@ -18,6 +18,9 @@ import {
   AlertCircle,
   XCircle,
   ExternalLink,
+  CalendarClock,
+  History,
+  Settings,
 } from "lucide-react";
 import { DashboardLayout } from "@/components/dashboard/DashboardLayout";
 import { AgentPageHeader } from "@/components/dashboard/AgentPageHeader";
@@ -42,9 +45,12 @@ import { useStreamingAgent } from "@/hooks/useStreamingAgent";
 import { useToast } from "@/hooks/use-toast";
 import { RegulationDetailModal } from "@/components/agents/RegulationDetailModal";
 import { RegulationStatsCards } from "@/components/agents/RegulationStatsCards";
+import { fetchLastAuditedAt, isAmendedSinceAudit } from "@/lib/regulationVersions";
+import { CrawlJob, describeCrawlSchedule, fetchRecentCrawlJobs } from "@/lib/crawlJobs";
 import { supabase } from "@/integrations/supabase/clientRuntime";
 import { getSupabasePublicConfig } from "@/lib/publicConfig";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { useNavigate } from "react-router-dom";
 
 interface IndexedRegulation {
   id: string;
@@ -55,6 +61,9 @@ interface IndexedRegulation {
   category: string | null;
   crawled_at: string;
   is_processed: boolean;
+  content_type: string;
+  page_count: number | null;
+  amended_at: string | null;
 }
 
 interface PortalInfo {
@@ -64,6 +73,8 @@ interface PortalInfo {
   category: string;
   is_active: boolean;
   last_crawled_at: string | null;
+  crawl_schedule: string | null;
+  max_urls: number;
 }
 
 interface CrawlProgress {
@@ -77,13 +88,16 @@ interface CrawlProgress {
 export default function RegulationMonitorPage() {
   const { regulations, addRegulations, setRegulations } = usePipeline();
   const { toast } = useToast();
+  const navigate = useNavigate();
   const [urlInput, setUrlInput] = useState("");
   const [textInput, setTextInput] = useState("");
   const [selectedRegulation, setSelectedRegulation] = useState<Regulation | null>(null);
   const [detailModalOpen, setDetailModalOpen] = useState(false);
   const [isCrawling, setIsCrawling] = useState(false);
   const [indexedRegulations, setIndexedRegulations] = useState<IndexedRegulation[]>([]);
+  const [lastAuditedAt, setLastAuditedAt] = useState<Map<string, string>>(new Map());
   const [portals, setPortals] = useState<PortalInfo[]>([]);
+  const [crawlJobs, setCrawlJobs] = useState<CrawlJob[]>([]);
   const [activeTab, setActiveTab] = useState("crawler");
 
   // Filters
@@ -105,20 +119,46 @@ export default function RegulationMonitorPage() {
   useEffect(() => {
     fetchIndexedRegulations();
     fetchPortals();
+    fetchCrawlJobs();
   }, []);
 
   const fetchIndexedRegulations = async () => {
     const { data, error } = await supabase
       .from("indexed_regulations")
-      .select("id, url, source, title, summary, category, crawled_at, is_processed")
+      .select("id, url, source, title, summary, category, crawled_at, is_processed, content_type, page_count, amended_at")
       .order("crawled_at", { ascending: false })
       .limit(500);
 
     if (!error && data) {
       setIndexedRegulations(data);
+
+      // Only amended regulations can be flagged
+      const amendedIds = data.filter((reg) => reg.amended_at).map((reg) => reg.id);
+      try {
+        setLastAuditedAt(await fetchLastAuditedAt(amendedIds));
+      } catch (auditError) {
+        console.error("Failed to load audit history:", auditError);
+      }
     }
   };
 
+  const handleViewIndexed = async (item: IndexedRegulation) => {
+    const { data, error } = await supabase.from("indexed_regulations").select("content").eq("id", item.id).single();
+    if (error) {
+      toast({ title: "Failed to load regulation", description: error.message, variant: "destructive" });
+      return;
+    }
+    handleView({
+      id: item.id,
+      source: item.source,
+      title: item.title || "Untitled",
+      date: new Date(item.crawled_at).toISOString().split("T")[0],
+      version: "1.0",
+      content: data.content || "",
+      url: item.url,
+    });
+  };
+
   const fetchPortals = async () => {
     const { data, error } = await supabase
       .from("regulation_portals")
@@ -130,6 +170,14 @@ export default function RegulationMonitorPage() {
     }
   };
 
+  const fetchCrawlJobs = async () => {
+    try {
+      setCrawlJobs(await fetchRecentCrawlJobs());
+    } catch (error) {
+      console.error("Failed to load crawl history:", error);
+    }
+  };
+
   // Filtered regulations
   const filteredRegulations = useMemo(() => {
     return indexedRegulations.filter((reg) => {
@@ -193,6 +241,7 @@ export default function RegulationMonitorPage() {
       if (!reader) throw new Error("No response body");
 
       let buffer = "";
+      let eventName = "";
       while (true) {
         const { done, value } = await reader.read();
         if (done) break;
@@ -202,11 +251,14 @@ export default function RegulationMonitorPage() {
         buffer = lines.pop() || "";
 
         for (const line of lines) {
-          if (line.startsWith("event:")) continue;
+          if (line.startsWith("event:")) {
+            eventName = line.slice(6).trim();
+            continue;
+          }
           if (line.startsWith("data:")) {
             try {
               const data = JSON.parse(line.slice(5).trim());
-              handleCrawlEvent(data);
+              handleCrawlEvent(eventName, data);
             } catch {
               // Ignore parse errors
             }
@@ -225,6 +277,7 @@ export default function RegulationMonitorPage() {
       toast({ title: "Crawl complete", description: "All portals processed successfully" });
       fetchIndexedRegulations();
       fetchPortals();
+      fetchCrawlJobs();
     } catch (error) {
       setCrawlProgress((prev) => ({
         ...prev,
@@ -238,7 +291,7 @@ export default function RegulationMonitorPage() {
     }
   };
 
-  const handleCrawlEvent = (data: any) => {
+  const handleCrawlEvent = (event: string, data: any) => {
     setCrawlProgress((prev) => {
       const newLogs = [...prev.logs];
       const newStats = { ...prev.stats };
@@ -247,39 +300,52 @@ export default function RegulationMonitorPage() {
 
       if (data.portal) currentPortal = data.portal;
 
-      switch (true) {
-        case "portal_start" in data || data.portal_start !== undefined:
+      switch (event) {
+        case "portal_start":
           newLogs.push({ type: "info", message: `Starting: ${data.portal}`, timestamp: new Date() });
           break;
-        case "urls_found" in data || data.relevant !== undefined:
+        case "urls_found":
           newLogs.push({
             type: "info",
             message: `Found ${data.relevant} relevant URLs in ${data.portal}`,
             timestamp: new Date(),
           });
           break;
-        case "scraping" in data || data.url !== undefined:
+        case "scraping":
           currentUrl = data.url;
           break;
-        case "indexed" in data || (data.title && !data.error):
+        case "indexed":
           newStats.indexed++;
-          newLogs.push({ type: "success", message: `Indexed: ${data.title?.slice(0, 50) || data.url}`, timestamp: new Date() });
+          newLogs.push({
+            type: "success",
+            message: `Indexed: ${data.title?.slice(0, 50) || data.url}${data.contentType === "pdf" ? ` (PDF, ${data.pages} pages)` : ""}`,
+            timestamp: new Date(),
+          });
           break;
-        case "skipped" in data || data.reason === "unchanged":
+        case "skipped":
           newStats.skipped++;
           break;
-        case "scrape_failed" in data:
+        case "scrape_failed":
           newStats.failed++;
-          newLogs.push({ type: "warning", message: `Retry failed: ${data.url?.slice(0, 40)}...`, timestamp: new Date() });
+          newLogs.push({
+            type: "warning",
+            message: `${data.error || "Retry failed"}: ${data.url?.slice(0, 40)}...`,
+            timestamp: new Date(),
+          });
           break;
-        case "portal_complete" in data || (data.indexed !== undefined && data.failed !== undefined):
+        case "upsert_error":
+          newStats.failed++;
+          newLogs.push({ type: "error", message: `Save failed: ${data.error}`, timestamp: new Date() });
+          break;
+        case "portal_complete":
           newLogs.push({
             type: "info",
             message: `${data.portal}: ${data.indexed} indexed, ${data.skipped} skipped, ${data.failed} failed`,
             timestamp: new Date(),
           });
           break;
-        case "error" in data:
+        case "portal_error":
+        case "error":
           newLogs.push({ type: "error", message: data.error, timestamp: new Date() });
           break;
       }
@@ -414,7 +480,19 @@ export default function RegulationMonitorPage() {
       header: "Regulation",
       render: (item: IndexedRegulation) => (
         <div className="max-w-[350px]">
-          <p className="font-medium truncate text-sm">{item.title || "Untitled"}</p>
+          <div className="flex items-center gap-1.5">
+            <p className="font-medium truncate text-sm">{item.title || "Untitled"}</p>
+            {item.content_type === "pdf" && (
+              <Badge variant="outline" className="text-[10px] shrink-0">
+                PDF{item.page_count ? ` · ${item.page_count}p` : ""}
+              </Badge>
+            )}
+            {isAmendedSinceAudit(item.amended_at, lastAuditedAt.get(item.id)) && (
+              <Badge variant="destructive" className="text-[10px] shrink-0" title="Content changed after the last audit that used it">
+                Amended
+              </Badge>
+            )}
+          </div>
           <p className="text-xs text-muted-foreground truncate mt-0.5">{item.summary?.slice(0, 80) || item.url}</p>
         </div>
       ),
@@ -452,11 +530,16 @@ export default function RegulationMonitorPage() {
       key: "actions",
       header: "",
       render: (item: IndexedRegulation) => (
-        <Button variant="ghost" size="icon" asChild>
-          <a href={item.url} target="_blank" rel="noopener noreferrer" title="Open URL">
-            <ExternalLink className="h-4 w-4 text-muted-foreground" />
-          </a>
-        </Button>
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="icon" onClick={() => handleViewIndexed(item)} title="View history">
+            <Eye className="h-4 w-4 text-muted-foreground" />
+          </Button>
+          <Button variant="ghost" size="icon" asChild>
+            <a href={item.url} target="_blank" rel="noopener noreferrer" title="Open URL">
+              <ExternalLink className="h-4 w-4 text-muted-foreground" />
+            </a>
+          </Button>
+        </div>
       ),
     },
   ];
@@ -496,7 +579,7 @@ export default function RegulationMonitorPage() {
 
   const progressPercent =
     crawlProgress.status === "running"
-      ? Math.min(((crawlProgress.stats.indexed + crawlProgress.stats.skipped + crawlProgress.stats.failed) / Math.max(portals.length * 5, 1)) * 100, 95)
+      ? Math.min(((crawlProgress.stats.indexed + crawlProgress.stats.skipped + crawlProgress.stats.failed) / Math.max(portals.reduce((sum, portal) => sum + portal.max_urls, 0), 1)) * 100, 95)
       : crawlProgress.status === "complete"
       ? 100
       : 0;
@@ -539,14 +622,20 @@ export default function RegulationMonitorPage() {
                     </CardDescription>
                   </div>
                 </div>
-                <Button onClick={handleRunCrawler} disabled={crawlProgress.status === "running"} className="gap-2">
-                  {crawlProgress.status === "running" ? (
-                    <Loader2 className="h-4 w-4 animate-spin" />
-                  ) : (
-                    <RefreshCw className="h-4 w-4" />
-                  )}
-                  {crawlProgress.status === "running" ? "Crawling..." : "Run Crawler"}
-                </Button>
+                <div className="flex items-center gap-2">
+                  <Button variant="outline" onClick={() => navigate("/portals")} className="gap-2">
+                    <Settings className="h-4 w-4" />
+                    Manage Portals
+                  </Button>
+                  <Button onClick={handleRunCrawler} disabled={crawlProgress.status === "running"} className="gap-2">
+                    {crawlProgress.status === "running" ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <RefreshCw className="h-4 w-4" />
+                    )}
+                    {crawlProgress.status === "running" ? "Crawling..." : "Run Crawler"}
+                  </Button>
+                </div>
               </div>
             </CardHeader>
 
@@ -628,11 +717,62 @@ export default function RegulationMonitorPage() {
                     <Clock className="h-3 w-3" />
                     {portal.last_crawled_at ? new Date(portal.last_crawled_at).toLocaleDateString() : "Not crawled"}
                   </p>
+                  <p className="text-xs text-muted-foreground flex items-center gap-1 mt-1">
+                    <CalendarClock className="h-3 w-3" />
+                    {describeCrawlSchedule(portal.crawl_schedule)}
+                  </p>
                 </CardContent>
               </Card>
             ))}
           </div>
 
+          {/* Crawl History */}
+          {crawlJobs.length > 0 && (
+            <Card className="bg-card/50">
+              <CardHeader className="pb-3">
+                <div className="flex items-center gap-3">
+                  <div className="p-2 rounded-lg bg-primary/10">
+                    <History className="h-5 w-5 text-primary" />
+                  </div>
+                  <div>
+                    <CardTitle className="text-lg">Crawl History</CardTitle>
+                    <CardDescription>Scheduled and manual crawls, most recent first</CardDescription>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="pt-0">
+                <ScrollArea className="max-h-64">
+                  <div className="space-y-2">
+                    {crawlJobs.map((job) => (
+                      <div key={job.id} className="flex flex-wrap items-center gap-2 rounded-lg border bg-background/50 px-3 py-2 text-xs">
+                        <Badge
+                          variant={job.status === "failed" ? "destructive" : job.status === "complete" ? "secondary" : "outline"}
+                          className="text-xs capitalize"
+                        >
+                          {job.status === "running" && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                          {job.status}
+                        </Badge>
+                        <span className="font-medium">
+                          {portals.find((p) => p.id === job.portalId)?.name ?? "Inactive portal"}
+                        </span>
+                        <Badge variant="outline" className="text-xs">
+                          {job.trigger === "schedule" ? "Scheduled" : "Manual"}
+                        </Badge>
+                        <span className="text-muted-foreground">
+                          {job.indexed} indexed • {job.skipped} skipped • {job.failed} failed
+                        </span>
+                        {job.error && <span className="text-red-600 truncate max-w-[240px]" title={job.error}>{job.error}</span>}
+                        <span className="ml-auto text-muted-foreground whitespace-nowrap">
+                          {new Date(job.createdAt).toLocaleString()}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </ScrollArea>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Indexed Regulations Table */}
           <Card className="bg-card/50">
             <CardHeader className="pb-3">
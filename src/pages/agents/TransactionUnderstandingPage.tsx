@@ -8,13 +8,17 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { usePipeline, Transaction } from "@/contexts/PipelineContext";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { usePipeline, Transaction, TransactionField } from "@/contexts/PipelineContext";
 import { supabase } from "@/integrations/supabase/clientRuntime";
 import { useToast } from "@/hooks/use-toast";
 import { TransactionStatsCards } from "@/components/agents/TransactionStatsCards";
 import { TransactionDetailModal } from "@/components/agents/TransactionDetailModal";
-import { useStreamingAgent } from "@/hooks/useStreamingAgent";
-import * as XLSX from "xlsx";
+import { TransactionImportDialog } from "@/components/agents/TransactionImportDialog";
+import { useStructuredAgent } from "@/hooks/useStructuredAgent";
+import { toTransactions, StructuredTransaction, isLowConfidence, LOW_CONFIDENCE } from "@/lib/structuredAgents";
+import { readSpreadsheet, SourceSheet } from "@/lib/transactionImport";
+import { CURRENCIES, DEFAULT_CURRENCY, formatMoney, money, parseMoney, zeroMoney } from "@/lib/money";
 
 type FileType = 'pdf' | 'excel' | 'csv' | null;
 
@@ -26,63 +30,54 @@ export default function TransactionUnderstandingPage() {
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
   const [fileType, setFileType] = useState<FileType>(null);
   const [isProcessingFile, setIsProcessingFile] = useState(false);
+  const [importSheet, setImportSheet] = useState<SourceSheet | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [manualTx, setManualTx] = useState({
     category: "",
     amount: "",
     tax: "",
+    currency: DEFAULT_CURRENCY,
     vendor: "",
+    gstin: "",
+    invoiceNumber: "",
     date: "",
     description: ""
   });
 
-  const { response, isLoading, runAgent, clearResponse } = useStreamingAgent({
-    onComplete: (fullResponse) => {
-      // Try to parse JSON array of transactions from AI response
-      try {
-        const jsonMatch = fullResponse.match(/\[[\s\S]*\]/);
-        if (jsonMatch) {
-          const parsed = JSON.parse(jsonMatch[0]);
-          if (Array.isArray(parsed) && parsed.length > 0) {
-            const newTransactions: Transaction[] = parsed.map((t: any) => ({
-              id: crypto.randomUUID(),
-              category: t.category || "Expense",
-              amount: t.amount || "₹0.00",
-              tax: t.tax || "₹0.00",
-              vendor: t.vendor || "Unknown",
-              date: t.date || new Date().toISOString().split('T')[0],
-              description: t.description || ""
-            }));
-            addTransactions(newTransactions);
-            setTextInput("");
-            setUploadedFile(null);
-            setFileType(null);
-            toast({ title: `${newTransactions.length} transaction(s) extracted successfully` });
-            return;
-          }
-        }
-      } catch (e) {
-        console.log("Could not parse as JSON array, using fallback");
-      }
+  const [extractionOutput, setExtractionOutput] = useState("");
+  const { isLoading, validationErrors, runAgent, clearError } = useStructuredAgent();
 
-      // Fallback: create single transaction
-      const newTransaction: Transaction = {
-        id: crypto.randomUUID(),
-        category: "Expense",
-        amount: "₹5,000.00",
-        tax: "₹450.00",
-        vendor: "Extracted Vendor",
-        date: new Date().toISOString().split('T')[0],
-        description: fullResponse.slice(0, 150) || "Extracted transaction"
-      };
-
-      addTransactions([newTransaction]);
-      setTextInput("");
-      setUploadedFile(null);
-      setFileType(null);
-      toast({ title: "Transaction extracted successfully" });
+  // Text is sent as `transactionData`; documents are uploaded as form data
+  const extractTransactions = async (input: string | FormData) => {
+    let extracted: StructuredTransaction[];
+    try {
+      ({ transactions: extracted } = await runAgent(
+        'agent-transaction-understanding',
+        typeof input === 'string' ? { transactionData: input } : input
+      ));
+    } catch {
+      // useStructuredAgent has already reported the error
+      return;
     }
-  });
+
+    if (extracted.length === 0) {
+      setExtractionOutput("No transactions found in the input.");
+      toast({ title: "No transactions found", variant: "destructive" });
+      return;
+    }
+
+    const added = toTransactions(extracted);
+    addTransactions(added);
+    const needsReview = added.filter(t => t.confidence && Object.values(t.confidence).some(c => c < LOW_CONFIDENCE)).length;
+    setExtractionOutput(
+      added.map(t => `${t.date} · ${t.vendor} · ${formatMoney(t.amount)} (tax ${formatMoney(t.tax)}) · ${t.category}`).join("\n") +
+        (needsReview > 0 ? `\n\n${needsReview} transaction(s) have low-confidence fields, highlighted for review.` : "")
+    );
+    setTextInput("");
+    setUploadedFile(null);
+    setFileType(null);
+    toast({ title: `${extracted.length} transaction(s) extracted successfully` });
+  };
 
   const getFileType = (file: File): FileType => {
     const extension = file.name.split('.').pop()?.toLowerCase();
@@ -112,124 +107,22 @@ export default function TransactionUnderstandingPage() {
     toast({ title: `${file.name} selected`, description: `Click 'Extract Transactions' to process` });
   };
 
-  const parseExcelOrCsv = async (file: File): Promise<Transaction[]> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        try {
-          const data = e.target?.result;
-          const workbook = XLSX.read(data, { type: 'binary' });
-          const sheetName = workbook.SheetNames[0];
-          const worksheet = workbook.Sheets[sheetName];
-          const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1 }) as any[][];
-
-          if (jsonData.length < 2) {
-            reject(new Error("File has no data rows"));
-            return;
-          }
-
-          // Get headers (first row)
-          const headers = jsonData[0].map((h: any) => String(h).toLowerCase().trim());
-          
-          // Map common header variations
-          const findColumn = (variations: string[]) => {
-            return headers.findIndex(h => variations.some(v => h.includes(v)));
-          };
-
-          const categoryIdx = findColumn(['category', 'type', 'transaction type']);
-          const amountIdx = findColumn(['amount', 'value', 'total', 'sum']);
-          const taxIdx = findColumn(['tax', 'gst', 'vat']);
-          const vendorIdx = findColumn(['vendor', 'party', 'name', 'from', 'to', 'payee', 'merchant']);
-          const dateIdx = findColumn(['date', 'transaction date', 'txn date']);
-          const descIdx = findColumn(['description', 'desc', 'narration', 'remarks', 'details']);
-
-          // Parse data rows
-          const transactions: Transaction[] = [];
-          for (let i = 1; i < jsonData.length; i++) {
-            const row = jsonData[i];
-            if (!row || row.length === 0 || row.every(cell => !cell)) continue;
-
-            const amount = amountIdx >= 0 ? row[amountIdx] : row[1];
-            const vendor = vendorIdx >= 0 ? row[vendorIdx] : row[0];
-
-            if (!amount && !vendor) continue;
-
-            transactions.push({
-              id: crypto.randomUUID(),
-              category: categoryIdx >= 0 && row[categoryIdx] ? String(row[categoryIdx]) : "Expense",
-              amount: amount ? `₹${String(amount).replace(/[₹,]/g, '')}` : "₹0.00",
-              tax: taxIdx >= 0 && row[taxIdx] ? `₹${String(row[taxIdx]).replace(/[₹,]/g, '')}` : "₹0.00",
-              vendor: vendor ? String(vendor) : "Unknown",
-              date: dateIdx >= 0 && row[dateIdx] ? formatDate(row[dateIdx]) : new Date().toISOString().split('T')[0],
-              description: descIdx >= 0 && row[descIdx] ? String(row[descIdx]) : ""
-            });
-          }
-
-          resolve(transactions);
-        } catch (error) {
-          reject(error);
-        }
-      };
-      reader.onerror = reject;
-      reader.readAsBinaryString(file);
-    });
-  };
-
-  const formatDate = (value: any): string => {
-    if (!value) return new Date().toISOString().split('T')[0];
-    
-    // Handle Excel serial dates
-    if (typeof value === 'number') {
-      const date = XLSX.SSF.parse_date_code(value);
-      if (date) {
-        return `${date.y}-${String(date.m).padStart(2, '0')}-${String(date.d).padStart(2, '0')}`;
-      }
-    }
-    
-    // Try to parse string dates
-    const parsed = new Date(value);
-    if (!isNaN(parsed.getTime())) {
-      return parsed.toISOString().split('T')[0];
-    }
-    
-    return new Date().toISOString().split('T')[0];
-  };
-
   const handleExtractFromFile = async () => {
     if (!uploadedFile || !fileType) return;
 
     setIsProcessingFile(true);
-    clearResponse();
+    clearError();
+    setExtractionOutput("");
 
     try {
       if (fileType === 'excel' || fileType === 'csv') {
-        // Direct parsing for structured files
-        const extractedTransactions = await parseExcelOrCsv(uploadedFile);
-        if (extractedTransactions.length > 0) {
-          addTransactions(extractedTransactions);
-          toast({ title: `${extractedTransactions.length} transaction(s) imported from ${fileType.toUpperCase()}` });
-        } else {
-          toast({ title: "No transactions found in file", variant: "destructive" });
-        }
-        setUploadedFile(null);
-        setFileType(null);
+        // Structured files are mapped column by column before importing
+        setImportSheet(await readSpreadsheet(uploadedFile));
       } else {
-        // PDF - use AI agent
-        const reader = new FileReader();
-        const base64Promise = new Promise<string>((resolve, reject) => {
-          reader.onload = () => {
-            const result = reader.result as string;
-            const base64 = result.split(',')[1];
-            resolve(base64);
-          };
-          reader.onerror = reject;
-        });
-        reader.readAsDataURL(uploadedFile);
-        const base64Data = await base64Promise;
-
-        await runAgent('agent-transaction-understanding', {
-          transactionData: `[PDF DOCUMENT: ${uploadedFile.name}]\n\nPlease extract all financial transactions from this document. Extract transaction details including: category, amount, tax, vendor, date, and description. Return the transactions as a JSON array.\n\nBase64 PDF (first 5000 chars): ${base64Data.slice(0, 5000)}`
-        });
+        // PDF - the agent reads the text layer, or the page images for scanned invoices
+        const form = new FormData();
+        form.append('file', uploadedFile);
+        await extractTransactions(form);
       }
     } catch (error) {
       console.error("Error processing file:", error);
@@ -239,6 +132,13 @@ export default function TransactionUnderstandingPage() {
     }
   };
 
+  const handleImport = (imported: Transaction[]) => {
+    addTransactions(imported);
+    toast({ title: `${imported.length} transaction(s) imported from ${fileType?.toUpperCase()}` });
+    setImportSheet(null);
+    handleRemoveFile();
+  };
+
   const handleRemoveFile = () => {
     setUploadedFile(null);
     setFileType(null);
@@ -249,10 +149,11 @@ export default function TransactionUnderstandingPage() {
 
   const handleExtractFromText = async () => {
     if (!textInput.trim()) return;
-    clearResponse();
-    await runAgent('agent-transaction-understanding', {
-      transactionData: `Please extract all financial transactions from the following text. Return as a JSON array with fields: category, amount, tax, vendor, date, description.\n\n${textInput.slice(0, 3000)}`
-    });
+    clearError();
+    setExtractionOutput("");
+    await extractTransactions(
+      `Extract all financial transactions from the following text.\n\n${textInput.slice(0, 3000)}`
+    );
   };
 
   const getFileIcon = () => {
@@ -266,18 +167,37 @@ export default function TransactionUnderstandingPage() {
       return;
     }
 
+    const amount = parseMoney(manualTx.amount, manualTx.currency);
+    const tax = manualTx.tax ? parseMoney(manualTx.tax, manualTx.currency) : zeroMoney(manualTx.currency);
+    if (!amount || !tax) {
+      toast({ title: "Enter amounts as numbers, e.g. 125000 or 1.25 lakh", variant: "destructive" });
+      return;
+    }
+
     const newTransaction: Transaction = {
       id: crypto.randomUUID(),
       category: manualTx.category || "Uncategorized",
-      amount: manualTx.amount,
-      tax: manualTx.tax || "₹0.00",
+      amount,
+      tax,
       vendor: manualTx.vendor,
       date: manualTx.date || new Date().toISOString().split('T')[0],
-      description: manualTx.description || ""
+      description: manualTx.description || "",
+      ...(manualTx.gstin.trim() ? { gstin: manualTx.gstin.trim().toUpperCase() } : {}),
+      ...(manualTx.invoiceNumber.trim() ? { invoiceNumber: manualTx.invoiceNumber.trim() } : {})
     };
 
     addTransactions([newTransaction]);
-    setManualTx({ category: "", amount: "", tax: "", vendor: "", date: "", description: "" });
+    setManualTx({
+      category: "",
+      amount: "",
+      tax: "",
+      currency: manualTx.currency,
+      vendor: "",
+      gstin: "",
+      invoiceNumber: "",
+      date: "",
+      description: ""
+    });
     toast({ title: "Transaction added" });
   };
 
@@ -286,8 +206,8 @@ export default function TransactionUnderstandingPage() {
       {
         id: crypto.randomUUID(),
         category: "Wire Transfer",
-        amount: "₹1,25,00,000",
-        tax: "₹0.00",
+        amount: money(12500000),
+        tax: money(0),
         vendor: "State Bank of India",
         date: "2024-01-15",
         description: "Inter-state fund transfer for infrastructure project"
@@ -295,8 +215,8 @@ export default function TransactionUnderstandingPage() {
       {
         id: crypto.randomUUID(),
         category: "Cash Deposit",
-        amount: "₹15,50,000",
-        tax: "₹0.00",
+        amount: money(1550000),
+        tax: money(0),
         vendor: "District Treasury Office",
         date: "2024-01-18",
         description: "Weekly cash deposit from tax collections"
@@ -304,8 +224,8 @@ export default function TransactionUnderstandingPage() {
       {
         id: crypto.randomUUID(),
         category: "Government Grant",
-        amount: "₹5,00,00,000",
-        tax: "₹12,50,000",
+        amount: money(50000000),
+        tax: money(1250000),
         vendor: "Ministry of Finance",
         date: "2024-01-20",
         description: "Central grant for rural development scheme"
@@ -313,11 +233,18 @@ export default function TransactionUnderstandingPage() {
       {
         id: crypto.randomUUID(),
         category: "Procurement",
-        amount: "₹87,50,000",
-        tax: "₹15,75,000",
+        amount: money(8750000),
+        tax: money(1575000),
         vendor: "GeM Portal Vendor",
         date: "2024-01-22",
-        description: "IT equipment procurement via GeM"
+        description: "IT equipment procurement via GeM",
+        gstin: "07AAGCG4521M1ZH",
+        invoiceNumber: "GEM/2024/B/4417",
+        placeOfSupply: "07-Delhi",
+        hsnSac: "8471",
+        procurementMode: "gem_bid",
+        bidsReceived: 4,
+        tenderReference: "GEM/2024/B/4417"
       }
     ];
     addTransactions(demoTransactions);
@@ -328,14 +255,33 @@ export default function TransactionUnderstandingPage() {
     setTransactions(transactions.filter(t => t.id !== id));
   };
 
+  // Low-confidence extracted values are highlighted so they get checked against the document
+  const extractedField = (field: TransactionField) => (item: Transaction) => {
+    const value = field === "amount" || field === "tax" ? formatMoney(item[field]) : item[field];
+    return isLowConfidence(item, field) ? (
+      <span
+        className="rounded px-1 bg-amber-500/15 text-amber-700 dark:text-amber-400"
+        title={`Low extraction confidence (${Math.round((item.confidence?.[field] ?? 0) * 100)}%)`}
+      >
+        {value}
+      </span>
+    ) : (
+      value
+    );
+  };
+
   const columns = [
-    { key: "category", header: "Category" },
-    { key: "amount", header: "Amount" },
-    { key: "tax", header: "Tax" },
-    { key: "vendor", header: "Vendor" },
-    { key: "date", header: "Date" },
+    { key: "category", header: "Category", render: extractedField("category") },
+    { key: "amount", header: "Amount", render: extractedField("amount") },
+    { key: "tax", header: "Tax", render: extractedField("tax") },
+    { key: "vendor", header: "Vendor", render: extractedField("vendor") },
+    { key: "date", header: "Date", render: extractedField("date") },
     { key: "description", header: "Description", render: (item: Transaction) => (
-      <span className="line-clamp-1 text-muted-foreground">{item.description}</span>
+      <span
+        className={`line-clamp-1 ${isLowConfidence(item, "description") ? "text-amber-700 dark:text-amber-400" : "text-muted-foreground"}`}
+      >
+        {item.description}
+      </span>
     )},
     { 
       key: "actions", 
@@ -471,18 +417,23 @@ export default function TransactionUnderstandingPage() {
           </Card>
 
           {/* AI Response Preview */}
-          {(isLoading || response) && (
+          {(isLoading || extractionOutput || validationErrors.length > 0) && (
             <Card className="border-primary/30 bg-gradient-to-br from-primary/5 to-transparent">
               <CardHeader className="pb-2">
                 <CardTitle className="text-sm flex items-center gap-2">
-                  <Sparkles className="h-4 w-4 text-primary animate-pulse" />
+                  <Sparkles className={`h-4 w-4 text-primary ${isLoading ? 'animate-pulse' : ''}`} />
                   AI Analysis
                 </CardTitle>
               </CardHeader>
               <CardContent>
-                <div className="text-sm text-muted-foreground max-h-32 overflow-y-auto">
-                  {response || "Processing document..."}
+                <div className="text-sm text-muted-foreground max-h-32 overflow-y-auto whitespace-pre-line">
+                  {isLoading ? "Processing document..." : extractionOutput}
                 </div>
+                {validationErrors.length > 0 && (
+                  <ul className="mt-2 text-xs text-destructive list-disc pl-4 space-y-1">
+                    {validationErrors.map((e, i) => <li key={i}>{e}</li>)}
+                  </ul>
+                )}
               </CardContent>
             </Card>
           )}
@@ -506,18 +457,28 @@ export default function TransactionUnderstandingPage() {
                 </div>
                 <div className="space-y-1">
                   <Label className="text-xs">Amount*</Label>
-                  <Input 
-                    placeholder="₹0.00"
-                    value={manualTx.amount}
-                    onChange={(e) => setManualTx({...manualTx, amount: e.target.value})}
-                  />
+                  <div className="flex gap-1">
+                    <Input 
+                      placeholder="0.00"
+                      value={manualTx.amount}
+                      onChange={(e) => setManualTx({...manualTx, amount: e.target.value})}
+                    />
+                    <Select value={manualTx.currency} onValueChange={(currency) => setManualTx({...manualTx, currency})}>
+                      <SelectTrigger className="w-[76px] shrink-0 px-2" aria-label="Currency">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CURRENCIES.map(code => <SelectItem key={code} value={code}>{code}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
               </div>
               <div className="grid grid-cols-2 gap-3">
                 <div className="space-y-1">
                   <Label className="text-xs">Tax</Label>
                   <Input 
-                    placeholder="₹0.00"
+                    placeholder="0.00"
                     value={manualTx.tax}
                     onChange={(e) => setManualTx({...manualTx, tax: e.target.value})}
                   />
@@ -539,6 +500,25 @@ export default function TransactionUnderstandingPage() {
                   onChange={(e) => setManualTx({...manualTx, vendor: e.target.value})}
                 />
               </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label className="text-xs">GSTIN</Label>
+                  <Input 
+                    placeholder="e.g., 27AAPFU0939F1ZV"
+                    maxLength={15}
+                    value={manualTx.gstin}
+                    onChange={(e) => setManualTx({...manualTx, gstin: e.target.value})}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Invoice No.</Label>
+                  <Input 
+                    placeholder="e.g., INV/2024/0001"
+                    value={manualTx.invoiceNumber}
+                    onChange={(e) => setManualTx({...manualTx, invoiceNumber: e.target.value})}
+                  />
+                </div>
+              </div>
               <div className="space-y-1">
                 <Label className="text-xs">Description</Label>
                 <Input 
@@ -577,6 +557,13 @@ export default function TransactionUnderstandingPage() {
         </div>
       </div>
 
+      <TransactionImportDialog
+        sheet={importSheet}
+        fileName={uploadedFile?.name ?? ""}
+        onOpenChange={(open) => !open && setImportSheet(null)}
+        onImport={handleImport}
+      />
+
       <TransactionDetailModal
         transaction={selectedTransaction}
         open={!!selectedTransaction}
@@ -4,7 +4,7 @@ import ComplianceAgent from "@/components/ComplianceAgent";
 export default function ComplianceQAPage() {
   return (
     <DashboardLayout>
-      <ComplianceAgent />
+      <ComplianceAgent persist />
     </DashboardLayout>
   );
 }
\ No newline at end of file
@@ -1,10 +1,325 @@
+import { useCallback, useEffect, useState } from "react";
+import { Building2, Loader2, LogOut, Plus, Save, Trash2, UserPlus, Users } from "lucide-react";
 import { DashboardLayout } from "@/components/dashboard/DashboardLayout";
-import TeamSection from "@/components/TeamSection";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/contexts/AuthContext";
+import { useOrganization } from "@/contexts/OrganizationContext";
+import { useToast } from "@/hooks/use-toast";
+import {
+  addMember,
+  createOrganization,
+  fetchMembers,
+  ORG_ROLES,
+  OrganizationMember,
+  OrgRole,
+  removeMember,
+  renameOrganization,
+  roleLabel,
+  updateMemberRole,
+} from "@/lib/organizations";
 
 export default function TeamPage() {
+  const { user } = useAuth();
+  const { memberships, organization, role, switchOrganization, refresh } = useOrganization();
+  const { toast } = useToast();
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState("");
+  const [newWorkspace, setNewWorkspace] = useState("");
+  const [email, setEmail] = useState("");
+  const [newRole, setNewRole] = useState<OrgRole>("auditor");
+  const [busy, setBusy] = useState(false);
+
+  const organizationId = organization?.organizationId ?? null;
+  const isAdmin = role === "admin";
+
+  const showError = useCallback(
+    (title: string, error: unknown) =>
+      toast({ title, description: error instanceof Error ? error.message : "Unknown error", variant: "destructive" }),
+    [toast]
+  );
+
+  const loadMembers = useCallback(() => {
+    if (!organizationId) return Promise.resolve();
+    return fetchMembers(organizationId)
+      .then(setMembers)
+      .catch((error) => showError("Failed to load members", error))
+      .finally(() => setLoading(false));
+  }, [organizationId, showError]);
+
+  useEffect(() => {
+    setName(organization?.name ?? "");
+  }, [organization?.name]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadMembers();
+  }, [loadMembers]);
+
+  // Wraps a change so only one runs at a time and failures become toasts
+  const run = async (title: string, change: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await change();
+    } catch (error) {
+      showError(title, error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSwitch = (id: string) =>
+    run("Failed to switch workspace", async () => {
+      await switchOrganization(id);
+    });
+
+  const handleRename = () =>
+    run("Failed to rename workspace", async () => {
+      await renameOrganization(organizationId, name);
+      await refresh();
+      toast({ title: "Workspace renamed" });
+    });
+
+  const handleCreate = () =>
+    run("Failed to create workspace", async () => {
+      await createOrganization(newWorkspace);
+      setNewWorkspace("");
+      await refresh();
+      toast({ title: "Workspace created", description: "You are its admin and now working in it" });
+    });
+
+  const handleAdd = () =>
+    run("Failed to add member", async () => {
+      await addMember(organizationId, email, newRole);
+      setEmail("");
+      await loadMembers();
+      toast({ title: `${email.trim()} added as ${roleLabel(newRole)}` });
+    });
+
+  const handleRoleChange = (member: OrganizationMember, memberRole: OrgRole) =>
+    run("Failed to change role", async () => {
+      await updateMemberRole(organizationId, member.userId, memberRole);
+      await loadMembers();
+      if (member.userId === user?.id) await refresh();
+    });
+
+  const handleRemove = (member: OrganizationMember) =>
+    run(member.userId === user?.id ? "Failed to leave workspace" : "Failed to remove member", async () => {
+      await removeMember(organizationId, member.userId);
+      if (member.userId === user?.id) {
+        await refresh();
+      } else {
+        await loadMembers();
+      }
+    });
+
   return (
     <DashboardLayout>
-      <TeamSection />
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <Users className="h-8 w-8 text-primary" />
+            Team & Roles
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            Members of a workspace share its transactions, audit reports, remediation tasks and evidence
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Building2 className="h-4 w-4" />
+              Workspace
+            </CardTitle>
+            <CardDescription>
+              {organization
+                ? `You are working in ${organization.name} as ${roleLabel(organization.role)}`
+                : "You are not a member of any workspace yet"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap items-end gap-4">
+              {memberships.length > 1 && (
+                <div className="space-y-1">
+                  <Label>Switch workspace</Label>
+                  <Select value={organizationId ?? undefined} onValueChange={handleSwitch} disabled={busy}>
+                    <SelectTrigger className="w-[260px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {memberships.map((m) => (
+                        <SelectItem key={m.organizationId} value={m.organizationId}>
+                          {m.name} · {roleLabel(m.role)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              {organization && isAdmin && (
+                <div className="space-y-1">
+                  <Label htmlFor="workspace-name">Name</Label>
+                  <div className="flex gap-2">
+                    <Input id="workspace-name" value={name} onChange={(e) => setName(e.target.value)} className="w-[260px]" />
+                    <Button
+                      variant="outline"
+                      onClick={handleRename}
+                      disabled={busy || !name.trim() || name.trim() === organization.name}
+                    >
+                      <Save className="h-4 w-4 mr-2" />
+                      Rename
+                    </Button>
+                  </div>
+                </div>
+              )}
+              <div className="space-y-1">
+                <Label htmlFor="workspace-new">New workspace</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="workspace-new"
+                    placeholder="e.g. Internal Audit Wing"
+                    value={newWorkspace}
+                    onChange={(e) => setNewWorkspace(e.target.value)}
+                    className="w-[260px]"
+                  />
+                  <Button onClick={handleCreate} disabled={busy || !newWorkspace.trim()}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Create
+                  </Button>
+                </div>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {organization && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Members</CardTitle>
+              <CardDescription>
+                {isAdmin
+                  ? "Add colleagues who have signed up, and choose what each of them may do"
+                  : "Only admins can add members or change roles"}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {isAdmin && (
+                <div className="flex flex-wrap items-end gap-2">
+                  <div className="space-y-1">
+                    <Label htmlFor="member-email">Email</Label>
+                    <Input
+                      id="member-email"
+                      type="email"
+                      placeholder="colleague@department.gov.in"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      className="w-[280px]"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Role</Label>
+                    <Select value={newRole} onValueChange={(value) => setNewRole(value as OrgRole)}>
+                      <SelectTrigger className="w-[160px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ORG_ROLES.map((r) => (
+                          <SelectItem key={r.role} value={r.role}>
+                            {r.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Button onClick={handleAdd} disabled={busy || !email.trim()}>
+                    <UserPlus className="h-4 w-4 mr-2" />
+                    Add member
+                  </Button>
+                </div>
+              )}
+
+              {loading ? (
+                <div className="flex items-center justify-center h-24">
+                  <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                </div>
+              ) : (
+                <div className="divide-y divide-border border border-border rounded-lg">
+                  {members.map((member) => {
+                    const isSelf = member.userId === user?.id;
+                    return (
+                      <div key={member.userId} className="flex items-center gap-3 p-3">
+                        <div className="min-w-0 flex-1">
+                          <p className="font-medium truncate">
+                            {member.displayName || member.email}
+                            {isSelf && <span className="text-muted-foreground font-normal"> (you)</span>}
+                          </p>
+                          <p className="text-xs text-muted-foreground truncate">
+                            {member.email} · joined {new Date(member.joinedAt).toLocaleDateString()}
+                          </p>
+                        </div>
+                        {isAdmin ? (
+                          <Select
+                            value={member.role}
+                            onValueChange={(value) => handleRoleChange(member, value as OrgRole)}
+                            disabled={busy}
+                          >
+                            <SelectTrigger className="w-[140px]">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {ORG_ROLES.map((r) => (
+                                <SelectItem key={r.role} value={r.role}>
+                                  {r.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          <Badge variant="outline">{roleLabel(member.role)}</Badge>
+                        )}
+                        {(isAdmin || isSelf) && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="hover:text-destructive"
+                            title={isSelf ? "Leave workspace" : "Remove member"}
+                            onClick={() => handleRemove(member)}
+                            disabled={busy}
+                          >
+                            {isSelf ? <LogOut className="h-4 w-4" /> : <Trash2 className="h-4 w-4" />}
+                          </Button>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Roles</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <dl className="grid gap-3 sm:grid-cols-2">
+              {ORG_ROLES.map((r) => (
+                <div key={r.role} className="p-3 bg-muted/50 rounded-lg">
+                  <dt className="font-medium">{r.label}</dt>
+                  <dd className="text-sm text-muted-foreground">{r.description}</dd>
+                </div>
+              ))}
+            </dl>
+          </CardContent>
+        </Card>
+      </div>
     </DashboardLayout>
   );
-}
\ No newline at end of file
+}
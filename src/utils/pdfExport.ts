@@ -1,5 +1,6 @@
 import jsPDF from 'jspdf';
 import { AuditReport, ComplianceResult, Transaction, ParsedClause } from '@/contexts/PipelineContext';
+import { formatMoney } from '@/lib/money';
 
 interface ExportData {
   report: AuditReport;
@@ -142,7 +143,7 @@ export function exportAuditReportToPdf({ report, complianceResults, transactions
       doc.setTextColor(100, 100, 100);
       doc.setFontSize(8);
       doc.setFont('helvetica', 'normal');
-      doc.text(`Transaction: ${tx.vendor} - ${tx.amount}`, 55, yPos + 16);
+      doc.text(`Transaction: ${tx.vendor} - ${formatMoney(tx.amount)}`, 55, yPos + 16);
     }
     
     // Reasoning
@@ -0,0 +1,140 @@
+import { estimateTokens, fetchWithRetry, sseChunk, sseDataTransform, SSE_DONE } from "./http.ts";
+import { AIProvider, AIProviderError, AIRequest, EMBEDDING_DIMENSIONS, TokenUsage } from "./types.ts";
+
+const GEMINI_BASE_URL = "https://generativelanguage.googleapis.com/v1beta/models";
+
+// batchEmbedContents accepts at most 100 requests
+const EMBED_BATCH_SIZE = 100;
+
+interface GeminiUsageMetadata {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  totalTokenCount?: number;
+}
+
+function toUsage(metadata: GeminiUsageMetadata | undefined): TokenUsage {
+  const promptTokens = metadata?.promptTokenCount ?? 0;
+  const completionTokens = metadata?.candidatesTokenCount ?? 0;
+  return { promptTokens, completionTokens, totalTokens: metadata?.totalTokenCount ?? promptTokens + completionTokens };
+}
+
+function buildBody(request: AIRequest) {
+  const system = request.messages.filter((m) => m.role === "system").map((m) => m.content).join("\n\n");
+  const contents = request.messages
+    .filter((m) => m.role !== "system")
+    .map((m) => ({
+      role: m.role === "assistant" ? "model" : "user",
+      parts: [
+        ...(m.attachments ?? []).map((a) => ({ inlineData: { mimeType: a.mimeType, data: a.data } })),
+        { text: m.content },
+      ],
+    }));
+
+  return {
+    ...(system ? { systemInstruction: { parts: [{ text: system }] } } : {}),
+    contents,
+    generationConfig: {
+      temperature: request.temperature ?? 0.7,
+      maxOutputTokens: request.maxOutputTokens ?? 2048,
+      ...(request.responseSchema
+        ? { responseMimeType: "application/json", responseSchema: request.responseSchema }
+        : {}),
+    },
+  };
+}
+
+export function createGeminiProvider(
+  apiKey: string,
+  model = "gemini-2.0-flash",
+  embeddingModel = "text-embedding-004"
+): AIProvider {
+  const post = (method: "generateContent" | "streamGenerateContent", request: AIRequest) =>
+    fetchWithRetry(
+      `Gemini (${request.agent})`,
+      `${GEMINI_BASE_URL}/${model}:${method}?${method === "streamGenerateContent" ? "alt=sse&" : ""}key=${apiKey}`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(buildBody(request)),
+      },
+      request.timeoutMs
+    );
+
+  return {
+    name: "gemini",
+    model,
+    embeddingModel,
+
+    async generate(request) {
+      const response = await post("generateContent", request);
+      const data = await response.json();
+      const text: string | undefined = data.candidates?.[0]?.content?.parts?.[0]?.text;
+      if (text === undefined) {
+        throw new AIProviderError(`Gemini returned no content (${data.candidates?.[0]?.finishReason ?? "unknown reason"})`, 502);
+      }
+      return { text, usage: toUsage(data.usageMetadata) };
+    },
+
+    async stream(request) {
+      const response = await post("streamGenerateContent", request);
+      if (!response.body) throw new AIProviderError("Gemini returned an empty stream", 502);
+
+      let lastUsage: GeminiUsageMetadata | undefined;
+      let resolveUsage: (usage: TokenUsage) => void;
+      const usage = new Promise<TokenUsage>((resolve) => (resolveUsage = resolve));
+
+      // Transform Gemini SSE to OpenAI-compatible format
+      const transform = sseDataTransform(
+        (data, controller) => {
+          try {
+            const parsed = JSON.parse(data);
+            if (parsed.usageMetadata) lastUsage = parsed.usageMetadata;
+            const content = parsed.candidates?.[0]?.content?.parts?.[0]?.text;
+            if (content) controller.enqueue(sseChunk(content));
+          } catch {
+            // Skip invalid JSON
+          }
+        },
+        (controller) => {
+          controller.enqueue(SSE_DONE);
+          resolveUsage(toUsage(lastUsage));
+        }
+      );
+
+      return { body: response.body.pipeThrough(transform), usage };
+    },
+
+    async embed(request) {
+      const embeddings: number[][] = [];
+      for (let start = 0; start < request.texts.length; start += EMBED_BATCH_SIZE) {
+        const batch = request.texts.slice(start, start + EMBED_BATCH_SIZE);
+        const response = await fetchWithRetry(
+          `Gemini embeddings (${request.agent})`,
+          `${GEMINI_BASE_URL}/${embeddingModel}:batchEmbedContents?key=${apiKey}`,
+          {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              requests: batch.map((text) => ({
+                model: `models/${embeddingModel}`,
+                content: { parts: [{ text }] },
+                taskType: request.purpose === "query" ? "RETRIEVAL_QUERY" : "RETRIEVAL_DOCUMENT",
+                outputDimensionality: EMBEDDING_DIMENSIONS,
+              })),
+            }),
+          }
+        );
+        const data = await response.json();
+        const values: number[][] = (data.embeddings ?? []).map((e: { values: number[] }) => e.values);
+        if (values.length !== batch.length) {
+          throw new AIProviderError(`Gemini returned ${values.length} embeddings for ${batch.length} texts`, 502);
+        }
+        embeddings.push(...values);
+      }
+
+      // The embeddings API does not report usage
+      const promptTokens = estimateTokens(request.texts.join("\n"));
+      return { embeddings, usage: { promptTokens, completionTokens: 0, totalTokens: promptTokens } };
+    },
+  };
+}
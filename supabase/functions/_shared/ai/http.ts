@@ -0,0 +1,127 @@
+// Retry, backoff and timeout policy shared by all HTTP-backed providers.
+
+import { AIProviderError, ChatMessage, TokenUsage } from "./types.ts";
+
+const DEFAULT_TIMEOUT_MS = 60000;
+const DEFAULT_MAX_RETRIES = 4;
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(Deno.env.get(name));
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Quota and transient overload are retried; anything else is reported straight away
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+/**
+ * POST with a per-attempt timeout, retrying 429/5xx and timeouts with
+ * exponential backoff (honouring Retry-After). Resolves with an ok response
+ * or throws AIProviderError.
+ */
+export async function fetchWithRetry(
+  label: string,
+  url: string,
+  init: RequestInit,
+  timeoutMs = envNumber("AI_TIMEOUT_MS", DEFAULT_TIMEOUT_MS)
+): Promise<Response> {
+  const maxRetries = envNumber("AI_MAX_RETRIES", DEFAULT_MAX_RETRIES);
+
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    let response: Response;
+
+    try {
+      response = await fetch(url, { ...init, signal: controller.signal });
+    } catch (error) {
+      const timedOut = error instanceof DOMException && error.name === "AbortError";
+      if (attempt < maxRetries) {
+        const backoffMs = backoff(attempt);
+        console.warn(`${label}: ${timedOut ? `timed out after ${timeoutMs}ms` : "network error"} (attempt ${attempt + 1}/${maxRetries + 1}). Retrying in ${Math.ceil(backoffMs / 1000)}s...`);
+        await sleep(backoffMs);
+        continue;
+      }
+      throw new AIProviderError(timedOut ? `${label} timed out` : `${label} request failed`, timedOut ? 504 : 502);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (response.ok) return response;
+
+    const retryAfterHeader = Number(response.headers.get("Retry-After"));
+    const retryAfterSeconds = Number.isFinite(retryAfterHeader) && retryAfterHeader > 0 ? retryAfterHeader : undefined;
+
+    if (RETRYABLE_STATUSES.has(response.status) && attempt < maxRetries) {
+      await response.body?.cancel();
+      const backoffMs = Math.max(backoff(attempt), Math.min(60000, (retryAfterSeconds ?? 0) * 1000));
+      console.warn(`${label} returned ${response.status} (attempt ${attempt + 1}/${maxRetries + 1}). Retrying in ${Math.ceil(backoffMs / 1000)}s...`);
+      await sleep(backoffMs);
+      continue;
+    }
+
+    const errorText = await response.text().catch(() => "");
+    console.error(`${label} error:`, response.status, errorText);
+
+    if (response.status === 429) {
+      throw new AIProviderError("Rate limits exceeded, please try again later.", 429, retryAfterSeconds ?? 60);
+    }
+    if (response.status === 402) {
+      throw new AIProviderError("Payment required. Please add credits to continue.", 402);
+    }
+    throw new AIProviderError("AI API error", 500);
+  }
+
+  throw new AIProviderError(`${label} failed after retries`, 500);
+}
+
+function backoff(attempt: number) {
+  return Math.min(30000, 1200 * 2 ** attempt + Math.floor(Math.random() * 400));
+}
+
+export const encoder = new TextEncoder();
+
+export function sseChunk(content: string): Uint8Array {
+  return encoder.encode(`data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`);
+}
+
+export const SSE_DONE = encoder.encode("data: [DONE]\n\n");
+
+/**
+ * Split an SSE byte stream into `data:` payloads. Lines may span chunks, so
+ * the partial tail is carried over to the next chunk.
+ */
+export function sseDataTransform(onData: (data: string, controller: TransformStreamDefaultController<Uint8Array>) => void, onFlush: (controller: TransformStreamDefaultController<Uint8Array>) => void) {
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const processLine = (line: string, controller: TransformStreamDefaultController<Uint8Array>) => {
+    const trimmed = line.replace(/\r$/, "");
+    if (trimmed.startsWith("data:")) onData(trimmed.slice(5).trim(), controller);
+  };
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      buffer += decoder.decode(chunk, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      for (const line of lines) processLine(line, controller);
+    },
+    flush(controller) {
+      if (buffer) processLine(buffer, controller);
+      onFlush(controller);
+    },
+  });
+}
+
+/** Rough token estimate for providers that do not report usage */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function estimateUsage(messages: ChatMessage[], completion: string): TokenUsage {
+  const promptTokens = estimateTokens(messages.map((m) => m.content).join("\n"));
+  const completionTokens = estimateTokens(completion);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
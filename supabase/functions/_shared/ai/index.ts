@@ -0,0 +1,139 @@
+// Shared AI provider layer for edge functions.
+//
+// AI_PROVIDER selects the backend:
+//   gemini   Google Generative Language API (GEMINI_API_KEY, GEMINI_MODEL, GEMINI_EMBEDDING_MODEL)
+//   gateway  OpenAI-compatible chat completions (LOVABLE_API_KEY, AI_GATEWAY_URL, AI_GATEWAY_MODEL,
+//            AI_GATEWAY_EMBEDDING_MODEL)
+//   mock     deterministic offline responses, no keys required
+// When unset, Gemini is used if GEMINI_API_KEY is present, else the gateway.
+//
+// AI_TIMEOUT_MS and AI_MAX_RETRIES tune the shared retry policy (see http.ts).
+
+import { createGeminiProvider } from "./gemini.ts";
+import { createMockProvider } from "./mock.ts";
+import { createOpenAICompatibleProvider } from "./openai.ts";
+import { AIProvider, AIProviderError, AIStream, TokenUsage } from "./types.ts";
+
+export * from "./types.ts";
+export { validateSchema } from "./schema.ts";
+export type { ResponseSchema, SchemaType } from "./schema.ts";
+
+const DEFAULT_GATEWAY_URL = "https://ai.gateway.lovable.dev/v1";
+
+function createProvider(): AIProvider {
+  const choice = (Deno.env.get("AI_PROVIDER") ?? "").trim().toLowerCase();
+  const geminiKey = Deno.env.get("GEMINI_API_KEY");
+  const gatewayKey = Deno.env.get("LOVABLE_API_KEY");
+
+  const gemini = () => {
+    if (!geminiKey) throw new Error("GEMINI_API_KEY is not configured");
+    return createGeminiProvider(
+      geminiKey,
+      Deno.env.get("GEMINI_MODEL") || undefined,
+      Deno.env.get("GEMINI_EMBEDDING_MODEL") || undefined
+    );
+  };
+
+  const gateway = () => {
+    if (!gatewayKey) throw new Error("LOVABLE_API_KEY is not configured");
+    return createOpenAICompatibleProvider({
+      baseUrl: Deno.env.get("AI_GATEWAY_URL") || DEFAULT_GATEWAY_URL,
+      apiKey: gatewayKey,
+      model: Deno.env.get("AI_GATEWAY_MODEL") || "google/gemini-2.5-flash",
+      embeddingModel: Deno.env.get("AI_GATEWAY_EMBEDDING_MODEL") || "text-embedding-3-small",
+    });
+  };
+
+  switch (choice) {
+    case "mock":
+      return createMockProvider();
+    case "gemini":
+      return gemini();
+    case "gateway":
+    case "openai":
+      return gateway();
+    case "":
+      if (geminiKey) return gemini();
+      if (gatewayKey) return gateway();
+      throw new Error("No AI provider configured: set GEMINI_API_KEY, LOVABLE_API_KEY or AI_PROVIDER=mock");
+    default:
+      throw new Error(`Unknown AI_PROVIDER '${choice}'`);
+  }
+}
+
+function recordUsage(provider: AIProvider, agent: string, usage: TokenUsage, streamed: boolean, kind = "chat") {
+  console.log(JSON.stringify({
+    event: "ai_usage",
+    agent,
+    kind,
+    provider: provider.name,
+    model: provider.model,
+    streamed,
+    ...usage,
+  }));
+}
+
+/** The configured provider, with token usage logged for every call */
+export function getAIProvider(): AIProvider {
+  const provider = createProvider();
+
+  return {
+    name: provider.name,
+    model: provider.model,
+    embeddingModel: provider.embeddingModel,
+
+    async generate(request) {
+      const result = await provider.generate(request);
+      recordUsage(provider, request.agent, result.usage, false);
+      return result;
+    },
+
+    async stream(request) {
+      const stream = await provider.stream(request);
+      stream.usage.then((usage) => recordUsage(provider, request.agent, usage, true));
+      return stream;
+    },
+
+    async embed(request) {
+      if (request.texts.length === 0) {
+        return { embeddings: [], usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 } };
+      }
+      const result = await provider.embed(request);
+      recordUsage(provider, request.agent, result.usage, false, "embedding");
+      return result;
+    },
+  };
+}
+
+export function streamResponse(stream: AIStream, corsHeaders: Record<string, string>): Response {
+  return new Response(stream.body, {
+    headers: { ...corsHeaders, "Content-Type": "text/event-stream" },
+  });
+}
+
+/** Send `payload` as the first SSE event, ahead of the model's answer */
+export function withLeadingEvent(body: ReadableStream<Uint8Array>, payload: Record<string, unknown>): ReadableStream<Uint8Array> {
+  const event = new TextEncoder().encode(`data: ${JSON.stringify(payload)}\n\n`);
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>({
+    start(controller) {
+      controller.enqueue(event);
+    },
+  });
+  body.pipeTo(writable).catch((error) => console.error("Stream failed:", error));
+  return readable;
+}
+
+/** JSON error response; provider errors keep their status (429 carries Retry-After) */
+export function aiErrorResponse(error: unknown, corsHeaders: Record<string, string>): Response {
+  const headers: Record<string, string> = { ...corsHeaders, "Content-Type": "application/json" };
+
+  if (error instanceof AIProviderError) {
+    if (error.retryAfterSeconds) headers["Retry-After"] = String(error.retryAfterSeconds);
+    return new Response(JSON.stringify({ error: error.message }), { status: error.status, headers });
+  }
+
+  return new Response(JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }), {
+    status: 500,
+    headers,
+  });
+}
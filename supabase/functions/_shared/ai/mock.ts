@@ -0,0 +1,145 @@
+// Deterministic offline provider for local development and CI.
+//
+// The same request always produces the same output. Structured requests get a
+// value that satisfies the response schema; string properties reuse values
+// found in the prompt (e.g. `"complianceResultId": "..."`) so cross-checks
+// against the input still pass.
+
+import { estimateTokens, estimateUsage, sseChunk, SSE_DONE } from "./http.ts";
+import type { ResponseSchema } from "./schema.ts";
+import { AIProvider, AIRequest, EMBEDDING_DIMENSIONS } from "./types.ts";
+
+// FNV-1a, enough to pick stable values from the prompt
+function hash(input: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    h ^= input.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Values of `"key": "value"` pairs in the prompt, in order of appearance */
+function promptValues(prompt: string, key: string): string[] {
+  const pattern = new RegExp(`"${escapeRegExp(key)}"\\s*:\\s*"((?:[^"\\\\]|\\\\.)*)"`, "g");
+  return [...prompt.matchAll(pattern)].map((match) => JSON.parse(`"${match[1]}"`) as string);
+}
+
+const FIELD_DEFAULTS: Record<string, string> = {
+  rule: "IF amount > 1,00,000 THEN tax_rate >= 18",
+  conditions: "Applies to transactions above ₹1,00,000",
+  penalties: "Penalty as prescribed under the applicable Act",
+  date: "2024-04-01",
+  currency: "INR",
+  vendor: "Mock Vendor Pvt Ltd",
+  category: "Procurement",
+  gstin: "27AAPFU0939F1ZV",
+  pan: "AAPFU0939F",
+  invoiceNumber: "INV/2024/0001",
+  placeOfSupply: "27-Maharashtra",
+  hsnSac: "998314",
+  tdsSection: "194C",
+  tenderReference: "GEM/2024/B/1001",
+};
+
+function mockValue(schema: ResponseSchema, prompt: string, path: string, key: string, index: number): unknown {
+  const seed = hash(`${prompt}|${path}`);
+
+  switch (schema.type) {
+    case "OBJECT":
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([prop, propSchema]) => [
+          prop,
+          mockValue(propSchema, prompt, `${path}.${prop}`, prop, index),
+        ])
+      );
+    case "ARRAY": {
+      if (!schema.items) return [];
+      // One item per id-like value in the prompt, so details line up with the input
+      const idKey = Object.keys(schema.items.properties ?? {}).find((prop) => /Id$/.test(prop));
+      const count = idKey ? Math.min(20, Math.max(1, promptValues(prompt, idKey).length)) : 1;
+      return Array.from({ length: count }, (_, i) => mockValue(schema.items!, prompt, `${path}[${i}]`, key, i));
+    }
+    case "STRING": {
+      if (schema.enum?.length) return schema.enum[seed % schema.enum.length];
+      const fromPrompt = promptValues(prompt, key);
+      if (fromPrompt.length > 0) return fromPrompt[index % fromPrompt.length];
+      return FIELD_DEFAULTS[key] ?? `Mock ${key || "value"} ${seed.toString(16).slice(0, 6)}`;
+    }
+    case "NUMBER":
+      return (seed % 100000) / 100;
+    case "INTEGER":
+      return seed % 1000;
+    case "BOOLEAN":
+      return seed % 2 === 0;
+  }
+}
+
+function mockText(request: AIRequest): string {
+  const lastUser = [...request.messages].reverse().find((m) => m.role === "user")?.content ?? "";
+  if (request.responseSchema) {
+    const prompt = request.messages.map((m) => m.content).join("\n");
+    return JSON.stringify(mockValue(request.responseSchema, prompt, "$", "", 0));
+  }
+  const digest = hash(request.messages.map((m) => `${m.role}:${m.content}`).join("\n")).toString(16);
+  return [
+    `[mock:${request.agent}] Deterministic response ${digest}.`,
+    "",
+    `Input summary: ${lastUser.replace(/\s+/g, " ").slice(0, 200)}`,
+    "",
+    "- This output was produced by the offline mock provider (AI_PROVIDER=mock).",
+    "- No external AI service was called.",
+  ].join("\n");
+}
+
+// Hashed bag of words: texts sharing words get similar vectors, which is
+// enough for retrieval to behave sensibly offline
+function mockEmbedding(text: string): number[] {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) ?? []) {
+    const h = hash(word);
+    vector[h % EMBEDDING_DIMENSIONS] += h & 0x80000000 ? -1 : 1;
+  }
+  const norm = Math.hypot(...vector) || 1;
+  return vector.map((value) => value / norm);
+}
+
+export function createMockProvider(): AIProvider {
+  return {
+    name: "mock",
+    model: "mock-deterministic",
+    embeddingModel: "mock-bag-of-words",
+
+    generate(request) {
+      const text = mockText(request);
+      return Promise.resolve({ text, usage: estimateUsage(request.messages, text) });
+    },
+
+    stream(request) {
+      const text = mockText(request);
+      const words = text.split(/(?<=\s)/);
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          for (let i = 0; i < words.length; i += 8) {
+            controller.enqueue(sseChunk(words.slice(i, i + 8).join("")));
+          }
+          controller.enqueue(SSE_DONE);
+          controller.close();
+        },
+      });
+      return Promise.resolve({ body, usage: Promise.resolve(estimateUsage(request.messages, text)) });
+    },
+
+    embed(request) {
+      const promptTokens = estimateTokens(request.texts.join("\n"));
+      return Promise.resolve({
+        embeddings: request.texts.map(mockEmbedding),
+        usage: { promptTokens, completionTokens: 0, totalTokens: promptTokens },
+      });
+    },
+  };
+}
@@ -0,0 +1,142 @@
+// OpenAI-compatible chat completions, e.g. the Lovable AI gateway.
+
+import { fetchWithRetry, sseDataTransform, encoder, SSE_DONE } from "./http.ts";
+import { toJsonSchema } from "./schema.ts";
+import { AIProvider, AIProviderError, AIRequest, ChatMessage, EMBEDDING_DIMENSIONS, TokenUsage } from "./types.ts";
+
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+function toUsage(usage: OpenAIUsage | undefined): TokenUsage {
+  const promptTokens = usage?.prompt_tokens ?? 0;
+  const completionTokens = usage?.completion_tokens ?? 0;
+  return { promptTokens, completionTokens, totalTokens: usage?.total_tokens ?? promptTokens + completionTokens };
+}
+
+// Attachments become file content parts next to the message text
+function toOpenAIMessage({ role, content, attachments }: ChatMessage) {
+  if (!attachments?.length) return { role, content };
+  return {
+    role,
+    content: [
+      { type: "text", text: content },
+      ...attachments.map((a, i) => ({
+        type: "file",
+        file: { filename: `attachment-${i + 1}`, file_data: `data:${a.mimeType};base64,${a.data}` },
+      })),
+    ],
+  };
+}
+
+function buildBody(model: string, request: AIRequest, stream: boolean) {
+  return {
+    model,
+    messages: request.messages.map(toOpenAIMessage),
+    temperature: request.temperature ?? 0.7,
+    max_tokens: request.maxOutputTokens ?? 2048,
+    ...(request.responseSchema
+      ? {
+          response_format: {
+            type: "json_schema",
+            json_schema: { name: "response", schema: toJsonSchema(request.responseSchema) },
+          },
+        }
+      : {}),
+    ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+  };
+}
+
+export function createOpenAICompatibleProvider(options: {
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+  embeddingModel: string;
+}): AIProvider {
+  const { baseUrl, apiKey, model, embeddingModel } = options;
+
+  const post = (request: AIRequest, stream: boolean) =>
+    fetchWithRetry(
+      `AI gateway (${request.agent})`,
+      `${baseUrl.replace(/\/$/, "")}/chat/completions`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(buildBody(model, request, stream)),
+      },
+      request.timeoutMs
+    );
+
+  return {
+    name: "gateway",
+    model,
+    embeddingModel,
+
+    async generate(request) {
+      const response = await post(request, false);
+      const data = await response.json();
+      const text: string | undefined = data.choices?.[0]?.message?.content;
+      if (text === undefined || text === null) {
+        throw new AIProviderError("AI gateway returned no content", 502);
+      }
+      return { text, usage: toUsage(data.usage) };
+    },
+
+    async stream(request) {
+      const response = await post(request, true);
+      if (!response.body) throw new AIProviderError("AI gateway returned an empty stream", 502);
+
+      let lastUsage: OpenAIUsage | undefined;
+      let resolveUsage: (usage: TokenUsage) => void;
+      const usage = new Promise<TokenUsage>((resolve) => (resolveUsage = resolve));
+
+      // Already OpenAI SSE: pass content through and pick up the usage chunk
+      const transform = sseDataTransform(
+        (data, controller) => {
+          if (data === "[DONE]") return;
+          try {
+            const parsed = JSON.parse(data);
+            if (parsed.usage) lastUsage = parsed.usage;
+            if (parsed.choices?.length) controller.enqueue(encoder.encode(`data: ${data}\n\n`));
+          } catch {
+            // Skip invalid JSON
+          }
+        },
+        (controller) => {
+          controller.enqueue(SSE_DONE);
+          resolveUsage(toUsage(lastUsage));
+        }
+      );
+
+      return { body: response.body.pipeThrough(transform), usage };
+    },
+
+    async embed(request) {
+      const response = await fetchWithRetry(
+        `AI gateway embeddings (${request.agent})`,
+        `${baseUrl.replace(/\/$/, "")}/embeddings`,
+        {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${apiKey}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ model: embeddingModel, input: request.texts, dimensions: EMBEDDING_DIMENSIONS }),
+        }
+      );
+      const data = await response.json();
+      const embeddings: number[][] = [...(data.data ?? [])]
+        .sort((a: { index: number }, b: { index: number }) => a.index - b.index)
+        .map((item: { embedding: number[] }) => item.embedding);
+      if (embeddings.length !== request.texts.length) {
+        throw new AIProviderError(`AI gateway returned ${embeddings.length} embeddings for ${request.texts.length} texts`, 502);
+      }
+      return { embeddings, usage: toUsage(data.usage) };
+    },
+  };
+}
@@ -0,0 +1,73 @@
+// Response schemas for structured AI output.
+//
+// Schemas use the OpenAPI subset accepted by Gemini's `responseSchema`; the
+// gateway provider converts them to JSON Schema.
+
+export type SchemaType = "OBJECT" | "ARRAY" | "STRING" | "NUMBER" | "INTEGER" | "BOOLEAN";
+
+export interface ResponseSchema {
+  type: SchemaType;
+  description?: string;
+  enum?: string[];
+  nullable?: boolean;
+  properties?: Record<string, ResponseSchema>;
+  required?: string[];
+  items?: ResponseSchema;
+}
+
+export function validateSchema(value: unknown, schema: ResponseSchema, path = "$"): string[] {
+  if (value === null || value === undefined) {
+    return schema.nullable ? [] : [`${path}: expected ${schema.type.toLowerCase()}, got ${value === null ? "null" : "nothing"}`];
+  }
+
+  switch (schema.type) {
+    case "OBJECT": {
+      if (typeof value !== "object" || Array.isArray(value)) return [`${path}: expected object`];
+      const record = value as Record<string, unknown>;
+      const errors: string[] = [];
+      for (const key of schema.required ?? []) {
+        if (!(key in record)) errors.push(`${path}.${key}: missing required property`);
+      }
+      for (const [key, propSchema] of Object.entries(schema.properties ?? {})) {
+        if (key in record) errors.push(...validateSchema(record[key], propSchema, `${path}.${key}`));
+      }
+      return errors;
+    }
+    case "ARRAY": {
+      if (!Array.isArray(value)) return [`${path}: expected array`];
+      if (!schema.items) return [];
+      return value.flatMap((item, i) => validateSchema(item, schema.items!, `${path}[${i}]`));
+    }
+    case "STRING":
+      if (typeof value !== "string") return [`${path}: expected string`];
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [`${path}: '${value}' is not one of ${schema.enum.join(", ")}`];
+      }
+      return [];
+    case "NUMBER":
+      return typeof value === "number" && Number.isFinite(value) ? [] : [`${path}: expected number`];
+    case "INTEGER":
+      return Number.isInteger(value) ? [] : [`${path}: expected integer`];
+    case "BOOLEAN":
+      return typeof value === "boolean" ? [] : [`${path}: expected boolean`];
+  }
+}
+
+/** Convert to standard JSON Schema for OpenAI-compatible `response_format` */
+export function toJsonSchema(schema: ResponseSchema): Record<string, unknown> {
+  const type = schema.type.toLowerCase();
+  const result: Record<string, unknown> = {
+    type: schema.nullable ? [type, "null"] : type,
+  };
+  if (schema.description) result.description = schema.description;
+  if (schema.enum) result.enum = schema.enum;
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+    result.required = schema.required ?? [];
+    result.additionalProperties = false;
+  }
+  if (schema.items) result.items = toJsonSchema(schema.items);
+  return result;
+}
@@ -0,0 +1,85 @@
+import type { ResponseSchema } from "./schema.ts";
+
+export type ChatRole = "system" | "user" | "assistant";
+
+/** A document sent alongside a message, e.g. a scanned invoice PDF */
+export interface Attachment {
+  mimeType: string;
+  /** Base64-encoded file contents */
+  data: string;
+}
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+  /** Only user messages carry attachments */
+  attachments?: Attachment[];
+}
+
+export interface AIRequest {
+  /** Calling function, used for logs and token accounting */
+  agent: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  maxOutputTokens?: number;
+  /** Constrain the output to JSON matching this schema */
+  responseSchema?: ResponseSchema;
+  /** Overrides AI_TIMEOUT_MS for this request */
+  timeoutMs?: number;
+}
+
+/** Length of every embedding vector; regulation_chunks.embedding is vector(768) */
+export const EMBEDDING_DIMENSIONS = 768;
+
+export interface EmbedRequest {
+  /** Calling function, used for logs and token accounting */
+  agent: string;
+  texts: string[];
+  /** Documents are embedded for storage, queries for searching them */
+  purpose: "document" | "query";
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface AIResult {
+  text: string;
+  usage: TokenUsage;
+}
+
+export interface EmbedResult {
+  /** One EMBEDDING_DIMENSIONS-long vector per input text, in order */
+  embeddings: number[][];
+  usage: TokenUsage;
+}
+
+export interface AIStream {
+  /** OpenAI-compatible SSE: `data: {"choices":[{"delta":{"content":...}}]}` lines ending with `data: [DONE]` */
+  body: ReadableStream<Uint8Array>;
+  /** Resolves once the stream has been fully consumed */
+  usage: Promise<TokenUsage>;
+}
+
+export interface AIProvider {
+  name: string;
+  model: string;
+  embeddingModel: string;
+  generate(request: AIRequest): Promise<AIResult>;
+  stream(request: AIRequest): Promise<AIStream>;
+  embed(request: EmbedRequest): Promise<EmbedResult>;
+}
+
+export class AIProviderError extends Error {
+  status: number;
+  retryAfterSeconds?: number;
+
+  constructor(message: string, status: number, retryAfterSeconds?: number) {
+    super(message);
+    this.name = "AIProviderError";
+    this.status = status;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
@@ -0,0 +1,86 @@
+// Context for "ask about this audit" chats: the client sends one audit report
+// with its results joined to their transactions and clauses. Each result gets
+// a short reference (R1, R2, ...) for the model to cite; the client maps the
+// references back to result ids and links them to the result details.
+
+import { formatMoney, Money } from "./money.ts";
+
+export interface AuditChatResult {
+  id: string;
+  status: string;
+  riskLevel: string;
+  reasoning: string;
+  correctiveAction?: string;
+  missingDocs?: string[];
+  transaction: {
+    id: string;
+    date: string;
+    vendor: string;
+    category: string;
+    amount: Money;
+    tax: Money;
+    description: string;
+  } | null;
+  clause: {
+    clauseId: string;
+    rule: string;
+    conditions: string;
+    penalties: string;
+  } | null;
+}
+
+export interface AuditChatContext {
+  reportId: string;
+  generatedAt: string;
+  summary: { totalChecked: number; compliant: number; violations: number; warnings: number };
+  results: AuditChatResult[];
+}
+
+export interface ResultReference {
+  ref: string;
+  resultId: string;
+}
+
+// Findings beyond this are left out, compliant ones first since they sort last
+const MAX_RESULTS = 300;
+
+const STATUS_ORDER: Record<string, number> = { violation: 0, missing_docs: 1, warning: 2, compliant: 3 };
+
+const AUDIT_PROMPT = `You are answering questions about one specific compliance audit. Use only the audit findings below; if they do not answer the question, say so.
+
+Each finding has a reference such as [R3]. Whenever you mention a finding, cite its reference in square brackets, one reference per bracket (e.g. [R3][R7]). Quote amounts, vendors and clause IDs exactly as given.`;
+
+/** System prompt section describing the audit, plus the reference list for the client */
+export function formatAuditContext(audit: AuditChatContext): { prompt: string; references: ResultReference[] } {
+  const results = [...audit.results]
+    .sort((a, b) => (STATUS_ORDER[a.status] ?? 4) - (STATUS_ORDER[b.status] ?? 4))
+    .slice(0, MAX_RESULTS);
+
+  const references = results.map((result, i) => ({ ref: `R${i + 1}`, resultId: result.id }));
+
+  const findings = results.map((result, i) => {
+    const tx = result.transaction;
+    const clause = result.clause;
+    const lines = [
+      `[R${i + 1}] ${result.status.toUpperCase()}, ${result.riskLevel} risk (result ${result.id})`,
+      tx ? `Transaction ${tx.id}: ${tx.date}, ${tx.vendor}, ${tx.category}, amount ${formatMoney(tx.amount)}, tax ${formatMoney(tx.tax)} — ${tx.description}` : null,
+      clause ? `Clause ${clause.clauseId}: ${clause.rule}${clause.conditions ? ` | Applies when: ${clause.conditions}` : ""}${clause.penalties ? ` | Penalties: ${clause.penalties}` : ""}` : null,
+      `Reasoning: ${result.reasoning}`,
+      result.missingDocs?.length ? `Missing documents: ${result.missingDocs.join(", ")}` : null,
+      result.correctiveAction ? `Corrective action: ${result.correctiveAction}` : null,
+    ];
+    return lines.filter(Boolean).join("\n");
+  }).join("\n\n");
+
+  const { totalChecked, compliant, violations, warnings } = audit.summary;
+  const omitted = audit.results.length - results.length;
+  const prompt = `${AUDIT_PROMPT}
+
+AUDIT REPORT ${audit.reportId}, generated ${audit.generatedAt}
+${totalChecked} checks: ${compliant} compliant, ${violations} violations, ${warnings} warnings${omitted > 0 ? ` (${omitted} lowest-priority findings omitted below)` : ""}
+
+FINDINGS:
+${findings}`;
+
+  return { prompt, references };
+}
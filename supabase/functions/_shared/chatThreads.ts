@@ -0,0 +1,165 @@
+// Persistent compliance chat threads. The client sends only the new question;
+// history is read from chat_messages, and once a thread outgrows the history
+// budget its oldest messages are folded into a rolling summary so the prompt
+// stays within the model context.
+
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { AIProvider, ChatMessage } from "./ai/index.ts";
+import { estimateTokens } from "./ai/http.ts";
+import { Citation } from "./citations.ts";
+
+// History sent verbatim; beyond it older messages are summarised down to RECENT_TOKEN_BUDGET
+const HISTORY_TOKEN_BUDGET = 6000;
+const RECENT_TOKEN_BUDGET = 3000;
+
+const SUMMARY_PROMPT = `Summarise this compliance conversation for your own later reference. Keep every regulation, circular, section number, amount, rate, deadline and conclusion that was mentioned. Write at most 200 words of plain prose.`;
+
+const TITLE_PROMPT = `Write a title of at most 6 words for a conversation that starts with the question below. Reply with the title only, without quotes or punctuation at the end.`;
+
+export interface PreparedThread {
+  /** Summary of messages no longer sent verbatim, for the system prompt */
+  summary: string | null;
+  messages: ChatMessage[];
+  needsTitle: boolean;
+}
+
+export class ThreadNotFoundError extends Error {}
+
+const tokensOf = (messages: { content: string }[]) =>
+  messages.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+
+/** Store the question and return the history to send with it */
+export async function prepareThread(
+  supabase: SupabaseClient,
+  provider: AIProvider,
+  threadId: string,
+  question: string
+): Promise<PreparedThread> {
+  const { data: thread, error: threadError } = await supabase
+    .from("chat_threads")
+    .select("id, title, summary, summarized_message_count")
+    .eq("id", threadId)
+    .maybeSingle();
+  if (threadError) throw new Error(`Failed to load chat thread: ${threadError.message}`);
+  if (!thread) throw new ThreadNotFoundError("Chat thread not found");
+
+  const { error: insertError } = await supabase
+    .from("chat_messages")
+    .insert({ thread_id: threadId, role: "user", content: question });
+  if (insertError) throw new Error(`Failed to save message: ${insertError.message}`);
+
+  const { data: rows, error: messagesError } = await supabase
+    .from("chat_messages")
+    .select("role, content")
+    .eq("thread_id", threadId)
+    .order("created_at", { ascending: true });
+  if (messagesError) throw new Error(`Failed to load chat history: ${messagesError.message}`);
+
+  const all = (rows ?? []) as ChatMessage[];
+  let summary: string | null = thread.summary;
+  let summarizedCount: number = thread.summarized_message_count;
+  let recent = all.slice(summarizedCount);
+
+  if (tokensOf(recent) > HISTORY_TOKEN_BUDGET) {
+    // Keep the newest messages that fit, always including the question itself
+    let keep = 1;
+    while (keep < recent.length && tokensOf(recent.slice(-(keep + 1))) <= RECENT_TOKEN_BUDGET) keep++;
+    const folded = recent.slice(0, recent.length - keep);
+
+    summary = await summarize(provider, summary, folded);
+    summarizedCount += folded.length;
+    recent = recent.slice(-keep);
+
+    const { error } = await supabase
+      .from("chat_threads")
+      .update({ summary, summarized_message_count: summarizedCount })
+      .eq("id", threadId);
+    if (error) console.error("Failed to save thread summary:", error.message);
+    console.log(`Folded ${folded.length} messages of thread ${threadId} into its summary`);
+  }
+
+  return { summary, messages: recent, needsTitle: !thread.title };
+}
+
+async function summarize(provider: AIProvider, previous: string | null, messages: ChatMessage[]): Promise<string> {
+  const transcript = messages.map((m) => `${m.role === "user" ? "User" : "Assistant"}: ${m.content}`).join("\n\n");
+  const { text } = await provider.generate({
+    agent: "compliance-chat",
+    messages: [
+      { role: "system", content: SUMMARY_PROMPT },
+      {
+        role: "user",
+        content: previous ? `Summary so far:\n${previous}\n\nLater messages:\n${transcript}` : transcript,
+      },
+    ],
+    temperature: 0.2,
+    maxOutputTokens: 600,
+  });
+  return text.trim();
+}
+
+async function generateTitle(provider: AIProvider, question: string): Promise<string> {
+  try {
+    const { text } = await provider.generate({
+      agent: "compliance-chat",
+      messages: [
+        { role: "system", content: TITLE_PROMPT },
+        { role: "user", content: question },
+      ],
+      temperature: 0.2,
+      maxOutputTokens: 20,
+    });
+    const title = text.trim().replace(/^["']|["'.]$/g, "");
+    if (title) return title.slice(0, 80);
+  } catch (error) {
+    console.error("Thread titling failed:", error instanceof Error ? error.message : error);
+  }
+  return question.length > 60 ? `${question.slice(0, 57)}...` : question;
+}
+
+/**
+ * Pass the answer stream through unchanged and, once it ends, store the reply
+ * (and a title for a new thread) before the response closes
+ */
+export function recordReply(
+  supabase: SupabaseClient,
+  provider: AIProvider,
+  threadId: string,
+  question: string,
+  citations: Citation[],
+  needsTitle: boolean
+): TransformStream<Uint8Array, Uint8Array> {
+  const decoder = new TextDecoder();
+  let raw = "";
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      raw += decoder.decode(chunk, { stream: true });
+      controller.enqueue(chunk);
+    },
+    async flush() {
+      let content = "";
+      for (const line of raw.split("\n")) {
+        if (!line.startsWith("data:")) continue;
+        try {
+          content += JSON.parse(line.slice(5).trim()).choices?.[0]?.delta?.content ?? "";
+        } catch {
+          // [DONE] and the citations event carry no content
+        }
+      }
+
+      if (content) {
+        const { error } = await supabase
+          .from("chat_messages")
+          .insert({ thread_id: threadId, role: "assistant", content, citations });
+        if (error) console.error("Failed to save reply:", error.message);
+      }
+
+      if (needsTitle) {
+        const title = await generateTitle(provider, question);
+        const { error } = await supabase.from("chat_threads").update({ title }).eq("id", threadId);
+        if (error) console.error("Failed to save thread title:", error.message);
+      }
+    },
+  });
+}
@@ -0,0 +1,94 @@
+// Splits indexed regulations into retrieval-sized chunks. Chunks never cross
+// a PDF page boundary and record which paragraphs they cover, so answers can
+// cite "page 3, para 2".
+
+export interface DocumentChunk {
+  index: number;
+  content: string;
+  /** 1-based PDF page; null for HTML pages */
+  pageNumber: number | null;
+  /** 1-based paragraph range, numbered per page for PDFs and per document otherwise */
+  paragraphStart: number;
+  paragraphEnd: number;
+}
+
+const DEFAULT_MAX_CHARS = 1500;
+
+interface Paragraph {
+  page: number | null;
+  number: number;
+  text: string;
+}
+
+// Oversized paragraphs are cut at sentence boundaries
+function splitLong(text: string, maxChars: number): string[] {
+  if (text.length <= maxChars) return [text];
+
+  const pieces: string[] = [];
+  let current = "";
+  for (const sentence of text.match(/[^.!?]+[.!?]+["')\]]*\s*|[^.!?]+$/g) ?? [text]) {
+    if (current && current.length + sentence.length > maxChars) {
+      pieces.push(current.trim());
+      current = "";
+    }
+    // A single sentence longer than the limit is hard-wrapped
+    for (let start = 0; start < sentence.length; start += maxChars) {
+      const part = sentence.slice(start, start + maxChars);
+      if (current && current.length + part.length > maxChars) {
+        pieces.push(current.trim());
+        current = "";
+      }
+      current += part;
+    }
+  }
+  if (current.trim()) pieces.push(current.trim());
+  return pieces;
+}
+
+function chunkParagraphs(paragraphs: Paragraph[], maxChars: number, label: (p: Paragraph) => string): DocumentChunk[] {
+  const chunks: DocumentChunk[] = [];
+  let group: Paragraph[] = [];
+  let size = 0;
+
+  const flush = () => {
+    if (group.length === 0) return;
+    chunks.push({
+      index: chunks.length,
+      content: group.map((p) => `${label(p)}${p.text}`).join("\n\n"),
+      pageNumber: group[0].page,
+      paragraphStart: group[0].number,
+      paragraphEnd: group[group.length - 1].number,
+    });
+    group = [];
+    size = 0;
+  };
+
+  for (const paragraph of paragraphs) {
+    for (const text of splitLong(paragraph.text, maxChars)) {
+      const piece = { ...paragraph, text };
+      const pageChanged = group.length > 0 && group[0].page !== piece.page;
+      if (pageChanged || (group.length > 0 && size + text.length > maxChars)) flush();
+      group.push(piece);
+      size += text.length;
+    }
+  }
+  flush();
+
+  return chunks;
+}
+
+/** Chunks of a PDF given the paragraphs of each page (pages[0] is page 1) */
+export function chunkPdfPages(pages: string[][], maxChars = DEFAULT_MAX_CHARS): DocumentChunk[] {
+  const paragraphs = pages.flatMap((texts, i) => texts.map((text, j) => ({ page: i + 1, number: j + 1, text })));
+  return chunkParagraphs(paragraphs, maxChars, (p) => `[Page ${p.page}, para ${p.number}] `);
+}
+
+/** Chunks of a markdown document, split on blank lines */
+export function chunkMarkdown(markdown: string, maxChars = DEFAULT_MAX_CHARS): DocumentChunk[] {
+  const paragraphs = markdown
+    .split(/\n\s*\n/)
+    .map((text) => text.trim())
+    .filter(Boolean)
+    .map((text, i) => ({ page: null, number: i + 1, text }));
+  return chunkParagraphs(paragraphs, maxChars, () => "");
+}
@@ -0,0 +1,150 @@
+// Grounding for chat answers: finds the indexed regulations (and clauses
+// parsed from them) that match a question, numbers them as sources for the
+// prompt, and sends the same numbered list to the client as citations.
+
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { AIProvider } from "./ai/index.ts";
+import { embeddingModelLabel } from "./embeddings.ts";
+
+export interface Citation {
+  /** 1-based source number the answer refers to as [n] */
+  index: number;
+  regulationId: string;
+  title: string;
+  url: string;
+  source: string;
+  excerpt: string;
+  pageNumber: number | null;
+  paragraphStart: number | null;
+  paragraphEnd: number | null;
+  clauses: { clauseId: string; rule: string }[];
+}
+
+interface ChunkMatch {
+  regulation_id: string;
+  content: string;
+  page_number: number | null;
+  paragraph_start: number;
+  paragraph_end: number;
+  similarity: number;
+}
+
+const MAX_EXCERPT_CHARS = 1200;
+const MAX_CLAUSES_PER_SOURCE = 3;
+
+// Passages ranked by embedding similarity, at most one per regulation
+async function matchPassages(
+  supabase: SupabaseClient,
+  provider: AIProvider,
+  agent: string,
+  question: string,
+  limit: number
+): Promise<ChunkMatch[]> {
+  const { embeddings } = await provider.embed({ agent, texts: [question], purpose: "query" });
+  const { data, error } = await supabase.rpc("match_regulation_chunks", {
+    query_embedding: JSON.stringify(embeddings[0]),
+    match_count: limit * 3,
+    min_similarity: 0.35,
+    filter_embedding_model: embeddingModelLabel(provider),
+  });
+  if (error) throw new Error(`Chunk search failed: ${error.message}`);
+
+  const seen = new Set<string>();
+  return ((data ?? []) as ChunkMatch[]).filter((chunk) => {
+    if (seen.has(chunk.regulation_id)) return false;
+    seen.add(chunk.regulation_id);
+    return true;
+  }).slice(0, limit);
+}
+
+// Keyword fallback for when nothing has been embedded yet
+async function matchByKeywords(supabase: SupabaseClient, question: string, limit: number): Promise<ChunkMatch[]> {
+  const words = [...new Set(question.toLowerCase().match(/[a-z0-9]{4,}/g) ?? [])].slice(0, 6);
+  if (words.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("indexed_regulations")
+    .select("id, title, summary, content")
+    .or(words.flatMap((word) => [`title.ilike.%${word}%`, `summary.ilike.%${word}%`]).join(","))
+    .order("crawled_at", { ascending: false })
+    .limit(limit);
+  if (error) throw new Error(`Regulation search failed: ${error.message}`);
+
+  return (data ?? []).map((reg) => ({
+    regulation_id: reg.id,
+    content: reg.summary || reg.content || reg.title || "",
+    page_number: null,
+    paragraph_start: 0,
+    paragraph_end: 0,
+    similarity: 0,
+  }));
+}
+
+/** Sources for a question, best match first */
+export async function findCitations(
+  supabase: SupabaseClient,
+  provider: AIProvider,
+  agent: string,
+  question: string,
+  limit = 5
+): Promise<Citation[]> {
+  let matches: ChunkMatch[] = [];
+  try {
+    matches = await matchPassages(supabase, provider, agent, question, limit);
+  } catch (error) {
+    console.error("Semantic citation search failed:", error instanceof Error ? error.message : error);
+  }
+  if (matches.length === 0) {
+    matches = await matchByKeywords(supabase, question, limit);
+  }
+  if (matches.length === 0) return [];
+
+  const regulationIds = matches.map((m) => m.regulation_id);
+  const [{ data: regulations, error: regError }, { data: clauses, error: clauseError }] = await Promise.all([
+    supabase.from("indexed_regulations").select("id, title, url, source").in("id", regulationIds),
+    // Clauses flagged stale no longer match their regulation's text
+    supabase
+      .from("parsed_clauses")
+      .select("regulation_id, clause_id, rule")
+      .in("regulation_id", regulationIds)
+      .is("stale_at", null),
+  ]);
+  if (regError) throw new Error(`Failed to load regulations: ${regError.message}`);
+  if (clauseError) console.error("Failed to load parsed clauses:", clauseError.message);
+
+  return matches.flatMap((match) => {
+    const regulation = regulations?.find((r) => r.id === match.regulation_id);
+    if (!regulation) return [];
+    return [{
+      regulationId: regulation.id,
+      title: regulation.title || "Untitled Regulation",
+      url: regulation.url,
+      source: regulation.source,
+      excerpt: match.content.slice(0, MAX_EXCERPT_CHARS),
+      pageNumber: match.page_number,
+      paragraphStart: match.paragraph_start || null,
+      paragraphEnd: match.paragraph_end || null,
+      clauses: (clauses ?? [])
+        .filter((c) => c.regulation_id === regulation.id)
+        .slice(0, MAX_CLAUSES_PER_SOURCE)
+        .map((c) => ({ clauseId: c.clause_id, rule: c.rule })),
+    }];
+  }).map((citation, i) => ({ index: i + 1, ...citation }));
+}
+
+/** Numbered source list for the system prompt */
+export function formatCitationContext(citations: Citation[]): string {
+  if (citations.length === 0) {
+    return "No indexed regulations matched this question. Say so, and do not cite sources.";
+  }
+
+  const sources = citations.map((c) => {
+    const location = c.pageNumber ? ` (page ${c.pageNumber})` : "";
+    const clauses = c.clauses.length > 0
+      ? `\nParsed clauses:\n${c.clauses.map((clause) => `- ${clause.clauseId}: ${clause.rule}`).join("\n")}`
+      : "";
+    return `[${c.index}] ${c.title} — ${c.source}${location}\n${c.excerpt}${clauses}`;
+  }).join("\n\n");
+
+  return `Answer from these indexed regulations. Cite them inline as [1], [2] etc. next to the statements they support, and only cite numbers listed here. If they do not cover the question, say so before answering from general knowledge.\n\nSOURCES:\n${sources}`;
+}
@@ -0,0 +1,50 @@
+// Embeddings for regulation chunks. The crawler embeds chunks as it stores
+// them; embed-regulations catches up on anything that failed or predates
+// embeddings. Each vector records the model that produced it, since vectors
+// from different models can't be compared.
+
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { AIProvider } from "./ai/index.ts";
+
+// Chunks sent to the provider per embed call
+const EMBED_BATCH_SIZE = 50;
+
+/** `provider/model` label stored in regulation_chunks.embedding_model */
+export function embeddingModelLabel(provider: AIProvider): string {
+  return `${provider.name}/${provider.embeddingModel}`;
+}
+
+/** Embed the given chunks and store their vectors; returns how many were embedded */
+export async function embedChunks(
+  supabase: SupabaseClient,
+  provider: AIProvider,
+  agent: string,
+  chunks: { id: string; content: string }[]
+): Promise<number> {
+  const model = embeddingModelLabel(provider);
+  let embedded = 0;
+
+  for (let start = 0; start < chunks.length; start += EMBED_BATCH_SIZE) {
+    const batch = chunks.slice(start, start + EMBED_BATCH_SIZE);
+    const { embeddings } = await provider.embed({
+      agent,
+      texts: batch.map((chunk) => chunk.content),
+      purpose: "document",
+    });
+
+    const embeddedAt = new Date().toISOString();
+    const results = await Promise.all(
+      batch.map((chunk, i) =>
+        supabase
+          .from("regulation_chunks")
+          .update({ embedding: embeddings[i], embedding_model: model, embedded_at: embeddedAt })
+          .eq("id", chunk.id)
+      )
+    );
+    const failed = results.find(({ error }) => error);
+    if (failed?.error) throw new Error(`Failed to store embeddings: ${failed.error.message}`);
+    embedded += batch.length;
+  }
+
+  return embedded;
+}
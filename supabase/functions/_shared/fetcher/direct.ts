@@ -0,0 +1,146 @@
+// Built-in fetcher: plain HTTP, sitemap.xml discovery and a local HTML to
+// markdown conversion. Needs no credits, but cannot render JavaScript-only pages.
+
+import { extractDescription, extractLinks, extractTitle, htmlToMarkdown, parseSitemap } from "./html.ts";
+import { DownloadedFile, Fetcher, FetcherError, MapOptions, ScrapeOptions } from "./types.ts";
+
+const DEFAULT_TIMEOUT_MS = 20000;
+const MAX_SITEMAPS = 10;
+const USER_AGENT = "Mozilla/5.0 (compatible; ComplianceCrawler/1.0)";
+const MAX_DOWNLOAD_BYTES = 20 * 1024 * 1024;
+
+async function get(url: string, timeoutMs = DEFAULT_TIMEOUT_MS): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetch(url, {
+      headers: { "User-Agent": USER_AGENT, Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8" },
+      redirect: "follow",
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new FetcherError(`GET ${url} failed with status ${response.status}`, response.status);
+    }
+    return response;
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "AbortError") {
+      throw new FetcherError(`GET ${url} timed out`, 504);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function getText(url: string, timeoutMs?: number): Promise<string | null> {
+  try {
+    return await (await get(url, timeoutMs)).text();
+  } catch {
+    return null;
+  }
+}
+
+/** Plain HTTP download, shared with backends that only scrape HTML themselves */
+export async function downloadFile(url: string, options: { timeoutMs?: number } = {}): Promise<DownloadedFile> {
+  const response = await get(url, options.timeoutMs ?? 60000);
+  const declaredLength = Number(response.headers.get("Content-Length"));
+  if (declaredLength > MAX_DOWNLOAD_BYTES) {
+    await response.body?.cancel();
+    throw new FetcherError(`${url} is larger than ${MAX_DOWNLOAD_BYTES / 1024 / 1024} MB`, 413);
+  }
+
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  if (bytes.byteLength > MAX_DOWNLOAD_BYTES) {
+    throw new FetcherError(`${url} is larger than ${MAX_DOWNLOAD_BYTES / 1024 / 1024} MB`, 413);
+  }
+  return { url: response.url || url, bytes, contentType: response.headers.get("Content-Type") ?? "application/octet-stream" };
+}
+
+function sameSite(url: string, origin: URL, includeSubdomains: boolean): boolean {
+  try {
+    const host = new URL(url).hostname;
+    const base = origin.hostname.replace(/^www\./, "");
+    return host === origin.hostname || host === base || (includeSubdomains && host.endsWith(`.${base}`));
+  } catch {
+    return false;
+  }
+}
+
+/** Sitemaps declared in robots.txt, plus the conventional /sitemap.xml */
+async function sitemapCandidates(origin: URL): Promise<string[]> {
+  const robots = await getText(new URL("/robots.txt", origin).toString(), 10000);
+  const declared = [...(robots ?? "").matchAll(/^\s*sitemap:\s*(\S+)/gim)].map((match) => match[1]);
+  return [...new Set([...declared, new URL("/sitemap.xml", origin).toString()])];
+}
+
+export function createDirectFetcher(): Fetcher {
+  return {
+    name: "direct",
+
+    async map(url: string, options: MapOptions = {}) {
+      const limit = options.limit ?? 50;
+      const origin = new URL(url);
+      const found = new Set<string>();
+      const accept = (link: string) => {
+        if (found.size < limit && sameSite(link, origin, options.includeSubdomains ?? false)) found.add(link);
+      };
+
+      // Walk sitemaps (and sitemap indexes) breadth-first
+      const queue = await sitemapCandidates(origin);
+      const visited = new Set<string>();
+      while (queue.length > 0 && visited.size < MAX_SITEMAPS && found.size < limit) {
+        const sitemapUrl = queue.shift()!;
+        if (visited.has(sitemapUrl)) continue;
+        visited.add(sitemapUrl);
+
+        const xml = await getText(sitemapUrl);
+        if (!xml || !/<(urlset|sitemapindex)\b/i.test(xml)) continue;
+        const { urls, sitemaps } = parseSitemap(xml);
+        urls.forEach(accept);
+        queue.push(...sitemaps);
+      }
+
+      // No usable sitemap: fall back to the links on the page itself
+      if (found.size === 0) {
+        const html = await getText(url);
+        if (html === null) throw new FetcherError(`Could not fetch ${url}`, 502);
+        accept(url);
+        extractLinks(html, url).forEach(accept);
+      }
+
+      console.log(`Direct map of ${url}: ${found.size} URLs (${visited.size} sitemaps read)`);
+      return [...found];
+    },
+
+    async scrape(url: string, options: ScrapeOptions = {}) {
+      const response = await get(url, options.timeoutMs);
+      const finalUrl = response.url || url;
+      const contentType = response.headers.get("Content-Type") ?? "";
+
+      if (!/html|xml/i.test(contentType) && contentType) {
+        if (!/^text\//i.test(contentType)) {
+          await response.body?.cancel();
+          throw new FetcherError(`Unsupported content type ${contentType} at ${url}`, 415);
+        }
+        return { url, markdown: (await response.text()).trim(), metadata: { sourceURL: finalUrl, statusCode: response.status } };
+      }
+
+      const html = await response.text();
+      return {
+        url,
+        markdown: htmlToMarkdown(html, finalUrl, { onlyMainContent: options.onlyMainContent ?? true }),
+        html,
+        metadata: {
+          title: extractTitle(html),
+          description: extractDescription(html),
+          sourceURL: finalUrl,
+          statusCode: response.status,
+        },
+      };
+    },
+
+    download: downloadFile,
+  };
+}
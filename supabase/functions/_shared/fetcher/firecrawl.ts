@@ -0,0 +1,78 @@
+import { downloadFile } from "./direct.ts";
+import { Fetcher, FetcherError, MapOptions, ScrapeOptions } from "./types.ts";
+
+const FIRECRAWL_BASE_URL = "https://api.firecrawl.dev/v1";
+const DEFAULT_TIMEOUT_MS = 30000;
+
+export function createFirecrawlFetcher(apiKey: string): Fetcher {
+  const post = async (path: "map" | "scrape", body: Record<string, unknown>, timeoutMs = DEFAULT_TIMEOUT_MS) => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      const response = await fetch(`${FIRECRAWL_BASE_URL}/${path}`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        console.error(`Firecrawl ${path} error:`, data);
+        throw new FetcherError(data.error || `Request failed with status ${response.status}`, response.ok ? 502 : response.status);
+      }
+      return data;
+    } catch (error) {
+      if (error instanceof DOMException && error.name === "AbortError") {
+        throw new FetcherError(`Firecrawl ${path} timed out`, 504);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  return {
+    name: "firecrawl",
+
+    async map(url: string, options: MapOptions = {}) {
+      const data = await post("map", {
+        url,
+        limit: options.limit ?? 50,
+        includeSubdomains: options.includeSubdomains ?? false,
+      });
+      return data.links || [];
+    },
+
+    async scrape(url: string, options: ScrapeOptions = {}) {
+      const data = await post(
+        "scrape",
+        {
+          url,
+          formats: ["markdown"],
+          onlyMainContent: options.onlyMainContent ?? true,
+          waitFor: options.waitFor,
+        },
+        options.timeoutMs
+      );
+      const metadata = data.data?.metadata ?? {};
+      return {
+        url,
+        markdown: data.data?.markdown || "",
+        html: data.data?.html,
+        metadata: {
+          title: metadata.title,
+          description: metadata.description,
+          sourceURL: metadata.sourceURL || url,
+          statusCode: metadata.statusCode,
+        },
+      };
+    },
+
+    // Firecrawl flattens PDFs into one markdown blob; download them directly to keep page numbers
+    download: downloadFile,
+  };
+}
@@ -0,0 +1,94 @@
+// Serves recorded pages from disk so crawls can run offline and repeatably.
+//
+// The fixture directory holds a manifest.json:
+//   { "pages": [{ "url": "https://...", "file": "portal/page.html", "title": "optional" }] }
+// Files ending in .md are served as-is, .pdf files are served by download();
+// anything else is treated as HTML.
+
+import { extractDescription, extractTitle, htmlToMarkdown } from "./html.ts";
+import { Fetcher, FetcherError, MapOptions, ScrapeOptions } from "./types.ts";
+
+interface FixturePage {
+  url: string;
+  file: string;
+  title?: string;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  pdf: "application/pdf",
+  md: "text/markdown",
+  html: "text/html",
+};
+
+const DEFAULT_FIXTURES_DIR = new URL("./fixtures/", import.meta.url);
+
+// Trailing slashes and fragments don't distinguish recorded pages
+function normalize(url: string): string {
+  const parsed = new URL(url);
+  parsed.hash = "";
+  return parsed.toString().replace(/\/$/, "");
+}
+
+export function createFixtureFetcher(dir?: string): Fetcher {
+  const root = dir ? new URL(dir.endsWith("/") ? dir : `${dir}/`, `file://${Deno.cwd()}/`) : DEFAULT_FIXTURES_DIR;
+  let manifest: Promise<Map<string, FixturePage>> | null = null;
+
+  const pages = () => {
+    manifest ??= Deno.readTextFile(new URL("manifest.json", root)).then((text) => {
+      const parsed: { pages?: FixturePage[] } = JSON.parse(text);
+      return new Map((parsed.pages ?? []).map((page) => [normalize(page.url), page]));
+    });
+    return manifest;
+  };
+
+  const find = async (url: string) => {
+    const page = (await pages()).get(normalize(url));
+    if (!page) throw new FetcherError(`No recorded page for ${url}`, 404);
+    return page;
+  };
+
+  return {
+    name: "fixture",
+
+    async map(url: string, options: MapOptions = {}) {
+      const host = new URL(url).hostname;
+      const matches = [...(await pages()).values()]
+        .map((page) => page.url)
+        .filter((pageUrl) => {
+          const pageHost = new URL(pageUrl).hostname;
+          return pageHost === host || (options.includeSubdomains === true && pageHost.endsWith(`.${host}`));
+        });
+      return matches.slice(0, options.limit ?? 50);
+    },
+
+    async scrape(url: string, options: ScrapeOptions = {}) {
+      const page = await find(url);
+      const body = await Deno.readTextFile(new URL(page.file, root));
+      if (page.file.endsWith(".md")) {
+        return { url, markdown: body.trim(), metadata: { title: page.title, sourceURL: page.url, statusCode: 200 } };
+      }
+
+      return {
+        url,
+        markdown: htmlToMarkdown(body, page.url, { onlyMainContent: options.onlyMainContent ?? true }),
+        html: body,
+        metadata: {
+          title: page.title ?? extractTitle(body),
+          description: extractDescription(body),
+          sourceURL: page.url,
+          statusCode: 200,
+        },
+      };
+    },
+
+    async download(url: string) {
+      const page = await find(url);
+      const extension = page.file.split(".").pop()?.toLowerCase() ?? "";
+      return {
+        url: page.url,
+        bytes: await Deno.readFile(new URL(page.file, root)),
+        contentType: CONTENT_TYPES[extension] ?? "application/octet-stream",
+      };
+    },
+  };
+}
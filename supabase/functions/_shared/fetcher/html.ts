@@ -0,0 +1,159 @@
+// Dependency-free HTML helpers for the direct and fixture fetchers: main
+// content extraction, HTML to markdown, link and sitemap parsing. Aimed at the
+// mostly static pages of government portals, not at arbitrary web apps.
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  hellip: "…",
+  bull: "•",
+  copy: "©",
+  reg: "®",
+  rupee: "₹",
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+const stripTags = (html: string) => decodeEntities(html.replace(/<[^>]*>/g, "")).replace(/\s+/g, " ").trim();
+
+function attribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, "i"));
+  return match ? decodeEntities(match[1] ?? match[2] ?? match[3]) : undefined;
+}
+
+function resolveUrl(href: string, baseUrl: string): string | null {
+  if (/^(javascript|mailto|tel|data):/i.test(href) || href.startsWith("#")) return null;
+  try {
+    const url = new URL(href, baseUrl);
+    url.hash = "";
+    return url.protocol === "http:" || url.protocol === "https:" ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+export function extractTitle(html: string): string | undefined {
+  const ogTitle = html.match(/<meta[^>]+property\s*=\s*["']og:title["'][^>]*>/i);
+  const title = ogTitle ? attribute(ogTitle[0], "content") : html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  return title ? stripTags(title) || undefined : undefined;
+}
+
+export function extractDescription(html: string): string | undefined {
+  const meta = html.match(/<meta[^>]+name\s*=\s*["']description["'][^>]*>/i);
+  return meta ? attribute(meta[0], "content") : undefined;
+}
+
+/** Absolute http(s) links of every anchor in the document */
+export function extractLinks(html: string, baseUrl: string): string[] {
+  const links = new Set<string>();
+  for (const match of html.matchAll(/<a\s[^>]*>/gi)) {
+    const href = attribute(match[0], "href");
+    const url = href ? resolveUrl(href, baseUrl) : null;
+    if (url) links.add(url);
+  }
+  return [...links];
+}
+
+/** Page URLs and nested sitemaps listed in a sitemap or sitemap index */
+export function parseSitemap(xml: string): { urls: string[]; sitemaps: string[] } {
+  const locs = (block: string) =>
+    [...xml.matchAll(new RegExp(`<${block}>[\\s\\S]*?<loc>\\s*([\\s\\S]*?)\\s*</loc>[\\s\\S]*?</${block}>`, "gi"))].map(
+      (match) => decodeEntities(match[1].replace(/^<!\[CDATA\[|\]\]>$/g, ""))
+    );
+  return { urls: locs("url"), sitemaps: locs("sitemap") };
+}
+
+function removeElements(html: string, tags: string[]): string {
+  return html.replace(new RegExp(`<(${tags.join("|")})\\b[^>]*>[\\s\\S]*?<\\/\\1>`, "gi"), "");
+}
+
+/** The page's main content: <main>, <article> or role="main", else the body without site chrome */
+export function mainContent(html: string): string {
+  const cleaned = removeElements(html.replace(/<!--[\s\S]*?-->/g, ""), ["script", "style", "noscript", "template"]);
+
+  const main =
+    cleaned.match(/<main\b[^>]*>([\s\S]*?)<\/main>/i)?.[1] ??
+    cleaned.match(/<article\b[^>]*>([\s\S]*)<\/article>/i)?.[1] ??
+    cleaned.match(/<(div|section)\b[^>]*role\s*=\s*["']main["'][^>]*>([\s\S]*)<\/\1>/i)?.[2];
+  if (main) return main;
+
+  const body = cleaned.match(/<body\b[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? cleaned;
+  return removeElements(body, ["nav", "header", "footer", "aside", "form"]);
+}
+
+function tableToMarkdown(table: string): string {
+  const rows = [...table.matchAll(/<tr\b[^>]*>([\s\S]*?)<\/tr>/gi)].map((row) =>
+    [...row[1].matchAll(/<t[hd]\b[^>]*>([\s\S]*?)<\/t[hd]>/gi)].map((cell) => stripTags(cell[1]).replace(/\|/g, "\\|"))
+  ).filter((cells) => cells.length > 0);
+  if (rows.length === 0) return "";
+
+  const width = Math.max(...rows.map((cells) => cells.length));
+  const line = (cells: string[]) => `| ${Array.from({ length: width }, (_, i) => cells[i] ?? "").join(" | ")} |`;
+  return [line(rows[0]), `| ${Array(width).fill("---").join(" | ")} |`, ...rows.slice(1).map(line)].join("\n");
+}
+
+export function htmlToMarkdown(html: string, baseUrl: string, options: { onlyMainContent?: boolean } = {}): string {
+  let content = options.onlyMainContent === false
+    ? removeElements(html.replace(/<!--[\s\S]*?-->/g, ""), ["script", "style", "noscript", "template"])
+    : mainContent(html);
+
+  // Set aside blocks whose whitespace matters before collapsing the rest
+  const preserved: string[] = [];
+  const preserve = (markdown: string) => `\uE000${preserved.push(markdown) - 1}\uE000`;
+
+  content = content
+    .replace(/<pre\b[^>]*>([\s\S]*?)<\/pre>/gi, (_, code: string) =>
+      preserve(`\n\n\`\`\`\n${decodeEntities(code.replace(/<[^>]*>/g, "")).replace(/^\n+|\s+$/g, "")}\n\`\`\`\n\n`)
+    )
+    .replace(/<table\b[^>]*>([\s\S]*?)<\/table>/gi, (_, table: string) => preserve(`\n\n${tableToMarkdown(table)}\n\n`))
+    .replace(/\s+/g, " ");
+
+  content = content
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, text: string) =>
+      `\n\n${"#".repeat(Number(level))} ${stripTags(text)}\n\n`
+    )
+    .replace(/<a\s[^>]*>([\s\S]*?)<\/a>/gi, (anchor: string, text: string) => {
+      const label = stripTags(text);
+      const href = attribute(anchor, "href");
+      const url = href ? resolveUrl(href, baseUrl) : null;
+      return url && label ? `[${label}](${url})` : label;
+    })
+    .replace(/<(strong|b)\b[^>]*>([\s\S]*?)<\/\1>/gi, (_, __, text: string) => (text.trim() ? `**${text.trim()}**` : ""))
+    .replace(/<(em|i)\b[^>]*>([\s\S]*?)<\/\1>/gi, (_, __, text: string) => (text.trim() ? `_${text.trim()}_` : ""))
+    .replace(/<ol\b[^>]*>([\s\S]*?)<\/ol>/gi, (_, list: string) => {
+      let n = 0;
+      return `\n\n${list.replace(/<li\b[^>]*>/gi, () => `\n${++n}. `)}\n\n`;
+    })
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(/<blockquote\b[^>]*>([\s\S]*?)<\/blockquote>/gi, (_, quote: string) => `\n\n> ${stripTags(quote)}\n\n`)
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<hr\b[^>]*>/gi, "\n\n---\n\n")
+    .replace(/<\/?(p|div|section|article|ul|ol|dl|dt|dd|figure|figcaption|address)\b[^>]*>/gi, "\n\n")
+    .replace(/<[^>]*>/g, "");
+
+  return decodeEntities(content)
+    .split("\n")
+    .map((line) => line.replace(/[ \t]+/g, " ").trim())
+    .join("\n")
+    .replace(/\uE000(\d+)\uE000/g, (_, index: string) => preserved[Number(index)])
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
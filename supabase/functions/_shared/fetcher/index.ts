@@ -0,0 +1,42 @@
+// Page fetching for the crawler and scrape functions.
+//
+// FETCHER selects the backend:
+//   firecrawl  Firecrawl map/scrape API (FIRECRAWL_API_KEY)
+//   direct     built-in HTTP fetcher with sitemap.xml discovery, no keys required
+//   fixture    recorded pages from disk (FETCHER_FIXTURES_DIR, default _shared/fetcher/fixtures)
+// When unset, Firecrawl is used if FIRECRAWL_API_KEY is present, else the direct fetcher.
+
+import { createDirectFetcher } from "./direct.ts";
+import { createFirecrawlFetcher } from "./firecrawl.ts";
+import { createFixtureFetcher } from "./fixture.ts";
+import { Fetcher, FetcherError } from "./types.ts";
+
+export * from "./types.ts";
+
+export function getFetcher(): Fetcher {
+  const choice = (Deno.env.get("FETCHER") ?? "").trim().toLowerCase();
+  const firecrawlKey = Deno.env.get("FIRECRAWL_API_KEY");
+
+  switch (choice) {
+    case "firecrawl":
+      if (!firecrawlKey) throw new Error("FIRECRAWL_API_KEY is not configured");
+      return createFirecrawlFetcher(firecrawlKey);
+    case "direct":
+      return createDirectFetcher();
+    case "fixture":
+      return createFixtureFetcher(Deno.env.get("FETCHER_FIXTURES_DIR") || undefined);
+    case "":
+      return firecrawlKey ? createFirecrawlFetcher(firecrawlKey) : createDirectFetcher();
+    default:
+      throw new Error(`Unknown FETCHER '${choice}'`);
+  }
+}
+
+/** JSON error response; fetcher errors keep their status */
+export function fetcherErrorResponse(error: unknown, corsHeaders: Record<string, string>): Response {
+  const status = error instanceof FetcherError ? error.status : 500;
+  return new Response(
+    JSON.stringify({ success: false, error: error instanceof Error ? error.message : "Failed to scrape" }),
+    { status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+}
@@ -0,0 +1,91 @@
+// Text extraction for PDF circulars, keeping page and paragraph positions so
+// clauses can be cited as "page 3, para 2".
+
+import { extractText, getDocumentProxy } from "https://esm.sh/unpdf@0.12.1";
+
+export interface PdfDocument {
+  title?: string;
+  pageCount: number;
+  /** Paragraphs of each page, in reading order; pages[0] is page 1 */
+  pages: string[][];
+}
+
+export function isPdf(url: string, contentType?: string): boolean {
+  if (contentType && /application\/pdf/i.test(contentType)) return true;
+  try {
+    return new URL(url).pathname.toLowerCase().endsWith(".pdf");
+  } catch {
+    return url.toLowerCase().endsWith(".pdf");
+  }
+}
+
+// Running headers/footers such as "3", "Page 3 of 12" or "- 3 -"
+const PAGE_NUMBER_LINE = /^[-–\s]*(page\s*)?\d{1,4}(\s*(of|\/)\s*\d{1,4})?[-–\s]*$/i;
+
+// Numbered clauses and list items always start a new paragraph
+const PARAGRAPH_MARKER = /^(\d{1,3}(\.\d{1,3})*[.)]|\([a-z0-9ivx]{1,5}\)|[a-z][.)]|[ivx]{1,5}[.)]|[•▪●-])\s/i;
+
+/** Split one page's extracted text into paragraphs */
+export function splitParagraphs(pageText: string): string[] {
+  const lines = pageText.split(/\r?\n/).map((line) => line.replace(/\s+/g, " ").trim());
+  const longest = Math.max(0, ...lines.map((line) => line.length));
+
+  const paragraphs: string[] = [];
+  let current = "";
+  let previous = "";
+
+  const flush = () => {
+    if (current.trim()) paragraphs.push(current.trim());
+    current = "";
+  };
+
+  for (const line of lines) {
+    if (!line) {
+      flush();
+      previous = "";
+      continue;
+    }
+    if (PAGE_NUMBER_LINE.test(line)) continue;
+
+    // A short line ending a sentence usually closes its paragraph
+    const previousClosed = /[.:;]$/.test(previous) && previous.length < longest * 0.7;
+    if (current && (PARAGRAPH_MARKER.test(line) || previousClosed)) flush();
+
+    if (current.endsWith("-") && /^[a-z]/.test(line)) {
+      current = current.slice(0, -1) + line;
+    } else {
+      current = current ? `${current} ${line}` : line;
+    }
+    previous = line;
+  }
+  flush();
+
+  return paragraphs;
+}
+
+export async function extractPdf(bytes: Uint8Array): Promise<PdfDocument> {
+  const pdf = await getDocumentProxy(bytes);
+  const { totalPages, text } = await extractText(pdf, { mergePages: false });
+
+  let title: string | undefined;
+  try {
+    const { info } = await pdf.getMetadata();
+    const metadataTitle = (info as { Title?: string } | undefined)?.Title?.trim();
+    if (metadataTitle) title = metadataTitle;
+  } catch {
+    // Metadata is optional
+  }
+
+  return { title, pageCount: totalPages, pages: text.map(splitParagraphs) };
+}
+
+/** Markdown with a heading per page and each paragraph labelled for citation */
+export function pdfToMarkdown(document: PdfDocument): string {
+  return document.pages
+    .map((paragraphs, i) => {
+      const page = i + 1;
+      const body = paragraphs.map((text, j) => `[Page ${page}, para ${j + 1}] ${text}`).join("\n\n");
+      return `## Page ${page}\n\n${body || "_No extractable text on this page._"}`;
+    })
+    .join("\n\n");
+}
@@ -0,0 +1,52 @@
+export interface MapOptions {
+  /** Maximum number of URLs to return */
+  limit?: number;
+  includeSubdomains?: boolean;
+}
+
+export interface ScrapeOptions {
+  /** Strip navigation, headers and footers (default true) */
+  onlyMainContent?: boolean;
+  /** Milliseconds to let client-side rendering settle; only Firecrawl renders pages */
+  waitFor?: number;
+  timeoutMs?: number;
+}
+
+export interface ScrapedPage {
+  url: string;
+  markdown: string;
+  /** Raw HTML when the backend has it */
+  html?: string;
+  metadata: {
+    title?: string;
+    description?: string;
+    sourceURL: string;
+    statusCode?: number;
+  };
+}
+
+export interface DownloadedFile {
+  url: string;
+  bytes: Uint8Array;
+  contentType: string;
+}
+
+export interface Fetcher {
+  name: string;
+  /** Discover crawlable URLs under a site */
+  map(url: string, options?: MapOptions): Promise<string[]>;
+  /** Fetch one page as markdown */
+  scrape(url: string, options?: ScrapeOptions): Promise<ScrapedPage>;
+  /** Fetch a binary document such as a PDF circular */
+  download(url: string, options?: { timeoutMs?: number }): Promise<DownloadedFile>;
+}
+
+export class FetcherError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "FetcherError";
+    this.status = status;
+  }
+}
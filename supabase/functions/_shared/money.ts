@@ -0,0 +1,32 @@
+// Transaction amounts as sent by the app: an integer count of the currency's
+// minor unit (paise for INR) plus an ISO 4217 code. Prompts get them
+// formatted, with lakh/crore grouping for rupees.
+
+export interface Money {
+  paise: number;
+  currency: string;
+}
+
+export function formatMoney(value: Money): string {
+  const major = value.paise / 100;
+  try {
+    return new Intl.NumberFormat(value.currency === "INR" ? "en-IN" : "en", {
+      style: "currency",
+      currency: value.currency,
+      minimumFractionDigits: 2,
+    }).format(major);
+  } catch {
+    return `${value.currency} ${major.toFixed(2)}`;
+  }
+}
+
+/** The transaction with `amount` and `tax` formatted, for prompts that embed it as JSON */
+export function withFormattedMoney<T extends { amount?: Money; tax?: Money }>(
+  tx: T
+): Omit<T, "amount" | "tax"> & { amount?: string; tax?: string } {
+  return {
+    ...tx,
+    amount: tx.amount ? formatMoney(tx.amount) : undefined,
+    tax: tx.tax ? formatMoney(tx.tax) : undefined,
+  };
+}
@@ -0,0 +1,166 @@
+// Regulation portal settings shared by the crawler, which filters mapped URLs
+// with them, and manage-portals, which validates them before saving.
+
+export interface PortalCrawlSettings {
+  /** An empty include list accepts every mapped URL */
+  include_patterns: string[];
+  exclude_patterns: string[];
+  max_urls: number;
+  map_limit: number;
+}
+
+export interface PortalInput extends PortalCrawlSettings {
+  name: string;
+  base_url: string;
+  category: string;
+  is_active: boolean;
+  crawl_schedule: string | null;
+}
+
+export const MAX_URLS_LIMIT = 100;
+export const MAP_LIMIT_MAX = 5000;
+
+function compile(patterns: string[]): RegExp[] {
+  return patterns.map((pattern) => new RegExp(pattern, 'i'));
+}
+
+function isPublicUrl(url: string): boolean {
+  try {
+    return !isPrivateHost(new URL(url).hostname);
+  } catch {
+    return false;
+  }
+}
+
+/** URLs worth indexing: on a public host, match an include pattern, no exclude pattern, capped at max_urls */
+export function selectRelevantUrls(urls: string[], settings: PortalCrawlSettings): string[] {
+  const include = compile(settings.include_patterns);
+  const exclude = compile(settings.exclude_patterns);
+  return urls
+    .filter(isPublicUrl)
+    .filter((url) => !exclude.some((pattern) => pattern.test(url)))
+    .filter((url) => include.length === 0 || include.some((pattern) => pattern.test(url)))
+    .slice(0, settings.max_urls);
+}
+
+function isPrivateIPv4(host: string): boolean {
+  const match = host.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/);
+  if (!match) return false;
+  const [a, b] = [Number(match[1]), Number(match[2])];
+  return a === 0 || a === 10 || a === 127                // this network, private, loopback
+    || (a === 100 && b >= 64 && b <= 127)                // carrier-grade NAT
+    || (a === 169 && b === 254)                          // link-local, including cloud metadata
+    || (a === 172 && b >= 16 && b <= 31)
+    || (a === 192 && b === 168)
+    || a >= 224;                                         // multicast and reserved
+}
+
+/**
+ * Hosts the crawler must not be pointed at: loopback, private, link-local and
+ * local-only names. Names are judged as written; portals are added by admins,
+ * so this guards against mistakes and probing rather than DNS tricks.
+ */
+export function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+  if (host === 'localhost' || /\.(localhost|local|internal)$/.test(host) || (!host.includes('.') && !host.includes(':'))) {
+    return true;
+  }
+  if (host.includes(':')) {
+    // IPv4-mapped addresses, which URL parsing writes in hex (::ffff:7f00:1)
+    const mapped = host.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+    if (mapped) {
+      const [high, low] = [parseInt(mapped[1], 16), parseInt(mapped[2], 16)];
+      return isPrivateIPv4(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+    }
+    return host === '::' || host === '::1' || /^f[cd]/.test(host) || /^fe[89ab]/.test(host);
+  }
+  return isPrivateIPv4(host);
+}
+
+function cleanPatterns(value: unknown, field: string, errors: string[]): string[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some((p) => typeof p !== 'string')) {
+    errors.push(`${field} must be a list of strings`);
+    return [];
+  }
+  const patterns = value.map((p: string) => p.trim()).filter(Boolean);
+  for (const pattern of patterns) {
+    try {
+      new RegExp(pattern, 'i');
+    } catch {
+      errors.push(`${field}: "${pattern}" is not a valid regular expression`);
+    }
+  }
+  return patterns;
+}
+
+function cleanInteger(value: unknown, field: string, min: number, max: number, errors: string[]): number | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+    errors.push(`${field} must be a whole number between ${min} and ${max}`);
+    return undefined;
+  }
+  return value;
+}
+
+/**
+ * Validate a create or update payload. With `partial` only the fields present
+ * are checked and returned; otherwise name, base_url and category are required.
+ */
+export function validatePortalInput(
+  body: Record<string, unknown>,
+  partial: boolean
+): { portal: Partial<PortalInput>; errors: string[] } {
+  const errors: string[] = [];
+  const portal: Partial<PortalInput> = {};
+
+  for (const field of ['name', 'category'] as const) {
+    const value = body[field];
+    if (value === undefined && partial) continue;
+    if (typeof value !== 'string' || !value.trim()) {
+      errors.push(`${field} is required`);
+    } else {
+      portal[field] = value.trim();
+    }
+  }
+
+  if (body.base_url !== undefined || !partial) {
+    try {
+      const url = new URL(String(body.base_url ?? '').trim());
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new Error();
+      if (isPrivateHost(url.hostname)) {
+        errors.push('base_url must point at a public host');
+      } else {
+        portal.base_url = url.toString();
+      }
+    } catch {
+      errors.push('base_url must be an http(s) URL');
+    }
+  }
+
+  if (body.is_active !== undefined) {
+    if (typeof body.is_active !== 'boolean') errors.push('is_active must be true or false');
+    else portal.is_active = body.is_active;
+  }
+
+  if (body.crawl_schedule !== undefined) {
+    const schedule = body.crawl_schedule;
+    if (schedule !== null && typeof schedule !== 'string') errors.push('crawl_schedule must be text or null');
+    // The database turns the schedule into a pg_cron job and rejects ones it can't run
+    else portal.crawl_schedule = schedule?.trim() || null;
+  }
+
+  if (body.include_patterns !== undefined) {
+    portal.include_patterns = cleanPatterns(body.include_patterns, 'include_patterns', errors);
+  }
+  if (body.exclude_patterns !== undefined) {
+    portal.exclude_patterns = cleanPatterns(body.exclude_patterns, 'exclude_patterns', errors);
+  }
+
+  const maxUrls = cleanInteger(body.max_urls, 'max_urls', 1, MAX_URLS_LIMIT, errors);
+  if (maxUrls !== undefined) portal.max_urls = maxUrls;
+  const mapLimit = cleanInteger(body.map_limit, 'map_limit', 1, MAP_LIMIT_MAX, errors);
+  if (mapLimit !== undefined) portal.map_limit = mapLimit;
+
+  return { portal, errors };
+}
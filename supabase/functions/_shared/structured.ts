@@ -0,0 +1,84 @@
+// Structured output for agent functions.
+//
+// Agents called with `mode: "structured"` ask the AI provider for JSON
+// constrained by a response schema, then validate the parsed result against
+// the same schema before returning it. Validation failures are reported back
+// to the caller instead of being papered over.
+
+import { AIProviderError, getAIProvider, TokenUsage, validateSchema } from "./ai/index.ts";
+import type { Attachment, ResponseSchema } from "./ai/index.ts";
+
+export type { ResponseSchema } from "./ai/index.ts";
+
+export type StructuredOutcome<T> =
+  | { ok: true; data: T; usage: TokenUsage }
+  | { ok: false; status: number; error: string; validationErrors?: string[]; raw?: string; retryAfterSeconds?: number };
+
+interface GenerateStructuredOptions {
+  agent: string;
+  system?: string;
+  prompt: string;
+  /** Documents sent with the prompt, e.g. a scanned PDF */
+  attachments?: Attachment[];
+  schema: ResponseSchema;
+  temperature?: number;
+  maxOutputTokens?: number;
+  /** Extra checks that need request context, e.g. ids must refer to the input */
+  validate?: (data: unknown) => string[];
+}
+
+export async function generateStructured<T>(options: GenerateStructuredOptions): Promise<StructuredOutcome<T>> {
+  const { agent, system, prompt, attachments, schema, temperature = 0.2, maxOutputTokens = 4096, validate } = options;
+
+  let raw: string;
+  let usage: TokenUsage;
+  try {
+    ({ text: raw, usage } = await getAIProvider().generate({
+      agent,
+      messages: [
+        ...(system ? [{ role: "system" as const, content: system }] : []),
+        { role: "user", content: prompt, attachments },
+      ],
+      temperature,
+      maxOutputTokens,
+      responseSchema: schema,
+    }));
+  } catch (error) {
+    if (error instanceof AIProviderError) {
+      return { ok: false, status: error.status, error: error.message, retryAfterSeconds: error.retryAfterSeconds };
+    }
+    throw error;
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    console.error(`${agent} returned invalid JSON:`, raw.slice(0, 500));
+    return { ok: false, status: 422, error: "AI response is not valid JSON", validationErrors: ["$: invalid JSON"], raw };
+  }
+
+  const validationErrors = [...validateSchema(data, schema), ...(validate?.(data) ?? [])];
+  if (validationErrors.length > 0) {
+    console.error(`${agent} schema validation failed:`, validationErrors);
+    return { ok: false, status: 422, error: "AI response failed schema validation", validationErrors, raw };
+  }
+
+  return { ok: true, data: data as T, usage };
+}
+
+export function structuredResponse<T>(outcome: StructuredOutcome<T>, corsHeaders: Record<string, string>): Response {
+  if (outcome.ok) {
+    return new Response(JSON.stringify({ mode: "structured", data: outcome.data, usage: outcome.usage }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  const headers: Record<string, string> = { ...corsHeaders, "Content-Type": "application/json" };
+  if (outcome.retryAfterSeconds) headers["Retry-After"] = String(outcome.retryAfterSeconds);
+
+  return new Response(
+    JSON.stringify({ error: outcome.error, validationErrors: outcome.validationErrors, raw: outcome.raw }),
+    { status: outcome.status, headers }
+  );
+}
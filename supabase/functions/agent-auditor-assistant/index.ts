@@ -1,4 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { aiErrorResponse, getAIProvider, streamResponse } from "../_shared/ai/index.ts";
+import { generateStructured, structuredResponse, ResponseSchema } from "../_shared/structured.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -27,94 +29,91 @@ RECOMMENDATIONS: Prioritized corrective actions
 REMEDIATION_TIMELINE: Action items with deadlines
 DOCUMENTATION_REQUIRED: List of supporting documents`;
 
+const STRUCTURED_PROMPT = `You are an Auditor Assistant Agent producing an explainable compliance audit report.
+
+Write a short executive summary, then one detail entry per compliance result in the input.
+Each detail must reference the complianceResultId from the input, the clause reference, explain the finding and give a specific corrective action with a timeline.`;
+
+const AUDIT_REPORT_SCHEMA: ResponseSchema = {
+  type: "OBJECT",
+  properties: {
+    executiveSummary: { type: "STRING" },
+    complianceStatus: { type: "STRING", enum: ["COMPLIANT", "NON_COMPLIANT", "PARTIALLY_COMPLIANT"] },
+    details: {
+      type: "ARRAY",
+      items: {
+        type: "OBJECT",
+        properties: {
+          complianceResultId: { type: "STRING" },
+          clauseReference: { type: "STRING" },
+          reasoning: { type: "STRING" },
+          correctiveAction: { type: "STRING" },
+        },
+        required: ["complianceResultId", "clauseReference", "reasoning", "correctiveAction"],
+      },
+    },
+  },
+  required: ["executiveSummary", "complianceStatus", "details"],
+};
+
+// Details must point at results that were actually sent
+const collectResultIds = (value: unknown, ids: Set<string> = new Set()): Set<string> => {
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectResultIds(item, ids));
+  } else if (value && typeof value === "object") {
+    for (const [key, child] of Object.entries(value)) {
+      if ((key === "complianceResultId" || key === "resultId") && typeof child === "string") ids.add(child);
+      else collectResultIds(child, ids);
+    }
+  }
+  return ids;
+};
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { complianceData } = await req.json();
-    const GEMINI_API_KEY = Deno.env.get("GEMINI_API_KEY");
-    
-    if (!GEMINI_API_KEY) {
-      throw new Error("GEMINI_API_KEY is not configured");
-    }
-
-    console.log("Auditor Assistant Agent generating report");
+    const { complianceData, mode } = await req.json();
 
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:streamGenerateContent?alt=sse&key=${GEMINI_API_KEY}`,
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
+    if (mode === "structured") {
+      console.log("Auditor Assistant Agent (structured) generating report");
+      const knownIds = collectResultIds(complianceData);
+      const outcome = await generateStructured({
+        agent: "agent-auditor-assistant",
+        system: STRUCTURED_PROMPT,
+        prompt: `COMPLIANCE DATA:\n${JSON.stringify(complianceData, null, 2)}`,
+        schema: AUDIT_REPORT_SCHEMA,
+        maxOutputTokens: 8000,
+        validate: (data) => {
+          if (knownIds.size === 0) return [];
+          const details = (data as { details?: { complianceResultId?: unknown }[] }).details ?? [];
+          return details.flatMap((detail, i) =>
+            typeof detail.complianceResultId === "string" && !knownIds.has(detail.complianceResultId)
+              ? [`$.details[${i}].complianceResultId: '${detail.complianceResultId}' is not in the input`]
+              : []
+          );
         },
-        body: JSON.stringify({
-          contents: [
-            {
-              role: "user",
-              parts: [{ text: `${SYSTEM_PROMPT}\n\nGenerate a comprehensive audit report with corrective recommendations for:\n\n${JSON.stringify(complianceData, null, 2)}` }],
-            },
-          ],
-          generationConfig: {
-            temperature: 0.7,
-            maxOutputTokens: 2048,
-          },
-        }),
-      }
-    );
-
-    if (!response.ok) {
-      if (response.status === 429) {
-        return new Response(JSON.stringify({ error: "Rate limits exceeded, please try again later." }), {
-          status: 429,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
-      const errorText = await response.text();
-      console.error("Gemini API error:", response.status, errorText);
-      return new Response(JSON.stringify({ error: "AI API error" }), {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
       });
+      return structuredResponse(outcome, corsHeaders);
     }
 
-    // Transform Gemini SSE to OpenAI-compatible format
-    const transformStream = new TransformStream({
-      transform(chunk, controller) {
-        const text = new TextDecoder().decode(chunk);
-        const lines = text.split('\n');
-        
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            try {
-              const data = JSON.parse(line.slice(6));
-              const content = data.candidates?.[0]?.content?.parts?.[0]?.text;
-              if (content) {
-                const openAIFormat = {
-                  choices: [{ delta: { content } }]
-                };
-                controller.enqueue(new TextEncoder().encode(`data: ${JSON.stringify(openAIFormat)}\n\n`));
-              }
-            } catch (e) {
-              // Skip invalid JSON
-            }
-          }
-        }
-      },
-      flush(controller) {
-        controller.enqueue(new TextEncoder().encode('data: [DONE]\n\n'));
-      }
-    });
+    console.log("Auditor Assistant Agent generating report");
 
-    return new Response(response.body?.pipeThrough(transformStream), {
-      headers: { ...corsHeaders, "Content-Type": "text/event-stream" },
+    const stream = await getAIProvider().stream({
+      agent: "agent-auditor-assistant",
+      messages: [
+        { role: "system", content: SYSTEM_PROMPT },
+        { role: "user", content: `Generate a comprehensive audit report with corrective recommendations for:\n\n${JSON.stringify(complianceData, null, 2)}` },
+      ],
+      temperature: 0.7,
+      maxOutputTokens: 2048,
     });
+
+    return streamResponse(stream, corsHeaders);
   } catch (error) {
     console.error("Auditor Assistant error:", error);
-    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }), {
-      status: 500,
-      headers: { ...corsHeaders, "Content-Type": "application/json" },
-    });
+    return aiErrorResponse(error, corsHeaders);
   }
 });
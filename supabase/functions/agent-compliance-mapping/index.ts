@@ -1,4 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { aiErrorResponse, getAIProvider, streamResponse } from "../_shared/ai/index.ts";
+import { generateStructured, structuredResponse, ResponseSchema } from "../_shared/structured.ts";
+import { withFormattedMoney } from "../_shared/money.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -25,94 +28,63 @@ COMPLIANCE_CHECKLIST: Required actions/documents
 RISK_ASSESSMENT: Score and explanation
 CROSS_REFERENCES: Related regulations to consider`;
 
+const STRUCTURED_PROMPT = `You are a Compliance Mapping Agent. Decide whether a single transaction complies with a single regulatory clause.
+
+Status values:
+- compliant: the clause does not apply, or the transaction satisfies it
+- violation: the clause applies and the transaction breaches it
+- warning: the clause applies and compliance is doubtful or needs review
+- missing_docs: the clause applies and compliance depends on documents not present in the transaction data (list them in missingDocs)
+
+Keep reasoning to 2-3 sentences and cite the clause.`;
+
+const COMPLIANCE_RESULT_SCHEMA: ResponseSchema = {
+  type: "OBJECT",
+  properties: {
+    status: { type: "STRING", enum: ["compliant", "violation", "warning", "missing_docs"] },
+    riskLevel: { type: "STRING", enum: ["low", "medium", "high"] },
+    reasoning: { type: "STRING" },
+    missingDocs: { type: "ARRAY", items: { type: "STRING" } },
+  },
+  required: ["status", "riskLevel", "reasoning"],
+};
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { transaction } = await req.json();
-    const GEMINI_API_KEY = Deno.env.get("GEMINI_API_KEY");
-    
-    if (!GEMINI_API_KEY) {
-      throw new Error("GEMINI_API_KEY is not configured");
-    }
+    const { transaction: input, clause, mode } = await req.json();
+    // Demo requests send free text; the pipeline sends transactions with money amounts
+    const transaction = input && typeof input === "object" ? withFormattedMoney(input) : input;
 
-    console.log("Compliance Mapping Agent processing");
-
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:streamGenerateContent?alt=sse&key=${GEMINI_API_KEY}`,
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          contents: [
-            {
-              role: "user",
-              parts: [{ text: `${SYSTEM_PROMPT}\n\nMap the following transaction to applicable legal frameworks and compliance requirements:\n\n${JSON.stringify(transaction, null, 2)}` }],
-            },
-          ],
-          generationConfig: {
-            temperature: 0.7,
-            maxOutputTokens: 2048,
-          },
-        }),
-      }
-    );
-
-    if (!response.ok) {
-      if (response.status === 429) {
-        return new Response(JSON.stringify({ error: "Rate limits exceeded, please try again later." }), {
-          status: 429,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
-      const errorText = await response.text();
-      console.error("Gemini API error:", response.status, errorText);
-      return new Response(JSON.stringify({ error: "AI API error" }), {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
+    if (mode === "structured") {
+      console.log("Compliance Mapping Agent (structured) processing");
+      const outcome = await generateStructured({
+        agent: "agent-compliance-mapping",
+        system: STRUCTURED_PROMPT,
+        prompt: `TRANSACTION:\n${JSON.stringify(transaction, null, 2)}\n\nCLAUSE:\n${JSON.stringify(clause, null, 2)}`,
+        schema: COMPLIANCE_RESULT_SCHEMA,
       });
+      return structuredResponse(outcome, corsHeaders);
     }
 
-    // Transform Gemini SSE to OpenAI-compatible format
-    const transformStream = new TransformStream({
-      transform(chunk, controller) {
-        const text = new TextDecoder().decode(chunk);
-        const lines = text.split('\n');
-        
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            try {
-              const data = JSON.parse(line.slice(6));
-              const content = data.candidates?.[0]?.content?.parts?.[0]?.text;
-              if (content) {
-                const openAIFormat = {
-                  choices: [{ delta: { content } }]
-                };
-                controller.enqueue(new TextEncoder().encode(`data: ${JSON.stringify(openAIFormat)}\n\n`));
-              }
-            } catch (e) {
-              // Skip invalid JSON
-            }
-          }
-        }
-      },
-      flush(controller) {
-        controller.enqueue(new TextEncoder().encode('data: [DONE]\n\n'));
-      }
-    });
+    console.log("Compliance Mapping Agent processing");
 
-    return new Response(response.body?.pipeThrough(transformStream), {
-      headers: { ...corsHeaders, "Content-Type": "text/event-stream" },
+    const stream = await getAIProvider().stream({
+      agent: "agent-compliance-mapping",
+      messages: [
+        { role: "system", content: SYSTEM_PROMPT },
+        { role: "user", content: `Map the following transaction to applicable legal frameworks and compliance requirements:\n\n${JSON.stringify(transaction, null, 2)}` },
+      ],
+      temperature: 0.7,
+      maxOutputTokens: 2048,
     });
+
+    return streamResponse(stream, corsHeaders);
   } catch (error) {
     console.error("Compliance Mapping error:", error);
-    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }), {
-      status: 500,
-      headers: { ...corsHeaders, "Content-Type": "application/json" },
-    });
+    return aiErrorResponse(error, corsHeaders);
   }
 });
@@ -1,4 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { aiErrorResponse, getAIProvider, streamResponse } from "../_shared/ai/index.ts";
+import { generateStructured, structuredResponse, ResponseSchema } from "../_shared/structured.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -26,128 +28,84 @@ RULE: IF transaction_value > 50_lakhs THEN file_gstr1 WITHIN 11_days_of_month_en
 ENTITIES: {threshold: 50_lakhs, deadline: 11th_of_next_month}
 PENALTY: Late fee of ₹50/day up to ₹5000`;
 
+// Rules use the grammar evaluated by the client-side rule engine so they can be checked deterministically
+const STRUCTURED_PROMPT = `You are a Legal Parsing Agent converting Indian government regulations into machine-readable compliance clauses.
+
+Return every distinct obligation as a clause. Write each rule as:
+IF <condition> THEN <requirement>
+
+Conditions compare transaction fields with =, !=, >, >=, <, <=, IN [...], NOT IN [...] or CONTAINS, joined with AND / OR / NOT and parentheses.
+Available transaction fields: amount, tax, tax_rate (percent), category, vendor, date (YYYY-MM-DD), description.
+Quote strings with single quotes. Amounts are in rupees and may use units, e.g. 50 lakhs, 2 crore.
+The requirement may use the same syntax when it can be checked from those fields (e.g. tax_rate >= 18), otherwise describe the required action (e.g. obtain_three_quotations).
+
+Example:
+IF amount > 25 lakhs AND category IN ['procurement'] THEN tender_published_on_cppp = true`;
+
+const CLAUSES_SCHEMA: ResponseSchema = {
+  type: "OBJECT",
+  properties: {
+    clauses: {
+      type: "ARRAY",
+      items: {
+        type: "OBJECT",
+        properties: {
+          clauseId: { type: "STRING", description: "Short identifier such as GST_FILING_001" },
+          rule: { type: "STRING", description: "IF <condition> THEN <requirement>" },
+          conditions: { type: "STRING", description: "When the clause applies, in plain language" },
+          penalties: { type: "STRING", description: "Consequence of non-compliance" },
+        },
+        required: ["clauseId", "rule", "conditions", "penalties"],
+      },
+    },
+  },
+  required: ["clauses"],
+};
+
+const validateRules = (data: unknown) => {
+  const clauses = (data as { clauses?: { rule?: unknown }[] }).clauses ?? [];
+  return clauses.flatMap((clause, i) =>
+    typeof clause.rule === "string" && !/^\s*IF\s[\s\S]+\sTHEN\s/i.test(clause.rule)
+      ? [`$.clauses[${i}].rule: must have the form IF <condition> THEN <requirement>`]
+      : []
+  );
+};
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { text } = await req.json();
-    const GEMINI_API_KEY = Deno.env.get("GEMINI_API_KEY");
-
-    if (!GEMINI_API_KEY) {
-      throw new Error("GEMINI_API_KEY is not configured");
+    const { text, mode } = await req.json();
+
+    if (mode === "structured") {
+      console.log("Legal Parser Agent (structured) processing text of length:", text?.length);
+      const outcome = await generateStructured({
+        agent: "agent-legal-parser",
+        system: STRUCTURED_PROMPT,
+        prompt: `Parse the following regulatory text into compliance clauses:\n\n${text}`,
+        schema: CLAUSES_SCHEMA,
+        validate: validateRules,
+      });
+      return structuredResponse(outcome, corsHeaders);
     }
 
     console.log("Legal Parser Agent processing text of length:", text?.length);
 
-    const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
-
-    // Retry Gemini calls on 429/503 to avoid failing the whole audit during bursts.
-    const maxRetries = 4;
-    let response: Response | null = null;
-
-    for (let attempt = 0; attempt <= maxRetries; attempt++) {
-      response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:streamGenerateContent?alt=sse&key=${GEMINI_API_KEY}`,
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            contents: [
-              {
-                role: "user",
-                parts: [
-                  {
-                    text: `${SYSTEM_PROMPT}\n\nParse the following regulatory text into structured compliance clauses:\n\n${text}`,
-                  },
-                ],
-              },
-            ],
-            generationConfig: {
-              temperature: 0.7,
-              maxOutputTokens: 2048,
-            },
-          }),
-        }
-      );
-
-      if (response.ok) break;
-
-      // Backoff on Gemini quota / transient overload
-      if ((response.status === 429 || response.status === 503) && attempt < maxRetries) {
-        const backoffMs = Math.min(30000, 1200 * 2 ** attempt + Math.floor(Math.random() * 400));
-        console.warn(
-          `Gemini returned ${response.status} for agent-legal-parser (attempt ${attempt + 1}/${maxRetries + 1}). Retrying in ${Math.ceil(backoffMs / 1000)}s...`
-        );
-        await sleep(backoffMs);
-        continue;
-      }
-
-      break;
-    }
-
-    if (!response) {
-      throw new Error("Failed to call Gemini");
-    }
-
-    if (!response.ok) {
-      if (response.status === 429) {
-        const errorText = await response.text().catch(() => "");
-        console.error("Gemini API 429 (rate limited):", errorText);
-        // Return proper 429 so caller knows to wait/stop
-        return new Response(JSON.stringify({ error: "Rate limits exceeded, please try again later." }), {
-          status: 429,
-          headers: { ...corsHeaders, "Content-Type": "application/json", "Retry-After": "60" },
-        });
-      }
-
-      const errorText = await response.text().catch(() => "");
-      console.error("Gemini API error:", response.status, errorText);
-      return new Response(JSON.stringify({ error: "AI API error" }), {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
-    }
-
-    // Transform Gemini SSE to OpenAI-compatible format
-    const transformStream = new TransformStream({
-      transform(chunk, controller) {
-        const text = new TextDecoder().decode(chunk);
-        const lines = text.split('\n');
-        
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            try {
-              const data = JSON.parse(line.slice(6));
-              const content = data.candidates?.[0]?.content?.parts?.[0]?.text;
-              if (content) {
-                const openAIFormat = {
-                  choices: [{ delta: { content } }]
-                };
-                controller.enqueue(new TextEncoder().encode(`data: ${JSON.stringify(openAIFormat)}\n\n`));
-              }
-            } catch (e) {
-              // Skip invalid JSON
-            }
-          }
-        }
-      },
-      flush(controller) {
-        controller.enqueue(new TextEncoder().encode('data: [DONE]\n\n'));
-      }
+    const stream = await getAIProvider().stream({
+      agent: "agent-legal-parser",
+      messages: [
+        { role: "system", content: SYSTEM_PROMPT },
+        { role: "user", content: `Parse the following regulatory text into structured compliance clauses:\n\n${text}` },
+      ],
+      temperature: 0.7,
+      maxOutputTokens: 2048,
     });
 
-    return new Response(response.body?.pipeThrough(transformStream), {
-      headers: { ...corsHeaders, "Content-Type": "text/event-stream" },
-    });
+    return streamResponse(stream, corsHeaders);
   } catch (error) {
     console.error("Legal Parser error:", error);
-    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }), {
-      status: 500,
-      headers: { ...corsHeaders, "Content-Type": "application/json" },
-    });
+    return aiErrorResponse(error, corsHeaders);
   }
 });
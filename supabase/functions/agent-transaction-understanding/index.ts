@@ -1,4 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { aiErrorResponse, getAIProvider, streamResponse } from "../_shared/ai/index.ts";
+import { generateStructured, structuredResponse, ResponseSchema, StructuredOutcome } from "../_shared/structured.ts";
+import { extractPdf } from "../_shared/fetcher/pdf.ts";
+import { encode as base64Encode } from "https://deno.land/std@0.168.0/encoding/base64.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -21,94 +25,197 @@ When given transaction data or document text, provide:
 Format output as structured transaction analysis with:
 TRANSACTION_SUMMARY, TAX_ANALYSIS, CLASSIFICATION, COMPLIANCE_FLAGS`;
 
+const STRUCTURED_PROMPT = `You are a Transaction Understanding Agent. Extract every financial transaction from the given text or document.
+
+For each transaction return category, amount, tax, currency, vendor, date and description.
+Amount and tax are plain numbers in the currency's main unit without symbols or grouping, e.g. 125000.50 for ₹1,25,000.50 and 5000000 for "50 lakhs". Use 0 when no tax is stated.
+Currency is the ISO 4217 code (INR, USD, EUR, ...); use INR unless the input shows another currency.
+Dates must be YYYY-MM-DD. Do not invent transactions that are not in the input.
+Also return the supplier's GSTIN and PAN, the invoice number, the place of supply (as printed, e.g. "27-Maharashtra") and the HSN/SAC code when the input shows them, exactly as printed and without correcting them; use null when a value is not shown.
+
+For every field also give your confidence from 0 to 1 that the value is exactly what the document states: 1 when it is printed clearly, around 0.5 when you had to infer or reconstruct it (e.g. a category, or a blurred figure), and below 0.3 when it is a guess or a default such as 0 for tax that is not shown.
+For invoice PDFs, each invoice is one transaction: the amount is the taxable value before GST, the tax is the total GST charged, and sourcePage is the page the invoice starts on.
+When the input breaks GST down, also return the CGST, SGST (or UTGST) and IGST amounts as printed, with 0 for a component shown as nil; use null for all three when only a total is shown.
+When the input shows income-tax deducted at source from a payment, return it as tds with its section (e.g. "194C", "194J(b)") as tdsSection; use null when no deduction is shown.
+For purchases, return how they were procured when the input says so (procurementMode: GeM direct purchase, GeM L1, GeM bid or reverse auction, purchase without quotation, purchase committee, limited, open or single tender), the number of bids or quotations received and the tender, bid or GeM order number; use null for anything not shown.`;
+
+// Uploaded documents; larger files are rejected before reaching the model
+const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+// Extracted text sent to the model; scanned PDFs with less text are sent as the file itself
+const MAX_DOCUMENT_CHARS = 60000;
+const MIN_EXTRACTED_CHARS = 50;
+
+const FIELDS = ["category", "amount", "tax", "vendor", "date", "description"] as const;
+
+const TRANSACTIONS_SCHEMA: ResponseSchema = {
+  type: "OBJECT",
+  properties: {
+    transactions: {
+      type: "ARRAY",
+      items: {
+        type: "OBJECT",
+        properties: {
+          category: { type: "STRING" },
+          amount: { type: "NUMBER", description: "Main currency unit, e.g. rupees" },
+          tax: { type: "NUMBER", description: "Main currency unit, e.g. rupees" },
+          currency: { type: "STRING", description: "ISO 4217 code" },
+          cgst: { type: "NUMBER", nullable: true },
+          sgst: { type: "NUMBER", nullable: true, description: "SGST or UTGST" },
+          igst: { type: "NUMBER", nullable: true },
+          tds: { type: "NUMBER", nullable: true, description: "Income-tax deducted at source from the payment" },
+          tdsSection: { type: "STRING", nullable: true, description: "Section the TDS was deducted under, e.g. 194C" },
+          vendor: { type: "STRING" },
+          date: { type: "STRING", description: "YYYY-MM-DD" },
+          description: { type: "STRING" },
+          gstin: { type: "STRING", nullable: true, description: "Supplier's 15-character GSTIN" },
+          pan: { type: "STRING", nullable: true, description: "Supplier's 10-character PAN" },
+          invoiceNumber: { type: "STRING", nullable: true },
+          placeOfSupply: { type: "STRING", nullable: true, description: "State code and/or name" },
+          hsnSac: { type: "STRING", nullable: true, description: "HSN or SAC code of the main line item" },
+          procurementMode: {
+            type: "STRING",
+            nullable: true,
+            enum: [
+              "without_quotation",
+              "purchase_committee",
+              "limited_tender",
+              "open_tender",
+              "single_tender",
+              "gem_direct",
+              "gem_l1",
+              "gem_bid",
+            ],
+          },
+          bidsReceived: { type: "INTEGER", nullable: true, description: "Bids or quotations received" },
+          tenderReference: { type: "STRING", nullable: true, description: "Tender, bid or GeM order number" },
+          confidence: {
+            type: "OBJECT",
+            description: "Per-field confidence from 0 to 1",
+            properties: Object.fromEntries(FIELDS.map((field) => [field, { type: "NUMBER" }])),
+            required: [...FIELDS],
+          },
+          sourcePage: { type: "INTEGER", nullable: true, description: "1-based PDF page the transaction was read from" },
+        },
+        required: ["category", "amount", "tax", "currency", "vendor", "date", "description", "confidence"],
+      },
+    },
+  },
+  required: ["transactions"],
+};
+
+const validateTransactions = (data: unknown) => {
+  const transactions = (data as { transactions?: { date?: unknown; currency?: unknown }[] }).transactions ?? [];
+  return transactions.flatMap((tx, i) => [
+    ...(typeof tx.date === "string" && !/^\d{4}-\d{2}-\d{2}$/.test(tx.date)
+      ? [`$.transactions[${i}].date: '${tx.date}' is not YYYY-MM-DD`]
+      : []),
+    ...(typeof tx.currency === "string" && !/^[A-Z]{3}$/.test(tx.currency)
+      ? [`$.transactions[${i}].currency: '${tx.currency}' is not an ISO 4217 code`]
+      : []),
+  ]);
+};
+
+interface ExtractedTransactions {
+  transactions: { confidence: Record<string, number>; sourcePage?: number | null }[];
+}
+
+// Models sometimes answer in percent; confidences are always returned as 0-1
+function normalizeConfidence(outcome: StructuredOutcome<ExtractedTransactions>): StructuredOutcome<ExtractedTransactions> {
+  if (!outcome.ok) return outcome;
+  for (const tx of outcome.data.transactions) {
+    for (const field of FIELDS) {
+      const value = Number(tx.confidence[field]);
+      tx.confidence[field] = !Number.isFinite(value) || value < 0 ? 0 : Math.min(1, value > 1 ? value / 100 : value);
+    }
+  }
+  return outcome;
+}
+
+// Invoice PDFs: text PDFs are read server-side with page markers, scanned ones go to the model as the file
+async function extractFromPdf(file: File): Promise<StructuredOutcome<ExtractedTransactions>> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+
+  let pages: string[][] = [];
+  try {
+    ({ pages } = await extractPdf(bytes));
+  } catch (error) {
+    console.error(`Text extraction failed for ${file.name}:`, error instanceof Error ? error.message : error);
+  }
+
+  const text = pages
+    .map((paragraphs, i) => `--- Page ${i + 1} ---\n${paragraphs.join("\n")}`)
+    .join("\n\n");
+  const hasText = pages.flat().join("").length >= MIN_EXTRACTED_CHARS;
+  console.log(`Extracting transactions from ${file.name} (${pages.length} pages, ${hasText ? "text" : "scanned"})`);
+
+  const outcome = await generateStructured<ExtractedTransactions>({
+    agent: "agent-transaction-understanding",
+    system: STRUCTURED_PROMPT,
+    prompt: hasText
+      ? `Extract all financial transactions from this PDF document (${file.name}).\n\n${text.slice(0, MAX_DOCUMENT_CHARS)}`
+      : `Extract all financial transactions from the attached PDF document (${file.name}).`,
+    attachments: hasText ? undefined : [{ mimeType: "application/pdf", data: base64Encode(bytes) }],
+    schema: TRANSACTIONS_SCHEMA,
+    validate: validateTransactions,
+    maxOutputTokens: 8192,
+  });
+  return normalizeConfidence(outcome);
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { transactionData } = await req.json();
-    const GEMINI_API_KEY = Deno.env.get("GEMINI_API_KEY");
-    
-    if (!GEMINI_API_KEY) {
-      throw new Error("GEMINI_API_KEY is not configured");
-    }
-
-    console.log("Transaction Understanding Agent processing");
-
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:streamGenerateContent?alt=sse&key=${GEMINI_API_KEY}`,
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          contents: [
-            {
-              role: "user",
-              parts: [{ text: `${SYSTEM_PROMPT}\n\nAnalyze this transaction/document and extract all relevant details:\n\n${transactionData}` }],
-            },
-          ],
-          generationConfig: {
-            temperature: 0.7,
-            maxOutputTokens: 2048,
-          },
-        }),
+    // Document uploads arrive as multipart form data with a `file` field
+    if (req.headers.get('content-type')?.includes('multipart/form-data')) {
+      const form = await req.formData();
+      const file = form.get('file');
+      if (!(file instanceof File)) {
+        return new Response(JSON.stringify({ error: 'Missing file' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
       }
-    );
-
-    if (!response.ok) {
-      if (response.status === 429) {
-        return new Response(JSON.stringify({ error: "Rate limits exceeded, please try again later." }), {
-          status: 429,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
+      if (file.size > MAX_UPLOAD_BYTES || !(file.type === 'application/pdf' || /\.pdf$/i.test(file.name))) {
+        return new Response(JSON.stringify({ error: 'Upload a PDF of at most 10MB' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         });
       }
-      const errorText = await response.text();
-      console.error("Gemini API error:", response.status, errorText);
-      return new Response(JSON.stringify({ error: "AI API error" }), {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      return structuredResponse(await extractFromPdf(file), corsHeaders);
+    }
+
+    const { transactionData, mode } = await req.json();
+
+    if (mode === "structured") {
+      console.log("Transaction Understanding Agent (structured) processing");
+      const outcome = await generateStructured<ExtractedTransactions>({
+        agent: "agent-transaction-understanding",
+        system: STRUCTURED_PROMPT,
+        prompt: transactionData,
+        schema: TRANSACTIONS_SCHEMA,
+        validate: validateTransactions,
       });
+      return structuredResponse(normalizeConfidence(outcome), corsHeaders);
     }
 
-    // Transform Gemini SSE to OpenAI-compatible format
-    const transformStream = new TransformStream({
-      transform(chunk, controller) {
-        const text = new TextDecoder().decode(chunk);
-        const lines = text.split('\n');
-        
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            try {
-              const data = JSON.parse(line.slice(6));
-              const content = data.candidates?.[0]?.content?.parts?.[0]?.text;
-              if (content) {
-                const openAIFormat = {
-                  choices: [{ delta: { content } }]
-                };
-                controller.enqueue(new TextEncoder().encode(`data: ${JSON.stringify(openAIFormat)}\n\n`));
-              }
-            } catch (e) {
-              // Skip invalid JSON
-            }
-          }
-        }
-      },
-      flush(controller) {
-        controller.enqueue(new TextEncoder().encode('data: [DONE]\n\n'));
-      }
-    });
+    console.log("Transaction Understanding Agent processing");
 
-    return new Response(response.body?.pipeThrough(transformStream), {
-      headers: { ...corsHeaders, "Content-Type": "text/event-stream" },
+    const stream = await getAIProvider().stream({
+      agent: "agent-transaction-understanding",
+      messages: [
+        { role: "system", content: SYSTEM_PROMPT },
+        { role: "user", content: `Analyze this transaction/document and extract all relevant details:\n\n${transactionData}` },
+      ],
+      temperature: 0.7,
+      maxOutputTokens: 2048,
     });
+
+    return streamResponse(stream, corsHeaders);
   } catch (error) {
     console.error("Transaction Understanding error:", error);
-    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }), {
-      status: 500,
-      headers: { ...corsHeaders, "Content-Type": "application/json" },
-    });
+    return aiErrorResponse(error, corsHeaders);
   }
 });
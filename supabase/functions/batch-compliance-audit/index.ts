@@ -1,5 +1,7 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { aiErrorResponse, getAIProvider, ResponseSchema } from "../_shared/ai/index.ts";
+import { formatMoney, Money } from "../_shared/money.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -11,9 +13,18 @@ interface Transaction {
   date: string;
   vendor: string;
   description: string;
-  amount: number;
-  tax: number;
+  amount: Money;
+  tax: Money;
   category: string;
+  /** Regulations retrieved for this transaction; absent when retrieval was unavailable */
+  relevantRegulationIds?: string[];
+}
+
+interface Passage {
+  content: string;
+  pageNumber: number | null;
+  paragraphStart: number;
+  paragraphEnd: number;
 }
 
 interface Regulation {
@@ -21,11 +32,26 @@ interface Regulation {
   title: string;
   source: string;
   content: string;
+  /** Retrieved chunks most relevant to the transactions, used instead of the full text */
+  passages?: Passage[];
+}
+
+/** A clause parsed earlier, checked as is instead of extracting new ones */
+interface ClauseToCheck {
+  /** Identifies the clause in results */
+  id: string;
+  clauseId: string;
+  rule: string;
+  conditions: string;
+  penalties: string;
 }
 
 interface BatchRequest {
   transactions: Transaction[];
   regulations: Regulation[];
+  /** With clauses, only the listed transaction/clause pairs are checked and no clauses are extracted */
+  clauses?: ClauseToCheck[];
+  pairs?: { transactionId: string; clauseId: string }[];
 }
 
 interface ParsedClause {
@@ -80,110 +106,121 @@ Response format:
   "summary": "Overall audit summary in 2-3 sentences"
 }`;
 
+const CLAUSE_CHECK_PROMPT = `You are a Compliance Audit Agent. Check transactions against already parsed compliance clauses and return a JSON response.
+
+IMPORTANT: Return ONLY valid JSON, no markdown, no explanations outside JSON.
+
+Return exactly one result for each listed transaction/clause pair, using the transaction ID and clause ID given.
+
+Response format:
+{
+  "clauses": [],
+  "results": [
+    {
+      "transactionId": "uuid-of-transaction",
+      "clauseId": "id-of-clause",
+      "status": "compliant|violation|warning",
+      "riskLevel": "low|medium|high",
+      "reasoning": "Brief explanation"
+    }
+  ],
+  "summary": "Overall audit summary in 2-3 sentences"
+}`;
+
+const BATCH_SCHEMA: ResponseSchema = {
+  type: "OBJECT",
+  properties: {
+    clauses: {
+      type: "ARRAY",
+      items: {
+        type: "OBJECT",
+        properties: {
+          clauseId: { type: "STRING" },
+          regulationId: { type: "STRING" },
+          rule: { type: "STRING" },
+          conditions: { type: "STRING" },
+          penalties: { type: "STRING" },
+        },
+        required: ["clauseId", "regulationId", "rule", "conditions", "penalties"],
+      },
+    },
+    results: {
+      type: "ARRAY",
+      items: {
+        type: "OBJECT",
+        properties: {
+          transactionId: { type: "STRING" },
+          clauseId: { type: "STRING" },
+          status: { type: "STRING", enum: ["compliant", "violation", "warning"] },
+          riskLevel: { type: "STRING", enum: ["low", "medium", "high"] },
+          reasoning: { type: "STRING" },
+        },
+        required: ["transactionId", "clauseId", "status", "riskLevel", "reasoning"],
+      },
+    },
+    summary: { type: "STRING" },
+  },
+  required: ["clauses", "results", "summary"],
+};
+
+function formatLocation(passage: Passage): string {
+  const paragraphs = passage.paragraphStart === passage.paragraphEnd
+    ? `para ${passage.paragraphStart}`
+    : `paras ${passage.paragraphStart}-${passage.paragraphEnd}`;
+  return passage.pageNumber ? `page ${passage.pageNumber}, ${paragraphs}` : paragraphs;
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { transactions, regulations }: BatchRequest = await req.json();
-    const GEMINI_API_KEY = Deno.env.get("GEMINI_API_KEY");
+    const { transactions, regulations = [], clauses, pairs = [] }: BatchRequest = await req.json();
 
-    if (!GEMINI_API_KEY) {
-      throw new Error("GEMINI_API_KEY is not configured");
+    if (clauses) {
+      console.log(`Batch Compliance Audit: ${pairs.length} transaction/clause pairs`);
+      return await checkClausePairs(transactions, clauses, pairs);
     }
-
     console.log(`Batch Compliance Audit: ${transactions.length} transactions, ${regulations.length} regulations`);
 
     // Build the audit prompt
-    const regulationsSummary = regulations.map((r, i) => 
-      `[Regulation ${i + 1}] ID: ${r.id}\nTitle: ${r.title}\nSource: ${r.source}\nContent: ${r.content.slice(0, 1500)}`
-    ).join('\n\n---\n\n');
+    const regulationsSummary = regulations.map((r, i) => {
+      const header = `[Regulation ${i + 1}] ID: ${r.id}\nTitle: ${r.title}\nSource: ${r.source}`;
+      if (!r.passages?.length) return `${header}\nContent: ${r.content.slice(0, 1500)}`;
+      const passages = r.passages.map((p) => `(${formatLocation(p)}) ${p.content}`).join('\n');
+      return `${header}\nRelevant passages:\n${passages}`;
+    }).join('\n\n---\n\n');
 
-    const transactionsSummary = transactions.map((t, i) =>
-      `[Transaction ${i + 1}] ID: ${t.id}\nDate: ${t.date}\nVendor: ${t.vendor}\nAmount: ${t.amount}\nTax: ${t.tax}\nCategory: ${t.category}\nDescription: ${t.description}`
-    ).join('\n\n');
+    const regulationNumbers = new Map(regulations.map((r, i) => [r.id, i + 1]));
+    const transactionsSummary = transactions.map((t, i) => {
+      const relevant = (t.relevantRegulationIds ?? [])
+        .filter((id) => regulationNumbers.has(id))
+        .map((id) => `Regulation ${regulationNumbers.get(id)}`);
+      const relevantLine = relevant.length > 0 ? `\nMost relevant: ${relevant.join(', ')}` : '';
+      return `[Transaction ${i + 1}] ID: ${t.id}\nDate: ${t.date}\nVendor: ${t.vendor}\nAmount: ${formatMoney(t.amount)}\nTax: ${formatMoney(t.tax)}\nCategory: ${t.category}\nDescription: ${t.description}${relevantLine}`;
+    }).join('\n\n');
 
     const userPrompt = `REGULATIONS:\n${regulationsSummary}\n\n---\n\nTRANSACTIONS:\n${transactionsSummary}\n\nAnalyze and return the JSON response.`;
 
-    // Single API call using Gemini API with retry logic
-    const maxRetries = 5;
-    let response: Response | null = null;
-    let lastError = "";
-
-    for (let attempt = 0; attempt <= maxRetries; attempt++) {
-      response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${GEMINI_API_KEY}`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          contents: [
-            { role: "user", parts: [{ text: `${BATCH_PROMPT}\n\n${userPrompt}` }] }
-          ],
-          generationConfig: {
-            temperature: 0.3,
-            maxOutputTokens: 8000,
-          },
-        }),
-      });
-
-      if (response.ok) {
-        break; // Success, exit retry loop
-      }
-
-      if (response.status === 429) {
-        // Rate limited - wait and retry with exponential backoff
-        const retryAfter = response.headers.get("Retry-After");
-        const waitMs = retryAfter 
-          ? Math.min(parseInt(retryAfter) * 1000, 60000)
-          : Math.min(2000 * Math.pow(2, attempt), 60000);
-        
-        console.log(`Rate limited (attempt ${attempt + 1}/${maxRetries + 1}). Waiting ${waitMs}ms...`);
-        
-        if (attempt < maxRetries) {
-          await new Promise(resolve => setTimeout(resolve, waitMs));
-          continue;
-        }
-        
-        // All retries exhausted
-        return new Response(JSON.stringify({ error: "Rate limits exceeded after retries. Please wait ~1 minute and try again." }), {
-          status: 429,
-          headers: { ...corsHeaders, "Content-Type": "application/json", "Retry-After": "60" },
-        });
-      }
-
-      // Other error - don't retry
-      lastError = await response.text();
-      console.error("Gemini API error:", response.status, lastError);
-      return new Response(JSON.stringify({ error: "AI API error: " + lastError }), {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
-    }
-
-    if (!response || !response.ok) {
-      return new Response(JSON.stringify({ error: "Failed to get AI response after retries" }), {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
-    }
-
-    const data = await response.json();
-    const content = data.candidates?.[0]?.content?.parts?.[0]?.text || "";
+    // Single AI call; the provider layer handles rate-limit retries
+    const { text: content } = await getAIProvider().generate({
+      agent: "batch-compliance-audit",
+      messages: [
+        { role: "system", content: BATCH_PROMPT },
+        { role: "user", content: userPrompt },
+      ],
+      temperature: 0.3,
+      maxOutputTokens: 8000,
+      responseSchema: BATCH_SCHEMA,
+    });
 
     console.log("AI response length:", content.length);
 
     // Parse the JSON response
     let parsed: BatchResponse;
     try {
-      // Try to extract JSON from the response (handle markdown code blocks)
-      let jsonStr = content;
-      const jsonMatch = content.match(/```(?:json)?\s*([\s\S]*?)```/);
-      if (jsonMatch) {
-        jsonStr = jsonMatch[1];
-      }
-      parsed = JSON.parse(jsonStr.trim());
+      parsed = parseResponse(content);
     } catch (parseError) {
       console.error("Failed to parse AI response:", parseError, "Content:", content.slice(0, 500));
       // Return a minimal valid response
@@ -225,9 +262,58 @@ serve(async (req) => {
     });
   } catch (error) {
     console.error("Batch Compliance Audit error:", error);
-    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }), {
-      status: 500,
-      headers: { ...corsHeaders, "Content-Type": "application/json" },
-    });
+    return aiErrorResponse(error, corsHeaders);
   }
-});
\ No newline at end of file
+});
+
+function parseResponse(content: string): BatchResponse {
+  // Handle JSON wrapped in markdown code blocks
+  const jsonMatch = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+  return JSON.parse((jsonMatch ? jsonMatch[1] : content).trim());
+}
+
+// Pairs the rule engine could not decide, checked in one AI call instead of one call per pair
+async function checkClausePairs(
+  transactions: Transaction[],
+  clauses: ClauseToCheck[],
+  pairs: { transactionId: string; clauseId: string }[]
+): Promise<Response> {
+  const clausesSummary = clauses.map((c, i) =>
+    `[Clause ${i + 1}] ID: ${c.id}\nReference: ${c.clauseId}\nRule: ${c.rule}\nConditions: ${c.conditions}\nPenalties: ${c.penalties}`
+  ).join('\n\n');
+  const transactionsSummary = transactions.map((t, i) =>
+    `[Transaction ${i + 1}] ID: ${t.id}\nDate: ${t.date}\nVendor: ${t.vendor}\nAmount: ${formatMoney(t.amount)}\nTax: ${formatMoney(t.tax)}\nCategory: ${t.category}\nDescription: ${t.description}`
+  ).join('\n\n');
+  const pairsSummary = JSON.stringify(pairs, null, 2);
+
+  const userPrompt = `CLAUSES:\n${clausesSummary}\n\n---\n\nTRANSACTIONS:\n${transactionsSummary}\n\n---\n\nPAIRS TO CHECK:\n${pairsSummary}\n\nAnalyze and return the JSON response.`;
+
+  const { text: content } = await getAIProvider().generate({
+    agent: "batch-compliance-audit",
+    messages: [
+      { role: "system", content: CLAUSE_CHECK_PROMPT },
+      { role: "user", content: userPrompt },
+    ],
+    temperature: 0.3,
+    maxOutputTokens: 8000,
+    responseSchema: BATCH_SCHEMA,
+  });
+
+  let parsed: BatchResponse;
+  try {
+    parsed = parseResponse(content);
+  } catch (parseError) {
+    console.error("Failed to parse AI response:", parseError, "Content:", content.slice(0, 500));
+    // Pairs without a result are left to the caller for manual review
+    parsed = { clauses: [], results: [], summary: 'Clause checks could not be completed automatically. Manual review recommended.' };
+  }
+
+  // Drop anything outside the requested pairs
+  const requested = new Set(pairs.map((p) => `${p.transactionId}:${p.clauseId}`));
+  parsed.clauses = [];
+  parsed.results = (parsed.results || []).filter((r) => requested.has(`${r.transactionId}:${r.clauseId}`));
+
+  return new Response(JSON.stringify(parsed), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
@@ -1,4 +1,9 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { aiErrorResponse, ChatMessage, getAIProvider, streamResponse, withLeadingEvent } from "../_shared/ai/index.ts";
+import { AuditChatContext, formatAuditContext } from "../_shared/auditContext.ts";
+import { Citation, findCitations, formatCitationContext } from "../_shared/citations.ts";
+import { prepareThread, recordReply, ThreadNotFoundError } from "../_shared/chatThreads.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -17,7 +22,7 @@ Your expertise includes:
 - Documentation requirements for various transaction types
 
 When answering questions:
-1. Be precise and cite relevant rules/circulars when possible
+1. Be precise and cite the numbered sources you are given
 2. Explain in clear, accessible language
 3. Provide actionable guidance
 4. Highlight any deadlines or penalties
@@ -27,100 +32,104 @@ If you don't know the specific regulation, acknowledge uncertainty and recommend
 
 Keep responses concise but comprehensive. Use bullet points for clarity when listing requirements.`;
 
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+// Thread requests act as the signed-in user, so RLS keeps threads private
+function userClient(req: Request): SupabaseClient | null {
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader) return null;
+  return createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_ANON_KEY')!,
+    { global: { headers: { Authorization: authHeader } } }
+  );
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { messages } = await req.json();
-    const GEMINI_API_KEY = Deno.env.get("GEMINI_API_KEY");
-    
-    if (!GEMINI_API_KEY) {
-      throw new Error("GEMINI_API_KEY is not configured");
-    }
+    // Either { threadId, message } for a saved thread, or { messages } for a one-off conversation,
+    // optionally with { audit } to ask about one audit report instead of the regulations
+    const { threadId, message, messages, audit }: {
+      threadId?: string;
+      message?: string;
+      messages?: { role: string; content: string }[];
+      audit?: AuditChatContext;
+    } = await req.json();
+    const provider = getAIProvider();
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
 
-    console.log("Processing compliance chat request with", messages.length, "messages");
+    let history: ChatMessage[];
+    let summary: string | null = null;
+    let threadClient: SupabaseClient | null = null;
+    let needsTitle = false;
 
-    // Convert messages to Gemini format
-    const geminiContents = messages.map((msg: { role: string; content: string }) => ({
-      role: msg.role === 'assistant' ? 'model' : 'user',
-      parts: [{ text: msg.content }],
-    }));
+    if (threadId) {
+      threadClient = userClient(req);
+      const user = threadClient ? (await threadClient.auth.getUser()).data.user : null;
+      if (!threadClient || !user) {
+        return json({ error: 'Invalid or expired token' }, 401);
+      }
+      if (typeof message !== 'string' || !message.trim()) {
+        return json({ error: 'message is required' }, 400);
+      }
 
-    // Prepend system prompt to first user message
-    if (geminiContents.length > 0) {
-      geminiContents[0].parts[0].text = `${COMPLIANCE_SYSTEM_PROMPT}\n\n${geminiContents[0].parts[0].text}`;
+      const thread = await prepareThread(threadClient, provider, threadId, message.trim());
+      history = thread.messages;
+      summary = thread.summary;
+      needsTitle = thread.needsTitle;
+    } else {
+      history = (messages ?? []).map((msg) => ({
+        role: msg.role === "assistant" ? "assistant" as const : "user" as const,
+        content: msg.content,
+      }));
     }
 
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:streamGenerateContent?alt=sse&key=${GEMINI_API_KEY}`,
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          contents: geminiContents,
-          generationConfig: {
-            temperature: 0.7,
-            maxOutputTokens: 2048,
-          },
-        }),
-      }
-    );
-
-    if (!response.ok) {
-      if (response.status === 429) {
-        return new Response(JSON.stringify({ error: "Rate limits exceeded, please try again later." }), {
-          status: 429,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
-      const errorText = await response.text();
-      console.error("Gemini API error:", response.status, errorText);
-      return new Response(JSON.stringify({ error: "AI API error" }), {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
+    console.log("Processing compliance chat request with", history.length, "messages");
+
+    const question = [...history].reverse().find((msg) => msg.role === "user")?.content ?? "";
+    let context: string;
+    let leadingEvent: Record<string, unknown>;
+    let citations: Citation[] = [];
+
+    if (audit) {
+      const { prompt, references } = formatAuditContext(audit);
+      context = prompt;
+      leadingEvent = { resultRefs: references };
+      console.log(`Answering about audit ${audit.reportId} with ${references.length} findings`);
+    } else {
+      // Ground the answer in the regulations matching the latest question
+      citations = question ? await findCitations(supabase, provider, "compliance-chat", question) : [];
+      console.log(`Found ${citations.length} sources for the question`);
+      context = formatCitationContext(citations);
+      leadingEvent = { citations };
     }
 
-    // Transform Gemini SSE to OpenAI-compatible format
-    const transformStream = new TransformStream({
-      transform(chunk, controller) {
-        const text = new TextDecoder().decode(chunk);
-        const lines = text.split('\n');
-        
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            try {
-              const data = JSON.parse(line.slice(6));
-              const content = data.candidates?.[0]?.content?.parts?.[0]?.text;
-              if (content) {
-                const openAIFormat = {
-                  choices: [{ delta: { content } }]
-                };
-                controller.enqueue(new TextEncoder().encode(`data: ${JSON.stringify(openAIFormat)}\n\n`));
-              }
-            } catch (e) {
-              // Skip invalid JSON
-            }
-          }
-        }
-      },
-      flush(controller) {
-        controller.enqueue(new TextEncoder().encode('data: [DONE]\n\n'));
-      }
+    const earlier = summary ? `\n\nSUMMARY OF EARLIER CONVERSATION:\n${summary}` : "";
+    const stream = await provider.stream({
+      agent: "compliance-chat",
+      messages: [
+        { role: "system", content: `${COMPLIANCE_SYSTEM_PROMPT}${earlier}\n\n${context}` },
+        ...history,
+      ],
+      temperature: 0.3,
+      maxOutputTokens: 2048,
     });
 
-    return new Response(response.body?.pipeThrough(transformStream), {
-      headers: { ...corsHeaders, "Content-Type": "text/event-stream" },
-    });
+    let body = withLeadingEvent(stream.body, leadingEvent);
+    if (threadClient && threadId) {
+      body = body.pipeThrough(recordReply(threadClient, provider, threadId, question, citations, needsTitle));
+    }
+    return streamResponse({ ...stream, body }, corsHeaders);
   } catch (error) {
+    if (error instanceof ThreadNotFoundError) {
+      return json({ error: error.message }, 404);
+    }
     console.error("Compliance chat error:", error);
-    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }), {
-      status: 500,
-      headers: { ...corsHeaders, "Content-Type": "application/json" },
-    });
+    return aiErrorResponse(error, corsHeaders);
   }
 });
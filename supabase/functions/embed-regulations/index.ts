@@ -0,0 +1,98 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { aiErrorResponse, getAIProvider } from "../_shared/ai/index.ts";
+import { chunkMarkdown } from "../_shared/chunks.ts";
+import { embedChunks, embeddingModelLabel } from "../_shared/embeddings.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Work done per invocation; pg_cron calls again every ten minutes until nothing is left
+const REGULATIONS_PER_RUN = 20;
+const CHUNKS_PER_RUN = 200;
+
+// pg_cron invokes this with the service role key; people need a session
+async function isAuthorized(req: Request): Promise<boolean> {
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader) return false;
+  if (authHeader === `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`) return true;
+
+  const supabaseClient = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_ANON_KEY')!,
+    { global: { headers: { Authorization: authHeader } } }
+  );
+  const { data: { user } } = await supabaseClient.auth.getUser();
+  return !!user;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (!(await isAuthorized(req))) {
+    return new Response(
+      JSON.stringify({ error: 'Invalid or expired token' }),
+      { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+    const provider = getAIProvider();
+    const model = embeddingModelLabel(provider);
+
+    // Regulations indexed before chunking existed have no chunks yet
+    const { data: unchunked, error: unchunkedError } = await supabase
+      .from('indexed_regulations')
+      .select('id, content, regulation_chunks(id)')
+      .is('regulation_chunks', null)
+      .not('content', 'is', null)
+      .limit(REGULATIONS_PER_RUN);
+    if (unchunkedError) throw unchunkedError;
+
+    let chunked = 0;
+    for (const regulation of unchunked ?? []) {
+      const chunks = chunkMarkdown(regulation.content);
+      if (chunks.length === 0) continue;
+      const { error } = await supabase.from('regulation_chunks').insert(
+        chunks.map((chunk) => ({
+          regulation_id: regulation.id,
+          chunk_index: chunk.index,
+          content: chunk.content,
+          page_number: chunk.pageNumber,
+          paragraph_start: chunk.paragraphStart,
+          paragraph_end: chunk.paragraphEnd,
+        }))
+      );
+      if (error) {
+        console.error(`Failed to chunk regulation ${regulation.id}:`, error.message);
+        continue;
+      }
+      chunked++;
+    }
+
+    // Chunks never embedded, or embedded by a model other than the current one
+    const { data: pending, error: pendingError } = await supabase
+      .from('regulation_chunks')
+      .select('id, content')
+      .or(`embedding.is.null,embedding_model.neq."${model}"`)
+      .order('created_at', { ascending: true })
+      .limit(CHUNKS_PER_RUN);
+    if (pendingError) throw pendingError;
+
+    const embedded = await embedChunks(supabase, provider, 'embed-regulations', pending ?? []);
+    console.log(`Chunked ${chunked} regulations, embedded ${embedded} chunks with ${model}`);
+
+    return new Response(
+      JSON.stringify({ success: true, chunked, embedded, model, more: embedded === CHUNKS_PER_RUN }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Embed regulations error:', error);
+    return aiErrorResponse(error, corsHeaders);
+  }
+});
@@ -0,0 +1,107 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, User } from "https://esm.sh/@supabase/supabase-js@2";
+import { validatePortalInput } from "../_shared/portals.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+// Helper to verify authentication
+async function verifyAuth(req: Request): Promise<{ user: User; error: null } | { user: null; error: Response }> {
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader) {
+    return { user: null, error: json({ error: 'Missing authorization header' }, 401) };
+  }
+
+  const supabaseClient = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_ANON_KEY')!,
+    { global: { headers: { Authorization: authHeader } } }
+  );
+
+  const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+
+  if (authError || !user) {
+    return { user: null, error: json({ error: 'Invalid or expired token' }, 401) };
+  }
+
+  return { user, error: null };
+}
+
+// Portals are global, not per workspace (where everyone is admin of their own), so
+// PORTAL_ADMIN_EMAILS (comma-separated) lists who may change them; unset allows nobody,
+// since the crawler fetches whatever a portal points at
+function isPortalAdmin(email: string | undefined): boolean {
+  const admins = (Deno.env.get('PORTAL_ADMIN_EMAILS') || '')
+    .split(',')
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+  return !!email && admins.includes(email.toLowerCase());
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const { user, error: authError } = await verifyAuth(req);
+  if (authError) {
+    return authError;
+  }
+
+  try {
+    const { action, id, portal: input } = await req.json();
+
+    // Lets the portals screen say up front whether the caller can change anything
+    if (action === 'access') {
+      return json({ canManage: isPortalAdmin(user.email) });
+    }
+    if (!isPortalAdmin(user.email)) {
+      return json({ error: 'You are not a portal admin: your email is not listed in PORTAL_ADMIN_EMAILS' }, 403);
+    }
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+    if (action !== 'create' && !id) {
+      return json({ error: 'Portal id is required' }, 400);
+    }
+
+    switch (action) {
+      case 'create':
+      case 'update': {
+        const { portal, errors } = validatePortalInput(input ?? {}, action === 'update');
+        if (errors.length > 0) {
+          return json({ error: errors.join('; '), errors }, 400);
+        }
+
+        const query = action === 'create'
+          ? supabase.from('regulation_portals').insert(portal)
+          : supabase.from('regulation_portals').update(portal).eq('id', id);
+        const { data, error } = await query.select('*').single();
+
+        // Invalid crawl schedules are rejected by the scheduling trigger
+        if (error) return json({ error: error.message }, 400);
+
+        console.log(`Portal ${action}d by ${user.id}:`, data.name);
+        return json({ portal: data });
+      }
+
+      case 'delete': {
+        const { error } = await supabase.from('regulation_portals').delete().eq('id', id);
+        if (error) return json({ error: error.message }, 400);
+
+        console.log(`Portal deleted by ${user.id}:`, id);
+        return json({ success: true });
+      }
+
+      default:
+        return json({ error: `Unknown action: ${action}` }, 400);
+    }
+  } catch (error) {
+    console.error('Manage portals error:', error);
+    return json({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
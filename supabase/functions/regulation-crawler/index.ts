@@ -1,5 +1,11 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getAIProvider } from "../_shared/ai/index.ts";
+import { chunkMarkdown, chunkPdfPages, DocumentChunk } from "../_shared/chunks.ts";
+import { embedChunks } from "../_shared/embeddings.ts";
+import { Fetcher, getFetcher } from "../_shared/fetcher/index.ts";
+import { extractPdf, isPdf, pdfToMarkdown } from "../_shared/fetcher/pdf.ts";
+import { PortalCrawlSettings, selectRelevantUrls } from "../_shared/portals.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -37,6 +43,226 @@ async function withRetry<T>(
   return null;
 }
 
+// AI summary of crawled content; empty when no provider is configured or the call fails
+async function summarize(content: string, instruction: string): Promise<string> {
+  if (content.length <= 100) return '';
+  try {
+    const { text } = await getAIProvider().generate({
+      agent: 'regulation-crawler',
+      messages: [
+        { role: 'system', content: instruction },
+        { role: 'user', content: `Summarize: ${content.slice(0, 4000)}` },
+      ],
+    });
+    return text;
+  } catch (error) {
+    console.log('Summary skipped:', error instanceof Error ? error.message : error);
+    return '';
+  }
+}
+
+interface Portal extends PortalCrawlSettings {
+  id: string;
+  name: string;
+  category: string;
+  base_url: string;
+}
+
+type IndexOutcome =
+  | { status: 'indexed'; title: string; contentType: 'html' | 'pdf'; pageCount: number | null; chunks: number; embedded: number }
+  | { status: 'skipped' }
+  | { status: 'failed'; stage: 'fetch' | 'upsert'; error: string };
+
+interface FetchedDocument {
+  content: string;
+  title?: string;
+  contentType: 'html' | 'pdf';
+  pageCount: number | null;
+  chunks: DocumentChunk[];
+}
+
+// Fetch a page as markdown, or download a PDF circular and keep its page structure
+async function fetchDocument(fetcher: Fetcher, url: string): Promise<FetchedDocument | string> {
+  if (isPdf(url)) {
+    const file = await withRetry(() => fetcher.download(url, { timeoutMs: 60000 }), 2);
+    if (!file) return 'Download failed';
+
+    try {
+      const pdf = await extractPdf(file.bytes);
+      if (pdf.pages.every((paragraphs) => paragraphs.length === 0)) {
+        return 'No extractable text (scanned PDF?)';
+      }
+      return {
+        content: pdfToMarkdown(pdf),
+        title: pdf.title,
+        contentType: 'pdf',
+        pageCount: pdf.pageCount,
+        chunks: chunkPdfPages(pdf.pages),
+      };
+    } catch (error) {
+      return `PDF extraction failed: ${error instanceof Error ? error.message : 'Unknown'}`;
+    }
+  }
+
+  const page = await withRetry(
+    () => fetcher.scrape(url, { onlyMainContent: true, waitFor: 5000, timeoutMs: 20000 }),
+    2
+  );
+  if (!page) return 'Scrape failed';
+
+  return {
+    content: page.markdown,
+    title: page.metadata.title,
+    contentType: 'html',
+    pageCount: null,
+    chunks: chunkMarkdown(page.markdown),
+  };
+}
+
+// Index one URL unless its content is unchanged, replacing its chunks
+async function indexUrl(
+  supabase: SupabaseClient,
+  fetcher: Fetcher,
+  portal: Portal,
+  url: string,
+  summaryInstruction: string
+): Promise<IndexOutcome> {
+  const document = await fetchDocument(fetcher, url);
+  if (typeof document === 'string') {
+    return { status: 'failed', stage: 'fetch', error: document };
+  }
+
+  const { content } = document;
+  const contentHash = await hashContent(content);
+
+  const { data: existing } = await supabase
+    .from('indexed_regulations')
+    .select('id, content_hash')
+    .eq('url', url)
+    .single();
+
+  if (existing && existing.content_hash === contentHash) {
+    return { status: 'skipped' };
+  }
+
+  const heading = document.contentType === 'html'
+    ? content.split('\n').find((line: string) => line.startsWith('#'))?.replace(/^#+\s*/, '')
+    : undefined;
+  const title = document.title || heading ||
+    url.split('/').pop()?.replace(/\.pdf$/i, '').replace(/[-_]/g, ' ') || 'Untitled';
+
+  const summary = await summarize(content, summaryInstruction);
+
+  const { data: saved, error: upsertError } = await supabase
+    .from('indexed_regulations')
+    .upsert({
+      url,
+      source: portal.name,
+      title,
+      content: content.slice(0, 50000),
+      summary,
+      category: portal.category,
+      content_hash: contentHash,
+      content_type: document.contentType,
+      page_count: document.pageCount,
+      crawled_at: new Date().toISOString(),
+      is_processed: !!summary,
+    }, { onConflict: 'url' })
+    .select('id')
+    .single();
+
+  if (upsertError || !saved) {
+    return { status: 'failed', stage: 'upsert', error: upsertError?.message || 'Upsert returned no row' };
+  }
+
+  // Chunks keep the full text, including anything past the 50k content limit
+  await supabase.from('regulation_chunks').delete().eq('regulation_id', saved.id);
+  const { data: storedChunks, error: chunkError } = await supabase.from('regulation_chunks').insert(
+    document.chunks.map((chunk) => ({
+      regulation_id: saved.id,
+      chunk_index: chunk.index,
+      content: chunk.content,
+      page_number: chunk.pageNumber,
+      paragraph_start: chunk.paragraphStart,
+      paragraph_end: chunk.paragraphEnd,
+    }))
+  ).select('id, content');
+  if (chunkError) {
+    console.error(`Failed to store chunks for ${url}:`, chunkError.message);
+  }
+
+  // Chunks left unembedded here are picked up by embed-regulations
+  let embedded = 0;
+  try {
+    embedded = await embedChunks(supabase, getAIProvider(), 'regulation-crawler', storedChunks ?? []);
+  } catch (error) {
+    console.log(`Embedding deferred for ${url}:`, error instanceof Error ? error.message : error);
+  }
+
+  return {
+    status: 'indexed',
+    title,
+    contentType: document.contentType,
+    pageCount: document.pageCount,
+    chunks: chunkError ? 0 : document.chunks.length,
+    embedded,
+  };
+}
+
+interface CrawlJobResult {
+  urlsFound: number;
+  indexed: number;
+  skipped: number;
+  failed: number;
+  failures: { url: string; error: string }[];
+}
+
+const emptyJobResult = (): CrawlJobResult => ({ urlsFound: 0, indexed: 0, skipped: 0, failed: 0, failures: [] });
+
+// Record a portal crawl in crawl_jobs. Scheduled crawls bring the job the
+// scheduler queued; manual crawls get a new one.
+async function startCrawlJob(supabase: SupabaseClient, portalId: string, jobId: string | null): Promise<string | null> {
+  const startedAt = new Date().toISOString();
+  if (jobId) {
+    await supabase.from('crawl_jobs').update({ status: 'running', started_at: startedAt }).eq('id', jobId);
+    return jobId;
+  }
+
+  const { data, error } = await supabase
+    .from('crawl_jobs')
+    .insert({ portal_id: portalId, trigger: 'manual', status: 'running', started_at: startedAt })
+    .select('id')
+    .single();
+  if (error) {
+    console.error('Failed to record crawl job:', error.message);
+    return null;
+  }
+  return data.id;
+}
+
+async function finishCrawlJob(supabase: SupabaseClient, jobId: string | null, result: CrawlJobResult, error?: string) {
+  if (!jobId) return;
+  await supabase
+    .from('crawl_jobs')
+    .update({
+      status: error ? 'failed' : 'complete',
+      urls_found: result.urlsFound,
+      indexed_count: result.indexed,
+      skipped_count: result.skipped,
+      failed_count: result.failed,
+      failures: result.failures,
+      error: error ?? null,
+      finished_at: new Date().toISOString(),
+    })
+    .eq('id', jobId);
+}
+
+// pg_cron invokes the crawler with the service role key instead of a user session
+function isSchedulerRequest(req: Request): boolean {
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  return !!serviceKey && req.headers.get('Authorization') === `Bearer ${serviceKey}`;
+}
+
 // Helper to verify authentication
 async function verifyAuth(req: Request): Promise<{ user: any; error: Response | null }> {
   const authHeader = req.headers.get('Authorization');
@@ -77,34 +303,34 @@ serve(async (req) => {
   }
 
   // Verify authentication
-  const { user, error: authError } = await verifyAuth(req);
-  if (authError) {
-    return authError;
+  const fromScheduler = isSchedulerRequest(req);
+  if (fromScheduler) {
+    console.log('Scheduled crawl');
+  } else {
+    const { user, error: authError } = await verifyAuth(req);
+    if (authError) {
+      return authError;
+    }
+    console.log('Authenticated user:', user.id);
   }
-  console.log('Authenticated user:', user.id);
 
   try {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const firecrawlApiKey = Deno.env.get('FIRECRAWL_API_KEY');
-    const lovableApiKey = Deno.env.get('LOVABLE_API_KEY');
-
-    if (!firecrawlApiKey) {
-      console.error('FIRECRAWL_API_KEY not configured');
-      return new Response(
-        JSON.stringify({ success: false, error: 'Firecrawl not configured' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
+    const fetcher = getFetcher();
+    console.log('Using fetcher:', fetcher.name);
 
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
     // Parse request body for options
     let targetPortalId: string | null = null;
+    let scheduledJobId: string | null = null;
     let useStreaming = false;
     try {
       const body = await req.json();
       targetPortalId = body?.portalId || null;
+      // Only the scheduler may report into a job it queued
+      scheduledJobId = fromScheduler ? body?.jobId || null : null;
       useStreaming = body?.stream === true;
     } catch {
       // No body or invalid JSON
@@ -133,151 +359,49 @@ serve(async (req) => {
 
             for (const portal of portals || []) {
               send('portal_start', { portal: portal.name, id: portal.id });
+              const jobId = await startCrawlJob(supabase, portal.id, null);
+              const job = emptyJobResult();
 
               try {
                 // Map URLs
-                const mapResult = await withRetry(async () => {
-                  const response = await fetch('https://api.firecrawl.dev/v1/map', {
-                    method: 'POST',
-                    headers: {
-                      'Authorization': `Bearer ${firecrawlApiKey}`,
-                      'Content-Type': 'application/json',
-                    },
-                    body: JSON.stringify({
-                      url: portal.base_url,
-                      limit: 50,
-                      includeSubdomains: false,
-                    }),
-                  });
-                  const data = await response.json();
-                  if (!response.ok || !data.success) throw new Error(data.error);
-                  return data;
-                });
-
-                if (!mapResult) {
+                const urls = await withRetry(() => fetcher.map(portal.base_url, { limit: portal.map_limit }));
+
+                if (!urls) {
                   send('portal_error', { portal: portal.name, error: 'Failed to map URLs' });
+                  await finishCrawlJob(supabase, jobId, job, 'Failed to map URLs');
                   continue;
                 }
+                job.urlsFound = urls.length;
 
-                const urls = mapResult.links || [];
-                const regulationPatterns = [
-                  /circular/i, /notification/i, /order/i, /amendment/i,
-                  /act/i, /rule/i, /guideline/i, /press/i, /gazette/i,
-                  /faq/i, /instruction/i, /directive/i
-                ];
-
-                const relevantUrls = urls.filter((url: string) => {
-                  if (url.toLowerCase().endsWith('.pdf')) return false;
-                  if (url.includes('/hindi/')) return false;
-                  return regulationPatterns.some(pattern => pattern.test(url));
-                }).slice(0, 5);
+                const relevantUrls = selectRelevantUrls(urls, portal);
 
                 send('urls_found', { portal: portal.name, total: urls.length, relevant: relevantUrls.length });
 
-                let indexed = 0;
-                let skipped = 0;
-                let failed = 0;
-
                 for (const url of relevantUrls) {
                   send('scraping', { url, portal: portal.name });
 
-                  const scrapeResult = await withRetry(async () => {
-                    const controller = new AbortController();
-                    const timeoutId = setTimeout(() => controller.abort(), 20000);
-
-                    const response = await fetch('https://api.firecrawl.dev/v1/scrape', {
-                      method: 'POST',
-                      headers: {
-                        'Authorization': `Bearer ${firecrawlApiKey}`,
-                        'Content-Type': 'application/json',
-                      },
-                      body: JSON.stringify({
-                        url,
-                        formats: ['markdown'],
-                        onlyMainContent: true,
-                        waitFor: 5000,
-                      }),
-                      signal: controller.signal,
-                    });
-                    clearTimeout(timeoutId);
-
-                    const data = await response.json();
-                    if (!response.ok || !data.success) throw new Error(data.error || 'Scrape failed');
-                    return data;
-                  }, 2);
-
-                  if (!scrapeResult) {
-                    failed++;
-                    send('scrape_failed', { url, retries: 2 });
-                    continue;
-                  }
-
-                  const content = scrapeResult.data?.markdown || '';
-                  const contentHash = await hashContent(content);
-
-                  // Check existing
-                  const { data: existing } = await supabase
-                    .from('indexed_regulations')
-                    .select('id, content_hash')
-                    .eq('url', url)
-                    .single();
-
-                  if (existing && existing.content_hash === contentHash) {
-                    skipped++;
+                  const outcome = await indexUrl(
+                    supabase,
+                    fetcher,
+                    portal,
+                    url,
+                    'Provide a brief 2-3 sentence summary focusing on key compliance requirements.'
+                  );
+
+                  if (outcome.status === 'indexed') {
+                    job.indexed++;
+                    send('indexed', { url, title: outcome.title, contentType: outcome.contentType, pages: outcome.pageCount, chunks: outcome.chunks, embedded: outcome.embedded });
+                  } else if (outcome.status === 'skipped') {
+                    job.skipped++;
                     send('skipped', { url, reason: 'unchanged' });
-                    continue;
-                  }
-
-                  const title = scrapeResult.data?.metadata?.title ||
-                    content.split('\n').find((line: string) => line.startsWith('#'))?.replace(/^#+\s*/, '') ||
-                    url.split('/').pop()?.replace(/[-_]/g, ' ') || 'Untitled';
-
-                  // AI summary
-                  let summary = '';
-                  if (lovableApiKey && content.length > 100) {
-                    try {
-                      const aiResponse = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-                        method: 'POST',
-                        headers: {
-                          'Authorization': `Bearer ${lovableApiKey}`,
-                          'Content-Type': 'application/json',
-                        },
-                        body: JSON.stringify({
-                          model: 'google/gemini-2.5-flash',
-                          messages: [
-                            { role: 'system', content: 'Provide a brief 2-3 sentence summary focusing on key compliance requirements.' },
-                            { role: 'user', content: `Summarize: ${content.slice(0, 4000)}` },
-                          ],
-                        }),
-                      });
-                      if (aiResponse.ok) {
-                        const aiData = await aiResponse.json();
-                        summary = aiData.choices?.[0]?.message?.content || '';
-                      }
-                    } catch { /* ignore */ }
-                  }
-
-                  // Upsert
-                  const { error: upsertError } = await supabase
-                    .from('indexed_regulations')
-                    .upsert({
-                      url,
-                      source: portal.name,
-                      title,
-                      content: content.slice(0, 50000),
-                      summary,
-                      category: portal.category,
-                      content_hash: contentHash,
-                      crawled_at: new Date().toISOString(),
-                      is_processed: !!summary,
-                    }, { onConflict: 'url' });
-
-                  if (upsertError) {
-                    failed++;
-                    send('upsert_error', { url, error: upsertError.message });
                   } else {
-                    indexed++;
-                    send('indexed', { url, title });
+                    job.failed++;
+                    job.failures.push({ url, error: outcome.error });
+                    if (outcome.stage === 'upsert') {
+                      send('upsert_error', { url, error: outcome.error });
+                    } else {
+                      send('scrape_failed', { url, retries: 2, error: outcome.error });
+                    }
                   }
 
                   await new Promise(resolve => setTimeout(resolve, 500));
@@ -289,10 +413,13 @@ serve(async (req) => {
                   .update({ last_crawled_at: new Date().toISOString() })
                   .eq('id', portal.id);
 
-                send('portal_complete', { portal: portal.name, indexed, skipped, failed });
+                await finishCrawlJob(supabase, jobId, job);
+                send('portal_complete', { portal: portal.name, indexed: job.indexed, skipped: job.skipped, failed: job.failed, jobId });
 
               } catch (err) {
-                send('portal_error', { portal: portal.name, error: err instanceof Error ? err.message : 'Unknown' });
+                const message = err instanceof Error ? err.message : 'Unknown';
+                await finishCrawlJob(supabase, jobId, job, message);
+                send('portal_error', { portal: portal.name, error: message });
               }
             }
 
@@ -321,131 +448,43 @@ serve(async (req) => {
 
     console.log(`Found ${portals?.length || 0} active portals to crawl`);
 
-    const results: { portal: string; urls: number; indexed: number; skipped: number; failed: number }[] = [];
+    // A scheduled job whose portal was deactivated or removed in the meantime
+    if (scheduledJobId && !portals?.length) {
+      await finishCrawlJob(supabase, scheduledJobId, emptyJobResult(), 'Portal is not active');
+    }
+
+    const results: ({ portal: string; jobId: string | null } & CrawlJobResult)[] = [];
 
     for (const portal of portals || []) {
       console.log(`Crawling: ${portal.name}`);
-      const result = { portal: portal.name, urls: 0, indexed: 0, skipped: 0, failed: 0 };
+      const jobId = await startCrawlJob(supabase, portal.id, scheduledJobId);
+      const result = { portal: portal.name, jobId, ...emptyJobResult() };
 
       try {
-        const mapResult = await withRetry(async () => {
-          const response = await fetch('https://api.firecrawl.dev/v1/map', {
-            method: 'POST',
-            headers: {
-              'Authorization': `Bearer ${firecrawlApiKey}`,
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({ url: portal.base_url, limit: 50, includeSubdomains: false }),
-          });
-          const data = await response.json();
-          if (!response.ok || !data.success) throw new Error(data.error);
-          return data;
-        });
-
-        if (!mapResult) {
+        const urls = await withRetry(() => fetcher.map(portal.base_url, { limit: portal.map_limit }));
+
+        if (!urls) {
+          await finishCrawlJob(supabase, jobId, result, 'Failed to map URLs');
           results.push(result);
           continue;
         }
 
-        const urls = mapResult.links || [];
-        result.urls = urls.length;
-
-        const regulationPatterns = [
-          /circular/i, /notification/i, /order/i, /amendment/i,
-          /act/i, /rule/i, /guideline/i, /faq/i
-        ];
+        result.urlsFound = urls.length;
 
-        const relevantUrls = urls.filter((url: string) => {
-          if (url.toLowerCase().endsWith('.pdf')) return false;
-          if (url.includes('/hindi/')) return false;
-          return regulationPatterns.some(p => p.test(url));
-        }).slice(0, 5);
+        const relevantUrls = selectRelevantUrls(urls, portal);
 
         for (const url of relevantUrls) {
-          const scrapeResult = await withRetry(async () => {
-            const controller = new AbortController();
-            const timeoutId = setTimeout(() => controller.abort(), 20000);
-            const response = await fetch('https://api.firecrawl.dev/v1/scrape', {
-              method: 'POST',
-              headers: {
-                'Authorization': `Bearer ${firecrawlApiKey}`,
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify({ url, formats: ['markdown'], onlyMainContent: true, waitFor: 5000 }),
-              signal: controller.signal,
-            });
-            clearTimeout(timeoutId);
-            const data = await response.json();
-            if (!response.ok || !data.success) throw new Error(data.error);
-            return data;
-          }, 2);
-
-          if (!scrapeResult) {
-            result.failed++;
-            continue;
-          }
+          const outcome = await indexUrl(supabase, fetcher, portal, url, 'Provide a brief 2-3 sentence summary.');
 
-          const content = scrapeResult.data?.markdown || '';
-          const contentHash = await hashContent(content);
-
-          const { data: existing } = await supabase
-            .from('indexed_regulations')
-            .select('id, content_hash')
-            .eq('url', url)
-            .single();
-
-          if (existing && existing.content_hash === contentHash) {
-            result.skipped++;
-            continue;
-          }
-
-          const title = scrapeResult.data?.metadata?.title ||
-            content.split('\n').find((line: string) => line.startsWith('#'))?.replace(/^#+\s*/, '') ||
-            'Untitled';
-
-          let summary = '';
-          if (lovableApiKey && content.length > 100) {
-            try {
-              const aiResponse = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-                method: 'POST',
-                headers: {
-                  'Authorization': `Bearer ${lovableApiKey}`,
-                  'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                  model: 'google/gemini-2.5-flash',
-                  messages: [
-                    { role: 'system', content: 'Provide a brief 2-3 sentence summary.' },
-                    { role: 'user', content: `Summarize: ${content.slice(0, 4000)}` },
-                  ],
-                }),
-              });
-              if (aiResponse.ok) {
-                const aiData = await aiResponse.json();
-                summary = aiData.choices?.[0]?.message?.content || '';
-              }
-            } catch { /* ignore */ }
-          }
-
-          const { error: upsertError } = await supabase
-            .from('indexed_regulations')
-            .upsert({
-              url,
-              source: portal.name,
-              title,
-              content: content.slice(0, 50000),
-              summary,
-              category: portal.category,
-              content_hash: contentHash,
-              crawled_at: new Date().toISOString(),
-              is_processed: !!summary,
-            }, { onConflict: 'url' });
-
-          if (!upsertError) {
+          if (outcome.status === 'indexed') {
             result.indexed++;
-            console.log(`Indexed: ${title}`);
+            console.log(`Indexed: ${outcome.title}${outcome.pageCount ? ` (${outcome.pageCount} pages)` : ''}`);
+          } else if (outcome.status === 'skipped') {
+            result.skipped++;
           } else {
             result.failed++;
+            result.failures.push({ url, error: outcome.error });
+            console.log(`Failed: ${url} (${outcome.error})`);
           }
 
           await new Promise(resolve => setTimeout(resolve, 500));
@@ -456,8 +495,10 @@ serve(async (req) => {
           .update({ last_crawled_at: new Date().toISOString() })
           .eq('id', portal.id);
 
+        await finishCrawlJob(supabase, jobId, result);
       } catch (err) {
         console.error(`Error crawling ${portal.name}:`, err);
+        await finishCrawlJob(supabase, jobId, result, err instanceof Error ? err.message : 'Unknown');
       }
 
       results.push(result);
@@ -0,0 +1,167 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { aiErrorResponse, getAIProvider } from "../_shared/ai/index.ts";
+import { embeddingModelLabel } from "../_shared/embeddings.ts";
+import { formatMoney, Money } from "../_shared/money.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface TransactionQuery {
+  id: string;
+  vendor: string;
+  description: string;
+  category: string;
+  amount: Money;
+}
+
+interface RetrievalRequest {
+  transactions: TransactionQuery[];
+  /** Chunks retrieved per transaction */
+  topK?: number;
+  /** Regulations kept per transaction; the response holds the union, best scoring first */
+  regulationsPerTransaction?: number;
+  minSimilarity?: number;
+}
+
+interface ChunkMatch {
+  id: string;
+  regulation_id: string;
+  chunk_index: number;
+  content: string;
+  page_number: number | null;
+  paragraph_start: number;
+  paragraph_end: number;
+  similarity: number;
+}
+
+interface RetrievedPassage {
+  chunkId: string;
+  content: string;
+  pageNumber: number | null;
+  paragraphStart: number;
+  paragraphEnd: number;
+  similarity: number;
+}
+
+const MAX_TRANSACTIONS = 200;
+const MAX_TOP_K = 20;
+const MAX_REGULATIONS_PER_TRANSACTION = 10;
+
+const clamp = (value: unknown, fallback: number, max: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(Math.max(Math.floor(value), 1), max) : fallback;
+
+// What the transaction is about, phrased the way a regulation would mention it
+function toQuery(tx: TransactionQuery): string {
+  return `${tx.category} payment of ${formatMoney(tx.amount)} to ${tx.vendor}: ${tx.description}`;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body: RetrievalRequest = await req.json();
+    const { transactions, minSimilarity = 0.3 } = body;
+    const topK = clamp(body.topK, 5, MAX_TOP_K);
+    const regulationsPerTransaction = clamp(body.regulationsPerTransaction, 3, MAX_REGULATIONS_PER_TRANSACTION);
+    if (!Array.isArray(transactions) || transactions.length === 0) {
+      return new Response(
+        JSON.stringify({ error: 'transactions must be a non-empty array' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    const queries = transactions.slice(0, MAX_TRANSACTIONS);
+    // Reported back so the caller can say which transactions were audited without retrieval
+    const skippedTransactionIds = transactions.slice(MAX_TRANSACTIONS).map((tx) => tx.id);
+    console.log(`Retrieving regulations for ${queries.length} transactions (top ${topK} chunks each)`);
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+    const provider = getAIProvider();
+    const model = embeddingModelLabel(provider);
+
+    const { embeddings } = await provider.embed({
+      agent: 'retrieve-regulations',
+      texts: queries.map(toQuery),
+      purpose: 'query',
+    });
+
+    // Each transaction keeps its best regulations (by best chunk); a regulation
+    // scores by its best chunk similarity summed over the transactions keeping it
+    const scores = new Map<string, number>();
+    const passages = new Map<string, Map<string, RetrievedPassage>>();
+    const matches: { transactionId: string; regulationIds: string[] }[] = [];
+
+    for (let i = 0; i < queries.length; i++) {
+      const { data, error } = await supabase.rpc('match_regulation_chunks', {
+        query_embedding: JSON.stringify(embeddings[i]),
+        match_count: topK,
+        min_similarity: minSimilarity,
+        filter_embedding_model: model,
+      });
+      if (error) throw new Error(`Chunk search failed: ${error.message}`);
+
+      const best = new Map<string, number>();
+      for (const chunk of (data ?? []) as ChunkMatch[]) {
+        best.set(chunk.regulation_id, Math.max(best.get(chunk.regulation_id) ?? 0, chunk.similarity));
+        const regulationPassages = passages.get(chunk.regulation_id) ?? new Map<string, RetrievedPassage>();
+        regulationPassages.set(chunk.id, {
+          chunkId: chunk.id,
+          content: chunk.content,
+          pageNumber: chunk.page_number,
+          paragraphStart: chunk.paragraph_start,
+          paragraphEnd: chunk.paragraph_end,
+          similarity: Math.max(regulationPassages.get(chunk.id)?.similarity ?? 0, chunk.similarity),
+        });
+        passages.set(chunk.regulation_id, regulationPassages);
+      }
+      const top = [...best.entries()].sort((a, b) => b[1] - a[1]).slice(0, regulationsPerTransaction);
+      for (const [regulationId, similarity] of top) {
+        scores.set(regulationId, (scores.get(regulationId) ?? 0) + similarity);
+      }
+      matches.push({ transactionId: queries[i].id, regulationIds: top.map(([id]) => id) });
+    }
+
+    const rankedIds = [...scores.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .map(([id]) => id);
+
+    let regulations: Record<string, unknown>[] = [];
+    if (rankedIds.length > 0) {
+      const { data, error } = await supabase
+        .from('indexed_regulations')
+        .select('id, title, url, source, category, content, summary, content_hash, crawled_at')
+        .in('id', rankedIds);
+      if (error) throw new Error(`Failed to load regulations: ${error.message}`);
+
+      regulations = rankedIds.flatMap((id) => {
+        const regulation = data?.find((r) => r.id === id);
+        if (!regulation) return [];
+        return [{
+          ...regulation,
+          score: scores.get(id),
+          passages: [...(passages.get(id)?.values() ?? [])].sort((a, b) => b.similarity - a.similarity),
+        }];
+      });
+    }
+
+    const kept = new Set(regulations.map((r) => r.id as string));
+    console.log(`Retrieved ${regulations.length} regulations using ${model}`);
+
+    return new Response(
+      JSON.stringify({
+        model,
+        regulations,
+        matches: matches.map((m) => ({ ...m, regulationIds: m.regulationIds.filter((id) => kept.has(id)) })),
+        skippedTransactionIds,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Retrieve regulations error:', error);
+    return aiErrorResponse(error, corsHeaders);
+  }
+});
@@ -0,0 +1,67 @@
+-- Persist pipeline state per user so an audit survives page reloads
+
+-- Transactions loaded into the pipeline (Agent 3 output)
+CREATE TABLE public.transactions (
+  id TEXT NOT NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  category TEXT NOT NULL,
+  amount TEXT NOT NULL,
+  tax TEXT NOT NULL,
+  vendor TEXT NOT NULL,
+  date TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, id)
+);
+
+-- Compliance check results (Agent 4 output)
+CREATE TABLE public.compliance_results (
+  id TEXT NOT NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  transaction_id TEXT NOT NULL,
+  clause_id TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('compliant', 'violation', 'warning', 'missing_docs')),
+  risk_level TEXT NOT NULL CHECK (risk_level IN ('low', 'medium', 'high')),
+  reasoning TEXT NOT NULL DEFAULT '',
+  missing_docs TEXT[],
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, id)
+);
+
+-- Final audit reports (Agent 5 output)
+CREATE TABLE public.audit_reports (
+  id TEXT NOT NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  generated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  summary JSONB NOT NULL,
+  details JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, id)
+);
+
+CREATE INDEX idx_compliance_results_transaction ON public.compliance_results(user_id, transaction_id);
+CREATE INDEX idx_audit_reports_generated_at ON public.audit_reports(user_id, generated_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.transactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.compliance_results ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.audit_reports ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies: each user only sees and manages their own pipeline data
+CREATE POLICY "Users can manage their own transactions"
+ON public.transactions FOR ALL
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage their own compliance results"
+ON public.compliance_results FOR ALL
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage their own audit reports"
+ON public.audit_reports FOR ALL
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,45 @@
+-- Audit run history: one row per Master Agent / pipeline run
+CREATE TABLE public.audit_runs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  runner TEXT NOT NULL CHECK (runner IN ('master_agent', 'pipeline')),
+  status TEXT NOT NULL CHECK (status IN ('complete', 'error')),
+  error TEXT,
+  input_file_name TEXT,
+  detected_categories TEXT[] NOT NULL DEFAULT '{}',
+  regulation_ids TEXT[] NOT NULL DEFAULT '{}',
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  completed_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  duration_ms INTEGER NOT NULL,
+  step_timings JSONB NOT NULL DEFAULT '[]'::jsonb,
+  total_checked INTEGER NOT NULL DEFAULT 0,
+  violations INTEGER NOT NULL DEFAULT 0,
+  -- Snapshots so a run can be re-opened even after the working pipeline changes
+  report JSONB,
+  compliance_results JSONB NOT NULL DEFAULT '[]'::jsonb,
+  transactions JSONB NOT NULL DEFAULT '[]'::jsonb,
+  parsed_clauses JSONB NOT NULL DEFAULT '[]'::jsonb,
+  logs JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_audit_runs_user_started ON public.audit_runs(user_id, started_at DESC);
+CREATE INDEX idx_audit_runs_categories ON public.audit_runs USING GIN (detected_categories);
+
+-- Enable RLS
+ALTER TABLE public.audit_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own audit runs"
+ON public.audit_runs FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own audit runs"
+ON public.audit_runs FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own audit runs"
+ON public.audit_runs FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
@@ -0,0 +1,36 @@
+-- PDF circulars: remember the document type and page count of indexed regulations
+ALTER TABLE public.indexed_regulations
+  ADD COLUMN content_type TEXT NOT NULL DEFAULT 'html' CHECK (content_type IN ('html', 'pdf')),
+  ADD COLUMN page_count INTEGER;
+
+-- Retrieval-sized chunks of each indexed regulation. PDF chunks never cross a
+-- page and record the paragraphs they cover, so clauses can cite "page 3, para 2".
+CREATE TABLE public.regulation_chunks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  regulation_id UUID NOT NULL REFERENCES public.indexed_regulations(id) ON DELETE CASCADE,
+  chunk_index INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  page_number INTEGER,
+  paragraph_start INTEGER NOT NULL,
+  paragraph_end INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (regulation_id, chunk_index)
+);
+
+CREATE INDEX idx_regulation_chunks_regulation ON public.regulation_chunks(regulation_id, chunk_index);
+
+-- Enable RLS
+ALTER TABLE public.regulation_chunks ENABLE ROW LEVEL SECURITY;
+
+-- Chunks are public like the regulations they come from
+CREATE POLICY "Anyone can view regulation chunks"
+ON public.regulation_chunks
+FOR SELECT
+USING (true);
+
+-- Only service role can insert/update (via the crawler)
+CREATE POLICY "Service role can manage regulation chunks"
+ON public.regulation_chunks
+FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
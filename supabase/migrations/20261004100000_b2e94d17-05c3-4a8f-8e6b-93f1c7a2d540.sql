@@ -0,0 +1,86 @@
+-- Regulation version history: every distinct content_hash of an indexed
+-- regulation is kept, so amendments can be diffed against earlier text
+CREATE TABLE public.regulation_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  regulation_id UUID NOT NULL REFERENCES public.indexed_regulations(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  title TEXT,
+  content TEXT,
+  summary TEXT,
+  content_hash TEXT,
+  page_count INTEGER,
+  captured_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (regulation_id, version_number)
+);
+
+CREATE INDEX idx_regulation_versions_regulation ON public.regulation_versions(regulation_id, version_number DESC);
+
+-- Set when the content of an already indexed regulation changes
+ALTER TABLE public.indexed_regulations
+  ADD COLUMN amended_at TIMESTAMP WITH TIME ZONE;
+
+-- Enable RLS
+ALTER TABLE public.regulation_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view regulation versions"
+ON public.regulation_versions
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Service role can manage regulation versions"
+ON public.regulation_versions
+FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+-- Flag amendments before the row is written
+CREATE OR REPLACE FUNCTION public.mark_regulation_amended()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.content_hash IS NOT NULL AND NEW.content_hash IS DISTINCT FROM OLD.content_hash THEN
+    NEW.amended_at = now();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER mark_indexed_regulations_amended
+  BEFORE UPDATE ON public.indexed_regulations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.mark_regulation_amended();
+
+-- Snapshot each new revision, whichever writer stored it
+CREATE OR REPLACE FUNCTION public.snapshot_regulation_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.content_hash IS NOT DISTINCT FROM OLD.content_hash THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.regulation_versions (regulation_id, version_number, title, content, summary, content_hash, page_count, captured_at)
+  VALUES (
+    NEW.id,
+    COALESCE((SELECT MAX(version_number) FROM public.regulation_versions WHERE regulation_id = NEW.id), 0) + 1,
+    NEW.title,
+    NEW.content,
+    NEW.summary,
+    NEW.content_hash,
+    NEW.page_count,
+    NEW.crawled_at
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER snapshot_indexed_regulations_version
+  AFTER INSERT OR UPDATE ON public.indexed_regulations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.snapshot_regulation_version();
+
+-- Existing regulations start at version 1
+INSERT INTO public.regulation_versions (regulation_id, version_number, title, content, summary, content_hash, page_count, captured_at)
+SELECT id, 1, title, content, summary, content_hash, page_count, crawled_at
+FROM public.indexed_regulations;
@@ -0,0 +1,38 @@
+-- Clauses remember the regulation content they were parsed from and are
+-- marked stale when that regulation changes
+ALTER TABLE public.parsed_clauses
+  ADD COLUMN source_hash TEXT,
+  ADD COLUMN stale_at TIMESTAMP WITH TIME ZONE;
+
+-- Existing clauses are assumed to match the current regulation text
+UPDATE public.parsed_clauses pc
+SET source_hash = ir.content_hash
+FROM public.indexed_regulations ir
+WHERE ir.id = pc.regulation_id;
+
+CREATE INDEX idx_parsed_clauses_stale ON public.parsed_clauses(regulation_id) WHERE stale_at IS NOT NULL;
+
+-- Re-parsing replaces a regulation's clauses, so clearing the old ones must be allowed
+CREATE POLICY "parsed_clauses_delete" ON public.parsed_clauses FOR DELETE USING (auth.uid() IS NOT NULL);
+
+CREATE OR REPLACE FUNCTION public.invalidate_stale_clauses()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NEW.content_hash IS DISTINCT FROM OLD.content_hash THEN
+    UPDATE public.parsed_clauses
+    SET stale_at = now()
+    WHERE regulation_id = NEW.id
+      AND stale_at IS NULL
+      AND source_hash IS DISTINCT FROM NEW.content_hash;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER invalidate_indexed_regulations_clauses
+  AFTER UPDATE ON public.indexed_regulations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.invalidate_stale_clauses();
@@ -0,0 +1,185 @@
+-- Scheduled crawling: each portal has its own crawl schedule, run by pg_cron
+-- through pg_net, and every crawl (scheduled or manual) is recorded in crawl_jobs.
+--
+-- The scheduler reads two Vault secrets to reach the edge function:
+--   select vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   select vault.create_secret('<service role key>', 'service_role_key');
+
+-- A cron expression ('0 2 * * *') or an interval ('6 hours', '1 day');
+-- NULL means the portal is only crawled on demand
+ALTER TABLE public.regulation_portals
+  ADD COLUMN crawl_schedule TEXT DEFAULT '1 day';
+
+-- One row per portal crawl
+CREATE TABLE public.crawl_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  portal_id UUID NOT NULL REFERENCES public.regulation_portals(id) ON DELETE CASCADE,
+  trigger TEXT NOT NULL DEFAULT 'manual' CHECK (trigger IN ('schedule', 'manual')),
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'complete', 'failed')),
+  urls_found INTEGER NOT NULL DEFAULT 0,
+  indexed_count INTEGER NOT NULL DEFAULT 0,
+  skipped_count INTEGER NOT NULL DEFAULT 0,
+  failed_count INTEGER NOT NULL DEFAULT 0,
+  -- [{ url, error }] for every URL that could not be indexed
+  failures JSONB NOT NULL DEFAULT '[]'::jsonb,
+  error TEXT,
+  -- pg_net request id of the scheduled invocation
+  request_id BIGINT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  started_at TIMESTAMP WITH TIME ZONE,
+  finished_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_crawl_jobs_portal_created ON public.crawl_jobs(portal_id, created_at DESC);
+CREATE INDEX idx_crawl_jobs_created_at ON public.crawl_jobs(created_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.crawl_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view crawl jobs"
+ON public.crawl_jobs
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Service role can manage crawl jobs"
+ON public.crawl_jobs
+FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+-- pg_cron takes cron expressions; intervals are mapped onto the nearest
+-- expression that repeats evenly (minutes dividing an hour, hours dividing a day, whole days)
+CREATE OR REPLACE FUNCTION public.crawl_schedule_to_cron(schedule TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  minutes INTEGER;
+BEGIN
+  IF schedule ~ '^\s*\S+(\s+\S+){4}\s*$' THEN
+    RETURN trim(schedule);
+  END IF;
+
+  minutes := (EXTRACT(EPOCH FROM schedule::INTERVAL) / 60)::INTEGER;
+  IF minutes < 5 THEN
+    RAISE EXCEPTION 'Crawl interval must be at least 5 minutes, got %', schedule;
+  ELSIF minutes < 60 AND 60 % minutes = 0 THEN
+    RETURN format('*/%s * * * *', minutes);
+  ELSIF minutes % 60 = 0 AND minutes < 1440 AND 1440 % minutes = 0 THEN
+    RETURN format('0 */%s * * *', minutes / 60);
+  ELSIF minutes = 1440 THEN
+    RETURN '0 2 * * *';
+  ELSIF minutes = 10080 THEN
+    RETURN '0 2 * * 0';
+  ELSIF minutes % 1440 = 0 AND minutes < 44640 THEN
+    RETURN format('0 2 */%s * *', minutes / 1440);
+  END IF;
+
+  RAISE EXCEPTION 'Unsupported crawl interval %: use a cron expression instead', schedule;
+END;
+$$;
+
+-- Queue a crawl job for a portal and ask the crawler to run it
+CREATE OR REPLACE FUNCTION public.invoke_scheduled_crawl(target_portal_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  job_id UUID;
+  project_url TEXT;
+  service_key TEXT;
+BEGIN
+  -- A crawl that never reported back within an hour is not coming back
+  UPDATE public.crawl_jobs
+  SET status = 'failed', error = 'Timed out', finished_at = now()
+  WHERE portal_id = target_portal_id
+    AND status IN ('queued', 'running')
+    AND created_at < now() - INTERVAL '1 hour';
+
+  -- Skip this tick while the previous crawl of the portal is still going
+  IF EXISTS (
+    SELECT 1 FROM public.crawl_jobs
+    WHERE portal_id = target_portal_id AND status IN ('queued', 'running')
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.crawl_jobs (portal_id, trigger)
+  VALUES (target_portal_id, 'schedule')
+  RETURNING id INTO job_id;
+
+  SELECT decrypted_secret INTO project_url FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO service_key FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+
+  IF project_url IS NULL OR service_key IS NULL THEN
+    UPDATE public.crawl_jobs
+    SET status = 'failed', error = 'Scheduler is missing the project_url or service_role_key Vault secret', finished_at = now()
+    WHERE id = job_id;
+    RETURN job_id;
+  END IF;
+
+  UPDATE public.crawl_jobs
+  SET request_id = net.http_post(
+    url := rtrim(project_url, '/') || '/functions/v1/regulation-crawler',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || service_key
+    ),
+    body := jsonb_build_object('portalId', target_portal_id, 'jobId', job_id),
+    timeout_milliseconds := 300000
+  )
+  WHERE id = job_id;
+
+  RETURN job_id;
+END;
+$$;
+
+-- Keep one pg_cron job per active, scheduled portal
+CREATE OR REPLACE FUNCTION public.sync_portal_crawl_schedule()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  portal RECORD;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    portal := OLD;
+  ELSE
+    portal := NEW;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'crawl-portal-' || portal.id) THEN
+    PERFORM cron.unschedule('crawl-portal-' || portal.id);
+  END IF;
+
+  IF TG_OP <> 'DELETE' AND NEW.is_active AND NEW.crawl_schedule IS NOT NULL THEN
+    PERFORM cron.schedule(
+      'crawl-portal-' || NEW.id,
+      public.crawl_schedule_to_cron(NEW.crawl_schedule),
+      format('SELECT public.invoke_scheduled_crawl(%L::uuid)', NEW.id)
+    );
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Both run with the owner's rights and reach the service role key: only pg_cron
+-- (invoke_scheduled_crawl) and the trigger (sync_portal_crawl_schedule) may call them
+REVOKE EXECUTE ON FUNCTION public.invoke_scheduled_crawl(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.sync_portal_crawl_schedule() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER sync_regulation_portals_crawl_schedule
+  AFTER INSERT OR DELETE OR UPDATE OF crawl_schedule, is_active ON public.regulation_portals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_portal_crawl_schedule();
+
+-- Schedule the existing portals (filling the column default does not fire the trigger)
+UPDATE public.regulation_portals SET crawl_schedule = '1 day';
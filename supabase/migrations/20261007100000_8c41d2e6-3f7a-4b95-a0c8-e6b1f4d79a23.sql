@@ -0,0 +1,19 @@
+-- Per-portal crawl settings, previously hard-coded in the regulation crawler.
+-- Patterns are case-insensitive regular expressions matched against each mapped URL.
+ALTER TABLE public.regulation_portals
+  ADD COLUMN include_patterns TEXT[] NOT NULL DEFAULT ARRAY[
+    'circular', 'notification', 'order', 'amendment', 'act', 'rule',
+    'guideline', 'press', 'gazette', 'faq', 'instruction', 'directive'
+  ],
+  ADD COLUMN exclude_patterns TEXT[] NOT NULL DEFAULT ARRAY['/hindi/'],
+  -- Relevant URLs indexed per crawl
+  ADD COLUMN max_urls INTEGER NOT NULL DEFAULT 5 CHECK (max_urls BETWEEN 1 AND 100),
+  -- URLs requested from the site map before filtering
+  ADD COLUMN map_limit INTEGER NOT NULL DEFAULT 50 CHECK (map_limit BETWEEN 1 AND 5000),
+  ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+CREATE TRIGGER update_regulation_portals_updated_at
+BEFORE UPDATE ON public.regulation_portals
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
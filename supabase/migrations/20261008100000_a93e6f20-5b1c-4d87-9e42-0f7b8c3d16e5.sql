@@ -0,0 +1,100 @@
+-- Semantic retrieval: regulation chunks are embedded (768 dimensions, see
+-- EMBEDDING_DIMENSIONS in the AI provider layer) and searched by cosine similarity
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+ALTER TABLE public.regulation_chunks
+  ADD COLUMN embedding extensions.vector(768),
+  -- Provider/model that produced the embedding; vectors from different models are not comparable
+  ADD COLUMN embedding_model TEXT,
+  ADD COLUMN embedded_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_regulation_chunks_embedding
+ON public.regulation_chunks
+USING hnsw (embedding extensions.vector_cosine_ops);
+
+CREATE INDEX idx_regulation_chunks_pending
+ON public.regulation_chunks(created_at)
+WHERE embedding IS NULL;
+
+-- Top-k chunks most similar to a query embedding, best match first
+CREATE OR REPLACE FUNCTION public.match_regulation_chunks(
+  query_embedding extensions.vector(768),
+  match_count INTEGER DEFAULT 5,
+  min_similarity DOUBLE PRECISION DEFAULT 0,
+  filter_regulation_ids UUID[] DEFAULT NULL,
+  filter_embedding_model TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  regulation_id UUID,
+  chunk_index INTEGER,
+  content TEXT,
+  page_number INTEGER,
+  paragraph_start INTEGER,
+  paragraph_end INTEGER,
+  similarity DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT
+    c.id,
+    c.regulation_id,
+    c.chunk_index,
+    c.content,
+    c.page_number,
+    c.paragraph_start,
+    c.paragraph_end,
+    1 - (c.embedding <=> query_embedding) AS similarity
+  FROM public.regulation_chunks c
+  WHERE c.embedding IS NOT NULL
+    AND (filter_regulation_ids IS NULL OR c.regulation_id = ANY(filter_regulation_ids))
+    AND (filter_embedding_model IS NULL OR c.embedding_model = filter_embedding_model)
+    AND 1 - (c.embedding <=> query_embedding) >= min_similarity
+  ORDER BY c.embedding <=> query_embedding
+  LIMIT LEAST(GREATEST(match_count, 1), 50);
+$$;
+
+-- Embed new chunks (and chunk regulations indexed before chunking existed)
+-- every ten minutes, using the Vault secrets set up for scheduled crawling
+CREATE OR REPLACE FUNCTION public.invoke_embed_regulations()
+RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  project_url TEXT;
+  service_key TEXT;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.regulation_chunks WHERE embedding IS NULL)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.indexed_regulations r
+      WHERE r.content IS NOT NULL
+        AND NOT EXISTS (SELECT 1 FROM public.regulation_chunks c WHERE c.regulation_id = r.id)
+    ) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT decrypted_secret INTO project_url FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO service_key FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+  IF project_url IS NULL OR service_key IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN net.http_post(
+    url := rtrim(project_url, '/') || '/functions/v1/embed-regulations',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || service_key
+    ),
+    body := '{}'::jsonb,
+    timeout_milliseconds := 300000
+  );
+END;
+$$;
+
+-- Runs with the owner's rights and reaches the service role key: pg_cron only
+REVOKE EXECUTE ON FUNCTION public.invoke_embed_regulations() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule('embed-regulations', '*/10 * * * *', 'SELECT public.invoke_embed_regulations()');
@@ -0,0 +1,81 @@
+-- Compliance chat threads, one user each
+CREATE TABLE public.chat_threads (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Null until the first question has been titled
+  title TEXT,
+  -- Rolling summary of the oldest messages, which are no longer sent to the model verbatim
+  summary TEXT,
+  summarized_message_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_chat_threads_user_updated ON public.chat_threads(user_id, updated_at DESC);
+
+CREATE TABLE public.chat_messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  thread_id UUID NOT NULL REFERENCES public.chat_threads(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+  content TEXT NOT NULL,
+  citations JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_chat_messages_thread_created ON public.chat_messages(thread_id, created_at);
+
+-- Enable RLS
+ALTER TABLE public.chat_threads ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.chat_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own chat threads"
+ON public.chat_threads FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own chat threads"
+ON public.chat_threads FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own chat threads"
+ON public.chat_threads FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own chat threads"
+ON public.chat_threads FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view messages in their own chat threads"
+ON public.chat_messages FOR SELECT
+TO authenticated
+USING (EXISTS (SELECT 1 FROM public.chat_threads t WHERE t.id = thread_id AND t.user_id = auth.uid()));
+
+CREATE POLICY "Users can insert messages in their own chat threads"
+ON public.chat_messages FOR INSERT
+TO authenticated
+WITH CHECK (EXISTS (SELECT 1 FROM public.chat_threads t WHERE t.id = thread_id AND t.user_id = auth.uid()));
+
+CREATE TRIGGER update_chat_threads_updated_at
+BEFORE UPDATE ON public.chat_threads
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A new message moves its thread to the top of the list
+CREATE OR REPLACE FUNCTION public.touch_chat_thread()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.chat_threads SET updated_at = now() WHERE id = NEW.thread_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER touch_chat_messages_thread
+AFTER INSERT ON public.chat_messages
+FOR EACH ROW
+EXECUTE FUNCTION public.touch_chat_thread();
@@ -0,0 +1,6 @@
+-- Extraction confidence for transactions read from documents
+ALTER TABLE public.transactions
+  ADD COLUMN field_confidence JSONB,
+  ADD COLUMN source_page INTEGER;
+
+COMMENT ON COLUMN public.transactions.field_confidence IS 'Per-field extraction confidence (0-1), e.g. {"amount": 0.95, "tax": 0.4}; null for manual and imported entries';
@@ -0,0 +1,42 @@
+-- Saved column mappings for spreadsheet transaction imports, one user each
+CREATE TABLE public.import_mapping_presets (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  -- Normalized source headers of the file the preset was made for, to pick it again for the same layout
+  headers TEXT[] NOT NULL DEFAULT '{}',
+  -- Transaction field -> source column header
+  mapping JSONB NOT NULL DEFAULT '{}'::jsonb,
+  default_category TEXT NOT NULL DEFAULT 'Expense',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+-- Enable RLS
+ALTER TABLE public.import_mapping_presets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own import mapping presets"
+ON public.import_mapping_presets FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own import mapping presets"
+ON public.import_mapping_presets FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own import mapping presets"
+ON public.import_mapping_presets FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own import mapping presets"
+ON public.import_mapping_presets FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_import_mapping_presets_updated_at
+BEFORE UPDATE ON public.import_mapping_presets
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
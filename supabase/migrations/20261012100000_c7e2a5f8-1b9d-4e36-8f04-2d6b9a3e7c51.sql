@@ -0,0 +1,19 @@
+-- Transaction amounts as integer minor units (paise for INR) plus an ISO 4217 currency,
+-- replacing formatted text such as '₹1,25,00,000'
+ALTER TABLE public.transactions
+  ADD COLUMN amount_paise BIGINT,
+  ADD COLUMN tax_paise BIGINT,
+  ADD COLUMN currency TEXT NOT NULL DEFAULT 'INR';
+
+-- Existing rows were all entered in rupees; anything without digits becomes zero
+UPDATE public.transactions SET
+  amount_paise = COALESCE(ROUND(NULLIF(regexp_replace(amount, '[^0-9.-]', '', 'g'), '')::NUMERIC * 100), 0),
+  tax_paise = COALESCE(ROUND(NULLIF(regexp_replace(tax, '[^0-9.-]', '', 'g'), '')::NUMERIC * 100), 0);
+
+ALTER TABLE public.transactions
+  ALTER COLUMN amount_paise SET NOT NULL,
+  ALTER COLUMN tax_paise SET NOT NULL,
+  ALTER COLUMN tax_paise SET DEFAULT 0,
+  ADD CONSTRAINT transactions_currency_check CHECK (currency ~ '^[A-Z]{3}$'),
+  DROP COLUMN amount,
+  DROP COLUMN tax;
@@ -0,0 +1,10 @@
+-- Tax identifiers on transactions, validated client-side before compliance checks
+ALTER TABLE public.transactions
+  ADD COLUMN gstin TEXT,
+  ADD COLUMN pan TEXT,
+  ADD COLUMN invoice_number TEXT,
+  ADD COLUMN place_of_supply TEXT,
+  ADD COLUMN hsn_sac TEXT;
+
+COMMENT ON COLUMN public.transactions.gstin IS 'Supplier GSTIN as recorded; stored unvalidated so invalid values can be reported';
+COMMENT ON COLUMN public.transactions.place_of_supply IS 'GST place of supply as a state code and/or name, e.g. 27-Maharashtra';
@@ -0,0 +1,46 @@
+-- Declared GST components on transactions; null when the source does not break the tax down
+ALTER TABLE public.transactions
+  ADD COLUMN cgst_paise BIGINT,
+  ADD COLUMN sgst_paise BIGINT,
+  ADD COLUMN igst_paise BIGINT;
+
+-- GST rates per HSN/SAC code that a user added or changed over the built-in table
+CREATE TABLE public.gst_rates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Code or prefix, digits only; the longest matching prefix applies
+  hsn_sac TEXT NOT NULL CHECK (hsn_sac ~ '^[0-9]{2,8}$'),
+  rate NUMERIC(5, 2) NOT NULL CHECK (rate >= 0 AND rate <= 100),
+  description TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, hsn_sac)
+);
+
+-- Enable RLS
+ALTER TABLE public.gst_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own GST rates"
+ON public.gst_rates FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own GST rates"
+ON public.gst_rates FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own GST rates"
+ON public.gst_rates FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own GST rates"
+ON public.gst_rates FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_gst_rates_updated_at
+BEFORE UPDATE ON public.gst_rates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,4 @@
+-- TDS deducted from a payment and the section it was deducted under; null when not recorded
+ALTER TABLE public.transactions
+  ADD COLUMN tds_paise BIGINT,
+  ADD COLUMN tds_section TEXT;
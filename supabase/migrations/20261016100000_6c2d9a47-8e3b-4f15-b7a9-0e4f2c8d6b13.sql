@@ -0,0 +1,8 @@
+-- Procurement metadata on transactions, checked against the General Financial Rules
+ALTER TABLE public.transactions
+  ADD COLUMN procurement_mode TEXT CHECK (procurement_mode IN (
+    'without_quotation', 'purchase_committee', 'limited_tender', 'open_tender',
+    'single_tender', 'gem_direct', 'gem_l1', 'gem_bid'
+  )),
+  ADD COLUMN bids_received INTEGER CHECK (bids_received >= 0),
+  ADD COLUMN tender_reference TEXT;
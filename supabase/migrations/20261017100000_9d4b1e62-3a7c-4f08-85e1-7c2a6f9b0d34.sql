@@ -0,0 +1,57 @@
+-- Remediation tasks opened for violations and missing documents in audit reports.
+-- Findings are copied onto the task so it outlives the report and results it came from.
+-- A finding is identified by its transaction and clause, which stay the same across
+-- runs, unlike the compliance result ids.
+CREATE TABLE public.remediation_tasks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  audit_report_id TEXT NOT NULL,
+  compliance_result_id TEXT NOT NULL,
+  transaction_id TEXT NOT NULL,
+  vendor TEXT NOT NULL DEFAULT '',
+  clause_reference TEXT NOT NULL,
+  finding_type TEXT NOT NULL CHECK (finding_type IN ('violation', 'missing_docs')),
+  finding TEXT NOT NULL,
+  corrective_action TEXT NOT NULL,
+  owner TEXT NOT NULL DEFAULT '',
+  due_date DATE NOT NULL,
+  priority TEXT NOT NULL CHECK (priority IN ('high', 'medium', 'low')),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'in_progress', 'resolved', 'accepted_risk')),
+  -- How the finding was closed; required to resolve a task or accept its risk
+  resolution_note TEXT NOT NULL DEFAULT '',
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, transaction_id, clause_reference),
+  CHECK (status IN ('open', 'in_progress') OR (resolution_note <> '' AND resolved_at IS NOT NULL))
+);
+
+CREATE INDEX idx_remediation_tasks_user_status ON public.remediation_tasks(user_id, status, due_date);
+
+-- Enable RLS
+ALTER TABLE public.remediation_tasks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own remediation tasks"
+ON public.remediation_tasks FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own remediation tasks"
+ON public.remediation_tasks FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own remediation tasks"
+ON public.remediation_tasks FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own remediation tasks"
+ON public.remediation_tasks FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_remediation_tasks_updated_at
+BEFORE UPDATE ON public.remediation_tasks
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,57 @@
+-- Evidence files (invoices, bid comparatives, sanction orders) attached to transactions and compliance results.
+-- Files live in the private "evidence" bucket under the owner's user id; rows are never updated, so the
+-- recorded SHA-256 always describes the file as uploaded.
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('evidence', 'evidence', false, 10485760)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can view their own evidence files"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (bucket_id = 'evidence' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can upload their own evidence files"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (bucket_id = 'evidence' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can delete their own evidence files"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (bucket_id = 'evidence' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE TABLE public.evidence_files (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  transaction_id TEXT NOT NULL,
+  -- Null for evidence that belongs to the transaction as a whole
+  compliance_result_id TEXT,
+  -- Which required document the file provides, e.g. an entry of the result's missing documents
+  document_type TEXT NOT NULL DEFAULT '',
+  file_name TEXT NOT NULL,
+  storage_path TEXT NOT NULL UNIQUE,
+  mime_type TEXT NOT NULL DEFAULT '',
+  size_bytes BIGINT NOT NULL CHECK (size_bytes >= 0),
+  sha256 TEXT NOT NULL CHECK (sha256 ~ '^[0-9a-f]{64}$'),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_evidence_files_transaction ON public.evidence_files(user_id, transaction_id);
+
+-- Enable RLS
+ALTER TABLE public.evidence_files ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own evidence"
+ON public.evidence_files FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own evidence"
+ON public.evidence_files FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own evidence"
+ON public.evidence_files FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
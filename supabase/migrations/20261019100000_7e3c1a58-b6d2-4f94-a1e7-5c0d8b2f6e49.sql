@@ -0,0 +1,504 @@
+-- Organizations: team workspaces whose members share transactions, compliance results, audit
+-- reports and runs, remediation tasks, evidence and GST rates. Every user has a personal
+-- workspace and can be added to others by their admins. A member's role decides what they
+-- may change:
+--   admin     manages the workspace and its members, and everything an auditor can do
+--   auditor   runs audits and edits workspace data
+--   reviewer  marks results compliant, works remediation tasks and attaches evidence
+--   viewer    reads only
+-- Workspace data is visible in the workspace the user is working in (their active one).
+-- Regulations and parsed clauses stay a corpus shared by all workspaces; chat threads and
+-- import mapping presets stay personal.
+
+CREATE TABLE public.organizations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.organization_members (
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'viewer' CHECK (role IN ('admin', 'auditor', 'reviewer', 'viewer')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (organization_id, user_id)
+);
+
+CREATE INDEX idx_organization_members_user ON public.organization_members(user_id);
+
+ALTER TABLE public.profiles
+  ADD COLUMN active_organization_id UUID REFERENCES public.organizations(id) ON DELETE SET NULL;
+
+CREATE TRIGGER update_organizations_updated_at
+BEFORE UPDATE ON public.organizations
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The caller's role in an organization, or NULL when they are not a member
+CREATE OR REPLACE FUNCTION public.organization_role(org UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT role FROM public.organization_members WHERE organization_id = org AND user_id = auth.uid();
+$$;
+
+-- The workspace the caller is working in: the active one on their profile while they are
+-- still a member of it, else the first they joined
+CREATE OR REPLACE FUNCTION public.active_organization_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT m.organization_id
+  FROM public.organization_members m
+  LEFT JOIN public.profiles p ON p.id = m.user_id
+  WHERE m.user_id = auth.uid()
+  ORDER BY (m.organization_id = p.active_organization_id) DESC NULLS LAST, m.created_at
+  LIMIT 1;
+$$;
+
+-- The caller's role for rows of an organization: NULL unless it is their active workspace
+CREATE OR REPLACE FUNCTION public.workspace_role(org UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT CASE WHEN org = public.active_organization_id() THEN public.organization_role(org) END;
+$$;
+
+-- Every organization keeps at least one admin, unless the organization or user itself is being deleted
+CREATE OR REPLACE FUNCTION public.keep_organization_admin()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF OLD.role = 'admin'
+    AND (TG_OP = 'DELETE' OR NEW.role <> 'admin')
+    AND EXISTS (SELECT 1 FROM public.organizations WHERE id = OLD.organization_id)
+    AND EXISTS (SELECT 1 FROM auth.users WHERE id = OLD.user_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.organization_members
+      WHERE organization_id = OLD.organization_id AND role = 'admin' AND user_id <> OLD.user_id
+    )
+  THEN
+    RAISE EXCEPTION 'An organization must keep at least one admin';
+  END IF;
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER keep_organization_admin
+BEFORE UPDATE OR DELETE ON public.organization_members
+FOR EACH ROW
+EXECUTE FUNCTION public.keep_organization_admin();
+
+-- Create an organization with the caller as its admin and switch them to it
+CREATE OR REPLACE FUNCTION public.create_organization(org_name TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  org UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to create an organization';
+  END IF;
+  INSERT INTO public.organizations (name, created_by) VALUES (btrim(org_name), auth.uid()) RETURNING id INTO org;
+  INSERT INTO public.organization_members (organization_id, user_id, role) VALUES (org, auth.uid(), 'admin');
+  UPDATE public.profiles SET active_organization_id = org WHERE id = auth.uid();
+  RETURN org;
+END;
+$$;
+
+-- Add a signed-up user to an organization by email, or change the role of an existing member
+CREATE OR REPLACE FUNCTION public.add_organization_member(org UUID, member_email TEXT, member_role TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  member UUID;
+BEGIN
+  IF public.organization_role(org) IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only admins can add members';
+  END IF;
+  SELECT id INTO member FROM public.profiles WHERE lower(email) = lower(btrim(member_email));
+  IF member IS NULL THEN
+    RAISE EXCEPTION 'No user has signed up with %', btrim(member_email);
+  END IF;
+  INSERT INTO public.organization_members (organization_id, user_id, role)
+  VALUES (org, member, member_role)
+  ON CONFLICT (organization_id, user_id) DO UPDATE SET role = EXCLUDED.role;
+  RETURN member;
+END;
+$$;
+
+-- New users start in a personal workspace of their own
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  display TEXT := COALESCE(new.raw_user_meta_data ->> 'display_name', split_part(new.email, '@', 1));
+  org UUID;
+BEGIN
+  INSERT INTO public.organizations (name, created_by)
+  VALUES (COALESCE(display || '''s workspace', 'Personal workspace'), new.id)
+  RETURNING id INTO org;
+  INSERT INTO public.organization_members (organization_id, user_id, role) VALUES (org, new.id, 'admin');
+  INSERT INTO public.profiles (id, email, display_name, active_organization_id)
+  VALUES (new.id, new.email, display, org);
+  RETURN new;
+END;
+$$;
+
+-- Existing users get a personal workspace that takes over their data
+CREATE TEMP TABLE personal_workspaces (user_id UUID PRIMARY KEY, organization_id UUID NOT NULL);
+
+DO $$
+DECLARE
+  u RECORD;
+  org UUID;
+BEGIN
+  FOR u IN SELECT au.id, p.display_name FROM auth.users au LEFT JOIN public.profiles p ON p.id = au.id LOOP
+    INSERT INTO public.organizations (name, created_by)
+    VALUES (COALESCE(u.display_name || '''s workspace', 'Personal workspace'), u.id)
+    RETURNING id INTO org;
+    INSERT INTO public.organization_members (organization_id, user_id, role) VALUES (org, u.id, 'admin');
+    INSERT INTO personal_workspaces (user_id, organization_id) VALUES (u.id, org);
+  END LOOP;
+END;
+$$;
+
+UPDATE public.profiles p SET active_organization_id = w.organization_id
+FROM personal_workspaces w WHERE w.user_id = p.id;
+
+-- Workspace column on shared data; inserts default to the caller's active workspace
+ALTER TABLE public.transactions ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.compliance_results ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.audit_reports ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.audit_runs ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.remediation_tasks ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.evidence_files ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.gst_rates ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+
+UPDATE public.transactions t SET organization_id = w.organization_id FROM personal_workspaces w WHERE w.user_id = t.user_id;
+UPDATE public.compliance_results t SET organization_id = w.organization_id FROM personal_workspaces w WHERE w.user_id = t.user_id;
+UPDATE public.audit_reports t SET organization_id = w.organization_id FROM personal_workspaces w WHERE w.user_id = t.user_id;
+UPDATE public.audit_runs t SET organization_id = w.organization_id FROM personal_workspaces w WHERE w.user_id = t.user_id;
+UPDATE public.remediation_tasks t SET organization_id = w.organization_id FROM personal_workspaces w WHERE w.user_id = t.user_id;
+UPDATE public.evidence_files t SET organization_id = w.organization_id FROM personal_workspaces w WHERE w.user_id = t.user_id;
+UPDATE public.gst_rates t SET organization_id = w.organization_id FROM personal_workspaces w WHERE w.user_id = t.user_id;
+
+DROP TABLE personal_workspaces;
+
+ALTER TABLE public.transactions
+  ALTER COLUMN organization_id SET NOT NULL,
+  ALTER COLUMN organization_id SET DEFAULT public.active_organization_id();
+ALTER TABLE public.compliance_results
+  ALTER COLUMN organization_id SET NOT NULL,
+  ALTER COLUMN organization_id SET DEFAULT public.active_organization_id();
+ALTER TABLE public.audit_reports
+  ALTER COLUMN organization_id SET NOT NULL,
+  ALTER COLUMN organization_id SET DEFAULT public.active_organization_id();
+ALTER TABLE public.audit_runs
+  ALTER COLUMN organization_id SET NOT NULL,
+  ALTER COLUMN organization_id SET DEFAULT public.active_organization_id();
+ALTER TABLE public.remediation_tasks
+  ALTER COLUMN organization_id SET NOT NULL,
+  ALTER COLUMN organization_id SET DEFAULT public.active_organization_id();
+ALTER TABLE public.evidence_files
+  ALTER COLUMN organization_id SET NOT NULL,
+  ALTER COLUMN organization_id SET DEFAULT public.active_organization_id();
+ALTER TABLE public.gst_rates
+  ALTER COLUMN organization_id SET NOT NULL,
+  ALTER COLUMN organization_id SET DEFAULT public.active_organization_id();
+
+-- The pipeline working set belongs to the workspace; user_id records who first wrote each row
+ALTER TABLE public.transactions DROP CONSTRAINT transactions_pkey, ADD PRIMARY KEY (organization_id, id);
+ALTER TABLE public.compliance_results DROP CONSTRAINT compliance_results_pkey, ADD PRIMARY KEY (organization_id, id);
+ALTER TABLE public.audit_reports DROP CONSTRAINT audit_reports_pkey, ADD PRIMARY KEY (organization_id, id);
+ALTER TABLE public.remediation_tasks
+  DROP CONSTRAINT remediation_tasks_user_id_transaction_id_clause_reference_key,
+  ADD UNIQUE (organization_id, transaction_id, clause_reference);
+
+-- Re-saving another member's row keeps them as its writer, so clearing their own rows still covers it
+CREATE OR REPLACE FUNCTION public.keep_row_writer()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.user_id := OLD.user_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER keep_transactions_writer
+BEFORE UPDATE ON public.transactions
+FOR EACH ROW
+EXECUTE FUNCTION public.keep_row_writer();
+
+CREATE TRIGGER keep_compliance_results_writer
+BEFORE UPDATE ON public.compliance_results
+FOR EACH ROW
+EXECUTE FUNCTION public.keep_row_writer();
+
+CREATE TRIGGER keep_audit_reports_writer
+BEFORE UPDATE ON public.audit_reports
+FOR EACH ROW
+EXECUTE FUNCTION public.keep_row_writer();
+ALTER TABLE public.gst_rates
+  DROP CONSTRAINT gst_rates_user_id_hsn_sac_key,
+  ADD UNIQUE (organization_id, hsn_sac);
+
+DROP INDEX public.idx_compliance_results_transaction;
+DROP INDEX public.idx_audit_reports_generated_at;
+DROP INDEX public.idx_audit_runs_user_started;
+DROP INDEX public.idx_remediation_tasks_user_status;
+DROP INDEX public.idx_evidence_files_transaction;
+CREATE INDEX idx_compliance_results_transaction ON public.compliance_results(organization_id, transaction_id);
+CREATE INDEX idx_audit_reports_generated_at ON public.audit_reports(organization_id, generated_at DESC);
+CREATE INDEX idx_audit_runs_organization_started ON public.audit_runs(organization_id, started_at DESC);
+CREATE INDEX idx_remediation_tasks_organization_status ON public.remediation_tasks(organization_id, status, due_date);
+CREATE INDEX idx_evidence_files_transaction ON public.evidence_files(organization_id, transaction_id);
+
+-- Enable RLS
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_members ENABLE ROW LEVEL SECURITY;
+
+-- Members and creation go through create_organization and add_organization_member
+CREATE POLICY "Members can view their organizations"
+ON public.organizations FOR SELECT
+TO authenticated
+USING (public.organization_role(id) IS NOT NULL);
+
+CREATE POLICY "Admins can update their organizations"
+ON public.organizations FOR UPDATE
+TO authenticated
+USING (public.organization_role(id) = 'admin');
+
+CREATE POLICY "Members can view memberships of their organizations"
+ON public.organization_members FOR SELECT
+TO authenticated
+USING (user_id = auth.uid() OR public.organization_role(organization_id) IS NOT NULL);
+
+CREATE POLICY "Admins can change member roles"
+ON public.organization_members FOR UPDATE
+TO authenticated
+USING (public.organization_role(organization_id) = 'admin');
+
+CREATE POLICY "Admins can remove members and members can leave"
+ON public.organization_members FOR DELETE
+TO authenticated
+USING (user_id = auth.uid() OR public.organization_role(organization_id) = 'admin');
+
+CREATE POLICY "Members can view profiles of people in their organizations"
+ON public.profiles FOR SELECT
+TO authenticated
+USING (EXISTS (
+  SELECT 1 FROM public.organization_members m
+  WHERE m.user_id = profiles.id AND public.organization_role(m.organization_id) IS NOT NULL
+));
+
+-- Shared data: members read, auditors write; reviewers may also update results and tasks and add evidence
+DROP POLICY "Users can manage their own transactions" ON public.transactions;
+DROP POLICY "Users can manage their own compliance results" ON public.compliance_results;
+DROP POLICY "Users can manage their own audit reports" ON public.audit_reports;
+DROP POLICY "Users can view their own audit runs" ON public.audit_runs;
+DROP POLICY "Users can insert their own audit runs" ON public.audit_runs;
+DROP POLICY "Users can delete their own audit runs" ON public.audit_runs;
+DROP POLICY "Users can view their own remediation tasks" ON public.remediation_tasks;
+DROP POLICY "Users can insert their own remediation tasks" ON public.remediation_tasks;
+DROP POLICY "Users can update their own remediation tasks" ON public.remediation_tasks;
+DROP POLICY "Users can delete their own remediation tasks" ON public.remediation_tasks;
+DROP POLICY "Users can view their own evidence" ON public.evidence_files;
+DROP POLICY "Users can insert their own evidence" ON public.evidence_files;
+DROP POLICY "Users can delete their own evidence" ON public.evidence_files;
+DROP POLICY "Users can view their own GST rates" ON public.gst_rates;
+DROP POLICY "Users can insert their own GST rates" ON public.gst_rates;
+DROP POLICY "Users can update their own GST rates" ON public.gst_rates;
+DROP POLICY "Users can delete their own GST rates" ON public.gst_rates;
+
+CREATE POLICY "Members can view workspace transactions"
+ON public.transactions FOR SELECT
+TO authenticated
+USING (public.workspace_role(organization_id) IS NOT NULL);
+
+CREATE POLICY "Auditors can insert workspace transactions"
+ON public.transactions FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id AND public.workspace_role(organization_id) IN ('admin', 'auditor'));
+
+CREATE POLICY "Auditors can update workspace transactions"
+ON public.transactions FOR UPDATE
+TO authenticated
+USING (public.workspace_role(organization_id) IN ('admin', 'auditor'))
+WITH CHECK (public.workspace_role(organization_id) IN ('admin', 'auditor'));
+
+CREATE POLICY "Auditors can delete workspace transactions"
+ON public.transactions FOR DELETE
+TO authenticated
+USING (public.workspace_role(organization_id) IN ('admin', 'auditor'));
+
+CREATE POLICY "Members can view workspace compliance results"
+ON public.compliance_results FOR SELECT
+TO authenticated
+USING (public.workspace_role(organization_id) IS NOT NULL);
+
+CREATE POLICY "Auditors can insert workspace compliance results"
+ON public.compliance_results FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id AND public.workspace_role(organization_id) IN ('admin', 'auditor'));
+
+CREATE POLICY "Reviewers can update workspace compliance results"
+ON public.compliance_results FOR UPDATE
+TO authenticated
+USING (public.workspace_role(organization_id) IN ('admin', 'auditor', 'reviewer'))
+WITH CHECK (public.workspace_role(organization_id) IN ('admin', 'auditor', 'reviewer'));
+
+CREATE POLICY "Auditors can delete workspace compliance results"
+ON public.compliance_results FOR DELETE
+TO authenticated
+USING (public.workspace_role(organization_id) IN ('admin', 'auditor'));
+
+CREATE POLICY "Members can view workspace audit reports"
+ON public.audit_reports FOR SELECT
+TO authenticated
+USING (public.workspace_role(organization_id) IS NOT NULL);
+
+CREATE POLICY "Auditors can insert workspace audit reports"
+ON public.audit_reports FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id AND public.workspace_role(organization_id) IN ('admin', 'auditor'));
+
+CREATE POLICY "Auditors can update workspace audit reports"
+ON public.audit_reports FOR UPDATE
+TO authenticated
+USING (public.workspace_role(organization_id) IN ('admin', 'auditor'))
+WITH CHECK (public.workspace_role(organization_id) IN ('admin', 'auditor'));
+
+CREATE POLICY "Auditors can delete workspace audit reports"
+ON public.audit_reports FOR DELETE
+TO authenticated
+USING (public.workspace_role(organization_id) IN ('admin', 'auditor'));
+
+CREATE POLICY "Members can view workspace audit runs"
+ON public.audit_runs FOR SELECT
+TO authenticated
+USING (public.workspace_role(organization_id) IS NOT NULL);
+
+CREATE POLICY "Auditors can insert workspace audit runs"
+ON public.audit_runs FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id AND public.workspace_role(organization_id) IN ('admin', 'auditor'));
+
+CREATE POLICY "Auditors can delete workspace audit runs"
+ON public.audit_runs FOR DELETE
+TO authenticated
+USING (public.workspace_role(organization_id) IN ('admin', 'auditor'));
+
+CREATE POLICY "Members can view workspace remediation tasks"
+ON public.remediation_tasks FOR SELECT
+TO authenticated
+USING (public.workspace_role(organization_id) IS NOT NULL);
+
+CREATE POLICY "Auditors can insert workspace remediation tasks"
+ON public.remediation_tasks FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id AND public.workspace_role(organization_id) IN ('admin', 'auditor'));
+
+CREATE POLICY "Reviewers can update workspace remediation tasks"
+ON public.remediation_tasks FOR UPDATE
+TO authenticated
+USING (public.workspace_role(organization_id) IN ('admin', 'auditor', 'reviewer'));
+
+CREATE POLICY "Auditors can delete workspace remediation tasks"
+ON public.remediation_tasks FOR DELETE
+TO authenticated
+USING (public.workspace_role(organization_id) IN ('admin', 'auditor'));
+
+CREATE POLICY "Members can view workspace evidence"
+ON public.evidence_files FOR SELECT
+TO authenticated
+USING (public.workspace_role(organization_id) IS NOT NULL);
+
+-- A row may only name an object in the uploader's own folder, since rows grant access to their object
+CREATE POLICY "Reviewers can insert workspace evidence"
+ON public.evidence_files FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = user_id
+  AND (storage.foldername(storage_path))[1] = auth.uid()::text
+  AND public.workspace_role(organization_id) IN ('admin', 'auditor', 'reviewer')
+);
+
+CREATE POLICY "Auditors and uploaders can delete workspace evidence"
+ON public.evidence_files FOR DELETE
+TO authenticated
+USING (
+  public.workspace_role(organization_id) IN ('admin', 'auditor')
+  OR (auth.uid() = user_id AND public.workspace_role(organization_id) IS NOT NULL)
+);
+
+CREATE POLICY "Members can view workspace GST rates"
+ON public.gst_rates FOR SELECT
+TO authenticated
+USING (public.workspace_role(organization_id) IS NOT NULL);
+
+CREATE POLICY "Auditors can insert workspace GST rates"
+ON public.gst_rates FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id AND public.workspace_role(organization_id) IN ('admin', 'auditor'));
+
+CREATE POLICY "Auditors can update workspace GST rates"
+ON public.gst_rates FOR UPDATE
+TO authenticated
+USING (public.workspace_role(organization_id) IN ('admin', 'auditor'))
+WITH CHECK (auth.uid() = user_id AND public.workspace_role(organization_id) IN ('admin', 'auditor'));
+
+CREATE POLICY "Auditors can delete workspace GST rates"
+ON public.gst_rates FOR DELETE
+TO authenticated
+USING (public.workspace_role(organization_id) IN ('admin', 'auditor'));
+
+-- Evidence objects stay under the uploader's folder; other members reach them through their row
+DROP POLICY "Users can view their own evidence files" ON storage.objects;
+DROP POLICY "Users can delete their own evidence files" ON storage.objects;
+
+CREATE POLICY "Members can view workspace evidence files"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'evidence'
+  AND (
+    (storage.foldername(name))[1] = auth.uid()::text
+    OR EXISTS (
+      SELECT 1 FROM public.evidence_files e
+      WHERE e.storage_path = name AND public.workspace_role(e.organization_id) IS NOT NULL
+    )
+  )
+);
+
+CREATE POLICY "Uploaders and auditors can delete workspace evidence files"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'evidence'
+  AND (
+    (storage.foldername(name))[1] = auth.uid()::text
+    OR EXISTS (
+      SELECT 1 FROM public.evidence_files e
+      WHERE e.storage_path = name AND public.workspace_role(e.organization_id) IN ('admin', 'auditor')
+    )
+  )
+);